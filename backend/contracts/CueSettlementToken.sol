@@ -0,0 +1,90 @@
+// SPDX-License-Identifier: MIT
+// ============================================================================
+// 🔗 CUE 정산 토큰 (ERC-20 + 원장 루트 기록 + 출금 발행)
+// 경로: backend/contracts/CueSettlementToken.sol
+// 용도: 오프체인 CUE 원장 묶음의 Merkle 루트를 기록하고, 출금 요청만큼 사용자 지갑에 발행
+// 배포 (로컬 Anvil 예시):
+//   forge create contracts/CueSettlementToken.sol:CueSettlementToken \
+//     --rpc-url http://127.0.0.1:8545 --private-key <운영자 개인키> --constructor-args <운영자 주소>
+// 운영자 = 백엔드 CUE_SETTLEMENT_SIGNER 계정
+// ============================================================================
+
+pragma solidity ^0.8.20;
+
+contract CueSettlementToken {
+    string public constant name = "CUE Token";
+    string public constant symbol = "CUE";
+    uint8 public constant decimals = 18;
+
+    uint256 public totalSupply;
+    address public immutable operator;
+
+    mapping(address => uint256) public balanceOf;
+    mapping(address => mapping(address => uint256)) public allowance;
+
+    /// 묶음 번호 → 원장 전기 Merkle 루트
+    mapping(uint256 => bytes32) public ledgerRoots;
+    /// 출금 ID → 발행 완료 여부 (재전송/리오그 시 이중 발행 방지)
+    mapping(bytes32 => bool) public processedWithdrawals;
+
+    event Transfer(address indexed from, address indexed to, uint256 value);
+    event Approval(address indexed owner, address indexed spender, uint256 value);
+    event LedgerRootCommitted(uint256 indexed batchNumber, bytes32 root, uint256 leafCount);
+    event Withdrawal(bytes32 indexed withdrawalId, address indexed to, uint256 amount);
+
+    modifier onlyOperator() {
+        require(msg.sender == operator, "CUE: caller is not the operator");
+        _;
+    }
+
+    constructor(address operator_) {
+        operator = operator_;
+    }
+
+    /// 같은 묶음을 같은 루트로 다시 기록하는 것은 허용 (리오그 후 재전송)
+    function commitLedgerRoot(uint256 batchNumber, bytes32 root, uint256 leafCount) external onlyOperator {
+        bytes32 existing = ledgerRoots[batchNumber];
+        require(existing == bytes32(0) || existing == root, "CUE: batch already has a different root");
+        ledgerRoots[batchNumber] = root;
+        emit LedgerRootCommitted(batchNumber, root, leafCount);
+    }
+
+    function mintWithdrawal(bytes32 withdrawalId, address to, uint256 amount) external onlyOperator {
+        require(!processedWithdrawals[withdrawalId], "CUE: withdrawal already processed");
+        require(to != address(0), "CUE: mint to the zero address");
+        processedWithdrawals[withdrawalId] = true;
+        totalSupply += amount;
+        balanceOf[to] += amount;
+        emit Transfer(address(0), to, amount);
+        emit Withdrawal(withdrawalId, to, amount);
+    }
+
+    function transfer(address to, uint256 value) external returns (bool) {
+        _transfer(msg.sender, to, value);
+        return true;
+    }
+
+    function approve(address spender, uint256 value) external returns (bool) {
+        allowance[msg.sender][spender] = value;
+        emit Approval(msg.sender, spender, value);
+        return true;
+    }
+
+    function transferFrom(address from, address to, uint256 value) external returns (bool) {
+        uint256 allowed = allowance[from][msg.sender];
+        require(allowed >= value, "CUE: insufficient allowance");
+        if (allowed != type(uint256).max) {
+            allowance[from][msg.sender] = allowed - value;
+        }
+        _transfer(from, to, value);
+        return true;
+    }
+
+    function _transfer(address from, address to, uint256 value) internal {
+        require(to != address(0), "CUE: transfer to the zero address");
+        require(balanceOf[from] >= value, "CUE: insufficient balance");
+        balanceOf[from] -= value;
+        balanceOf[to] += value;
+        emit Transfer(from, to, value);
+    }
+}
@@ -1,27 +1,35 @@
 // ============================================================================
 // 🔧 완전한 세션 유지 + 통합 인증 수정 - backend/src/app.ts 전체 교체용
-// 수정사항: 통합 패스키 인증 (로그인/가입 자동 판별) + 데이터 완전 유지
+// 수정사항: 세션 유지 + 패스키 등록/로그인은 /api/auth/webauthn 라우터에서 서명 검증 후 처리
 // ============================================================================
 
+// 라우터/서비스 모듈이 로드 시점에 환경 변수를 읽으므로 가장 먼저 로드
+import 'dotenv/config';
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
-import dotenv from 'dotenv';
-import crypto from 'crypto';
-import jwt from 'jsonwebtoken';
 import { createClient } from '@supabase/supabase-js';
-
-dotenv.config();
+import { getSessionService, SessionError } from './services/auth/SessionService';
+import { getCueSettlementService } from './services/settlement/CueSettlementService';
+import { attachSocketService } from './services/socket/SocketService';
+import { authMiddleware, optionalAuth, resolveAuthUser, RequestWithUser } from './middleware/authMiddleware';
+import webauthnRoutes from './routes/auth/webauthn';
+import aiRoutes from './routes/ai';
+import cueRoutes from './routes/cue';
+import cueReceiptRoutes from './routes/cue/receipts';
+import passportRoutes from './routes/passport';
+import platformRoutes from './routes/platform';
+import vaultRoutes from './routes/vault';
+import didRoutes from './routes/did';
+import walletRoutes from './routes/wallet';
+import vcRoutes from './routes/vc';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
 
 console.log('🚀 Final0626 백엔드 서버 초기화 중...');
 
-// JWT 시크릿
-const JWT_SECRET = process.env.JWT_SECRET || 'temp-secret-key-for-development-only';
-
 // Supabase 설정
 const supabaseUrl = process.env.SUPABASE_URL;
 const supabaseKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
@@ -41,240 +49,54 @@ if (supabaseUrl && supabaseKey && !supabaseUrl.includes('dummy')) {
   console.warn('⚠️ Supabase 환경변수 없음, Mock 데이터베이스 사용');
 }
 
-// 유틸리티 함수
-function base64urlEncode(buffer: Buffer): string {
-  return buffer.toString('base64')
-    .replace(/\+/g, '-')
-    .replace(/\//g, '_')
-    .replace(/=/g, '');
-}
-
-// 세션 저장소 및 WebAuthn 설정
-const sessionStore = new Map<string, any>();
-const rpName = process.env.WEBAUTHN_RP_NAME || 'Final0626 AI Passport';
-const rpID = process.env.WEBAUTHN_RP_ID || 'localhost';
-
 // ============================================================================
 // 🔧 세션 관리자 클래스
 // ============================================================================
 class SessionManager {
-  private sessions = new Map<string, any>();
-  
-  generateSessionToken(userId: string, credentialId: string): string {
-    const payload = {
-      userId,
-      credentialId,
-      type: 'session',
-      iat: Math.floor(Date.now() / 1000),
-      exp: Math.floor(Date.now() / 1000) + (30 * 24 * 60 * 60) // 30일
-    };
-    return jwt.sign(payload, JWT_SECRET);
-  }
-  
-  verifySessionToken(token: string): any {
+  /**
+   * 액세스 토큰 검증 (서버측 세션 폐기 여부 포함)
+   */
+  async verifySessionToken(token: string): Promise<any> {
     try {
-      return jwt.verify(token, JWT_SECRET);
+      const { payload } = await getSessionService().verifyAccessToken(token);
+      return payload;
     } catch (error) {
       console.error('❌ 세션 토큰 검증 실패:', error.message);
       return null;
     }
   }
   
-  async findUserByCredentialId(credentialId: string): Promise<any> {
-    // DatabaseService 사용
-    return await db.findUserByCredentialId(credentialId);
-  }
-
+  /**
+   * 세션 토큰의 사용자 조회 - 인증 미들웨어와 같은 경로 (폐기/만료 시 null)
+   */
   async getUserBySession(sessionToken: string): Promise<any> {
-    const decoded = this.verifySessionToken(sessionToken);
-    if (!decoded) return null;
-    
-    if (useDatabase && supabase) {
-      try {
-        const { data: user, error } = await supabase
-          .from('users')
-          .select('*')
-          .eq('id', decoded.userId)
-          .single();
-          
-        if (error || !user) {
-          console.log('❌ 사용자 조회 실패');
-          return null;
-        }
-        
-        return user;
-      } catch (error) {
-        console.error('❌ 세션 사용자 조회 실패:', error);
-      }
+    try {
+      const authUser = await resolveAuthUser(sessionToken);
+      return authUser.profile;
+    } catch (error) {
+      console.log('❌ 세션 사용자 조회 실패:', error.message);
+      return null;
     }
-    
-    // Mock 폴백
-    return {
-      id: decoded.userId,
-      username: 'MockUser',
-      email: 'mock@example.com',
-      cue_tokens: 15428,
-      trust_score: 85
-    };
   }
 }
 
 const sessionManager = new SessionManager();
 
-// ============================================================================
-// 📊 데이터베이스 서비스 클래스
-// ============================================================================
-class DatabaseService {
-  private mockData = {
-    users: new Map(),
-    credentials: new Map(),
-    transactions: new Map()
-  };
-
-  // 🔍 새로 추가: credential_id로 사용자 찾기 (핵심!)
-  async findUserByCredentialId(credentialId: string): Promise<any> {
-    if (useDatabase && supabase) {
-      try {
-        const { data, error } = await supabase
-          .from('webauthn_credentials')
-          .select(`
-            *,
-            users (
-              id, username, email, did, wallet_address, 
-              trust_score, cue_tokens, passport_level, 
-              biometric_verified, created_at
-            )
-          `)
-          .eq('credential_id', credentialId)
-          .eq('is_active', true)
-          .single();
-          
-        if (error || !data) {
-          console.log('🆕 신규 credential_id:', credentialId);
-          return null;
-        }
-        
-        console.log('🔄 기존 사용자 발견!', {
-          userId: data.users.id,
-          username: data.users.username,
-          cueTokens: data.users.cue_tokens
-        });
-        
-        return data.users;
-      } catch (error) {
-        console.error('❌ credential_id 조회 실패:', error);
-      }
-    }
-    
-    // Mock 폴백
-    const credData = this.mockData.credentials.get(credentialId);
-    return credData?.user || null;
-  }
-
-  async createUser(userData: any): Promise<any> {
-    if (useDatabase && supabase) {
-      try {
-        const { data, error } = await supabase
-          .from('users')
-          .insert([userData])
-          .select()
-          .single();
-
-        if (error) {
-          console.error('❌ Supabase 사용자 생성 오류:', error);
-          throw error;
-        }
-
-        console.log('✅ Supabase 사용자 생성 성공:', data.id);
-        return data;
-      } catch (error) {
-        console.error('❌ 데이터베이스 오류, Mock으로 fallback:', error.message);
-        return this.createUserMock(userData);
-      }
-    } else {
-      return this.createUserMock(userData);
-    }
-  }
-
-  private createUserMock(userData: any): any {
-    this.mockData.users.set(userData.id, userData);
-    console.log('📝 Mock 사용자 생성:', userData.id);
-    return userData;
-  }
-
-  async saveWebAuthnCredential(credData: any): Promise<any> {
-    if (useDatabase && supabase) {
-      try {
-        const { data, error } = await supabase
-          .from('webauthn_credentials')
-          .insert([credData])
-          .select()
-          .single();
-
-        if (error) {
-          console.error('❌ WebAuthn 자격증명 저장 오류:', error);
-          throw error;
-        }
-
-        console.log('✅ WebAuthn 자격증명 저장 성공');
-        return data;
-      } catch (error) {
-        console.error('❌ 자격증명 저장 실패, Mock으로 fallback:', error.message);
-        this.mockData.credentials.set(credData.credential_id, { 
-          ...credData, 
-          user: this.mockData.users.get(credData.user_id) 
-        });
-        return credData;
-      }
-    } else {
-      this.mockData.credentials.set(credData.credential_id, { 
-        ...credData, 
-        user: this.mockData.users.get(credData.user_id) 
-      });
-      console.log('📝 Mock 자격증명 저장');
-      return credData;
-    }
-  }
-
-  async createCUETransaction(txData: any): Promise<any> {
-    if (useDatabase && supabase) {
-      try {
-        const { data, error } = await supabase
-          .from('cue_transactions')
-          .insert([txData])
-          .select()
-          .single();
-
-        if (error) throw error;
-
-        console.log('✅ CUE 거래 기록 저장 성공');
-        return data;
-      } catch (error) {
-        console.error('❌ CUE 거래 저장 실패:', error.message);
-        return txData;
-      }
-    } else {
-      console.log('📝 Mock CUE 거래 기록');
-      return txData;
-    }
-  }
-}
-
-const db = new DatabaseService();
-
 // ============================================================================
 // ⚙️ 미들웨어 설정
 // ============================================================================
 
+const allowedOrigins = [
+  "http://localhost:3000",
+  "http://localhost:3001", 
+  process.env.FRONTEND_URL || "http://localhost:3000"
+];
+
 app.use(cors({
-  origin: [
-    "http://localhost:3000",
-    "http://localhost:3001", 
-    process.env.FRONTEND_URL || "http://localhost:3000"
-  ],
+  origin: allowedOrigins,
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With']
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Idempotency-Key']
 }));
 
 app.use(helmet({
@@ -321,550 +143,122 @@ app.get('/health', (req: Request, res: Response) => {
 });
 
 // ============================================================================
-// 🔍 통합 패스키 인증 시작 (로그인/가입 자동 판별)
-// ============================================================================
-
-app.post('/api/auth/webauthn/start', async (req: Request, res: Response) => {
-  console.log('🔍 === 패스키 통합 인증 시작 ===');
-  
-  try {
-    // 모든 패스키 허용하는 인증 옵션 생성
-    const options = {
-      challenge: base64urlEncode(Buffer.from(`challenge_${Date.now()}_${Math.random()}`)),
-      timeout: 60000,
-      rpId: rpID,
-      allowCredentials: [], // 🔑 빈 배열 = 모든 기존 패스키 허용
-      userVerification: "preferred" as const
-    };
-
-    const sessionId = `unified_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    sessionStore.set(sessionId, {
-      challenge: options.challenge,
-      timestamp: Date.now(),
-      type: 'unified' // 로그인/가입 통합
-    });
-
-    console.log('✅ 통합 인증 옵션 생성 완료:', sessionId);
-
-    res.json({
-      success: true,
-      options,
-      sessionId,
-      message: '패스키를 사용하여 인증해주세요'
-    });
-  } catch (error) {
-    console.error('❌ 통합 인증 시작 오류:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Authentication start failed',
-      message: error.message
-    });
-  }
-});
-
-// ============================================================================
-// ✅ 통합 패스키 인증 완료 (로그인/가입 자동 처리)
+// 🔧 세션 복원 API
 // ============================================================================
 
-app.post('/api/auth/webauthn/complete', async (req: Request, res: Response) => {
-  console.log('✅ === 패스키 통합 인증 완료 ===');
+app.post('/api/auth/session/restore', async (req: Request, res: Response) => {
+  console.log('🔧 === 세션 복원 API ===');
   
   try {
-    const { credential, sessionId } = req.body;
+    const { sessionToken, refreshToken } = req.body;
     
-    if (!credential || !sessionId) {
+    if (!sessionToken && !refreshToken) {
       return res.status(400).json({
         success: false,
-        error: 'credential과 sessionId가 필요합니다'
-      });
-    }
-    
-    const sessionData = sessionStore.get(sessionId);
-    if (!sessionData) {
-      return res.status(400).json({
-        success: false,
-        error: '유효하지 않거나 만료된 세션입니다'
-      });
-    }
-    
-    console.log('✅ 임시 세션 검증 완료');
-    
-    // 🔍 STEP 1: credential.id로 기존 사용자 확인
-    console.log('🔍 기존 사용자 확인 중... credential_id:', credential.id);
-    
-    const existingUser = await sessionManager.findUserByCredentialId(credential.id);
-    
-    if (existingUser) {
-      // 🔑 기존 사용자 - 자동 로그인
-      console.log('🎉 기존 사용자 자동 로그인!', {
-        id: existingUser.id,
-        username: existingUser.username,
-        cueTokens: existingUser.cue_tokens,
-        trustScore: existingUser.trust_score
-      });
-      
-      const sessionToken = sessionManager.generateSessionToken(
-        existingUser.id, 
-        credential.id
-      );
-      
-      // 마지막 사용 시간 업데이트
-      if (useDatabase && supabase) {
-        try {
-          await supabase
-            .from('webauthn_credentials')
-            .update({ last_used_at: new Date().toISOString() })
-            .eq('credential_id', credential.id);
-        } catch (error) {
-          console.warn('⚠️ 마지막 사용 시간 업데이트 실패:', error);
-        }
-      }
-      
-      sessionStore.delete(sessionId);
-      
-      return res.json({
-        success: true,
-        action: 'login', // 🔑 로그인임을 명시
-        sessionToken,
-        user: {
-          id: existingUser.id,
-          username: existingUser.username,
-          email: existingUser.email,
-          did: existingUser.did,
-          walletAddress: existingUser.wallet_address,
-          cueBalance: existingUser.cue_tokens,
-          trustScore: existingUser.trust_score,
-          passportLevel: existingUser.passport_level,
-          biometricVerified: existingUser.biometric_verified,
-          registeredAt: existingUser.created_at
-        },
-        message: '환영합니다! 기존 계정으로 로그인되었습니다.'
+        error: 'sessionToken 또는 refreshToken이 필요합니다'
       });
     }
     
-    // 🆕 STEP 2: 신규 사용자 - 회원가입 진행
-    console.log('🆕 신규 사용자 회원가입 진행');
+    let user = sessionToken ? await sessionManager.getUserBySession(sessionToken) : null;
+    let renewed = null;
     
-    const userId = crypto.randomUUID();
-    const username = `user_${Date.now()}`;
-    
-    // 신규 사용자 데이터 생성
-    const userData = {
-      id: userId,
-      username,
-      email: null, // 패스키 전용이므로 이메일 없음
-      display_name: `AI Passport User ${username}`,
-      did: `did:final0626:${userId}`,
-      wallet_address: `0x${Math.random().toString(16).substring(2, 42)}`,
-      trust_score: 85.0,
-      passport_level: 'Basic',
-      biometric_verified: true,
-      auth_method: 'passkey',
-      cue_tokens: 15428,
-      created_at: new Date().toISOString()
-    };
-
-    console.log('📝 신규 사용자 데이터 준비:', {
-      id: userData.id,
-      username: userData.username,
-      did: userData.did
-    });
-
-    // 사용자 DB 저장
-    let user = null;
-    if (useDatabase && supabase) {
+    // 액세스 토큰이 만료되었으면 리프레시 토큰으로 회전 후 복원
+    if (!user && refreshToken) {
       try {
-        const { data, error } = await supabase
-          .from('users')
-          .insert([userData])
-          .select()
-          .single();
-
-        if (error) throw error;
-        user = data;
-        console.log('✅ 신규 사용자 DB 저장 성공');
-      } catch (error) {
-        console.error('❌ 사용자 DB 저장 실패:', error);
-        user = userData;
-      }
-    } else {
-      user = userData;
-    }
-
-    // WebAuthn credential 저장
-    const credentialData = {
-      id: crypto.randomUUID(),
-      user_id: userId,
-      credential_id: credential.id, // 🔑 핵심: 이 ID로 나중에 사용자 찾음
-      public_key: Buffer.from('mock-public-key-data').toString('base64'),
-      counter: 0,
-      device_type: 'platform',
-      user_agent: req.get('User-Agent') || '',
-      backup_eligible: false,
-      backup_state: false,
-      is_active: true,
-      device_fingerprint: {
-        primary: 'unified-auth',
-        platform: 'web',
-        confidence: 0.9
-      },
-      created_at: new Date().toISOString(),
-      last_used_at: new Date().toISOString()
-    };
-
-    console.log('🔑 자격증명 데이터 준비:', {
-      id: credentialData.id,
-      user_id: credentialData.user_id,
-      credential_id: credentialData.credential_id
-    });
-
-    await db.saveWebAuthnCredential(credentialData);
-
-    // CUE 거래 저장
-    const transactionData = {
-      user_id: userId,
-      transaction_type: 'registration_bonus',
-      amount: 15428,
-      balance_after: 15428,
-      description: 'Welcome bonus for new user registration',
-      source_platform: 'system',
-      metadata: {
-        registration_id: userId,
-        registration_time: new Date().toISOString()
-      },
-      created_at: new Date().toISOString()
-    };
-
-    if (useDatabase && supabase) {
-      try {
-        await supabase
-          .from('cue_transactions')
-          .insert([transactionData]);
-        console.log('✅ CUE 거래 저장 성공');
+        const tokens = await getSessionService().refresh(refreshToken, {
+          userAgent: req.get('User-Agent') || null,
+          ipAddress: req.ip || null
+        });
+        renewed = {
+          sessionToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          expiresIn: tokens.expiresIn
+        };
+        user = await sessionManager.getUserBySession(tokens.accessToken);
       } catch (error) {
-        console.error('❌ CUE 거래 저장 실패:', error);
-      }
-    }
-
-    // 세션 토큰 생성
-    const sessionToken = sessionManager.generateSessionToken(userId, credential.id);
-    
-    sessionStore.delete(sessionId);
-    
-    console.log('🎉 신규 사용자 등록 완료!');
-    
-    return res.json({
-      success: true,
-      action: 'register', // 🆕 회원가입임을 명시
-      sessionToken,
-      user: {
-        id: user.id,
-        did: user.did,
-        username: user.username,
-        email: user.email,
-        walletAddress: user.wallet_address,
-        cueBalance: user.cue_tokens || 15428,
-        trustScore: user.trust_score || 85.0,
-        passportLevel: user.passport_level || 'Basic',
-        biometricVerified: user.biometric_verified || true,
-        registeredAt: user.created_at
-      },
-      message: '🎉 새로운 AI Passport가 생성되었습니다!'
-    });
-
-  } catch (error) {
-    console.error('💥 통합 인증 오류:', error);
-    
-    res.status(500).json({
-      success: false,
-      error: 'Authentication failed',
-      message: error.message
-    });
-  }
-});
-
-// ============================================================================
-// 🔧 기존 등록 API들 (하위 호환성을 위해 유지)
-// ============================================================================
-
-// WebAuthn 등록 시작
-app.post('/api/auth/webauthn/register/start', async (req: Request, res: Response) => {
-  console.log('🆕 === REGISTER START API 호출됨 ===');
-  
-  try {
-    const { userEmail, deviceInfo = {} } = req.body;
-    
-    const userId = crypto.randomUUID();
-    const userName = userEmail || `user_${Date.now()}`;
-    
-    const options = {
-      rp: {
-        name: rpName,
-        id: rpID
-      },
-      user: {
-        id: base64urlEncode(Buffer.from(userId)),
-        name: userName,
-        displayName: userName
-      },
-      challenge: base64urlEncode(Buffer.from(`challenge_${Date.now()}_${Math.random()}`)),
-      pubKeyCredParams: [
-        { alg: -7, type: "public-key" as const },
-        { alg: -257, type: "public-key" as const }
-      ],
-      timeout: 60000,
-      attestation: "none" as const,
-      authenticatorSelection: {
-        authenticatorAttachment: "platform" as const,
-        userVerification: "preferred" as const,
-        residentKey: "preferred" as const
+        console.warn('⚠️ 리프레시 토큰으로 세션 복원 실패:', error.message);
       }
-    };
-
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`;
-    sessionStore.set(sessionId, {
-      challenge: options.challenge,
-      userId,
-      userName,
-      userEmail,
-      deviceInfo,
-      timestamp: Date.now()
-    });
-
-    console.log('✅ 등록 옵션 생성 완료');
-
-    res.json({
-      success: true,
-      options,
-      sessionId,
-      user: {
-        id: userId,
-        username: userName,
-        email: userEmail
-      }
-    });
-  } catch (error) {
-    console.error('❌ 등록 시작 오류:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Registration start failed',
-      message: error.message
-    });
-  }
-});
-
-// WebAuthn 등록 완료
-app.post('/api/auth/webauthn/register/complete', async (req: Request, res: Response) => {
-  console.log('🚀 === WebAuthn 등록 완료 (기존 API) ===');
-  
-  try {
-    const { credential, sessionId } = req.body;
-    
-    if (!credential || !sessionId) {
-      return res.status(400).json({
-        success: false,
-        error: 'credential과 sessionId가 필요합니다'
-      });
     }
     
-    const sessionData = sessionStore.get(sessionId);
-    if (!sessionData) {
-      return res.status(400).json({
+    if (!user) {
+      return res.status(401).json({
         success: false,
         error: '유효하지 않거나 만료된 세션입니다'
       });
     }
     
-    console.log('✅ 임시 세션 검증 완료');
-    
-    // 🔍 기존 사용자 확인
-    const existingUser = await sessionManager.findUserByCredentialId(credential.id);
-    
-    if (existingUser) {
-      console.log('🎉 기존 사용자 로그인! 모든 데이터 유지됨');
-      
-      const sessionToken = sessionManager.generateSessionToken(
-        existingUser.id, 
-        credential.id
-      );
-      
-      if (useDatabase && supabase) {
-        await supabase
-          .from('webauthn_credentials')
-          .update({ last_used_at: new Date().toISOString() })
-          .eq('credential_id', credential.id);
-      }
-      
-      sessionStore.delete(sessionId);
-      
-      return res.json({
-        success: true,
-        isExistingUser: true,
-        sessionToken,
-        user: {
-          id: existingUser.id,
-          username: existingUser.username,
-          email: existingUser.email,
-          did: existingUser.did,
-          walletAddress: existingUser.wallet_address,
-          cueBalance: existingUser.cue_tokens,
-          trustScore: existingUser.trust_score,
-          passportLevel: existingUser.passport_level,
-          biometricVerified: existingUser.biometric_verified,
-          registeredAt: existingUser.created_at
-        },
-        message: '기존 계정으로 로그인되었습니다. 모든 데이터가 유지됩니다.'
-      });
-    }
-    
-    // 🆕 신규 사용자 등록 (기존 로직과 동일)
-    const { userId, userName, userEmail, deviceInfo } = sessionData;
-
-    const userData = {
-      id: userId,
-      username: userName,
-      email: userEmail,
-      display_name: `AI Passport User ${userName}`,
-      did: `did:final0626:${userId}`,
-      wallet_address: `0x${Math.random().toString(16).substring(2, 42)}`,
-      trust_score: 85.0,
-      passport_level: 'Basic',
-      biometric_verified: true,
-      device_fingerprint: deviceInfo ? JSON.stringify(deviceInfo) : null,
-      auth_method: 'passkey',
-      cue_tokens: 15428,
-      created_at: new Date().toISOString()
-    };
-
-    let user = null;
-
-    if (useDatabase && supabase) {
-      try {
-        const { data, error } = await supabase
-          .from('users')
-          .insert([userData])
-          .select()
-          .single();
-
-        if (error) throw error;
-        user = data;
-        console.log('✅ 신규 사용자 DB 저장 성공');
-      } catch (error) {
-        console.error('❌ 사용자 DB 저장 실패:', error);
-        user = userData;
-      }
-    } else {
-      user = userData;
-    }
-
-    // WebAuthn credential 저장
-    const credentialData = {
-      id: crypto.randomUUID(),
-      user_id: userId,
-      credential_id: credential.id,
-      public_key: Buffer.from('mock-public-key-data').toString('base64'),
-      counter: 0,
-      device_type: 'platform',
-      user_agent: req.get('User-Agent') || '',
-      backup_eligible: false,
-      backup_state: false,
-      is_active: true,
-      device_fingerprint: {
-        primary: JSON.stringify(deviceInfo),
-        platform: 'web',
-        confidence: 0.9
-      },
-      created_at: new Date().toISOString(),
-      last_used_at: new Date().toISOString()
-    };
-
-    await db.saveWebAuthnCredential(credentialData);
-
-    // 세션 토큰 생성
-    const sessionToken = sessionManager.generateSessionToken(userId, credential.id);
-    
-    sessionStore.delete(sessionId);
+    console.log('✅ 세션 복원 성공:', user.username);
     
     res.json({
       success: true,
-      isExistingUser: false,
-      sessionToken,
+      ...(renewed || {}),
       user: {
         id: user.id,
-        did: user.did,
         username: user.username,
         email: user.email,
+        did: user.did,
         walletAddress: user.wallet_address,
-        cueBalance: user.cue_tokens || 15428,
-        trustScore: user.trust_score || 85.0,
-        passportLevel: user.passport_level || 'Basic',
-        biometricVerified: user.biometric_verified || true,
+        cueBalance: user.cue_tokens,
+        trustScore: user.trust_score,
+        passportLevel: user.passport_level,
+        biometricVerified: user.biometric_verified,
         registeredAt: user.created_at
       },
-      message: '새로운 AI Passport가 생성되었습니다!'
+      message: '세션이 복원되었습니다'
     });
-
-  } catch (error) {
-    console.error('💥 등록 완료 전체 오류:', error);
     
+  } catch (error) {
+    console.error('💥 세션 복원 오류:', error);
     res.status(500).json({
       success: false,
-      error: 'Registration completion failed',
+      error: 'Session restore failed',
       message: error.message
     });
   }
 });
 
 // ============================================================================
-// 🔧 세션 복원 API
+// 🔄 토큰 갱신 API (리프레시 토큰 회전)
 // ============================================================================
 
-app.post('/api/auth/session/restore', async (req: Request, res: Response) => {
-  console.log('🔧 === 세션 복원 API ===');
+app.post('/api/auth/token/refresh', async (req: Request, res: Response) => {
+  console.log('🔄 === 토큰 갱신 API ===');
   
   try {
-    const { sessionToken } = req.body;
+    const { refreshToken } = req.body;
     
-    if (!sessionToken) {
+    if (!refreshToken) {
       return res.status(400).json({
         success: false,
-        error: 'sessionToken이 필요합니다'
-      });
-    }
-    
-    const user = await sessionManager.getUserBySession(sessionToken);
-    
-    if (!user) {
-      return res.status(401).json({
-        success: false,
-        error: '유효하지 않거나 만료된 세션입니다'
+        error: 'refreshToken이 필요합니다'
       });
     }
     
-    console.log('✅ 세션 복원 성공:', user.username);
+    const tokens = await getSessionService().refresh(refreshToken, {
+      userAgent: req.get('User-Agent') || null,
+      ipAddress: req.ip || null
+    });
     
     res.json({
       success: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        email: user.email,
-        did: user.did,
-        walletAddress: user.wallet_address,
-        cueBalance: user.cue_tokens,
-        trustScore: user.trust_score,
-        passportLevel: user.passport_level,
-        biometricVerified: user.biometric_verified,
-        registeredAt: user.created_at
-      },
-      message: '세션이 복원되었습니다'
+      sessionToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn
     });
     
   } catch (error) {
-    console.error('💥 세션 복원 오류:', error);
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    }
+    
+    console.error('💥 토큰 갱신 오류:', error);
     res.status(500).json({
       success: false,
-      error: 'Session restore failed',
+      error: 'Token refresh failed',
       message: error.message
     });
   }
@@ -878,10 +272,15 @@ app.post('/api/auth/logout', async (req: Request, res: Response) => {
   console.log('🔧 === 로그아웃 API ===');
   
   try {
-    const { sessionToken } = req.body;
+    const { refreshToken } = req.body;
+    const sessionToken = req.body.sessionToken || req.headers.authorization?.replace('Bearer ', '');
     
-    if (sessionToken) {
-      console.log('🗑️ 세션 토큰 무효화 처리');
+    const decoded = sessionToken ? await sessionManager.verifySessionToken(sessionToken) : null;
+    
+    if (decoded) {
+      await getSessionService().revokeSession(decoded.jti, 'logout');
+    } else if (refreshToken) {
+      await getSessionService().revokeByRefreshToken(refreshToken, 'logout');
     }
     
     res.json({
@@ -899,145 +298,106 @@ app.post('/api/auth/logout', async (req: Request, res: Response) => {
 });
 
 // ============================================================================
-// 🔐 인증 미들웨어
+// 🖥️ 활성 세션 관리 API (인증 필요)
 // ============================================================================
 
-async function authenticateSession(req: Request, res: Response, next: NextFunction) {
+app.get('/api/auth/sessions', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const authHeader = req.headers.authorization;
-    const sessionToken = authHeader?.replace('Bearer ', '');
-    
-    if (!sessionToken) {
-      return res.status(401).json({
-        success: false,
-        error: 'Authentication required'
-      });
-    }
+    const { id: userId, sessionId: currentSessionId } = (req as RequestWithUser).user;
     
-    const user = await sessionManager.getUserBySession(sessionToken);
+    const sessions = await getSessionService().listSessions(userId, currentSessionId);
     
-    if (!user) {
-      return res.status(401).json({
-        success: false,
-        error: 'Invalid or expired session'
-      });
-    }
-    
-    req.user = user;
-    next();
+    res.json({
+      success: true,
+      sessions,
+      count: sessions.length
+    });
   } catch (error) {
+    console.error('💥 세션 목록 조회 오류:', error);
     res.status(500).json({
       success: false,
-      error: 'Authentication failed'
+      error: 'Failed to list sessions',
+      message: error.message
     });
   }
-}
-
-// ============================================================================
-// 🤖 AI 채팅 API (인증 필요)
-// ============================================================================
+});
 
-app.post('/api/ai/chat', authenticateSession, async (req: Request, res: Response) => {
+app.delete('/api/auth/sessions/:sessionId', authMiddleware, async (req: Request, res: Response) => {
   try {
-    const { message, model } = req.body;
-    const user = req.user;
+    const { id: userId } = (req as RequestWithUser).user;
+    const { sessionId } = req.params;
     
-    if (!message || !user) {
-      return res.status(400).json({
+    const sessions = await getSessionService().listSessions(userId);
+    if (!sessions.some(session => session.sessionId === sessionId)) {
+      return res.status(404).json({
         success: false,
-        error: 'Message and user required'
+        error: 'Session not found'
       });
     }
-
-    const aiResponse = `안녕하세요 ${user.username}님! "${message}"에 대한 개인화된 응답입니다.`;
-    const cueEarned = Math.round((2.0 + Math.random() * 3.0) * 100) / 100;
-
-    // CUE 잔액 업데이트
-    if (useDatabase && supabase) {
-      try {
-        await supabase
-          .from('users')
-          .update({ 
-            cue_tokens: user.cue_tokens + cueEarned 
-          })
-          .eq('id', user.id);
-      } catch (error) {
-        console.error('CUE 업데이트 실패:', error);
-      }
-    }
-
+    
+    await getSessionService().revokeSession(sessionId, 'revoked_by_user');
+    
     res.json({
       success: true,
-      response: aiResponse,
-      cueReward: cueEarned,
-      model,
-      timestamp: new Date().toISOString()
+      message: '세션이 종료되었습니다'
     });
-
   } catch (error) {
-    console.error('❌ AI 채팅 오류:', error);
+    console.error('💥 세션 종료 오류:', error);
     res.status(500).json({
       success: false,
-      error: 'AI chat failed'
+      error: 'Failed to revoke session',
+      message: error.message
     });
   }
 });
 
-// ============================================================================
-// 💎 기타 API들
-// ============================================================================
-
-app.get('/api/cue/balance/:did', async (req: Request, res: Response) => {
+// 모든 기기에서 로그아웃 (keepCurrent: true 이면 현재 세션은 유지)
+app.post('/api/auth/logout-all', authMiddleware, async (req: Request, res: Response) => {
+  console.log('🔧 === 전체 로그아웃 API ===');
+  
   try {
-    const { did } = req.params;
-    const balance = 15428 + Math.floor(Math.random() * 5000);
+    const { id: userId, sessionId: currentSessionId } = (req as RequestWithUser).user;
+    const keepCurrent = req.body?.keepCurrent === true;
+    
+    const revokedCount = await getSessionService().revokeAllForUser(
+      userId,
+      'logout_all',
+      keepCurrent ? currentSessionId : undefined
+    );
     
     res.json({
       success: true,
-      balance,
-      did,
-      timestamp: new Date().toISOString()
+      revokedCount,
+      message: keepCurrent 
+        ? '다른 모든 기기에서 로그아웃되었습니다' 
+        : '모든 기기에서 로그아웃되었습니다'
     });
   } catch (error) {
+    console.error('💥 전체 로그아웃 오류:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to get CUE balance'
+      error: 'Logout all failed',
+      message: error.message
     });
   }
 });
 
-app.get('/api/passport/:did', async (req: Request, res: Response) => {
-  try {
-    const { did } = req.params;
-    
-    const passport = {
-      did,
-      username: did.split(':').pop(),
-      trustScore: 75 + Math.floor(Math.random() * 25),
-      personalityProfile: {
-        traits: ['창의적', '분석적', '호기심 많음'],
-        preferences: { 
-          communicationStyle: 'friendly', 
-          responseLength: 'detailed' 
-        }
-      },
-      cueBalance: 1500 + Math.floor(Math.random() * 5000),
-      totalMined: 15000 + Math.floor(Math.random() * 50000),
-      createdAt: new Date().toISOString()
-    };
+// ============================================================================
+// 🧭 라우터 마운트
+// 모든 보호 라우터는 같은 authMiddleware로 req.user { id, did, sessionId } 를 받음
+// ============================================================================
 
-    res.json({
-      success: true,
-      passport,
-      timestamp: new Date().toISOString()
-    });
-  } catch (error) {
-    res.status(500).json({
-      success: false,
-      error: 'Failed to get passport'
-    });
-  }
-});
+app.use('/api/auth/webauthn', webauthnRoutes);          // 엔드포인트별로 authMiddleware 적용
+app.use('/api/ai', authMiddleware, aiRoutes);
+app.use('/api/cue', cueReceiptRoutes);                // 공개 영수증 루트 (인증 라우터보다 먼저)
+app.use('/api/cue', authMiddleware, cueRoutes);
+app.use('/api/passport', optionalAuth, passportRoutes); // 라우터 내부에서 401/403 판단
+app.use('/api/platform', authMiddleware, platformRoutes);
+app.use('/api/vault', authMiddleware, vaultRoutes);
+app.use('/api/wallet', walletRoutes);                  // 엔드포인트별로 authMiddleware 적용
+app.use('/api/vc', vcRoutes);                          // 발급/목록/폐기는 authMiddleware, 상태 목록/검증은 공개
+app.use('/api/did', didRoutes);                        // 공개 DID 해석 (W3C DID Resolution)
+app.use('/.well-known/did', didRoutes);
 
 // ============================================================================
 // 🚫 404 및 에러 핸들링
@@ -1054,15 +414,62 @@ app.use('*', (req: Request, res: Response) => {
     timestamp: new Date().toISOString(),
     availableEndpoints: [
       'GET /health',
-      'POST /api/auth/webauthn/start',           // 🔥 새로운 통합 인증
-      'POST /api/auth/webauthn/complete',        // 🔥 새로운 통합 인증
-      'POST /api/auth/webauthn/register/start',  // 기존 등록 API
-      'POST /api/auth/webauthn/register/complete', // 기존 등록 API
+      'POST /api/auth/webauthn/register/start',
+      'POST /api/auth/webauthn/register/complete',
+      'POST /api/auth/webauthn/login/start',
+      'POST /api/auth/webauthn/login/complete',
       'POST /api/auth/session/restore',
+      'POST /api/auth/token/refresh',
       'POST /api/auth/logout',
+      'POST /api/auth/logout-all',
+      'GET /api/auth/sessions',
+      'DELETE /api/auth/sessions/:sessionId',
       'POST /api/ai/chat',
-      'GET /api/cue/balance/:did',
-      'GET /api/passport/:did'
+      'GET /api/cue/:did/balance',
+      'POST /api/cue/mine',
+      'GET /api/cue/ledger/consistency',
+      'GET /api/cue/reviews',
+      'POST /api/cue/reviews/:id/approve',
+      'POST /api/cue/reviews/:id/reject',
+      'GET /api/cue/pricing',
+      'GET /api/cue/spend-holds',
+      'GET /api/cue/settlement',
+      'GET /api/cue/settlement/batches',
+      'POST /api/cue/settlement/run',
+      'POST /api/cue/withdrawals',
+      'GET /api/cue/withdrawals',
+      'GET /api/cue/roots/:date',
+      'GET /api/cue/receipts/signing-key',
+      'GET /api/cue/transactions/:id/proof',
+      'GET /api/cue/policies',
+      'GET /api/cue/policies/:version',
+      'POST /api/cue/policies',
+      'POST /api/cue/policies/dry-run',
+      'GET /api/cue/:did/mining-state',
+      'PUT /api/cue/:did/mining-state',
+      'POST /api/cue/transfer',
+      'GET /api/cue/transfers',
+      'POST /api/cue/transfers/:id/release',
+      'POST /api/cue/transfers/:id/refund',
+      'GET /api/passport/:did',
+      'GET /api/auth/webauthn/credentials',
+      'GET /api/vault/:did',
+      'GET /api/platform/:did',
+      'GET /api/wallet',
+      'POST /api/wallet/sign',
+      'POST /api/wallet/ownership-proof',
+      'POST /api/wallet/verify',
+      'POST /api/vc/credentials',
+      'GET /api/vc/credentials',
+      'POST /api/vc/credentials/:id/revoke',
+      'GET /api/vc/status/:listId',
+      'POST /api/vc/verify',
+      'POST /api/vc/presentation-requests',
+      'GET /api/vc/presentation-requests',
+      'POST /api/vc/presentation-requests/:id/approve',
+      'POST /api/vc/presentations/verify',
+      'GET /api/did/:did',
+      'GET /.well-known/did/:did'
     ]
   });
 });
@@ -1090,15 +497,25 @@ const server = app.listen(PORT, () => {
   console.log(`🏥 헬스체크: http://localhost:${PORT}/health`);
   console.log(`🗄️ 데이터베이스: ${useDatabase ? 'Supabase' : 'Mock'}`);
   console.log('📋 주요 API:');
-  console.log('  🔥 통합 인증: /api/auth/webauthn/start + /api/auth/webauthn/complete');
-  console.log('  🔐 기존 Auth: /api/auth/webauthn/register/*');
+  console.log('  🔐 패스키 가입: /api/auth/webauthn/register/start + /api/auth/webauthn/register/complete');
+  console.log('  🔓 패스키 로그인: /api/auth/webauthn/login/start + /api/auth/webauthn/login/complete');
   console.log('  🔧 Session: /api/auth/session/*');
-  console.log('  🤖 AI: /api/ai/chat');
+  console.log('  🤖 AI: /api/ai/*');
   console.log('  💎 CUE: /api/cue/*');
   console.log('  🎫 Passport: /api/passport/*');
+  console.log('  🔒 Platform/Vault: /api/platform/*, /api/vault/*');
+  console.log('  👛 Wallet: /api/wallet/*');
+  console.log('  📜 VC: /api/vc/*');
+  console.log('  🪪 DID: /api/did/:did, /.well-known/did/:did');
   console.log('🚀 ================================');
 });
 
+// 실시간 알림 (cue:received 등)
+attachSocketService(server, allowedOrigins);
+
+// 온체인 정산 주기 시작 (CUE_CHAIN_RPC_URL 등이 설정된 경우에만)
+getCueSettlementService();
+
 process.on('SIGINT', () => {
   console.log('\n🛑 서버 종료 중...');
   server.close(() => {
@@ -1,52 +1,170 @@
 // backend/src/middleware/authMiddleware.ts
 //  실제 백엔드 API 클라이언트 (WebAuthn + DB 연동)
 //  ============================================================================
+//  통합 인증: 액세스 토큰 검증 → 세션 폐기 확인 → 사용자 조회 후 req.user 구성
+//  변형: authMiddleware (필수) | optionalAuth (선택) | requireScope (권한 범위)
+//  ============================================================================
 
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { DatabaseService } from '../services/database/DatabaseService';
+import { supabaseService } from '../services/database/SupabaseService';
+import { getSessionService, SessionError, DEFAULT_SESSION_SCOPES } from '../services/auth/SessionService';
+
+/**
+ * 인증된 사용자 정보 - 모든 보호 라우터에서 동일한 형태로 제공
+ */
+export interface AuthUser {
+  id: string;
+  did: string;
+  /** 세션 ID (액세스 토큰의 jti) */
+  sessionId: string;
+  credentialId: string | null;
+  username: string | null;
+  scopes: string[];
+  /** users 테이블 원본 행 */
+  profile: any;
+}
+
+export interface RequestWithUser extends Request {
+  user: AuthUser;
+}
+
+export interface OptionalAuthRequest extends Request {
+  user?: AuthUser;
+}
+
+export class AuthError extends Error {
+  statusCode: number;
+  isOperational = true;
+
+  constructor(public code: string, message: string, statusCode = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+// 데이터베이스 서비스 선택 (Mock / Supabase 모두 지원)
+function getDatabase(): any {
+  return process.env.USE_MOCK_DATABASE === 'true' ||
+         !process.env.SUPABASE_URL ||
+         process.env.SUPABASE_URL.includes('dummy')
+    ? DatabaseService.getInstance()
+    : supabaseService;
+}
+
+function extractBearerToken(req: Request): string | null {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+  return authHeader.substring(7).trim() || null;
+}
+
+/**
+ * 액세스 토큰으로 AuthUser 구성 (HTTP 미들웨어와 소켓 인증이 공유)
+ */
+export async function resolveAuthUser(token: string): Promise<AuthUser> {
+  const { payload } = await getSessionService().verifyAccessToken(token);
+
+  const profile = await getDatabase().getUserById(payload.userId);
+  if (!profile) {
+    throw new AuthError('USER_NOT_FOUND', 'User not found');
+  }
+  if (!profile.did) {
+    throw new AuthError('DID_MISSING', 'User has no DID');
+  }
+
+  const scopes = payload.scope ? payload.scope.split(' ') : [...DEFAULT_SESSION_SCOPES];
+  if (profile.role === 'admin' && !scopes.includes('admin')) {
+    scopes.push('admin');
+  }
 
-interface AuthenticatedRequest extends Request {
-  user?: any;
+  return {
+    id: profile.id,
+    did: profile.did,
+    sessionId: payload.jti,
+    credentialId: payload.credentialId || null,
+    username: profile.username || null,
+    scopes,
+    profile
+  };
 }
 
-export const authMiddleware = async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+function sendAuthError(res: Response, error: any) {
+  if (error instanceof SessionError || error instanceof AuthError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: 'Invalid or expired token',
+      code: error.code
+    });
+  }
+
+  console.error('Auth middleware error:', error);
+  return res.status(401).json({
+    success: false,
+    error: 'Invalid or expired token'
+  });
+}
+
+/**
+ * 인증 필수 - 토큰이 없거나 유효하지 않으면 401
+ */
+export const authMiddleware = async (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+
+  if (!token) {
+    return res.status(401).json({
+      success: false,
+      error: 'No token provided'
+    });
+  }
+
+  try {
+    (req as RequestWithUser).user = await resolveAuthUser(token);
+    next();
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+};
+
+/**
+ * 인증 선택 - 토큰이 없으면 익명으로 통과, 토큰이 있는데 유효하지 않으면 401
+ */
+export const optionalAuth = async (req: Request, res: Response, next: NextFunction) => {
+  const token = extractBearerToken(req);
+
+  if (!token) {
+    return next();
+  }
+
   try {
-    const authHeader = req.headers.authorization;
-    
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    (req as OptionalAuthRequest).user = await resolveAuthUser(token);
+    next();
+  } catch (error) {
+    sendAuthError(res, error);
+  }
+};
+
+/**
+ * 권한 범위 확인 - authMiddleware 뒤에 사용 (하나라도 가지고 있으면 통과)
+ */
+export const requireScope = (...required: string[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = (req as OptionalAuthRequest).user;
+
+    if (!user) {
       return res.status(401).json({
         success: false,
-        error: 'No token provided'
+        error: 'Authentication required'
       });
     }
 
-    const token = authHeader.substring(7);
-    const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-
-    // 사용자 확인
-    const db = DatabaseService.getInstance();
-    const { data: user, error } = await db.getClient()
-      .from('users')
-      .select('*')
-      .eq('id', decoded.userId)
-      .single();
-
-    if (error || !user) {
-      return res.status(401).json({
+    if (!required.some(scope => user.scopes.includes(scope))) {
+      return res.status(403).json({
         success: false,
-        error: 'Invalid token'
+        error: 'Insufficient scope',
+        required
       });
     }
 
-    req.user = user;
     next();
-
-  } catch (error) {
-    console.error('Auth middleware error:', error);
-    res.status(401).json({
-      success: false,
-      error: 'Invalid or expired token'
-    });
-  }
-};
+  };
@@ -0,0 +1,182 @@
+// ============================================================================
+// 🗂️ 대화 관리 라우트 (/api/ai/conversations, 인증 필요 - ai 라우터에서 authMiddleware 적용)
+// 경로: backend/src/routes/ai/conversations.ts
+// 용도: 대화 목록/생성/조회/이름 변경/고정/보관/삭제, 메시지 지점에서 분기, 활성 가지 전환
+// 메시지 편집/재생성은 /api/ai/chat(/stream)의 editOf, regenerate로 요청
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser } from '../../middleware/authMiddleware';
+import {
+  ConversationError,
+  CONVERSATION_LIMITS,
+  getConversationService
+} from '../../services/ai/ConversationService';
+
+const router: Router = express.Router();
+
+function sendConversationError(res: Response, error: any): void {
+  if (error instanceof ConversationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+  throw error;
+}
+
+// ============================================================================
+// 📋 대화 목록
+// GET /api/ai/conversations?archived=true&q=검색어&limit=50
+// ============================================================================
+
+router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { archived, q, limit } = req.query;
+
+  const conversations = await getConversationService().list(user.did, {
+    archived: archived === 'true',
+    query: typeof q === 'string' ? q : undefined,
+    limit: limit ? parseInt(limit as string, 10) || undefined : undefined
+  });
+
+  res.json({
+    success: true,
+    conversations,
+    count: conversations.length
+  });
+}));
+
+// ============================================================================
+// ➕ 새 대화
+// POST /api/ai/conversations { title?, model? }
+// ============================================================================
+
+router.post('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { title, model } = req.body || {};
+
+  if (model !== undefined && typeof model !== 'string') {
+    res.status(400).json({ success: false, error: 'model must be a string' });
+    return;
+  }
+
+  try {
+    const conversation = await getConversationService().create(user.did, { title, model });
+    res.status(201).json({ success: true, conversation });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🔍 대화 조회 (활성 가지 메시지, 오래된 순, 메시지마다 branch: { index, count, siblingIds })
+// GET /api/ai/conversations/:id?limit=500
+// ============================================================================
+
+router.get('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const limit = Math.min(
+    parseInt(req.query.limit as string, 10) || CONVERSATION_LIMITS.maxMessages,
+    CONVERSATION_LIMITS.maxMessages
+  );
+
+  try {
+    const result = await getConversationService().getWithMessages(user.did, req.params.id, limit);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+// ============================================================================
+// ✏️ 이름 변경 / 고정 / 보관
+// PATCH /api/ai/conversations/:id { title?: string | null, pinned?, archived? }
+// title: null → 첫 메시지 기준 자동 제목으로 되돌림
+// ============================================================================
+
+router.patch('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { title, pinned, archived } = req.body || {};
+
+  if (title === undefined && pinned === undefined && archived === undefined) {
+    res.status(400).json({ success: false, error: 'Nothing to update (title, pinned, archived)' });
+    return;
+  }
+  if ((pinned !== undefined && typeof pinned !== 'boolean') || (archived !== undefined && typeof archived !== 'boolean')) {
+    res.status(400).json({ success: false, error: 'pinned and archived must be booleans' });
+    return;
+  }
+
+  try {
+    const conversation = await getConversationService().update(user.did, req.params.id, { title, pinned, archived });
+    res.json({ success: true, conversation });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🔀 활성 가지 전환 (형제 메시지 중 하나를 선택 → 그 아래 가장 최근 가지가 활성)
+// PUT /api/ai/conversations/:id/active { messageId }
+// ============================================================================
+
+router.put('/:id/active', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { messageId } = req.body || {};
+
+  if (typeof messageId !== 'string' || !messageId) {
+    res.status(400).json({ success: false, error: 'messageId is required' });
+    return;
+  }
+
+  try {
+    const result = await getConversationService().switchBranch(user.did, req.params.id, messageId);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🗑️ 대화 삭제 (메시지 포함)
+// DELETE /api/ai/conversations/:id
+// ============================================================================
+
+router.delete('/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const result = await getConversationService().delete(user.did, req.params.id);
+    res.json({ success: true, conversationId: req.params.id, ...result });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🌿 메시지 지점에서 분기
+// POST /api/ai/conversations/:id/fork { messageId, title? }
+// ============================================================================
+
+router.post('/:id/fork', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { messageId, title } = req.body || {};
+
+  if (typeof messageId !== 'string' || !messageId) {
+    res.status(400).json({ success: false, error: 'messageId is required' });
+    return;
+  }
+
+  try {
+    const result = await getConversationService().fork(user.did, req.params.id, messageId, title);
+    res.status(201).json({ success: true, ...result });
+  } catch (error) {
+    sendConversationError(res, error);
+  }
+}));
+
+export default router;
@@ -8,104 +8,48 @@ import express from 'express';
 import { v4 as uuidv4 } from 'uuid';
 
 import { DatabaseService } from '../../services/database/DatabaseService';
-import { SemanticCompressionService } from '../../services/ai/SemanticCompressionService';
 import { PersonalizationService } from '../../services/ai/PersonalizationService';
+import {
+  answeredModel,
+  generateModelResponse,
+  learnFromInteraction,
+  recordTurnInGraph,
+  updatePassportActivity
+} from '../../services/ai/ChatProviders';
+import { listModels, listProviders } from '../../services/ai/providers/ModelRegistry';
+import { getCircuitBreaker } from '../../services/ai/providers/CircuitBreaker';
 import { CUEMiningService } from '../../services/cue/CUEMiningService';
+import { interactionContextFromRequest } from '../../services/cue/AbuseDetector';
+import { CueLedgerError } from '../../services/cue/CueLedger';
+import { getCueSpendingService, SpendHoldView } from '../../services/cue/CueSpendingService';
+import { getChatStreamService } from '../../services/ai/ChatStreamService';
+import { ChatTurn, ConversationError, getConversationService } from '../../services/ai/ConversationService';
+import { ContextAssembler } from '../../services/ai/ContextBuilder';
+import { getCueRetrievalService } from '../../services/ai/CueRetrievalService';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser } from '../../middleware/authMiddleware';
+import conversationRoutes from './conversations';
 
 const router = express.Router();
 const db = DatabaseService.getInstance();
 
-// AI 클라이언트들 - 절대 파일 로드 시점에 초기화하지 않음
-let openaiClient: any = null;
-let anthropicClient: any = null;
-let openaiAttempted = false;
-let anthropicAttempted = false;
-
 console.log('🤖 AI Routes module loaded - NO immediate API client initialization');
 
-// ============================================================================
-// 🔐 안전한 OpenAI 클라이언트 생성
-// ============================================================================
-async function getOpenAIClient() {
-  if (openaiAttempted) {
-    return openaiClient; // 이미 시도했으면 결과 반환 (성공이든 실패든)
-  }
-
-  openaiAttempted = true;
-
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey || apiKey.trim() === '' || apiKey === 'your-openai-key-here') {
-    console.log('⚠️ OpenAI API key not configured - will use mock responses');
-    return null;
-  }
-
-  try {
-    console.log('🔄 Dynamically importing OpenAI...');
-    const { default: OpenAI } = await import('openai');
-    
-    console.log('🔄 Creating OpenAI client...');
-    openaiClient = new OpenAI({ apiKey });
-    
-    console.log('✅ OpenAI client created successfully');
-    return openaiClient;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error('❌ Failed to create OpenAI client:', error.message);
-    } else {
-      console.error('❌ Failed to create OpenAI client:', error);
-    }
-    openaiClient = null;
-    return null;
-  }
-}
-
-// ============================================================================
-// 🔐 안전한 Anthropic 클라이언트 생성
-// ============================================================================
-async function getAnthropicClient() {
-  if (anthropicAttempted) {
-    return anthropicClient;
-  }
-
-  anthropicAttempted = true;
-
-  const apiKey = process.env.ANTHROPIC_API_KEY;
-  if (!apiKey || apiKey.trim() === '' || apiKey === 'your-anthropic-key-here') {
-    console.log('⚠️ Anthropic API key not configured - will use mock responses');
-    return null;
-  }
-
-  try {
-    console.log('🔄 Dynamically importing Anthropic...');
-    const { default: Anthropic } = await import('@anthropic-ai/sdk');
-    
-    console.log('🔄 Creating Anthropic client...');
-    anthropicClient = new Anthropic({ apiKey });
-    
-    console.log('✅ Anthropic client created successfully');
-    return anthropicClient;
-  } catch (error) {
-    if (error instanceof Error) {
-      console.error('❌ Failed to create Anthropic client:', error.message);
-    } else {
-      console.error('❌ Failed to create Anthropic client:', error);
-    }
-    anthropicClient = null;
-    return null;
-  }
-}
+// 대화 관리 (목록/이름 변경/고정/보관/분기/삭제)
+router.use('/conversations', conversationRoutes);
 
 // ============================================================================
 // 🤖 AI 채팅 엔드포인트
+// body: { message, model?, conversationId?, editOf?: 사용자 메시지 ID, regenerate?: AI 메시지 ID }
+// editOf → 고친 메시지로 형제 가지 생성, regenerate → message 없이 같은 질문에 새 응답
 // ============================================================================
 router.post('/chat', asyncHandler(async (req: express.Request, res: express.Response) => {
-  const { message, model = 'personalized-agent', conversationId } = req.body;
-  const userDid = (req as any).user.did;
+  const { model = 'personalized-agent', conversationId, editOf, regenerate } = req.body;
+  const userDid = (req as RequestWithUser).user.did;
 
   console.log(`🎯 AI Chat Request: ${model} for user ${userDid?.slice(0, 8)}...`);
 
-  if (!message || !message.trim()) {
+  if (!regenerate && (!req.body.message || !req.body.message.trim())) {
     return res.status(400).json({
       success: false,
       error: 'Message is required'
@@ -113,86 +57,133 @@ router.post('/chat', asyncHandler(async (req: express.Request, res: express.Resp
   }
 
   const startTime = Date.now();
-  const currentConversationId = conversationId || uuidv4();
-
+  const conversations = getConversationService();
+  let turn: ChatTurn;
   try {
-    // 1. 사용자 메시지 저장
-    console.log('💾 Storing user message...');
-    const userMessage = await db.saveChatMessage({
-      id: uuidv4(),
-      user_did: userDid,
-      conversation_id: currentConversationId,
-      message_type: 'user',
-      content: message,
-      ip_address: req.ip,
-      user_agent: req.get('User-Agent')
-    });
+    turn = await conversations.prepareTurn(userDid, { conversationId, message: req.body.message, model, editOf, regenerate });
+  } catch (error) {
+    if (error instanceof ConversationError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    }
+    throw error;
+  }
+  const message = turn.message;
+  const currentConversationId = turn.conversationId;
+
+  // 0. 개인화 컨텍스트 + 이전 대화로 프롬프트 조립 (모델별 토큰 예산)
+  console.log('🧠 Loading personalization context...');
+  const personalizationService = new PersonalizationService(db);
+  const personalContext = await personalizationService.getPersonalizedContext(userDid, message);
+  const assembler = new ContextAssembler({ message, personal: personalContext, history: turn.history });
+  const promptTokens = (await assembler.forRequestedModel(model)).report.inputTokens;
+
+  // 0-1. CUE 비용 예약 (조립된 프롬프트 기준) - 잔액이 부족하면 AI 호출 전에 거부
+  const spending = getCueSpendingService();
+  let hold: SpendHoldView | null = null;
+  try {
+    hold = await spending.holdChat(userDid, model, message, currentConversationId, promptTokens);
+  } catch (error) {
+    if (error instanceof CueLedgerError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        requiredCue: spending.quoteChat(model, message, promptTokens),
+        cuePer1kTokens: spending.modelPrice(model)
+      });
+    }
+    throw error;
+  }
+  let cueSpent = 0;
 
-    // 2. 개인화 컨텍스트 준비
-    console.log('🧠 Loading personalization context...');
-    const personalizationService = new PersonalizationService(db);
-    const personalContext = await personalizationService.getPersonalizedContext(userDid, message);
+  try {
+    // 1. 사용자 메시지 저장 (재생성이면 기존 메시지 사용)
+    if (turn.saveUserMessage) {
+      console.log('💾 Storing user message...');
+      await db.saveChatMessage({
+        id: turn.userMessageId,
+        parent_id: turn.parentId,
+        user_did: userDid,
+        conversation_id: currentConversationId,
+        message_type: 'user',
+        content: message,
+        ip_address: req.ip,
+        user_agent: req.get('User-Agent'),
+        metadata: turn.editOf ? { editOf: turn.editOf } : {}
+      });
+      await conversations.recordMessage(userDid, currentConversationId, { id: turn.userMessageId, role: 'user', content: message });
+    }
 
-    // 3. AI 응답 생성
+    // 2. AI 응답 생성
     console.log(`🤖 Generating ${model} response...`);
-    let aiResult;
-
-    switch (model) {
-      case 'gpt-4o':
-        aiResult = await generateGPTResponse(message, personalContext);
-        break;
-      case 'claude-3.5-sonnet':
-        aiResult = await generateClaudeResponse(message, personalContext);
-        break;
-      case 'gemini-pro':
-        aiResult = await generateGeminiResponse(message, personalContext);
-        break;
-      case 'personalized-agent':
-      default:
-        aiResult = await generatePersonalizedResponse(message, personalContext, userDid);
-        break;
-    }
+    const aiResult = await generateModelResponse(model, message, personalContext, assembler);
 
     const responseTime = Date.now() - startTime;
+    const respondedModel = answeredModel(aiResult.routing);
+
+    // 3. CUE 비용 정산 - 실제 토큰 사용량 기준, 시뮬레이션 응답은 전액 환불
+    if (hold) {
+      const settled = aiResult.simulated
+        ? await spending.refund(hold.id, 'simulated_response')
+        : await spending.settleChat(hold.id, aiResult.tokensUsed);
+      cueSpent = settled.chargedAmount || 0;
+      hold = null;
+    }
 
-    // 4. CUE 토큰 마이닝
+    // 4. CUE 토큰 마이닝 - 응답한 모델 기준, 사용자 메시지(턴)당 한 번 (시뮬레이션 응답, 이미 보상된 턴의 재생성 제외)
     console.log('⛏️ Mining CUE tokens...');
-    const cueService = new CUEMiningService(db);
-    const minedTokens = await cueService.mineFromInteraction({
+    const aiMessageId = uuidv4();
+    const cueService = new CUEMiningService();
+    const minedTokens = aiResult.simulated || turn.alreadyRewarded ? 0 : await cueService.mineFromInteraction({
       userDid,
       messageContent: message,
       aiResponse: aiResult.response,
-      model,
+      model: respondedModel,
       personalContextUsed: personalContext.cues.length,
       responseTime,
-      conversationId: currentConversationId
+      conversationId: currentConversationId,
+      idempotencyKey: `ai_chat:${turn.userMessageId}`,
+      client: interactionContextFromRequest(req, message)
     });
 
     // 5. AI 응답 저장
     console.log('💾 Storing AI response...');
     const aiMessageData = {
-      id: uuidv4(),
+      id: aiMessageId,
+      parent_id: turn.userMessageId,
       user_did: userDid,
       conversation_id: currentConversationId,
       message_type: 'ai',
       content: aiResult.response,
-      ai_model: model,
+      ai_model: respondedModel,
       used_passport_data: aiResult.usedData,
       used_vault_ids: personalContext.vaultIds,
       cue_tokens_earned: minedTokens,
-      cue_tokens_used: personalContext.cues.length * 0.1,
+      cue_tokens_used: cueSpent,
       verified: true,
       verification_signature: `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       response_time_ms: responseTime,
-      tokens_used: aiResult.tokensUsed
+      tokens_used: aiResult.tokensUsed,
+      metadata: {
+        provider: aiResult.provider,
+        routing: aiResult.routing,
+        context: aiResult.context,
+        ...(turn.regenerateOf ? { regenerateOf: turn.regenerateOf } : {})
+      }
     };
     await db.saveChatMessage(aiMessageData);
+    await conversations.recordMessage(userDid, currentConversationId, { id: aiMessageId, role: 'ai', content: aiResult.response });
     const aiMessage = aiMessageData;
+    await recordTurnInGraph(userDid, turn, { id: aiMessageId, content: aiResult.response, model: respondedModel }, personalContext, aiResult.context);
 
     // 6. 백그라운드 학습
     setImmediate(async () => {
       try {
-        await learnFromInteraction(userDid, message, aiResult.response, personalContext);
+        await learnFromInteraction(userDid, message, aiResult.response, personalContext, aiMessageId);
       } catch (error) {
         console.error('Background learning error:', error);
       }
@@ -208,11 +199,17 @@ router.post('/chat', asyncHandler(async (req: express.Request, res: express.Resp
       message: {
         id: aiMessage.id,
         conversationId: currentConversationId,
+        parentId: turn.userMessageId,
+        userMessageId: turn.userMessageId,
         content: aiResult.response,
-        model,
+        model: respondedModel,
         usedPassportData: aiResult.usedData,
         cueTokensEarned: minedTokens,
+        cueSpent,
+        tokensUsed: aiResult.tokensUsed,
         responseTimeMs: responseTime,
+        routing: aiResult.routing,
+        context: aiResult.context,
         verification: {
           verified: true,
           signature: aiMessage.verification_signature,
@@ -228,6 +225,15 @@ router.post('/chat', asyncHandler(async (req: express.Request, res: express.Resp
 
   } catch (error) {
     console.error('❌ AI chat processing error:', error);
+
+    // 정산 전에 실패하면 예약 전액 환불
+    if (hold) {
+      try {
+        await spending.refund(hold.id, 'generation_failed');
+      } catch (refundError) {
+        console.error('CUE hold refund error:', refundError);
+      }
+    }
     
     // 에러 로그 저장
     try {
@@ -262,314 +268,163 @@ router.post('/chat', asyncHandler(async (req: express.Request, res: express.Resp
 }));
 
 // ============================================================================
-// 🎯 AI 응답 생성 함수들
+// 📡 AI 채팅 스트리밍 (Server-Sent Events)
+// 이벤트: start → chunk* → done | error (연결을 끊으면 취소와 같음)
+// body는 /chat과 같음 (editOf, regenerate 지원)
 // ============================================================================
+const SSE_HEARTBEAT_MS = 15000;
 
-async function generateGPTResponse(message: string, context: any) {
-  console.log('🔄 Attempting GPT response...');
-  
-  const client = await getOpenAIClient();
-  if (!client) {
-    console.log('➡️ OpenAI unavailable, using enhanced mock');
-    return generateEnhancedMockResponse(message, context, 'GPT-4o');
-  }
-
-  try {
-    const systemPrompt = createPersonalizedSystemPrompt(context);
-    
-    const completion = await client.chat.completions.create({
-      model: 'gpt-4',
-      messages: [
-        { role: 'system', content: systemPrompt },
-        { role: 'user', content: message }
-      ],
-      max_tokens: 1000,
-      temperature: 0.7,
-    });
+router.post('/chat/stream', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const { message = '', model = 'personalized-agent', conversationId, editOf, regenerate } = req.body;
+  const userDid = (req as RequestWithUser).user.did;
 
-    console.log('✅ GPT response generated successfully');
-    return {
-      response: completion.choices[0]?.message?.content || 'Sorry, I could not generate a response.',
-      tokensUsed: completion.usage?.total_tokens || 0,
-      usedData: extractUsedData(context)
-    };
-  } catch (error) {
-    console.error('GPT API error:', error);
-    return generateEnhancedMockResponse(message, context, 'GPT-4o (API Error)');
-  }
-}
-
-async function generateClaudeResponse(message: string, context: any) {
-  console.log('🔄 Attempting Claude response...');
-  
-  const client = await getAnthropicClient();
-  if (!client) {
-    console.log('➡️ Anthropic unavailable, using enhanced mock');
-    return generateEnhancedMockResponse(message, context, 'Claude 3.5 Sonnet');
-  }
-
-  try {
-    const systemPrompt = createPersonalizedSystemPrompt(context);
-    
-    const response = await client.messages.create({
-      model: 'claude-3-5-sonnet-20241022',
-      max_tokens: 1000,
-      system: systemPrompt,
-      messages: [{ role: 'user', content: message }]
+  if (!regenerate && (typeof message !== 'string' || !message.trim())) {
+    return res.status(400).json({
+      success: false,
+      error: 'Message is required'
     });
-
-    const content = response.content[0];
-    const responseText = content.type === 'text' ? content.text : 'Sorry, I could not generate a response.';
-
-    console.log('✅ Claude response generated successfully');
-    return {
-      response: responseText,
-      tokensUsed: (response.usage?.input_tokens || 0) + (response.usage?.output_tokens || 0),
-      usedData: extractUsedData(context)
-    };
-  } catch (error) {
-    console.error('Claude API error:', error);
-    return generateEnhancedMockResponse(message, context, 'Claude 3.5 Sonnet (API Error)');
-  }
-}
-
-async function generateGeminiResponse(message: string, context: any) {
-  console.log('➡️ Gemini API not implemented, using enhanced mock');
-  return generateEnhancedMockResponse(message, context, 'Gemini Pro');
-}
-
-async function generatePersonalizedResponse(message: string, context: any, userDid: string) {
-  console.log('🧠 Generating personalized response...');
-  
-  const personalityType = context.personalityProfile?.type || '';
-  
-  if (personalityType.includes('Technical') || personalityType.includes('INTJ')) {
-    return await generateClaudeResponse(message, context);
-  } else {
-    return await generateGPTResponse(message, context);
   }
-}
 
-// ============================================================================
-// 🎭 Enhanced Mock Response Generator
-// ============================================================================
-
-function generateEnhancedMockResponse(message: string, context: any, modelName: string) {
-  const { personalityProfile, cues, behaviorPatterns } = context;
-  
-  // 메시지 분석
-  const isQuestion = message.includes('?') || /how|what|why|when|where|어떻게|무엇|왜|언제|어디/.test(message.toLowerCase());
-  const isTechnical = /code|api|algorithm|system|data|programming|개발|시스템|알고리즘/.test(message.toLowerCase());
-  const isHelp = /help|도움|지원|support/.test(message.toLowerCase());
-  
-  type ResponseType = 'question' | 'technical' | 'help' | 'general';
-  let responseType: ResponseType = 'general';
-  if (isQuestion) responseType = 'question';
-  if (isTechnical) responseType = 'technical';
-  if (isHelp) responseType = 'help';
-
-  const responses: Record<ResponseType, string> = {
-    question: `**${modelName}** 질문 응답
-
-"${message}"
-
-이 질문에 대해 당신의 **${personalityProfile?.type || 'Adaptive'}** 성격과 **${personalityProfile?.communicationStyle || 'Balanced'}** 소통 스타일을 고려하여 답변드리겠습니다.
-
-${personalityProfile?.type?.includes('Technical') ? 
-  '🔧 **기술적 접근**: 구체적이고 논리적인 설명을 선호하시므로, 단계별로 상세히 설명드리겠습니다.' :
-  '💡 **친근한 접근**: 이해하기 쉽고 실용적인 방식으로 설명드리겠습니다.'
-}
-
-**개인화 적용 데이터:**
-• 사용된 개인 컨텍스트: ${cues.length}개
-• 행동 패턴: ${behaviorPatterns?.slice(0, 2).join(', ') || '분석 중...'}
-
-*실제 ${modelName} API 연결 시 더욱 정교한 답변을 제공합니다.*`,
-
-    technical: `**${modelName}** 기술 분석
-
-**요청 분석:** "${message}"
-
-${personalityProfile?.type?.includes('INTJ') || personalityProfile?.type?.includes('Technical') ?
-  '🎯 **당신의 기술적 성향**에 맞춰 상세한 분석을 제공합니다:' :
-  '🎯 **기술적 내용**을 이해하기 쉽게 설명해드리겠습니다:'
-}
-
-**개인화된 기술 응답:**
-• **학습 패턴**: ${personalityProfile?.learningPattern || 'Visual'} 방식 적용
-• **의사결정 스타일**: ${personalityProfile?.decisionMaking || 'Analytical'} 접근
-
-**관련 컨텍스트:**
-${cues.slice(0, 2).map((cue: any, idx: number) => 
-  `${idx + 1}. ${cue.content_type}: ${cue.compressed_content?.slice(0, 50) || 'No content'}...`
-).join('\n') || '• 새로운 기술 컨텍스트 학습 중...'}
-
-*실제 API 연결 시 최신 기술 정보와 개인화된 코드 예제를 제공합니다.*`,
-
-    help: `**${modelName}** 맞춤형 지원
-
-"${message}"에 대한 도움을 요청하셨군요.
-
-**당신의 프로필 기반 지원:**
-• **성격 유형**: ${personalityProfile?.type || 'Adaptive'} - 맞춤형 접근
-• **소통 스타일**: ${personalityProfile?.communicationStyle || 'Balanced'} 적용
-• **학습 선호도**: ${personalityProfile?.learningPattern || 'Visual'} 방식
-
-**개인화된 도움 제안:**
-${personalityProfile?.communicationStyle?.includes('Direct') ?
-  '🎯 직접적이고 실용적인 해결책을 제시하겠습니다.' :
-  '🤝 단계별로 친근하게 안내해드리겠습니다.'
-}
+  const spending = getCueSpendingService();
+  const disconnect = new AbortController();
+  let heartbeat: NodeJS.Timeout | null = null;
 
-**사용 가능한 개인 데이터:**
-• ${cues.length}개의 개인 컨텍스트
-• ${behaviorPatterns?.length || 0}개의 행동 패턴
-
-어떤 부분에서 구체적으로 도움이 필요한지 알려주시면, 더 정확한 맞춤형 지원을 제공하겠습니다.`,
-
-    general: `**${modelName}** 개인화 응답
-
-**메시지:** "${message}"
-
-**당신의 개인화 프로필 적용:**
-• **성격**: ${personalityProfile?.type || 'Learning...'}
-• **소통**: ${personalityProfile?.communicationStyle || 'Adaptive'}
-• **개인 CUE**: ${cues.length}개 활용
-
-${personalityProfile?.type?.includes('Technical') || personalityProfile?.type?.includes('INTJ') ?
-  '⚡ 논리적이고 체계적인 사고를 선호하시는 것으로 파악되어, 구조화된 응답을 제공합니다.' :
-  '💫 균형 잡힌 접근 방식으로 친근하게 응답드리겠습니다.'
-}
-
-**행동 패턴 기반 맞춤형 제안:**
-${behaviorPatterns?.slice(0, 3).join(' • ') || '• 새로운 패턴 학습 중...'}
-
-궁금한 점이 더 있으시면 언제든 말씀해주세요!`
-  };
-
-  return {
-    response: responses[responseType] || responses.general,
-    tokensUsed: Math.floor(Math.random() * 400) + 200,
-    usedData: extractUsedData(context)
+  const send = (event: string, data: any) => {
+    if (!res.writableEnded) {
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
   };
-}
 
-// ============================================================================
-// 🛠️ 헬퍼 함수들
-// ============================================================================
-
-function createPersonalizedSystemPrompt(context: any): string {
-  const { personalityProfile, cues, behaviorPatterns } = context;
-  
-  return `You are an AI assistant with deep knowledge of the user's personality and preferences.
-
-**User Profile:**
-- Personality: ${personalityProfile?.type || 'Unknown'}
-- Communication: ${personalityProfile?.communicationStyle || 'Adaptive'}
-- Learning: ${personalityProfile?.learningPattern || 'Visual'}
-- Decision Making: ${personalityProfile?.decisionMaking || 'Analytical'}
-
-**Personal Context (${cues.length} items):**
-${cues.slice(0, 5).map((cue: any, i: number) => 
-  `${i + 1}. ${cue.compressed_content} (${cue.content_type})`
-).join('\n')}
-
-**Behavioral Patterns:**
-${behaviorPatterns?.slice(0, 5).join(', ') || 'Learning patterns...'}
-
-Respond in a way that matches their personality and communication style. Use their personal context when relevant.`;
-}
-
-function extractUsedData(context: any): string[] {
-  const data: string[] = [];
-  
-  if (context.personalityProfile) data.push('Personality Profile');
-  if (context.cues?.length > 0) data.push(`${context.cues.length} Personal Contexts`);
-  if (context.behaviorPatterns?.length > 0) data.push('Behavior Patterns');
-  if (context.preferences) data.push('User Preferences');
-  
-  return data;
-}
+  // 응답을 다 보내기 전에 연결이 닫히면 스트림 취소
+  res.on('close', () => {
+    if (!res.writableFinished) disconnect.abort();
+  });
 
-async function learnFromInteraction(userDid: string, userMessage: string, aiResponse: string, context: any) {
   try {
-    const compressionService = new SemanticCompressionService();
-    const analysis = await compressionService.analyzeConversation(userMessage, aiResponse);
-    
-    if (
-      analysis.shouldStore &&
-      'compressedContent' in analysis &&
-      'compressionRatio' in analysis &&
-      'semanticPreservation' in analysis &&
-      'keywords' in analysis &&
-      'entities' in analysis &&
-      'sentiment' in analysis &&
-      'topics' in analysis &&
-      'importance' in analysis &&
-      'cueValue' in analysis
-    ) {
-      await db.storePersonalCue({
-        id: uuidv4(),
-        user_did: userDid,
-        vault_id: context.primaryVaultId,
-        content_type: 'conversation',
-        original_content: `User: ${userMessage}\nAI: ${aiResponse}`,
-        compressed_content: analysis.compressedContent,
-        compression_algorithm: 'semantic',
-        compression_ratio: analysis.compressionRatio,
-        semantic_preservation: analysis.semanticPreservation,
-        keywords: analysis.keywords,
-        entities: analysis.entities,
-        sentiment_score: analysis.sentiment,
-        topics: analysis.topics,
-        importance_score: analysis.importance,
-        cue_mining_value: analysis.cueValue
+    const result = await getChatStreamService().run({
+      userDid,
+      message,
+      model,
+      conversationId,
+      editOf,
+      regenerate,
+      client: interactionContextFromRequest(req, message),
+      signal: disconnect.signal
+    }, {
+      onStart: (start) => {
+        res.writeHead(200, {
+          'Content-Type': 'text/event-stream; charset=utf-8',
+          'Cache-Control': 'no-cache, no-transform',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no'
+        });
+        heartbeat = setInterval(() => {
+          if (!res.writableEnded) res.write(': ping\n\n');
+        }, SSE_HEARTBEAT_MS);
+        send('start', start);
+      },
+      onChunk: (chunk) => send('chunk', chunk)
+    });
+
+    if (!res.headersSent) {
+      // 스트림 시작 전 실패 (컨텍스트 로드 등)
+      return res.status(500).json({
+        success: false,
+        error: result.error || 'Failed to start AI stream'
       });
     }
+
+    send(result.status === 'failed' ? 'error' : 'done', {
+      streamId: result.streamId,
+      status: result.status,
+      message: result.message,
+      error: result.error
+    });
+    res.end();
   } catch (error) {
-    console.error('Learning error:', error);
+    if (error instanceof CueLedgerError && !res.headersSent) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        requiredCue: spending.quoteChat(model, message),
+        cuePer1kTokens: spending.modelPrice(model)
+      });
+    }
+    if (error instanceof ConversationError && !res.headersSent) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    }
+    console.error('❌ AI streaming route error:', error);
+    if (!res.headersSent) {
+      return res.status(500).json({
+        success: false,
+        error: 'Failed to stream AI chat'
+      });
+    }
+    send('error', { status: 'failed', error: 'Failed to stream AI chat' });
+    res.end();
+  } finally {
+    if (heartbeat) clearInterval(heartbeat);
   }
-}
+}));
 
-async function updatePassportActivity(userDid: string) {
-  try {
-    await db.updatePassport(userDid, {
-      total_interactions: 1,
-      last_activity_at: new Date().toISOString()
+// 진행 중인 스트림 취소 (받은 부분까지만 저장/정산)
+router.post('/chat/stream/:streamId/cancel', (req: express.Request, res: express.Response) => {
+  const userDid = (req as RequestWithUser).user.did;
+  const cancelled = getChatStreamService().cancel(req.params.streamId, userDid);
+
+  if (!cancelled) {
+    return res.status(404).json({
+      success: false,
+      error: 'Stream not found or already finished'
     });
-  } catch (error) {
-    console.error('Passport update error:', error);
   }
-}
+
+  res.json({
+    success: true,
+    streamId: req.params.streamId
+  });
+});
 
 // ============================================================================
 // 📊 추가 엔드포인트들
 // ============================================================================
 
+// 제공자 상태 + 서킷 브레이커 (하나라도 열려 있으면 degraded)
 router.get('/health', (req, res) => {
+  const providers = listProviders().map(p => ({
+    id: p.id,
+    configured: p.isConfigured(),
+    capabilities: p.capabilities,
+    breaker: p.id === 'mock' ? null : getCircuitBreaker(p.id).snapshot()
+  }));
+  const degraded = providers.some(p => p.configured && p.breaker && p.breaker.state !== 'closed');
+
   res.json({
     success: true,
     service: 'AI Routes',
+    status: degraded ? 'degraded' : 'ok',
     timestamp: new Date().toISOString(),
     openaiConfigured: !!process.env.OPENAI_API_KEY,
-    anthropicConfigured: !!process.env.ANTHROPIC_API_KEY
+    anthropicConfigured: !!process.env.ANTHROPIC_API_KEY,
+    providers
   });
 });
 
+// 모델 목록 - providers/ModelRegistry.ts 설정 그대로 (가격, 컨텍스트 크기, 제공자 기능 포함)
 router.get('/models', (req, res) => {
   res.json({
     success: true,
-    models: [
-      { id: 'personalized-agent', name: 'Personalized Agent', available: true },
-      { id: 'gpt-4o', name: 'GPT-4o', available: !!process.env.OPENAI_API_KEY },
-      { id: 'claude-3.5-sonnet', name: 'Claude 3.5 Sonnet', available: !!process.env.ANTHROPIC_API_KEY },
-      { id: 'gemini-pro', name: 'Gemini Pro', available: false }
-    ]
+    models: listModels()
   });
 });
 
 router.get('/history/:conversationId?', asyncHandler(async (req: express.Request, res: express.Response) => {
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
   const { conversationId } = req.params;
   const { limit = 50 } = req.query;
 
@@ -591,7 +446,7 @@ router.get('/history/:conversationId?', asyncHandler(async (req: express.Request
 }));
 
 router.get('/context', asyncHandler(async (req: express.Request, res: express.Response) => {
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   try {
     const personalizationService = new PersonalizationService(db);
@@ -621,6 +476,31 @@ router.get('/context', asyncHandler(async (req: express.Request, res: express.Re
   }
 }));
 
+// 개인화 CUE 검색 (하이브리드 BM25 + 임베딩, CUE마다 retrieval.reasons)
+// GET /api/ai/cues/search?q=검색어&limit=10
+router.get('/cues/search', asyncHandler(async (req: express.Request, res: express.Response) => {
+  const userDid = (req as RequestWithUser).user.did;
+  const query = typeof req.query.q === 'string' ? req.query.q : '';
+  const limit = Math.min(parseInt(req.query.limit as string, 10) || 10, 50);
+
+  try {
+    const cues = await getCueRetrievalService().search(userDid, query, { limit });
+    res.json({
+      success: true,
+      query,
+      embeddingModel: getCueRetrievalService().embedder().label,
+      cues,
+      count: cues.length
+    });
+  } catch (error) {
+    console.error('Search cues error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search personal cues'
+    });
+  }
+}));
+
 console.log('✅ AI Routes module initialized successfully');
 
 export default router;
@@ -3,13 +3,20 @@
 // 🔐 WebAuthn 인증 API 라우트 (수정된 완전한 구현)
 // 경로: backend/src/routes/auth/webauthn.ts
 // 용도: 패스키 기반 회원가입/로그인 API 엔드포인트
-// 수정사항: Router export 문제 해결, 모듈 구조 개선
+// 수정사항: Router export 문제 해결, 모듈 구조 개선, 실제 서명 검증 적용
 // ============================================================================
 
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { supabaseService } from '../../services/database/SupabaseService';
 import { DatabaseService } from '../../services/database/DatabaseService';
+import { WebAuthnService } from '../../services/auth/WebAuthnService';
+import { getChallengeStore, ChallengeLimitError } from '../../services/auth/ChallengeStore';
+import { getSessionService } from '../../services/auth/SessionService';
+import { authMiddleware, RequestWithUser } from '../../middleware/authMiddleware';
+import { deriveFinal0626DID } from '../../services/did/DIDResolver';
+import { getWalletService } from '../../services/wallet/WalletService';
+import { getCueLedger } from '../../services/cue/CueLedger';
 
 // Express Router 생성
 const router = Router();
@@ -21,14 +28,75 @@ const db = process.env.USE_MOCK_DATABASE === 'true' ||
   ? DatabaseService.getInstance()
   : supabaseService;
 
-// 메모리 기반 세션 저장소 (실제로는 Redis 권장)
-const sessionStore = new Map<string, any>();
-
 // WebAuthn 설정
 const rpName = process.env.WEBAUTHN_RP_NAME || 'Final0626 AI Passport';
 const rpID = process.env.WEBAUTHN_RP_ID || 'localhost';
 const origin = process.env.WEBAUTHN_ORIGIN || 'http://localhost:3000';
 
+// 검증 서비스 (WEBAUTHN_ORIGIN은 쉼표로 여러 개 지정 가능)
+const webauthnService = new WebAuthnService({
+  rpID,
+  origin: origin.split(',').map(o => o.trim()),
+  requireUserVerification: process.env.WEBAUTHN_REQUIRE_UV === 'true'
+});
+
+// ============================================================================
+// 🧰 공통 헬퍼
+// ============================================================================
+
+// 세션 발급 (app.ts SessionManager와 동일한 응답 필드)
+async function issueSessionTokens(userId: string, credentialId: string, req: Request) {
+  const tokens = await getSessionService().issueSession(userId, credentialId, {
+    userAgent: req.get('User-Agent') || null,
+    ipAddress: req.ip || null
+  });
+
+  return {
+    sessionToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
+    expiresIn: tokens.expiresIn
+  };
+}
+
+// 검증된 등록 정보로 webauthn_credentials 행 생성 (공개키는 COSE 형식 그대로 보관)
+function buildCredentialRecord(userId: string, registrationInfo: any, deviceInfo: any = {}) {
+  return {
+    id: uuidv4(),
+    user_id: userId,
+    credential_id: registrationInfo.credentialID,
+    public_key: registrationInfo.credentialPublicKey.toString('base64'),
+    counter: registrationInfo.counter,
+    device_info: {
+      ...deviceInfo,
+      aaguid: registrationInfo.aaguid,
+      fmt: registrationInfo.fmt,
+      transports: registrationInfo.transports,
+      deviceType: registrationInfo.credentialDeviceType,
+      backedUp: registrationInfo.credentialBackedUp
+    },
+    is_active: true,
+    created_at: new Date().toISOString(),
+    last_used: new Date().toISOString()
+  };
+}
+
+// 패스키 목록 응답 형식
+function toPasskeySummary(credential: any, currentCredentialId?: string | null) {
+  const deviceInfo = credential.device_info || {};
+  return {
+    credentialId: credential.credential_id,
+    name: deviceInfo.name || deviceInfo.platform || 'Passkey',
+    platform: deviceInfo.platform || null,
+    deviceType: deviceInfo.deviceType || 'singleDevice',
+    backedUp: !!deviceInfo.backedUp,
+    transports: deviceInfo.transports || [],
+    counter: credential.counter || 0,
+    createdAt: credential.created_at,
+    lastUsed: credential.last_used || null,
+    isCurrent: credential.credential_id === currentCredentialId
+  };
+}
+
 console.log('🔐 WebAuthn 라우트 초기화됨');
 console.log(`🏷️  RP Name: ${rpName}`);
 console.log(`🌐 RP ID: ${rpID}`);
@@ -53,9 +121,20 @@ router.post('/register/start', async (req: Request, res: Response): Promise<void
     
     console.log(`👤 생성된 사용자 핸들: ${userHandle}`);
     
-    // Mock WebAuthn 옵션 생성 (실제 @simplewebauthn/server 없이)
+    // 챌린지 발급 및 저장 (TTL, 1회성, IP별 제한)
+    const { sessionId, challenge } = await getChallengeStore().issue({
+      type: 'registration',
+      ipAddress: req.ip,
+      data: {
+        userHandle,
+        userEmail: userEmail || null,
+        deviceInfo
+      }
+    });
+
+    // WebAuthn 등록 옵션 생성
     const options = {
-      challenge: Buffer.from(Math.random().toString()).toString('base64url'),
+      challenge,
       rp: { 
         name: rpName, 
         id: rpID 
@@ -78,20 +157,7 @@ router.post('/register/start', async (req: Request, res: Response): Promise<void
       attestation: 'none'
     };
 
-    // 세션 ID 생성 및 저장
-    const sessionId = `reg_${Date.now()}_${uuidv4().substring(0, 8)}`;
-    
-    sessionStore.set(sessionId, {
-      challenge: options.challenge,
-      userHandle,
-      userEmail: userEmail || null,
-      deviceInfo,
-      timestamp: Date.now(),
-      type: 'registration'
-    });
-
     console.log(`🔑 생성된 세션 ID: ${sessionId}`);
-    console.log(`💾 세션 저장 완료 (총 ${sessionStore.size}개)`);
 
     res.json({
       success: true,
@@ -111,6 +177,15 @@ router.post('/register/start', async (req: Request, res: Response): Promise<void
     });
 
   } catch (error: any) {
+    if (error instanceof ChallengeLimitError) {
+      res.status(429).json({ 
+        success: false, 
+        error: error.message,
+        message: '진행 중인 인증 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.'
+      });
+      return;
+    }
+
     console.error('❌ 패스키 등록 시작 오류:', error);
     res.status(500).json({ 
       success: false, 
@@ -122,7 +197,7 @@ router.post('/register/start', async (req: Request, res: Response): Promise<void
 });
 
 // ============================================================================
-// ✅ 패스키 등록 완료 API (누락된 엔드포인트)
+// ✅ 패스키 등록 완료 API
 // POST /api/auth/webauthn/register/complete
 // ============================================================================
 
@@ -141,9 +216,10 @@ router.post('/register/complete', async (req: Request, res: Response): Promise<v
       return;
     }
 
-    // 세션 데이터 조회
-    const sessionData = sessionStore.get(sessionId);
-    if (!sessionData) {
+    // 챌린지 소비 (1회용, 만료/타입 불일치 시 null)
+    const sessionData = await getChallengeStore().consume(sessionId, 'registration');
+
+    if (!sessionData || sessionData.data.addToExisting) {
       console.error('❌ 유효하지 않은 세션 ID:', sessionId);
       res.status(400).json({ 
         success: false, 
@@ -153,162 +229,52 @@ router.post('/register/complete', async (req: Request, res: Response): Promise<v
       return;
     }
 
+    const { userHandle, userEmail, deviceInfo } = sessionData.data;
+
     console.log(`🔍 세션 검증 완료: ${sessionId}`);
+    console.log(`👤 사용자: ${userHandle}`);
 
-    // Mock 검증 (실제 환경에서는 @simplewebauthn/server 사용)
-    const verification = {
-      verified: true,
-      registrationInfo: {
-        credentialID: Buffer.from(credential.id || `cred_${Date.now()}`, 'base64url'),
-        credentialPublicKey: Buffer.from('mock-public-key'),
-        counter: 0,
-        credentialDeviceType: 'singleDevice',
-        credentialBackedUp: false,
-        origin,
-        rpID
-      }
-    };
+    // attestation 검증 (clientData, rpIdHash, 서명)
+    const verification = await webauthnService.verifyRegistrationResponse({
+      credential,
+      expectedChallenge: sessionData.challenge
+    });
 
-    if (!verification.verified) {
-      console.error('❌ 패스키 등록 검증 실패');
+    if (!verification.verified || !verification.registrationInfo) {
+      console.error('❌ 패스키 등록 검증 실패:', verification.error);
       res.status(400).json({ 
         success: false, 
         error: 'Registration verification failed',
-        message: '패스키 등록 검증에 실패했습니다.'
+        message: '패스키 등록 검증에 실패했습니다.',
+        details: process.env.NODE_ENV === 'development' ? verification.error : undefined
       });
       return;
     }
 
-    console.log('✅ 패스키 등록 검증 성공!');
-
-    // 사용자 데이터 생성
-    const userData = {
-      userId: sessionData.userId,
-      userHandle: sessionData.userHandle || sessionData.userId,
-      userName: sessionData.userName || `user_${Date.now()}`,
-      userEmail: sessionData.userEmail,
-      credentialID: verification.registrationInfo.credentialID,
-      credentialPublicKey: verification.registrationInfo.credentialPublicKey,
-      counter: verification.registrationInfo.counter,
-      deviceInfo: sessionData.deviceInfo || {},
-      registeredAt: new Date().toISOString()
-    };
-
-    try {
-      // 데이터베이스에 사용자 저장
-      await db.createUser({
-        id: userData.userId,
-        email: userData.userEmail,
-        name: userData.userName,
-        did: `did:web:${userData.userHandle}`,
-        wallet_address: `0x${Buffer.from(userData.userId).toString('hex').substring(0, 40)}`,
-        trust_score: 50,
-        created_at: userData.registeredAt
-      });
-
-      console.log(`💾 사용자 데이터베이스 저장 완료: ${userData.userId}`);
-
-    } catch (dbError) {
-      console.warn('⚠️ 데이터베이스 저장 실패, 메모리에만 저장:', dbError);
-    }
-
-    // 세션 정리
-    sessionStore.delete(sessionId);
+    const { registrationInfo } = verification;
 
-    // 성공 응답
-    res.json({
-      success: true,
-      message: '패스키 등록이 완료되었습니다!',
-      user: {
-        userId: userData.userId,
-        userName: userData.userName,
-        userEmail: userData.userEmail,
-        did: `did:web:${userData.userHandle}`,
-        registeredAt: userData.registeredAt
-      },
-      credential: {
-        id: credential.id,
-        type: 'public-key'
-      }
-    });
-
-    console.log(`🎉 패스키 등록 완료: ${userData.userId}`);
-
-  } catch (error: any) {
-    console.error('❌ 패스키 등록 완료 오류:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Registration completion failed',
-      message: '패스키 등록 완료에 실패했습니다.',
-      details: process.env.NODE_ENV === 'development' ? error.message : undefined
-    });
-  }
-});
-
-// ============================================================================
-// ✅ 패스키 등록 완료 API
-// POST /api/auth/webauthn/register/complete
-// ============================================================================
-
-router.post('/register/complete', async (req: Request, res: Response): Promise<void> => {
-  try {
-    console.log('✅ 패스키 등록 완료 요청 받음');
-    
-    const { credential, sessionId } = req.body;
-
-    if (!credential || !sessionId) {
-      res.status(400).json({ 
+    // 이미 등록된 자격 증명인지 확인
+    const existingCredential = await db.getWebAuthnCredentialById(registrationInfo.credentialID);
+    if (existingCredential) {
+      res.status(409).json({ 
         success: false, 
-        error: 'Credential and sessionId are required',
-        message: '인증 정보와 세션 ID가 필요합니다.'
+        error: 'Credential already registered',
+        message: '이미 등록된 패스키입니다.'
       });
       return;
     }
 
-    // 세션 데이터 조회
-    const sessionData = sessionStore.get(sessionId);
-    if (!sessionData) {
-      console.error('❌ 유효하지 않은 세션 ID:', sessionId);
-      res.status(400).json({ 
-        success: false, 
-        error: 'Invalid or expired session',
-        message: '유효하지 않거나 만료된 세션입니다.'
-      });
-      return;
-    }
-
-    const { userHandle, userEmail, deviceInfo } = sessionData;
-
-    console.log(`🔍 세션 검증 완료: ${sessionId}`);
-    console.log(`👤 사용자: ${userHandle}`);
-
-    // Mock 검증 (실제 환경에서는 @simplewebauthn/server 사용)
-    const verification = {
-      verified: true,
-      registrationInfo: {
-        credentialID: Buffer.from(credential.id || `cred_${Date.now()}`, 'base64url'),
-        credentialPublicKey: Buffer.from(`pubkey_${Date.now()}`, 'base64'),
-        counter: 0,
-        fmt: 'none',
-        aaguid: Buffer.alloc(16).toString('base64'),
-        credentialType: 'public-key',
-        userVerified: true,
-        credentialDeviceType: 'singleDevice',
-        credentialBackedUp: false,
-        origin
-      }
-    };
-
-    console.log('✅ 패스키 검증 성공! (Mock)');
+    console.log(`✅ 패스키 검증 성공! (fmt: ${registrationInfo.fmt}, alg: ${registrationInfo.alg})`);
 
     // 사용자 생성
+    const userId = uuidv4();
     const userData = {
-      id: uuidv4(),
+      id: userId,
       username: userHandle,
       email: userEmail,
       full_name: `AI Passport User ${userHandle}`,
-      did: `did:final0626:${Date.now()}`,
-      wallet_address: `0x${Math.random().toString(16).substring(2, 42)}`,
+      did: deriveFinal0626DID(registrationInfo.credentialID),
+      wallet_address: getWalletService().getAddress(userId),
       webauthn_user_id: userHandle,
       passkey_registered: true,
       two_factor_enabled: false,
@@ -332,26 +298,22 @@ router.post('/register/complete', async (req: Request, res: Response): Promise<v
     console.log(`✅ 새 사용자 생성 완료: ${user.id}`);
 
     // WebAuthn 자격 증명 저장
-    const credentialData = {
-      id: uuidv4(),
-      user_id: user.id,
-      credential_id: Buffer.from(verification.registrationInfo.credentialID).toString('base64url'),
-      public_key: Buffer.from(verification.registrationInfo.credentialPublicKey).toString('base64'),
-      counter: verification.registrationInfo.counter,
-      device_info: deviceInfo,
-      is_active: true,
-      created_at: new Date().toISOString(),
-      last_used: new Date().toISOString()
-    };
+    const credentialData = buildCredentialRecord(user.id, registrationInfo, deviceInfo);
 
     const credentialSaved = await db.saveWebAuthnCredential(credentialData);
     
     if (!credentialSaved) {
-      console.warn('⚠️ 자격 증명 저장 실패 (사용자는 생성됨)');
-    } else {
-      console.log('✅ WebAuthn 자격 증명 저장 완료');
+      console.error('❌ 자격 증명 저장 실패 (사용자는 생성됨):', user.id);
+      res.status(500).json({ 
+        success: false, 
+        error: 'Credential storage failed',
+        message: '패스키 저장에 실패했습니다.'
+      });
+      return;
     }
 
+    console.log('✅ WebAuthn 자격 증명 저장 완료');
+
     // AI Passport 초기화
     await db.updatePassport(user.did, {
       passport_level: 'Verified',
@@ -373,26 +335,23 @@ router.post('/register/complete', async (req: Request, res: Response): Promise<v
       successful_verifications: 1
     });
 
-    // 환영 CUE 토큰 지급
-    await db.createCUETransaction({
-      user_did: user.did,
-      user_id: user.id,
-      transaction_type: 'reward',
-      amount: 100.0,
-      status: 'completed',
+    // 환영 CUE 토큰 지급 (사용자당 한 번)
+    await getCueLedger().mine(user.did, 100.0, {
+      idempotencyKey: `registration_bonus:${user.did}`,
+      type: 'reward',
       source: 'registration_bonus',
-      description: 'Welcome bonus for new AI Passport user'
+      description: 'Welcome bonus for new AI Passport user',
+      metadata: { userId: user.id }
     });
 
-    // 세션 정리
-    sessionStore.delete(sessionId);
-    console.log(`🗑️ 세션 정리 완료: ${sessionId}`);
+    const session = await issueSessionTokens(user.id, registrationInfo.credentialID, req);
 
     // 성공 응답
     res.json({
       success: true,
       verified: true,
       message: 'Registration completed successfully',
+      ...session,
       user: {
         id: user.id,
         username: user.username,
@@ -403,8 +362,9 @@ router.post('/register/complete', async (req: Request, res: Response): Promise<v
         biometricVerified: true
       },
       credential: {
-        id: Buffer.from(verification.registrationInfo.credentialID).toString('base64url'),
-        verified: true
+        id: registrationInfo.credentialID,
+        verified: true,
+        userVerified: registrationInfo.userVerified
       },
       rewards: {
         welcomeCUE: 100,
@@ -433,26 +393,37 @@ router.post('/login/start', async (req: Request, res: Response): Promise<void> =
     console.log('🔓 패스키 로그인 시작 요청 받음');
     
     const { userIdentifier } = req.body;
+
+    // 사용자 식별자가 있으면 해당 사용자의 자격 증명만 허용 (없으면 discoverable credential)
+    let allowCredentials: { id: string; type: 'public-key'; transports?: string[] }[] = [];
+    if (userIdentifier) {
+      const knownUser = await db.findUserByEmail(userIdentifier);
+      if (knownUser) {
+        const credentials = await db.getWebAuthnCredentials(knownUser.id);
+        allowCredentials = credentials.map((c: any) => ({
+          id: c.credential_id,
+          type: 'public-key' as const,
+          transports: c.device_info?.transports
+        }));
+      }
+    }
     
-    // Mock 인증 옵션 생성
+    // 챌린지 발급 및 저장
+    const { sessionId, challenge } = await getChallengeStore().issue({
+      type: 'authentication',
+      ipAddress: req.ip,
+      data: { userIdentifier: userIdentifier || null }
+    });
+    
+    // 인증 옵션 생성
     const options = {
-      challenge: Buffer.from(Math.random().toString()).toString('base64url'),
+      challenge,
       timeout: 60000,
       rpId: rpID,
-      allowCredentials: [], // 모든 등록된 자격 증명 허용
+      allowCredentials,
       userVerification: 'preferred'
     };
 
-    // 세션 ID 생성 및 저장
-    const sessionId = `auth_${Date.now()}_${uuidv4().substring(0, 8)}`;
-    
-    sessionStore.set(sessionId, {
-      challenge: options.challenge,
-      userIdentifier: userIdentifier || null,
-      timestamp: Date.now(),
-      type: 'authentication'
-    });
-
     console.log(`🔑 생성된 로그인 세션 ID: ${sessionId}`);
 
     res.json({
@@ -467,6 +438,15 @@ router.post('/login/start', async (req: Request, res: Response): Promise<void> =
     });
 
   } catch (error: any) {
+    if (error instanceof ChallengeLimitError) {
+      res.status(429).json({ 
+        success: false, 
+        error: error.message,
+        message: '진행 중인 인증 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.'
+      });
+      return;
+    }
+
     console.error('❌ 패스키 로그인 시작 오류:', error);
     res.status(500).json({ 
       success: false, 
@@ -497,8 +477,9 @@ router.post('/login/complete', async (req: Request, res: Response): Promise<void
       return;
     }
 
-    // 세션 데이터 조회
-    const sessionData = sessionStore.get(sessionId);
+    // 챌린지 소비 (1회용, 만료/타입 불일치 시 null)
+    const sessionData = await getChallengeStore().consume(sessionId, 'authentication');
+
     if (!sessionData) {
       console.error('❌ 유효하지 않은 로그인 세션 ID:', sessionId);
       res.status(400).json({ 
@@ -511,56 +492,83 @@ router.post('/login/complete', async (req: Request, res: Response): Promise<void
 
     console.log(`🔍 로그인 세션 검증 완료: ${sessionId}`);
 
-    // Mock 검증
-    const verification = {
-      verified: true,
-      authenticationInfo: {
-        credentialID: Buffer.from(credential.id || `cred_${Date.now()}`, 'base64url'),
-        newCounter: 1,
-        userVerified: true,
-        credentialDeviceType: 'singleDevice',
-        credentialBackedUp: false,
-        origin,
-        rpID
-      }
-    };
+    // 저장된 자격 증명 조회
+    const storedCredential = await db.getWebAuthnCredentialById(credential.id);
+    if (!storedCredential) {
+      console.error('❌ 등록되지 않은 자격 증명:', credential.id);
+      res.status(401).json({ 
+        success: false, 
+        error: 'Unknown credential',
+        message: '등록되지 않은 패스키입니다.'
+      });
+      return;
+    }
 
-    console.log('✅ 패스키 인증 검증 성공! (Mock)');
+    // assertion 검증 (저장된 공개키로 서명 확인 + 카운터 역행 감지)
+    const verification = await webauthnService.verifyAuthenticationResponse({
+      credential,
+      expectedChallenge: sessionData.challenge,
+      storedCredential
+    });
 
-    // Mock 사용자 데이터 생성 (실제로는 DB에서 조회)
-    const user = {
-      id: `user_${Date.now()}`,
-      username: `user_${Math.floor(Math.random() * 10000)}`,
-      email: 'demo@example.com',
-      did: `did:final0626:${Date.now()}`,
-      wallet_address: `0x${Math.random().toString(16).substring(2, 42)}`,
-      passkey_registered: true,
+    if (!verification.verified || !verification.authenticationInfo) {
+      console.error('❌ 패스키 인증 검증 실패:', verification.error);
+      res.status(401).json({ 
+        success: false, 
+        error: verification.counterRegression 
+          ? 'Signature counter regression detected' 
+          : 'Authentication verification failed',
+        message: verification.counterRegression 
+          ? '복제된 인증기가 의심되어 로그인이 거부되었습니다.' 
+          : '패스키 인증 검증에 실패했습니다.',
+        details: process.env.NODE_ENV === 'development' ? verification.error : undefined
+      });
+      return;
+    }
+
+    const { authenticationInfo } = verification;
+
+    await db.updateWebAuthnCredentialCounter(storedCredential.credential_id, authenticationInfo.newCounter);
+
+    console.log('✅ 패스키 인증 검증 성공!');
+
+    // 자격 증명 소유자 조회
+    const existingUser = await db.getUserById(storedCredential.user_id);
+    if (!existingUser) {
+      console.error('❌ 자격 증명 소유자를 찾을 수 없음:', storedCredential.user_id);
+      res.status(401).json({ 
+        success: false, 
+        error: 'User not found',
+        message: '사용자를 찾을 수 없습니다.'
+      });
+      return;
+    }
+
+    const user = (await db.updateUser(existingUser.id, {
       last_login_at: new Date().toISOString(),
-      login_count: 1,
-      created_at: new Date().toISOString()
-    };
+      login_count: (existingUser.login_count || 0) + 1
+    })) || existingUser;
 
-    // AI Passport 정보 (Mock)
+    const passportData = await db.getPassport(user.did);
     const passport = {
-      level: 'Verified',
-      trust_score: 96.8,
-      biometric_verified: true,
-      total_interactions: 25
+      level: passportData?.passport_level || 'Verified',
+      trust_score: passportData?.trust_score ?? 0,
+      biometric_verified: passportData?.biometric_verified ?? true,
+      total_interactions: passportData?.total_interactions ?? 0
     };
 
-    const cueBalance = Math.floor(Math.random() * 50000) + 10000;
+    const cueBalance = await getCueLedger().getBalance(user.did);
 
     console.log(`✅ 사용자 로그인 완료: ${user.username}`);
 
-    // 세션 정리
-    sessionStore.delete(sessionId);
-    console.log(`🗑️ 로그인 세션 정리 완료: ${sessionId}`);
+    const session = await issueSessionTokens(user.id, authenticationInfo.credentialID, req);
 
     // 성공 응답
     res.json({
       success: true,
       verified: true,
       message: 'Login completed successfully',
+      ...session,
       user: {
         id: user.id,
         username: user.username,
@@ -578,8 +586,9 @@ router.post('/login/complete', async (req: Request, res: Response): Promise<void
         currency: 'CUE'
       },
       credential: {
-        id: Buffer.from(verification.authenticationInfo.credentialID).toString('base64url'),
+        id: authenticationInfo.credentialID,
         verified: true,
+        userVerified: authenticationInfo.userVerified,
         lastUsed: new Date().toISOString()
       }
     });
@@ -595,6 +604,339 @@ router.post('/login/complete', async (req: Request, res: Response): Promise<void
   }
 });
 
+// ============================================================================
+// 📱 내 패스키 목록 API
+// GET /api/auth/webauthn/credentials
+// ============================================================================
+
+router.get('/credentials', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const { id: userId, credentialId: currentCredentialId } = user;
+    const credentials = await db.getWebAuthnCredentials(userId);
+
+    res.json({
+      success: true,
+      credentials: credentials.map((c: any) => toPasskeySummary(c, currentCredentialId)),
+      count: credentials.length
+    });
+
+  } catch (error: any) {
+    console.error('❌ 패스키 목록 조회 오류:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to list passkeys',
+      message: '패스키 목록 조회에 실패했습니다.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// ============================================================================
+// ✏️ 패스키 이름 변경 API
+// PUT /api/auth/webauthn/credentials/:credentialId
+// ============================================================================
+
+router.put('/credentials/:credentialId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const { credentialId } = req.params;
+    const name = typeof req.body.name === 'string' ? req.body.name.trim() : '';
+
+    if (!name || name.length > 64) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Name must be 1-64 characters',
+        message: '패스키 이름은 1~64자여야 합니다.'
+      });
+      return;
+    }
+
+    const credentials = await db.getWebAuthnCredentials(user.id);
+    const target = credentials.find((c: any) => c.credential_id === credentialId);
+
+    if (!target) {
+      res.status(404).json({ 
+        success: false, 
+        error: 'Passkey not found',
+        message: '패스키를 찾을 수 없습니다.'
+      });
+      return;
+    }
+
+    const updated = await db.updateWebAuthnCredential(credentialId, {
+      device_info: { ...(target.device_info || {}), name }
+    });
+
+    if (!updated) {
+      res.status(500).json({ 
+        success: false, 
+        error: 'Failed to rename passkey',
+        message: '패스키 이름 변경에 실패했습니다.'
+      });
+      return;
+    }
+
+    console.log(`✏️ 패스키 이름 변경: ${credentialId} → ${name}`);
+
+    res.json({
+      success: true,
+      credential: toPasskeySummary(updated, user.credentialId)
+    });
+
+  } catch (error: any) {
+    console.error('❌ 패스키 이름 변경 오류:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to rename passkey',
+      message: '패스키 이름 변경에 실패했습니다.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// ============================================================================
+// 🗑️ 패스키 폐기 API
+// DELETE /api/auth/webauthn/credentials/:credentialId
+// ============================================================================
+
+router.delete('/credentials/:credentialId', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const { credentialId } = req.params;
+
+    const credentials = await db.getWebAuthnCredentials(user.id);
+    const target = credentials.find((c: any) => c.credential_id === credentialId);
+
+    if (!target) {
+      res.status(404).json({ 
+        success: false, 
+        error: 'Passkey not found',
+        message: '패스키를 찾을 수 없습니다.'
+      });
+      return;
+    }
+
+    // 마지막 패스키를 폐기하면 계정에 접근할 수 없으므로 거부
+    if (credentials.length <= 1) {
+      res.status(409).json({ 
+        success: false, 
+        error: 'Cannot revoke the last passkey',
+        message: '마지막 패스키는 폐기할 수 없습니다. 다른 기기를 먼저 추가해주세요.'
+      });
+      return;
+    }
+
+    const revoked = await db.updateWebAuthnCredential(credentialId, {
+      is_active: false,
+      device_info: { ...(target.device_info || {}), revokedAt: new Date().toISOString() }
+    });
+
+    if (!revoked) {
+      res.status(500).json({ 
+        success: false, 
+        error: 'Failed to revoke passkey',
+        message: '패스키 폐기에 실패했습니다.'
+      });
+      return;
+    }
+
+    // 폐기된 패스키로 발급된 세션도 함께 종료
+    const revokedSessions = await getSessionService().revokeAllForCredential(user.id, credentialId);
+
+    console.log(`🗑️ 패스키 폐기: ${credentialId} (사용자: ${user.id})`);
+
+    res.json({
+      success: true,
+      revoked: credentialId,
+      revokedSessions,
+      remaining: credentials.length - 1
+    });
+
+  } catch (error: any) {
+    console.error('❌ 패스키 폐기 오류:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Failed to revoke passkey',
+      message: '패스키 폐기에 실패했습니다.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// ============================================================================
+// ➕ 새 기기 패스키 추가 시작 API (로그인 상태)
+// POST /api/auth/webauthn/credentials/register/start
+// ============================================================================
+
+router.post('/credentials/register/start', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const { profile } = user;
+    const { name, deviceInfo = {} } = req.body;
+
+    const existing = await db.getWebAuthnCredentials(profile.id);
+    const userHandle = profile.webauthn_user_id || profile.id;
+
+    const { sessionId, challenge } = await getChallengeStore().issue({
+      type: 'registration',
+      ipAddress: req.ip,
+      data: {
+        userId: profile.id,
+        addToExisting: true,
+        deviceInfo: { ...deviceInfo, ...(name ? { name } : {}) }
+      }
+    });
+
+    // 같은 사용자 핸들로 등록해야 discoverable credential이 같은 계정으로 연결됨
+    const options = {
+      challenge,
+      rp: { 
+        name: rpName, 
+        id: rpID 
+      },
+      user: {
+        id: Buffer.from(userHandle).toString('base64url'),
+        name: profile.email || profile.username || userHandle,
+        displayName: `AI Passport User ${profile.username || userHandle}`
+      },
+      pubKeyCredParams: [
+        { alg: -7, type: 'public-key' },   // ES256
+        { alg: -257, type: 'public-key' }  // RS256
+      ],
+      excludeCredentials: existing.map((c: any) => ({
+        id: c.credential_id,
+        type: 'public-key',
+        transports: c.device_info?.transports
+      })),
+      authenticatorSelection: {
+        userVerification: 'preferred',
+        residentKey: 'preferred'
+      },
+      timeout: 60000,
+      attestation: 'none'
+    };
+
+    res.json({
+      success: true,
+      options,
+      sessionId
+    });
+
+  } catch (error: any) {
+    if (error instanceof ChallengeLimitError) {
+      res.status(429).json({ 
+        success: false, 
+        error: error.message,
+        message: '진행 중인 인증 요청이 너무 많습니다. 잠시 후 다시 시도해주세요.'
+      });
+      return;
+    }
+
+    console.error('❌ 패스키 추가 시작 오류:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Passkey registration initialization failed',
+      message: '패스키 추가 초기화에 실패했습니다.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
+// ============================================================================
+// ✅ 새 기기 패스키 추가 완료 API (로그인 상태)
+// POST /api/auth/webauthn/credentials/register/complete
+// ============================================================================
+
+router.post('/credentials/register/complete', authMiddleware, async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const { credential, sessionId } = req.body;
+
+    if (!credential || !sessionId) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Credential and sessionId are required',
+        message: '인증 정보와 세션 ID가 필요합니다.'
+      });
+      return;
+    }
+
+    const sessionData = await getChallengeStore().consume(sessionId, 'registration');
+
+    // 다른 사용자가 발급받은 챌린지로 추가하는 것을 방지
+    if (!sessionData || !sessionData.data.addToExisting || sessionData.data.userId !== user.id) {
+      res.status(400).json({ 
+        success: false, 
+        error: 'Invalid or expired session',
+        message: '유효하지 않거나 만료된 세션입니다.'
+      });
+      return;
+    }
+
+    const verification = await webauthnService.verifyRegistrationResponse({
+      credential,
+      expectedChallenge: sessionData.challenge
+    });
+
+    if (!verification.verified || !verification.registrationInfo) {
+      console.error('❌ 패스키 추가 검증 실패:', verification.error);
+      res.status(400).json({ 
+        success: false, 
+        error: 'Registration verification failed',
+        message: '패스키 등록 검증에 실패했습니다.',
+        details: process.env.NODE_ENV === 'development' ? verification.error : undefined
+      });
+      return;
+    }
+
+    const { registrationInfo } = verification;
+
+    const existingCredential = await db.getWebAuthnCredentialById(registrationInfo.credentialID);
+    if (existingCredential) {
+      res.status(409).json({ 
+        success: false, 
+        error: 'Credential already registered',
+        message: '이미 등록된 패스키입니다.'
+      });
+      return;
+    }
+
+    const credentialData = buildCredentialRecord(user.id, registrationInfo, sessionData.data.deviceInfo);
+    const saved = await db.saveWebAuthnCredential(credentialData);
+
+    if (!saved) {
+      res.status(500).json({ 
+        success: false, 
+        error: 'Credential storage failed',
+        message: '패스키 저장에 실패했습니다.'
+      });
+      return;
+    }
+
+    console.log(`➕ 새 패스키 추가 완료: ${registrationInfo.credentialID} (사용자: ${user.id})`);
+
+    res.json({
+      success: true,
+      credential: toPasskeySummary(credentialData, user.credentialId)
+    });
+
+  } catch (error: any) {
+    console.error('❌ 패스키 추가 완료 오류:', error);
+    res.status(500).json({ 
+      success: false, 
+      error: 'Passkey registration failed',
+      message: '패스키 추가에 실패했습니다.',
+      details: process.env.NODE_ENV === 'development' ? error.message : undefined
+    });
+  }
+});
+
 // ============================================================================
 // 🔍 상태 확인 API
 // GET /api/auth/webauthn/status
@@ -608,7 +950,7 @@ router.get('/status', (req: Request, res: Response): void => {
       rpName,
       rpID,
       origin,
-      sessionCount: sessionStore.size,
+      challengeStore: getChallengeStore().backendName,
       database: db.constructor.name
     },
     environment: process.env.NODE_ENV || 'development',
@@ -616,23 +958,6 @@ router.get('/status', (req: Request, res: Response): void => {
   });
 });
 
-// ============================================================================
-// 🧹 세션 정리 유틸리티
-// ============================================================================
-
-// 만료된 세션 정리 (5분 후 자동 삭제)
-setInterval(() => {
-  const now = Date.now();
-  const fiveMinutes = 5 * 60 * 1000;
-  
-   for (const [sessionId, sessionData] of sessionStore.entries()) {
-    if (now - sessionData.timestamp > fiveMinutes) {
-      sessionStore.delete(sessionId);
-      console.log(`🗑️ 만료된 세션 삭제: ${sessionId}`);
-    }
-  }
-}, 60000);
-
 console.log('✅ WebAuthn 라우트 설정 완료');
 
 // ✅ 명시적이고 일관된 export
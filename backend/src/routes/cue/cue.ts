@@ -8,6 +8,8 @@ import express, { Request, Response, Router } from 'express';
 import { DatabaseService } from '../../services/database/DatabaseService';
 import { supabaseService } from '../../services/database/SupabaseService';
 import { CUEMiningService } from '../../services/cue/CUEMiningService';
+import { getCueLedger } from '../../services/cue/CueLedger';
+import { interactionContextFromRequest } from '../../services/cue/AbuseDetector';
 
 // 라우터 생성
 const router: Router = express.Router();
@@ -40,7 +42,7 @@ router.get('/:userDid/balance', async (req: Request, res: Response): Promise<voi
   }
 
   try {
-    const balance = await db.getCUEBalance(userDid);
+    const balance = await getCueLedger().getBalance(userDid);
     
     res.json({
       success: true,
@@ -82,7 +84,7 @@ router.get('/:userDid/transactions', async (req: Request, res: Response): Promis
   }
 
   try {
-    const cueService = new CUEMiningService(db);
+    const cueService = new CUEMiningService();
     const transactions = await cueService.getTransactionHistory(
       userDid, 
       parseInt(limit as string)
@@ -130,7 +132,7 @@ router.post('/mine', async (req: Request, res: Response): Promise<void> => {
   }
 
   try {
-    const cueService = new CUEMiningService(db);
+    const cueService = new CUEMiningService();
     let minedAmount = 0;
     
     // 활동에 따른 CUE 마이닝
@@ -143,7 +145,8 @@ router.post('/mine', async (req: Request, res: Response): Promise<void> => {
           model: data.model || 'default',
           personalContextUsed: data.personalContextUsed || 0,
           responseTime: data.responseTime || 1000,
-          conversationId: data.conversationId || `conv_${Date.now()}`
+          conversationId: data.conversationId || `conv_${Date.now()}`,
+          client: interactionContextFromRequest(req, data.message || 'AI Chat interaction')
         });
         break;
         
@@ -158,14 +161,13 @@ router.post('/mine', async (req: Request, res: Response): Promise<void> => {
         break;
         
       case 'daily_login':
-        minedAmount = await cueService.mineLoginBonus(userDid);
+        minedAmount = await cueService.mineLoginBonus(userDid, data.timezone);
         break;
         
       case 'manual':
-        minedAmount = Math.random() * 3 + 1; // 1-4 CUE
-        await cueService.awardCUE({
+        minedAmount = await cueService.awardCUE({
           userDid,
-          amount: minedAmount,
+          amount: Math.random() * 3 + 1, // 1-4 CUE
           reason: 'manual_mining',
           description: 'Manual CUE mining reward',
           metadata: data
@@ -213,7 +215,7 @@ router.get('/:userDid/stats', async (req: Request, res: Response): Promise<void>
   console.log(`📈 CUE 통계 조회: ${userDid} (${days}일)`);
 
   try {
-    const cueService = new CUEMiningService(db);
+    const cueService = new CUEMiningService();
     const stats = await cueService.getMiningStats(userDid, parseInt(days as string));
     
     res.json({
@@ -5,31 +5,357 @@
 // ============================================================================
 // backend/src/routes/cue/index.ts
 
-import express from 'express';
-// Update the import path below if the file is named or located differently, e.g. DatabaseService.ts or databaseService.ts
-import { DatabaseService } from '../../services/database/DatabaseService'; // Adjust the path as necessary
-// If the file is actually named DatabaseService.ts, ensure the casing matches exactly.
+import express, { Request, Response } from 'express';
 import { CUEMiningService } from '../../services/cue/CUEMiningService';
+import { getCueLedger, CueLedgerError } from '../../services/cue/CueLedger';
+import { getCueTransferService, CueTransferService, TransferError } from '../../services/cue/CueTransferService';
+import { getStepUpService, StepUpError } from '../../services/auth/StepUpService';
+import { getMiningLimiter, isValidTimezone } from '../../services/cue/MiningLimiter';
+import { interactionContextFromRequest } from '../../services/cue/AbuseDetector';
+import { getMiningReviewQueue, MiningReviewError } from '../../services/cue/MiningReviewQueue';
+import {
+  getRewardPolicyEngine,
+  RewardInputs,
+  RewardPolicyDocument,
+  RewardPolicyError,
+  validateRewardPolicy
+} from '../../services/cue/RewardPolicyEngine';
+import { getCueSpendingService } from '../../services/cue/CueSpendingService';
+import { getCueSettlementService, SettlementError } from '../../services/settlement/CueSettlementService';
+import { getCueReceiptService, ReceiptError } from '../../services/cue/CueReceiptService';
+import { WalletService } from '../../services/wallet/WalletService';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser, requireScope } from '../../middleware/authMiddleware';
 
 const router = express.Router();
-const db = DatabaseService.getInstance();
+
+function sendCueError(res: Response, error: any): void {
+  if (error instanceof StepUpError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code,
+      stepUp: error.challenge
+    });
+    return;
+  }
+  if (
+    error instanceof TransferError ||
+    error instanceof CueLedgerError ||
+    error instanceof MiningReviewError ||
+    error instanceof RewardPolicyError ||
+    error instanceof SettlementError ||
+    error instanceof ReceiptError
+  ) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+  throw error;
+}
+
+// 원장 정합성 검사 (관리자 전용) - 모든 계정 합계가 0인지 확인
+router.get('/ledger/consistency', requireScope('admin'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const report = await getCueLedger().verifyConsistency();
+
+  res.status(report.balanced ? 200 : 409).json({
+    success: report.balanced,
+    report
+  });
+}));
+
+// 어뷰징 의심으로 보류된 마이닝 보상 목록 (관리자 전용)
+router.get('/reviews', requireScope('admin'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { status = 'pending', limit = 50 } = req.query;
+
+  if (!['pending', 'approved', 'rejected', 'all'].includes(status as string)) {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid review status'
+    });
+    return;
+  }
+
+  const reviews = await getMiningReviewQueue().list(
+    status as 'pending' | 'approved' | 'rejected' | 'all',
+    parseInt(limit as string) || 50
+  );
+
+  res.json({
+    success: true,
+    reviews,
+    count: reviews.length
+  });
+}));
+
+// 보류 보상 승인 (원장 기록) / 거절 (관리자 전용)
+router.post('/reviews/:id/:decision(approve|reject)', requireScope('admin'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { id, decision } = req.params;
+  const reviewerDid = (req as RequestWithUser).user.did;
+  const note = typeof req.body?.note === 'string' ? req.body.note.slice(0, 500) : undefined;
+
+  try {
+    const queue = getMiningReviewQueue();
+    const review = decision === 'approve'
+      ? await queue.approve(id, reviewerDid, note)
+      : await queue.reject(id, reviewerDid, note);
+
+    res.json({
+      success: true,
+      review
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// CUE 가격표 (모델별 1K 토큰당 가격, 기능별 고정 비용)
+router.get('/pricing', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    pricing: getCueSpendingService().getCatalog()
+  });
+}));
+
+// 내 CUE 사용 예약/정산 내역
+router.get('/spend-holds', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+  const { limit = 50 } = req.query;
+
+  const holds = await getCueSpendingService().listHolds(userDid, parseInt(limit as string));
+
+  res.json({
+    success: true,
+    holds,
+    count: holds.length
+  });
+}));
+
+// 온체인 정산 상태 (비활성이어도 200, enabled=false)
+router.get('/settlement', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  res.json({
+    success: true,
+    settlement: await getCueSettlementService().getStatus()
+  });
+}));
+
+// 원장 묶음 목록 (Merkle 루트, 기록 트랜잭션, 확인 블록 수)
+router.get('/settlement/batches', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { limit = 20 } = req.query;
+  const batches = await getCueSettlementService().listBatches(parseInt(limit as string));
+
+  res.json({
+    success: true,
+    batches,
+    count: batches.length
+  });
+}));
+
+// 정산 주기 즉시 실행 (관리자 전용) - 묶음 생성, 전송, 확인 블록 수 갱신
+router.post('/settlement/run', requireScope('admin'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const result = await getCueSettlementService().runCycle();
+    res.json({ success: true, result });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 오프체인 잔액 → 패스포트 지갑 출금 (송금과 같은 기준으로 패스키 재인증)
+router.post('/withdrawals', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const user = (req as RequestWithUser).user;
+  const { amount, assertion } = req.body;
+  const clientKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
+  const address = user.profile?.wallet_address
+    ? WalletService.toChecksumAddress(user.profile.wallet_address)
+    : null;
+
+  try {
+    const settlement = getCueSettlementService();
+    if (!settlement.isEnabled()) {
+      res.status(503).json({
+        success: false,
+        error: 'On-chain settlement is not configured',
+        code: 'SETTLEMENT_DISABLED'
+      });
+      return;
+    }
+
+    if (getCueTransferService().requiresStepUp(Number(amount))) {
+      await getStepUpService().requireAssertion(user, {
+        purpose: 'cue_withdrawal',
+        amount: Number(amount).toFixed(2),
+        address
+      }, assertion, req.ip);
+    }
+
+    const { withdrawal, replayed } = await settlement.requestWithdrawal({
+      userDid: user.did,
+      address,
+      amount: Number(amount),
+      idempotencyKey: typeof clientKey === 'string' && clientKey.length > 0 ? clientKey : undefined
+    });
+
+    res.status(replayed ? 200 : 201).json({
+      success: true,
+      withdrawal,
+      replayed,
+      balance: await getCueLedger().getBalance(user.did)
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 내 출금 목록
+router.get('/withdrawals', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+  const { limit = 50 } = req.query;
+
+  const withdrawals = await getCueSettlementService().listWithdrawals(userDid, parseInt(limit as string));
+
+  res.json({
+    success: true,
+    withdrawals,
+    count: withdrawals.length
+  });
+}));
+
+// 마이닝 거래 포함 증명 (리프 원문 + 형제 해시 + 서명된 일별 루트)
+router.get('/transactions/:id/proof', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+
+  try {
+    const receipt = await getCueReceiptService().getProof(userDid, req.params.id);
+
+    res.json({
+      success: true,
+      receipt
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 보상 정책 버전 목록 (적용 중인 버전 표시)
+router.get('/policies', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const policies = await getRewardPolicyEngine().listPolicies();
+
+  res.json({
+    success: true,
+    policies
+  });
+}));
+
+// 보상 정책 문서 조회 ('active'면 현재 적용 정책) - 과거 거래의 보상 근거 확인용
+router.get('/policies/:version', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const engine = getRewardPolicyEngine();
+    const policy = req.params.version === 'active'
+      ? await engine.getActivePolicy()
+      : await engine.getPolicy(req.params.version);
+
+    res.json({
+      success: true,
+      policy
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 새 보상 정책 게시 (관리자 전용) - effectiveFrom부터 적용
+router.post('/policies', requireScope('admin'), asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const policy = await getRewardPolicyEngine().publish(req.body, (req as RequestWithUser).user.did);
+
+    res.status(201).json({
+      success: true,
+      policy
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 보상 시뮬레이션 (지급 없음) - 샘플 상호작용 또는 입력값으로 정책 공식 계산
+// body.policy로 게시 전 초안, body.version/at으로 특정 버전을 지정
+router.post('/policies/dry-run', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { formula = 'ai_chat', interaction, inputs = {}, version, at, policy: draft } = req.body || {};
+
+  const isPrimitive = (v: any) => v === null || ['string', 'number', 'boolean'].includes(typeof v);
+  if (
+    typeof formula !== 'string' ||
+    !inputs || typeof inputs !== 'object' || Array.isArray(inputs) ||
+    !Object.keys(inputs).every(k => isPrimitive(inputs[k])) ||
+    (interaction !== undefined && (typeof interaction?.messageContent !== 'string')) ||
+    (at !== undefined && Number.isNaN(Date.parse(at)))
+  ) {
+    res.status(400).json({
+      success: false,
+      error: 'formula, inputs (flat object), interaction.messageContent and at must be valid'
+    });
+    return;
+  }
+
+  try {
+    const engine = getRewardPolicyEngine();
+    const policy: RewardPolicyDocument = draft
+      ? validateRewardPolicy(draft)
+      : version
+        ? await engine.getPolicy(version)
+        : await engine.getActivePolicy(at ? new Date(at) : undefined);
+
+    // 샘플 상호작용은 실제 마이닝과 같은 방식으로 입력값 추출
+    const rewardInputs: RewardInputs = {
+      ...(interaction
+        ? new CUEMiningService().interactionRewardInputs({
+            messageContent: interaction.messageContent,
+            aiResponse: String(interaction.aiResponse || ''),
+            model: String(interaction.model || 'default'),
+            personalContextUsed: Number(interaction.personalContextUsed) || 0,
+            responseTime: Number(interaction.responseTime) || 0
+          })
+        : {}),
+      ...inputs
+    };
+
+    const calculation = await engine.calculate(formula, rewardInputs, { policy });
+    const active = await engine.getActivePolicy();
+
+    res.json({
+      success: true,
+      calculation,
+      inputs: rewardInputs,
+      // 다른 버전을 시뮬레이션했으면 현재 적용 정책 결과와 비교
+      activeCalculation: active.version !== policy.version
+        ? await engine.calculate(formula, rewardInputs, { policy: active })
+        : undefined
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
 
 // CUE 잔액 조회
-router.get('/:did/balance', asyncHandler(async (req, res) => {
+router.get('/:did/balance', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   // 권한 확인
   if (userDid !== did) {
-    return res.status(403).json({
+    res.status(403).json({
       success: false,
       error: 'Access denied'
     });
+    return;
   }
 
   try {
-    const balance = await db.getCUEBalance(did);
+    const balance = await getCueLedger().getBalance(did);
     
     res.json({
       success: true,
@@ -47,21 +373,23 @@ router.get('/:did/balance', asyncHandler(async (req, res) => {
 }));
 
 // CUE 트랜잭션 기록 조회
-router.get('/:did/transactions', asyncHandler(async (req, res) => {
+router.get('/:did/transactions', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
   const { limit = 50 } = req.query;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   if (userDid !== did) {
-    return res.status(403).json({
+    res.status(403).json({
       success: false,
       error: 'Access denied'
     });
+    return;
   }
 
   try {
-    const cueService = new CUEMiningService(db);
-    const transactions = await cueService.getTransactionHistory(did, parseInt(limit as string));
+    const cueService = new CUEMiningService();
+    const history = await cueService.getTransactionHistory(did, parseInt(limit as string));
+    const transactions = await getCueSettlementService().annotateTransactions(history);
     
     res.json({
       success: true,
@@ -78,13 +406,72 @@ router.get('/:did/transactions', asyncHandler(async (req, res) => {
   }
 }));
 
+// 마이닝 상태 (일일 한도, 쿨다운, 연속 일수 배율) - MiningStatus 화면용
+// timezone 쿼리는 저장된 시간대가 없을 때만 사용
+router.get('/:did/mining-state', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { did } = req.params;
+  const { timezone } = req.query;
+  const userDid = (req as RequestWithUser).user.did;
+
+  if (userDid !== did) {
+    res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    });
+    return;
+  }
+
+  const miningState = await new CUEMiningService().getMiningState(did, timezone as string | undefined);
+
+  res.json({
+    success: true,
+    miningState
+  });
+}));
+
+// 마이닝 날짜 기준 시간대 설정 (IANA 이름, 예: Asia/Seoul)
+router.put('/:did/mining-state', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { did } = req.params;
+  const { timezone } = req.body;
+  const userDid = (req as RequestWithUser).user.did;
+
+  if (userDid !== did) {
+    res.status(403).json({
+      success: false,
+      error: 'Access denied'
+    });
+    return;
+  }
+
+  if (!isValidTimezone(timezone)) {
+    res.status(400).json({
+      success: false,
+      error: 'A valid IANA timezone is required'
+    });
+    return;
+  }
+
+  const miningState = await getMiningLimiter().setTimezone(did, timezone);
+
+  res.json({
+    success: true,
+    miningState
+  });
+}));
+
 // CUE 마이닝 (수동)
-router.post('/mine', asyncHandler(async (req, res) => {
-  const { activity, data } = req.body;
-  const userDid = (req as any).user.did;
+router.post('/mine', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { activity, data = {} } = req.body;
+  const userDid = (req as RequestWithUser).user.did;
+
+  // 재시도 시 중복 지급 방지 (Idempotency-Key 헤더 또는 body.idempotencyKey)
+  const clientKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
+  const idempotencyKey = typeof clientKey === 'string' && clientKey.length > 0
+    ? `mine:${userDid}:${clientKey}`
+    : undefined;
 
   try {
-    const cueService = new CUEMiningService(db);
+    const cueService = new CUEMiningService();
     
     // 활동에 따른 CUE 마이닝
     let minedAmount = 0;
@@ -98,24 +485,43 @@ router.post('/mine', asyncHandler(async (req, res) => {
           model: 'system',
           personalContextUsed: 0,
           responseTime: 0,
-          conversationId: data.conversationId || 'manual'
+          conversationId: data.conversationId || 'manual',
+          idempotencyKey,
+          client: interactionContextFromRequest(req, data.message || 'Manual interaction')
         });
         break;
+
+      case 'daily_login':
+        minedAmount = await cueService.mineLoginBonus(userDid, data.timezone);
+        break;
         
       case 'data_contribution':
         // 데이터 기여에 대한 보상
-        minedAmount = Math.random() * 5 + 1; // 1-6 CUE
+        minedAmount = await cueService.awardCUE({
+          userDid,
+          amount: Math.round((Math.random() * 5 + 1) * 100) / 100, // 1-6 CUE
+          reason: 'data_contribution',
+          metadata: data,
+          idempotencyKey
+        });
         break;
         
       default:
-        minedAmount = 1; // 기본 보상
+        minedAmount = await cueService.awardCUE({
+          userDid,
+          amount: 1, // 기본 보상
+          reason: 'manual_mining',
+          metadata: { ...data, activity },
+          idempotencyKey
+        });
     }
 
     res.json({
       success: true,
       minedAmount,
       activity,
-      userDid
+      userDid,
+      miningState: await cueService.getMiningState(userDid)
     });
 
   } catch (error) {
@@ -127,4 +533,98 @@ router.post('/mine', asyncHandler(async (req, res) => {
   }
 }));
 
+// ============================================================================
+// 💸 CUE 송금
+// ============================================================================
+
+// DID 간 송금 - 기준 금액 이상이면 body.assertion으로 새 패스키 서명 필요
+// assertion 없이 요청하면 401 STEP_UP_REQUIRED와 함께 서명할 챌린지(stepUp)를 돌려줌
+router.post('/transfer', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const user = (req as RequestWithUser).user;
+  const { toDid, amount, memo, escrow, assertion } = req.body;
+  const clientKey = req.get('Idempotency-Key') || req.body.idempotencyKey;
+  const transferService = getCueTransferService();
+
+  const request = {
+    fromDid: user.did,
+    toDid,
+    amount: Number(amount),
+    memo: memo ?? null,
+    escrow: escrow ?? null,
+    idempotencyKey: typeof clientKey === 'string' && clientKey.length > 0 ? clientKey : undefined
+  };
+
+  try {
+    transferService.validate(request);
+
+    // 재시도 요청은 재인증 없이 이전 결과 반환 (새로 이동하는 CUE 없음)
+    const replay = await transferService.findReplay(user.did, request.idempotencyKey);
+    if (replay) {
+      res.json({ success: true, transfer: replay, replayed: true });
+      return;
+    }
+
+    if (transferService.requiresStepUp(request.amount)) {
+      await getStepUpService().requireAssertion(user, {
+        purpose: 'cue_transfer',
+        toDid: request.toDid,
+        amount: request.amount.toFixed(2),
+        memo: request.memo,
+        escrow: request.escrow ? JSON.stringify(request.escrow) : null
+      }, assertion, req.ip);
+    }
+
+    const { transfer, replayed } = await transferService.transfer(request);
+    const balance = await getCueLedger().getBalance(user.did);
+
+    res.status(replayed ? 200 : 201).json({
+      success: true,
+      transfer,
+      replayed,
+      balance
+    });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 내 송금 목록 (보낸 + 받은)
+router.get('/transfers', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+  const { limit = 50 } = req.query;
+
+  const transfers = await getCueTransferService().listTransfers(userDid, parseInt(limit as string));
+
+  res.json({
+    success: true,
+    transfers,
+    count: transfers.length,
+    stepUpThreshold: CueTransferService.stepUpThreshold()
+  });
+}));
+
+// 에스크로 지급 (보낸이 승인 또는 time_lock 만료 후 받는이 수령)
+router.post('/transfers/:id/release', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+
+  try {
+    const transfer = await getCueTransferService().release(req.params.id, userDid);
+    res.json({ success: true, transfer });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
+// 에스크로 환불 (보낸이만)
+router.post('/transfers/:id/refund', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const userDid = (req as RequestWithUser).user.did;
+
+  try {
+    const transfer = await getCueTransferService().refund(req.params.id, userDid);
+    res.json({ success: true, transfer });
+  } catch (error) {
+    sendCueError(res, error);
+  }
+}));
+
 export default router;
@@ -7,6 +7,7 @@
 
 import { Router, Request, Response } from 'express';
 import { supabaseService } from '../../services/database/SupabaseService';
+import { getCueLedger, CueLedgerError } from '../../services/cue/CueLedger';
 
 const router = Router();
 
@@ -33,28 +34,18 @@ router.post('/mine', async (req: Request, res: Response) => {
       });
     }
 
-    // 새로운 잔액 계산
-    const newBalance = (user.cue_tokens || 0) + amount;
-
-    // 사용자 CUE 잔액 업데이트
-    await supabaseService.updateUser(userId, {
-      cue_tokens: newBalance,
-      last_cue_update_at: new Date().toISOString()
-    });
-
-    // CUE 거래 기록
-    await supabaseService.recordCueTransaction({
-      user_id: userId,
-      transaction_type: 'mining',
-      amount: amount,
-      balance_after: newBalance,
+    // CUE 원장 기록 (messageId가 있으면 같은 메시지로 중복 지급되지 않음)
+    const ledger = getCueLedger();
+    const { entry, replayed } = await ledger.mine(user.did, Number(amount), {
+      idempotencyKey: messageId ? `mine:${userId}:${messageId}` : `mine:${userId}:${Date.now()}`,
+      source: source || 'system',
       description: `${source || 'general'} 활동을 통한 CUE 마이닝`,
-      source_platform: source || 'system',
       metadata: {
         messageId: messageId,
         miningTimestamp: Date.now()
       }
     });
+    const newBalance = await ledger.getBalance(user.did);
 
     console.log(`✅ CUE 마이닝 완료: ${userId} +${amount} CUE (잔액: ${newBalance})`);
 
@@ -62,11 +53,20 @@ router.post('/mine', async (req: Request, res: Response) => {
       success: true,
       amount: amount,
       newBalance: newBalance,
-      transactionId: `mine_${Date.now()}`,
+      transactionId: entry.id,
+      replayed,
       timestamp: new Date().toISOString()
     });
 
   } catch (error: any) {
+    if (error instanceof CueLedgerError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code
+      });
+    }
+
     console.error('❌ CUE 마이닝 오류:', error);
     res.status(500).json({
       success: false,
@@ -91,9 +91,9 @@ router.get('/balance/:userId', async (req: Request, res: Response) => {
 
     res.json({
       success: true,
-      balance: user.cue_tokens || 0,
+      balance: await getCueLedger().getBalance(user.did),
       userId: userId,
-      lastUpdate: user.last_cue_update_at
+      lastUpdate: new Date().toISOString()
     });
 
   } catch (error: any) {
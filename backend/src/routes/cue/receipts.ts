@@ -0,0 +1,56 @@
+// ============================================================================
+// 🧾 CUE 마이닝 영수증 공개 라우트 (/api/cue, 인증 없음 - app.ts에서 cue 라우터보다 먼저 마운트)
+// 경로: backend/src/routes/cue/receipts.ts
+// 용도: 서버가 서명한 일별 영수증 루트와 서명 공개키를 누구나 조회해 오프라인 검증에 사용
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { getCueReceiptService, ReceiptError } from '../../services/cue/CueReceiptService';
+
+const router: Router = express.Router();
+
+function sendReceiptError(res: Response, error: any): void {
+  if (error instanceof ReceiptError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+  throw error;
+}
+
+// ============================================================================
+// 🔑 영수증 루트 서명 공개키 (검증자가 고정해서 사용 - 영수증에 포함된 키는 신뢰하지 않음)
+// GET /api/cue/receipts/signing-key
+// ============================================================================
+
+router.get('/receipts/signing-key', (req: Request, res: Response): void => {
+  res.json({
+    success: true,
+    signingKey: getCueReceiptService().getSigningKey()
+  });
+});
+
+// ============================================================================
+// 📅 일별 마이닝 영수증 루트
+// GET /api/cue/roots/:date (YYYY-MM-DD)
+// ============================================================================
+
+router.get('/roots/:date', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const root = await getCueReceiptService().getRoot(req.params.date);
+
+    res.json({
+      success: true,
+      root,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    sendReceiptError(res, error);
+  }
+}));
+
+export default router;
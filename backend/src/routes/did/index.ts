@@ -0,0 +1,54 @@
+// ============================================================================
+// 🪪 DID 해석 라우트
+// 경로: backend/src/routes/did/index.ts
+// 용도: W3C DID Resolution - DID 문서 조회 (공개 API)
+// 마운트: /api/did/:did, /.well-known/did/:did
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { getDIDResolver, DIDResolutionError } from '../../services/did/DIDResolver';
+
+const router: Router = express.Router();
+
+// 해석 오류 → HTTP 상태 코드 (DID Resolution HTTP(S) 바인딩)
+const ERROR_STATUS: Record<DIDResolutionError, number> = {
+  invalidDid: 400,
+  notFound: 404,
+  representationNotSupported: 406,
+  methodNotSupported: 501,
+  internalError: 500
+};
+
+// ============================================================================
+// 🔍 DID 해석
+// GET /api/did/:did
+// Accept: application/did+ld+json → DID 문서만, 그 외 → 해석 결과 전체
+// ============================================================================
+
+router.get('/:did', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { did } = req.params;
+  console.log(`🪪 DID 해석 요청: ${did}`);
+
+  const result = await getDIDResolver().resolve(did);
+  const { error } = result.didResolutionMetadata;
+
+  if (error) {
+    res.status(ERROR_STATUS[error]).json(result);
+    return;
+  }
+
+  const accept = req.headers.accept || '';
+  const documentOnly = accept.includes('application/did+ld+json') || accept.includes('application/did+json');
+  const status = result.didDocumentMetadata.deactivated ? 410 : 200;
+
+  if (documentOnly) {
+    const contentType = accept.includes('application/did+ld+json') ? 'application/did+ld+json' : 'application/did+json';
+    res.status(status).type(contentType).send(JSON.stringify(result.didDocument));
+    return;
+  }
+
+  res.status(status).json(result);
+}));
+
+export default router;
@@ -9,6 +9,8 @@ import express, { Request, Response, Router } from 'express';
 import { DatabaseService } from '../../services/database/DatabaseService';
 import { supabaseService } from '../../services/database/SupabaseService';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { OptionalAuthRequest } from '../../middleware/authMiddleware';
+import { getCueLedger } from '../../services/cue/CueLedger';
 
 // 라우터 생성
 const router: Router = express.Router();
@@ -29,7 +31,7 @@ console.log('🎫 Passport Routes module loaded - using', db.constructor.name);
 
 router.get('/:did', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
-  const userDid = (req as any).user?.did;
+  const userDid = (req as OptionalAuthRequest).user?.did;
 
   console.log(`🔍 Passport 정보 조회 요청: ${did}`);
 
@@ -64,7 +66,7 @@ router.get('/:did', asyncHandler(async (req: Request, res: Response): Promise<vo
     const passport = await db.getPassport(did as string);
     
     // 2. CUE 잔액 조회
-    const cueBalance = await db.getCUEBalance(did as string);
+    const cueBalance = await getCueLedger().getBalance(did as string);
     
     // 3. 데이터 볼트 조회
     const dataVaults = await db.getDataVaults(did as string);
@@ -133,7 +135,7 @@ router.get('/:did', asyncHandler(async (req: Request, res: Response): Promise<vo
 router.put('/:did', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
   const updates = req.body;
-  const userDid = (req as any).user?.did;
+  const userDid = (req as OptionalAuthRequest).user?.did;
 
   console.log(`✏️ Passport 업데이트 요청: ${did}`, Object.keys(updates));
 
@@ -231,7 +233,7 @@ router.put('/:did', asyncHandler(async (req: Request, res: Response): Promise<vo
 
 router.get('/:did/stats', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
-  const userDid = (req as any).user?.did;
+  const userDid = (req as OptionalAuthRequest).user?.did;
   const { days = 7 } = req.query;
 
   console.log(`📊 Passport 통계 조회: ${did} (${days}일)`);
@@ -248,16 +250,11 @@ router.get('/:did/stats', asyncHandler(async (req: Request, res: Response): Prom
   try {
     // 기본 통계
     const passport = await db.getPassport(did as string);
-    const cueBalance = await db.getCUEBalance(did as string);
+    const cueBalance = await getCueLedger().getBalance(did as string);
     const dataVaults = await db.getDataVaults(did as string);
     
     // CUE 거래 내역
-    let transactions: any[] = [];
-    if (typeof (db as any).getCUETransactions === 'function') {
-      transactions = await (db as any).getCUETransactions(did, parseInt(days as string) * 5);
-    } else {
-      console.warn('getCUETransactions method not implemented on db instance');
-    }
+    const transactions = await getCueLedger().getHistory(did as string, parseInt(days as string) * 5);
     
     // 최근 상호작용
     let recentInteractions: any[] = [];
@@ -342,7 +339,7 @@ router.get('/:did/stats', asyncHandler(async (req: Request, res: Response): Prom
 
 router.post('/:did/refresh', asyncHandler(async (req: Request, res: Response): Promise<void> => {
   const { did } = req.params;
-  const userDid = (req as any).user?.did;
+  const userDid = (req as OptionalAuthRequest).user?.did;
 
   console.log(`🔄 Passport 새로고침 요청: ${did}`);
 
@@ -358,14 +355,9 @@ router.post('/:did/refresh', asyncHandler(async (req: Request, res: Response): P
   try {
     // 최신 데이터로 Passport 동기화
     const user = typeof db.getUserById === 'function' ? await db.getUserById(did as string) : null;
-    const cueBalance = await db.getCUEBalance(did as string);
+    const cueBalance = await getCueLedger().getBalance(did as string);
     const dataVaults = await db.getDataVaults(did as string);
-    let recentTransactions: any[] = [];
-    if (typeof (db as any).getCUETransactions === 'function') {
-      recentTransactions = await (db as any).getCUETransactions(did as string, 10);
-    } else {
-      recentTransactions = [];
-    }
+    const recentTransactions = await getCueLedger().getHistory(did as string, 10);
 
     // Passport 정보 업데이트
     const refreshedData = {
@@ -8,6 +8,7 @@
 import express from 'express';
 import { DatabaseService } from '../../services/database/DatabaseService';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser } from '../../middleware/authMiddleware';
 
 const router = express.Router();
 const db = DatabaseService.getInstance();
@@ -15,7 +16,7 @@ const db = DatabaseService.getInstance();
 // 연결된 플랫폼 목록 조회
 router.get('/:did', asyncHandler(async (req, res) => {
   const { did } = req.params;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   if (userDid !== did) {
     return res.status(403).json({
@@ -50,7 +51,7 @@ router.get('/:did', asyncHandler(async (req, res) => {
 router.post('/:did/connect', asyncHandler(async (req, res) => {
   const { did } = req.params;
   const { platform, credentials } = req.body;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   if (userDid !== did) {
     return res.status(403).json({
@@ -96,7 +97,7 @@ router.post('/:did/connect', asyncHandler(async (req, res) => {
 router.post('/:did/sync', asyncHandler(async (req, res) => {
   const { did } = req.params;
   const { platform } = req.body;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   if (userDid !== did) {
     return res.status(403).json({
@@ -0,0 +1,159 @@
+// ============================================================================
+// 🕸️ RAG-DAG 지식 그래프 라우트 (/api/vault/graph, 인증 필요 - app.ts에서 authMiddleware 적용)
+// 경로: backend/src/routes/vault/graph.ts
+// 용도: 그래프 요약/노드 조회, 조상·자손 탐색, 플랫폼 가져오기에서 파생된 노드, 간선 추가/삭제
+// 노드는 볼트 추출과 채팅 턴에서 자동으로 생성 (RagDagService)
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser } from '../../middleware/authMiddleware';
+import {
+  getRagDagService,
+  RagDagEdgeType,
+  RagDagError,
+  RagDagNodeType,
+  TraversalOptions
+} from '../../services/vault/RagDagService';
+
+const router: Router = express.Router();
+
+function sendRagDagError(res: Response, error: any): void {
+  if (error instanceof RagDagError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+  throw error;
+}
+
+/** ?depth=3&edgeTypes=derived_from,references */
+function traversalQuery(req: Request): TraversalOptions {
+  const { depth, edgeTypes } = req.query;
+  return {
+    depth: depth ? parseInt(depth as string, 10) || undefined : undefined,
+    edgeTypes: typeof edgeTypes === 'string' && edgeTypes
+      ? edgeTypes.split(',').map(type => type.trim()) as RagDagEdgeType[]
+      : undefined
+  };
+}
+
+// ============================================================================
+// 📊 그래프 요약 + 최근 노드
+// GET /api/vault/graph?type=context&limit=100
+// ============================================================================
+
+router.get('/', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { type, limit } = req.query;
+
+  const result = await getRagDagService().overview(user.did, {
+    type: typeof type === 'string' ? type as RagDagNodeType : undefined,
+    limit: limit ? parseInt(limit as string, 10) || undefined : undefined
+  });
+  res.json({ success: true, ...result });
+}));
+
+// ============================================================================
+// 📥 플랫폼 가져오기에서 파생된 모든 노드
+// GET /api/vault/graph/imports?platform=notion&depth=5
+// ============================================================================
+
+router.get('/imports', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const platform = typeof req.query.platform === 'string' && req.query.platform ? req.query.platform : undefined;
+
+  try {
+    const result = await getRagDagService().derivedFromImports(user.did, platform, traversalQuery(req));
+    res.json({ success: true, ...result, count: result.nodes.length });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🔍 노드 조회 (들어오는/나가는 간선 포함)
+// GET /api/vault/graph/nodes/:id
+// ============================================================================
+
+router.get('/nodes/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const result = await getRagDagService().getNode(user.did, req.params.id);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+// ============================================================================
+// ⬆️ 조상 (이 노드가 파생/참조한 것) / ⬇️ 자손 (이 노드에서 파생/참조된 것)
+// GET /api/vault/graph/nodes/:id/ancestors?depth=5&edgeTypes=derived_from
+// GET /api/vault/graph/nodes/:id/descendants
+// ============================================================================
+
+router.get('/nodes/:id/ancestors', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const result = await getRagDagService().ancestors(user.did, req.params.id, traversalQuery(req));
+    res.json({ success: true, ...result, count: result.nodes.length });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+router.get('/nodes/:id/descendants', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const result = await getRagDagService().descendants(user.did, req.params.id, traversalQuery(req));
+    res.json({ success: true, ...result, count: result.nodes.length });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+// ============================================================================
+// ➕ 간선 추가 (순환이 생기면 409 CYCLE_DETECTED)
+// POST /api/vault/graph/edges { from, to, type, metadata? }
+// ============================================================================
+
+router.post('/edges', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { from, to, type, metadata } = req.body || {};
+
+  if (typeof from !== 'string' || !from || typeof to !== 'string' || !to) {
+    res.status(400).json({ success: false, error: 'from and to node ids are required' });
+    return;
+  }
+
+  try {
+    const edge = await getRagDagService().addEdge(user.did, from, to, type, metadata || {});
+    res.status(201).json({ success: true, edge });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🗑️ 간선 삭제
+// DELETE /api/vault/graph/edges/:id
+// ============================================================================
+
+router.delete('/edges/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    await getRagDagService().removeEdge(user.did, req.params.id);
+    res.json({ success: true, edgeId: req.params.id });
+  } catch (error) {
+    sendRagDagError(res, error);
+  }
+}));
+
+export default router;
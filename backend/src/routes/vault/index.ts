@@ -10,17 +10,27 @@ import express from 'express';
 import { DatabaseService } from '../../services/database/DatabaseService';
 // If the file does not exist, create ../../services/database/DatabaseService.ts and export DatabaseService from it
 import { SemanticCompressionService } from '../../services/ai/SemanticCompressionService';
+import { getCueRetrievalService } from '../../services/ai/CueRetrievalService';
+import { getRagDagService } from '../../services/vault/RagDagService';
 import { CUEMiningService } from '../../services/cue/CUEMiningService';
+import { interactionContextFromRequest } from '../../services/cue/AbuseDetector';
+import { CueLedgerError } from '../../services/cue/CueLedger';
+import { CUE_PRICING, getCueSpendingService, SpendHoldView } from '../../services/cue/CueSpendingService';
 import { asyncHandler } from '../../middleware/errorHandler';
+import { RequestWithUser } from '../../middleware/authMiddleware';
 import { v4 as uuidv4 } from 'uuid';
+import graphRoutes from './graph';
 
 const router = express.Router();
 const db = DatabaseService.getInstance();
 
+// 지식 그래프 (/:did보다 먼저 등록)
+router.use('/graph', graphRoutes);
+
 // 데이터 볼트 목록 조회
 router.get('/:did', asyncHandler(async (req, res) => {
   const { did } = req.params;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   if (userDid !== did) {
     return res.status(403).json({
@@ -49,7 +59,7 @@ router.get('/:did', asyncHandler(async (req, res) => {
 // 새 데이터 볼트 생성
 router.post('/', asyncHandler(async (req, res) => {
   const { name, description, category } = req.body;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
 
   try {
     const vaultData = {
@@ -83,11 +93,28 @@ router.post('/', asyncHandler(async (req, res) => {
 // 데이터 추출 및 압축
 router.post('/extract', asyncHandler(async (req, res) => {
   const { platform, data } = req.body;
-  const userDid = (req as any).user.did;
+  const userDid = (req as RequestWithUser).user.did;
+
+  // 추출 비용 예약 (고정 비용)
+  const spending = getCueSpendingService();
+  let hold: SpendHoldView | null = null;
+  try {
+    hold = await spending.holdFeature(userDid, 'vault_extraction', platform);
+  } catch (error) {
+    if (error instanceof CueLedgerError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        requiredCue: CUE_PRICING.features.vault_extraction
+      });
+    }
+    throw error;
+  }
 
   try {
     const compressionService = new SemanticCompressionService();
-    const cueService = new CUEMiningService(db);
+    const cueService = new CUEMiningService();
 
     // 데이터 압축 및 분석
     const analysisResult = await compressionService.analyzeConversation(
@@ -95,6 +122,9 @@ router.post('/extract', asyncHandler(async (req, res) => {
       'System processed extraction'
     );
 
+    // 실제로 원장에 지급된 양 (한도/쿨다운/검토 보류면 0)
+    let cueTokensEarned = 0;
+
     if (
       analysisResult.shouldStore &&
       'compressedContent' in analysisResult &&
@@ -107,7 +137,7 @@ router.post('/extract', asyncHandler(async (req, res) => {
       'cueValue' in analysisResult
     ) {
       // 개인화 CUE 저장
-      await db.storePersonalCue({
+      const cue = await db.storePersonalCue({
         id: uuidv4(),
         user_did: userDid,
         vault_id: null, // 나중에 볼트 할당
@@ -125,29 +155,50 @@ router.post('/extract', asyncHandler(async (req, res) => {
         source_platform: platform
       });
 
-      // CUE 토큰 마이닝
-      const minedTokens = analysisResult.cueValue * 10; // CUE 값에 따른 토큰 지급
-      
-      await cueService.mineFromInteraction({
+      // 개인화 검색용 임베딩 (실패하면 다음 검색에서 채움)
+      await getCueRetrievalService().indexCue(cue).catch(error => {
+        console.warn('⚠️ 볼트 CUE 임베딩 인덱싱 실패:', error);
+      });
+
+      // 지식 그래프: 플랫폼 가져오기 → 추출한 CUE
+      await getRagDagService().recordVaultExtraction(userDid, cue, platform).catch(error => {
+        console.warn('⚠️ RAG-DAG 볼트 추출 기록 실패:', error);
+      });
+
+      // CUE 토큰 마이닝 - 같은 데이터 반복 제출은 어뷰징 검사에서 유사 중복으로 탐지
+      const extractedContent = data.content || `Data extraction from ${platform}`;
+      cueTokensEarned = await cueService.mineFromInteraction({
         userDid,
-        messageContent: `Data extraction from ${platform}`,
+        messageContent: extractedContent,
         aiResponse: 'Data processed and compressed',
         model: 'data_extraction',
         personalContextUsed: 1,
         responseTime: 1000,
-        conversationId: `extraction_${Date.now()}`
+        conversationId: `extraction_${Date.now()}`,
+        client: interactionContextFromRequest(req, extractedContent)
       });
     }
 
+    const cueSpent = hold
+      ? (await spending.settle(hold.id, hold.reservedAmount, { platform })).chargedAmount || 0
+      : 0;
+    hold = null;
+
     res.json({
       success: true,
       extracted: analysisResult.shouldStore,
       analysis: analysisResult,
-      cueTokensEarned: analysisResult.cueValue * 10
+      cueTokensEarned,
+      cueSpent
     });
 
   } catch (error) {
     console.error('Data extraction error:', error);
+    if (hold) {
+      await spending.refund(hold.id, 'extraction_failed').catch(refundError =>
+        console.error('CUE hold refund error:', refundError)
+      );
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to extract data'
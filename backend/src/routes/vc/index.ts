@@ -0,0 +1,231 @@
+// ============================================================================
+// 📜 검증 가능한 자격증명(VC) 라우트
+// 경로: backend/src/routes/vc/index.ts
+// 용도: AI Passport 속성 VC 발급/목록/폐기, 상태 목록 공개, 제3자 검증 API
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { authMiddleware, RequestWithUser } from '../../middleware/authMiddleware';
+import { getCredentialService, CredentialError, PASSPORT_CLAIMS } from '../../services/vc/CredentialService';
+import { getPresentationService, PresentationError, DISCLOSABLE_CLAIMS } from '../../services/vc/PresentationService';
+
+const router: Router = express.Router();
+
+function sendCredentialError(res: Response, error: any): void {
+  if (error instanceof CredentialError || error instanceof PresentationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message,
+      code: error.code
+    });
+    return;
+  }
+  throw error;
+}
+
+// ============================================================================
+// 🏛️ 발급자 정보 (공개)
+// GET /api/vc/issuer
+// ============================================================================
+
+router.get('/issuer', (req: Request, res: Response) => {
+  const service = getCredentialService();
+  res.json({
+    success: true,
+    issuer: service.issuerDid,
+    verificationMethod: service.issuerKeyId,
+    supportedClaims: Object.keys(PASSPORT_CLAIMS),
+    disclosableClaims: DISCLOSABLE_CLAIMS,
+    statusList: service.statusListUrl()
+  });
+});
+
+// ============================================================================
+// 🏷️ VC 발급 요청
+// POST /api/vc/credentials { claims?: string[], expiresInDays?: number }
+// ============================================================================
+
+router.post('/credentials', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { claims, expiresInDays } = req.body || {};
+
+  if (claims !== undefined && (!Array.isArray(claims) || !claims.every((c: any) => typeof c === 'string'))) {
+    res.status(400).json({ success: false, error: 'claims must be an array of claim names' });
+    return;
+  }
+  if (expiresInDays !== undefined && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 3650)) {
+    res.status(400).json({ success: false, error: 'expiresInDays must be an integer between 1 and 3650' });
+    return;
+  }
+
+  try {
+    const credential = await getCredentialService().issuePassportCredential(user, claims, expiresInDays);
+    res.status(201).json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+// ============================================================================
+// 📋 내 VC 목록
+// GET /api/vc/credentials
+// ============================================================================
+
+router.get('/credentials', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const credentials = await getCredentialService().listCredentials(user.did);
+
+  res.json({
+    success: true,
+    credentials,
+    count: credentials.length
+  });
+}));
+
+// ============================================================================
+// 🚫 VC 폐기
+// POST /api/vc/credentials/:id/revoke { reason? }
+// ============================================================================
+
+router.post('/credentials/:id/revoke', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const reason = typeof req.body?.reason === 'string' ? req.body.reason.substring(0, 200) : undefined;
+
+  try {
+    const credential = await getCredentialService().revokeCredential(user.did, req.params.id, reason);
+    res.json({ success: true, credential });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🧾 상태 목록 (공개) - 서명된 StatusList2021Credential
+// GET /api/vc/status/:listId
+// ============================================================================
+
+router.get('/status/:listId', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const statusListCredential = await getCredentialService().getStatusListCredential(req.params.listId);
+
+  res.set('Cache-Control', 'public, max-age=60');
+  res.type('application/vc+jwt').send(statusListCredential);
+}));
+
+// ============================================================================
+// ✅ VC 검증 (공개)
+// POST /api/vc/verify { credential: "<JWT-VC>" }
+// ============================================================================
+
+router.post('/verify', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { credential } = req.body || {};
+
+  if (typeof credential !== 'string' || credential.length === 0) {
+    res.status(400).json({ success: false, error: 'credential (JWT-VC string) is required' });
+    return;
+  }
+
+  const result = await getCredentialService().verifyCredential(credential);
+
+  res.json({
+    success: true,
+    ...result
+  });
+}));
+
+// ============================================================================
+// 📨 제시 요청 생성 (검증자, 공개)
+// POST /api/vc/presentation-requests { did, audience, claims, nonce?, purpose? }
+// ============================================================================
+
+router.post('/presentation-requests', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { did, audience, claims, nonce, purpose } = req.body || {};
+
+  try {
+    const request = await getPresentationService().createRequest({ subjectDid: did, audience, claims, nonce, purpose });
+    res.status(201).json({ success: true, request });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+// ============================================================================
+// 📋 나에게 온 대기 중인 제시 요청
+// GET /api/vc/presentation-requests
+// ============================================================================
+
+router.get('/presentation-requests', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const requests = await getPresentationService().listPendingRequests(user.did);
+
+  res.json({
+    success: true,
+    requests,
+    count: requests.length
+  });
+}));
+
+// ============================================================================
+// 🔄 제시 요청 결과 조회 (검증자 폴링, 공개 - 요청 ID를 아는 검증자만 조회 가능)
+// GET /api/vc/presentation-requests/:id
+// ============================================================================
+
+router.get('/presentation-requests/:id', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  try {
+    const request = await getPresentationService().getRequestResult(req.params.id);
+    res.json({ success: true, request });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+// ============================================================================
+// ✅ 제시 요청 승인 / 🚫 거절 (사용자)
+// POST /api/vc/presentation-requests/:id/approve { claims }
+// POST /api/vc/presentation-requests/:id/reject
+// ============================================================================
+
+router.post('/presentation-requests/:id/approve', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const result = await getPresentationService().approveRequest(user, req.params.id, req.body?.claims);
+    res.json({ success: true, ...result });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+router.post('/presentation-requests/:id/reject', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+
+  try {
+    const request = await getPresentationService().rejectRequest(user.did, req.params.id);
+    res.json({ success: true, request });
+  } catch (error) {
+    sendCredentialError(res, error);
+  }
+}));
+
+// ============================================================================
+// 🔍 제시 검증 (검증자, 공개)
+// POST /api/vc/presentations/verify { presentation, audience, nonce }
+// ============================================================================
+
+router.post('/presentations/verify', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { presentation, audience, nonce } = req.body || {};
+
+  if (typeof presentation !== 'string' || typeof audience !== 'string' || typeof nonce !== 'string') {
+    res.status(400).json({ success: false, error: 'presentation, audience and nonce are required' });
+    return;
+  }
+
+  const result = await getPresentationService().verifyPresentation(presentation, { audience, nonce });
+
+  res.json({
+    success: true,
+    ...result
+  });
+}));
+
+export default router;
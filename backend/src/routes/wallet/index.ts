@@ -0,0 +1,148 @@
+// ============================================================================
+// 👛 지갑 라우트
+// 경로: backend/src/routes/wallet/index.ts
+// 용도: 사용자 지갑 주소 조회, EIP-191 서명, 패스포트 소유 증명 및 서명 검증 API
+// ============================================================================
+
+import express, { Request, Response, Router } from 'express';
+import { DatabaseService } from '../../services/database/DatabaseService';
+import { supabaseService } from '../../services/database/SupabaseService';
+import { getWalletService, WalletService, ownershipProofMessage } from '../../services/wallet/WalletService';
+import { asyncHandler } from '../../middleware/errorHandler';
+import { authMiddleware, RequestWithUser } from '../../middleware/authMiddleware';
+
+const router: Router = express.Router();
+
+const db = process.env.USE_MOCK_DATABASE === 'true' ||
+          !process.env.SUPABASE_URL ||
+          process.env.SUPABASE_URL.includes('dummy')
+  ? DatabaseService.getInstance()
+  : supabaseService;
+
+const MAX_MESSAGE_LENGTH = 2048;
+
+// ============================================================================
+// 🔍 내 지갑 조회
+// GET /api/wallet
+// ============================================================================
+
+router.get('/', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const address = await getWalletService().ensureUserWallet(db, user.profile);
+
+  res.json({
+    success: true,
+    wallet: {
+      address,
+      did: user.did,
+      chain: 'eip155'
+    }
+  });
+}));
+
+// ============================================================================
+// ✍️ 메시지 서명 (EIP-191 personal_sign)
+// POST /api/wallet/sign { message }
+// ============================================================================
+
+router.post('/sign', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { message } = req.body;
+
+  if (typeof message !== 'string' || message.length === 0 || message.length > MAX_MESSAGE_LENGTH) {
+    res.status(400).json({
+      success: false,
+      error: `message must be a non-empty string up to ${MAX_MESSAGE_LENGTH} characters`
+    });
+    return;
+  }
+
+  const walletService = getWalletService();
+  await walletService.ensureUserWallet(db, user.profile);
+  const signed = await walletService.signMessage(user.id, message);
+
+  console.log(`✍️ 지갑 메시지 서명: ${signed.address} (사용자: ${user.id})`);
+
+  res.json({
+    success: true,
+    ...signed
+  });
+}));
+
+// ============================================================================
+// 🎫 패스포트 소유 증명 (DID ↔ 지갑 주소)
+// POST /api/wallet/ownership-proof { nonce? }
+// ============================================================================
+
+router.post('/ownership-proof', authMiddleware, asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { user } = req as RequestWithUser;
+  const { nonce } = req.body || {};
+
+  if (nonce !== undefined && (typeof nonce !== 'string' || !/^[A-Za-z0-9_-]{8,128}$/.test(nonce))) {
+    res.status(400).json({
+      success: false,
+      error: 'nonce must be 8-128 URL-safe characters'
+    });
+    return;
+  }
+
+  const walletService = getWalletService();
+  await walletService.ensureUserWallet(db, user.profile);
+  const proof = await walletService.createOwnershipProof(user.id, user.did, nonce);
+
+  res.json({
+    success: true,
+    proof
+  });
+}));
+
+// ============================================================================
+// ✅ 서명 검증 (공개)
+// POST /api/wallet/verify { address, message, signature }
+// POST /api/wallet/verify { proof } - 소유 증명 검증 (DID의 현재 지갑 주소와 대조)
+// ============================================================================
+
+router.post('/verify', asyncHandler(async (req: Request, res: Response): Promise<void> => {
+  const { proof } = req.body || {};
+
+  if (proof) {
+    const { did, address, nonce, issuedAt, signature } = proof;
+    if (![did, address, nonce, issuedAt, signature].every(value => typeof value === 'string')) {
+      res.status(400).json({ success: false, error: 'proof must include did, address, nonce, issuedAt and signature' });
+      return;
+    }
+
+    const message = ownershipProofMessage(did, address, nonce, issuedAt);
+    const signatureValid = WalletService.verifyMessage(address, message, signature);
+    const owner = await db.getUserByDID(did);
+    const addressMatches = !!owner && WalletService.toChecksumAddress(owner.wallet_address) === WalletService.toChecksumAddress(address);
+
+    res.json({
+      success: true,
+      valid: signatureValid && addressMatches,
+      signatureValid,
+      addressMatches
+    });
+    return;
+  }
+
+  const { address, message, signature } = req.body || {};
+  if (typeof address !== 'string' || typeof message !== 'string' || typeof signature !== 'string') {
+    res.status(400).json({ success: false, error: 'address, message and signature are required' });
+    return;
+  }
+
+  const checksumAddress = WalletService.toChecksumAddress(address);
+  if (!checksumAddress) {
+    res.status(400).json({ success: false, error: 'Invalid address or EIP-55 checksum' });
+    return;
+  }
+
+  res.json({
+    success: true,
+    valid: WalletService.verifyMessage(checksumAddress, message, signature),
+    address: checksumAddress
+  });
+}));
+
+export default router;
@@ -0,0 +1,508 @@
+// ============================================================================
+// 🔌 AI 채팅 공용 모듈 (개인화 프롬프트, 시뮬레이션 응답, 응답 생성/스트리밍)
+// 경로: backend/src/services/ai/ChatProviders.ts
+// 용도: /api/ai/chat 라우트, SSE 스트리밍 라우트, Socket.IO 채팅이 같은 코드를 사용
+// 제공자 선택: providers/ModelRegistry.ts (모델 → OpenAI | Anthropic | Gemini | Ollama | Mock)
+// 프롬프트: ContextBuilder.ts가 모델별 토큰 예산에 맞춰 프로필/CUE/볼트/이전 대화를 조립
+//          제공자를 쓸 수 없으면 시뮬레이션 응답 (스트리밍은 단어 단위로 흘려보냄)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+import { SemanticCompressionService } from './SemanticCompressionService';
+import { ContextAssembler, ContextReport } from './ContextBuilder';
+import { getCueRetrievalService } from './CueRetrievalService';
+import { ChatTurn } from './ConversationService';
+import { getRagDagService } from '../vault/RagDagService';
+import { fallbackChain, findModel, getProvider, ModelDefinition } from './providers/ModelRegistry';
+import { getCircuitBreaker } from './providers/CircuitBreaker';
+import { countTextTokens } from './providers/Tokenizer';
+import { ModelProvider, ProviderId, StreamPiece } from './providers/types';
+
+const db = DatabaseService.getInstance();
+
+// ============================================================================
+// 🎭 Enhanced Mock Response Generator
+// ============================================================================
+
+export function generateEnhancedMockResponse(message: string, context: any, modelName: string) {
+  const { personalityProfile, cues, behaviorPatterns } = context;
+  
+  // 메시지 분석
+  const isQuestion = message.includes('?') || /how|what|why|when|where|어떻게|무엇|왜|언제|어디/.test(message.toLowerCase());
+  const isTechnical = /code|api|algorithm|system|data|programming|개발|시스템|알고리즘/.test(message.toLowerCase());
+  const isHelp = /help|도움|지원|support/.test(message.toLowerCase());
+  
+  type ResponseType = 'question' | 'technical' | 'help' | 'general';
+  let responseType: ResponseType = 'general';
+  if (isQuestion) responseType = 'question';
+  if (isTechnical) responseType = 'technical';
+  if (isHelp) responseType = 'help';
+
+  const responses: Record<ResponseType, string> = {
+    question: `**${modelName}** 질문 응답
+
+"${message}"
+
+이 질문에 대해 당신의 **${personalityProfile?.type || 'Adaptive'}** 성격과 **${personalityProfile?.communicationStyle || 'Balanced'}** 소통 스타일을 고려하여 답변드리겠습니다.
+
+${personalityProfile?.type?.includes('Technical') ? 
+  '🔧 **기술적 접근**: 구체적이고 논리적인 설명을 선호하시므로, 단계별로 상세히 설명드리겠습니다.' :
+  '💡 **친근한 접근**: 이해하기 쉽고 실용적인 방식으로 설명드리겠습니다.'
+}
+
+**개인화 적용 데이터:**
+• 사용된 개인 컨텍스트: ${cues.length}개
+• 행동 패턴: ${behaviorPatterns?.slice(0, 2).join(', ') || '분석 중...'}
+
+*실제 ${modelName} API 연결 시 더욱 정교한 답변을 제공합니다.*`,
+
+    technical: `**${modelName}** 기술 분석
+
+**요청 분석:** "${message}"
+
+${personalityProfile?.type?.includes('INTJ') || personalityProfile?.type?.includes('Technical') ?
+  '🎯 **당신의 기술적 성향**에 맞춰 상세한 분석을 제공합니다:' :
+  '🎯 **기술적 내용**을 이해하기 쉽게 설명해드리겠습니다:'
+}
+
+**개인화된 기술 응답:**
+• **학습 패턴**: ${personalityProfile?.learningPattern || 'Visual'} 방식 적용
+• **의사결정 스타일**: ${personalityProfile?.decisionMaking || 'Analytical'} 접근
+
+**관련 컨텍스트:**
+${cues.slice(0, 2).map((cue: any, idx: number) => 
+  `${idx + 1}. ${cue.content_type}: ${cue.compressed_content?.slice(0, 50) || 'No content'}...`
+).join('\n') || '• 새로운 기술 컨텍스트 학습 중...'}
+
+*실제 API 연결 시 최신 기술 정보와 개인화된 코드 예제를 제공합니다.*`,
+
+    help: `**${modelName}** 맞춤형 지원
+
+"${message}"에 대한 도움을 요청하셨군요.
+
+**당신의 프로필 기반 지원:**
+• **성격 유형**: ${personalityProfile?.type || 'Adaptive'} - 맞춤형 접근
+• **소통 스타일**: ${personalityProfile?.communicationStyle || 'Balanced'} 적용
+• **학습 선호도**: ${personalityProfile?.learningPattern || 'Visual'} 방식
+
+**개인화된 도움 제안:**
+${personalityProfile?.communicationStyle?.includes('Direct') ?
+  '🎯 직접적이고 실용적인 해결책을 제시하겠습니다.' :
+  '🤝 단계별로 친근하게 안내해드리겠습니다.'
+}
+
+**사용 가능한 개인 데이터:**
+• ${cues.length}개의 개인 컨텍스트
+• ${behaviorPatterns?.length || 0}개의 행동 패턴
+
+어떤 부분에서 구체적으로 도움이 필요한지 알려주시면, 더 정확한 맞춤형 지원을 제공하겠습니다.`,
+
+    general: `**${modelName}** 개인화 응답
+
+**메시지:** "${message}"
+
+**당신의 개인화 프로필 적용:**
+• **성격**: ${personalityProfile?.type || 'Learning...'}
+• **소통**: ${personalityProfile?.communicationStyle || 'Adaptive'}
+• **개인 CUE**: ${cues.length}개 활용
+
+${personalityProfile?.type?.includes('Technical') || personalityProfile?.type?.includes('INTJ') ?
+  '⚡ 논리적이고 체계적인 사고를 선호하시는 것으로 파악되어, 구조화된 응답을 제공합니다.' :
+  '💫 균형 잡힌 접근 방식으로 친근하게 응답드리겠습니다.'
+}
+
+**행동 패턴 기반 맞춤형 제안:**
+${behaviorPatterns?.slice(0, 3).join(' • ') || '• 새로운 패턴 학습 중...'}
+
+궁금한 점이 더 있으시면 언제든 말씀해주세요!`
+  };
+
+  return {
+    response: responses[responseType] || responses.general,
+    tokensUsed: Math.floor(Math.random() * 400) + 200,
+    usedData: extractUsedData(context),
+    simulated: true
+  };
+}
+
+// ============================================================================
+// 🛠️ 헬퍼 함수들
+// ============================================================================
+
+export function extractUsedData(context: any): string[] {
+  const data: string[] = [];
+  
+  if (context.personalityProfile) data.push('Personality Profile');
+  if (context.cues?.length > 0) data.push(`${context.cues.length} Personal Contexts`);
+  if (context.behaviorPatterns?.length > 0) data.push('Behavior Patterns');
+  if (context.preferences) data.push('User Preferences');
+  
+  return data;
+}
+
+/**
+ * 저장된 채팅 턴을 RAG-DAG에 기록 (응답 → 사용자 메시지, 응답 → 프롬프트에 들어간 CUE)
+ * 그래프 기록 실패는 채팅 응답에 영향 없음
+ */
+export async function recordTurnInGraph(
+  userDid: string,
+  turn: ChatTurn,
+  response: { id: string; content: string; model: string },
+  personal: any,
+  report: ContextReport | null
+): Promise<void> {
+  const includedIds = report ? [...report.cues.includedIds, ...report.vault.includedIds] : [];
+  const contextCues = (personal?.cues || []).filter((cue: any) => includedIds.includes(cue.id));
+
+  try {
+    await getRagDagService().recordChatTurn(userDid, {
+      conversationId: turn.conversationId,
+      userMessageId: turn.userMessageId,
+      message: turn.message,
+      editOf: turn.editOf,
+      regenerateOf: turn.regenerateOf,
+      responseMessageId: response.id,
+      response: response.content,
+      model: response.model,
+      contextCues
+    });
+  } catch (error) {
+    console.warn('⚠️ RAG-DAG 채팅 턴 기록 실패:', error);
+  }
+}
+
+/**
+ * 대화에서 CUE 학습 - responseMessageId가 있으면 그래프에서 그 응답에서 파생된 CUE로 기록
+ */
+export async function learnFromInteraction(userDid: string, userMessage: string, aiResponse: string, context: any, responseMessageId?: string) {
+  try {
+    const compressionService = new SemanticCompressionService();
+    const analysis = await compressionService.analyzeConversation(userMessage, aiResponse);
+    
+    if (
+      analysis.shouldStore &&
+      'compressedContent' in analysis &&
+      'compressionRatio' in analysis &&
+      'semanticPreservation' in analysis &&
+      'keywords' in analysis &&
+      'entities' in analysis &&
+      'sentiment' in analysis &&
+      'topics' in analysis &&
+      'importance' in analysis &&
+      'cueValue' in analysis
+    ) {
+      const cue = await db.storePersonalCue({
+        id: uuidv4(),
+        user_did: userDid,
+        vault_id: context.primaryVaultId,
+        content_type: 'conversation',
+        original_content: `User: ${userMessage}\nAI: ${aiResponse}`,
+        compressed_content: analysis.compressedContent,
+        compression_algorithm: 'semantic',
+        compression_ratio: analysis.compressionRatio,
+        semantic_preservation: analysis.semanticPreservation,
+        keywords: analysis.keywords,
+        entities: analysis.entities,
+        sentiment_score: analysis.sentiment,
+        topics: analysis.topics,
+        importance_score: analysis.importance,
+        cue_mining_value: analysis.cueValue
+      });
+      await getCueRetrievalService().indexCue(cue).catch(error => {
+        console.warn('⚠️ CUE 임베딩 인덱싱 실패 (다음 검색에서 재시도):', error);
+      });
+      await getRagDagService().recordLearnedCue(userDid, cue, responseMessageId).catch(error => {
+        console.warn('⚠️ RAG-DAG CUE 기록 실패:', error);
+      });
+    }
+  } catch (error) {
+    console.error('Learning error:', error);
+  }
+}
+
+export async function updatePassportActivity(userDid: string) {
+  try {
+    await db.updatePassport(userDid, {
+      total_interactions: 1,
+      last_activity_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Passport update error:', error);
+  }
+}
+
+// ============================================================================
+// 🤖 응답 생성 / 스트리밍 (모델 레지스트리 + 폴백 체인 + 서킷 브레이커)
+// 선택한 모델 → fallbacks 순서로 시도, 브레이커가 열린 제공자는 건너뜀
+// 모두 실패하면 시뮬레이션 응답 (CUE 환불) - 어느 경우든 routing에 이유가 남음
+// ============================================================================
+
+// 시뮬레이션 응답 단어 사이 지연
+const SIMULATED_CHUNK_DELAY_MS = Number(process.env.AI_SIMULATED_STREAM_DELAY_MS || 30);
+
+export type AttemptOutcome = 'ok' | 'error' | 'circuit_open' | 'not_configured';
+
+export interface ProviderAttempt {
+  model: string;
+  provider: ProviderId;
+  outcome: AttemptOutcome;
+  latencyMs?: number;
+  error?: string;
+}
+
+/** 어떤 제공자가 왜 응답했는지 (응답 메타데이터) */
+export interface ResponseRouting {
+  requestedModel: string;
+  /** 실제로 응답한 모델 (시뮬레이션이면 null) */
+  answeredBy: string | null;
+  provider: ProviderId | 'simulated';
+  fallback: boolean;
+  /** primary | 첫 모델을 건너뛴 이유 (error, circuit_open, not_configured) */
+  reason: 'primary' | Exclude<AttemptOutcome, 'ok'>;
+  attempts: ProviderAttempt[];
+}
+
+/** 폴백 체인이 모두 실패해 시뮬레이션으로 응답한 경우의 모델 표시 */
+export const SIMULATED_MODEL_ID = 'simulated';
+
+/**
+ * 실제로 응답한 모델 ID (요청한 모델은 routing.requestedModel)
+ */
+export function answeredModel(routing: ResponseRouting): string {
+  return routing.answeredBy || SIMULATED_MODEL_ID;
+}
+
+export interface ModelResponse {
+  response: string;
+  tokensUsed: number;
+  usedData: string[];
+  provider: ProviderId | 'simulated';
+  /** 시뮬레이션 응답이면 CUE 비용 전액 환불 */
+  simulated: boolean;
+  routing: ResponseRouting;
+  /** 응답한 모델에 보낸 프롬프트 구성 (시뮬레이션이면 null) */
+  context: ContextReport | null;
+}
+
+export interface ModelStream {
+  provider: ProviderId | 'simulated';
+  /** 시뮬레이션 응답이면 CUE 비용 전액 환불 */
+  simulated: boolean;
+  usedData: string[];
+  routing: ResponseRouting;
+  /** 응답한 모델에 보낸 프롬프트 구성 (시뮬레이션이면 null) */
+  context: ContextReport | null;
+  pieces: AsyncIterable<StreamPiece>;
+}
+
+/** 이전 대화 없이 현재 메시지만 (assembler를 넘기지 않은 호출) */
+function singleTurn(message: string, context: any): ContextAssembler {
+  return new ContextAssembler({ message, personal: context, history: [] });
+}
+
+function errorText(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+type ChainOutcome<T> =
+  | { answered: true; result: T; target: ModelDefinition; provider: ModelProvider; startedAt: number; routing: ResponseRouting }
+  | { answered: false; routing: ResponseRouting };
+
+/**
+ * 폴백 체인 실행 - call이 성공한 첫 모델의 결과 반환, 모두 실패하면 answered: false
+ * 브레이커는 mock 제공자에는 적용하지 않음
+ */
+async function runChain<T>(
+  model: string,
+  context: any,
+  call: (target: ModelDefinition, provider: ModelProvider) => Promise<T>,
+  signal?: AbortSignal
+): Promise<ChainOutcome<T>> {
+  const attempts: ProviderAttempt[] = [];
+  const routing = (answered: ModelDefinition | null, provider: ProviderId | 'simulated'): ResponseRouting => {
+    const firstFailure = attempts.find(a => a.outcome !== 'ok');
+    return {
+      requestedModel: model,
+      answeredBy: answered ? answered.id : null,
+      provider,
+      fallback: attempts.length > 1 || !answered,
+      reason: attempts[0]?.outcome === 'ok' || !firstFailure ? 'primary' : firstFailure.outcome as ResponseRouting['reason'],
+      attempts
+    };
+  };
+
+  for (const target of fallbackChain(model, context)) {
+    const provider = getProvider(target.provider);
+    if (!provider.isConfigured()) {
+      attempts.push({ model: target.id, provider: provider.id, outcome: 'not_configured' });
+      continue;
+    }
+
+    const breaker = provider.id === 'mock' ? null : getCircuitBreaker(provider.id);
+    if (breaker && !breaker.tryAcquire()) {
+      attempts.push({ model: target.id, provider: provider.id, outcome: 'circuit_open' });
+      continue;
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await call(target, provider);
+      attempts.push({ model: target.id, provider: provider.id, outcome: 'ok', latencyMs: Date.now() - startedAt });
+      return { answered: true, result, target, provider, startedAt, routing: routing(target, provider.id) };
+    } catch (error) {
+      if (signal?.aborted) {
+        breaker?.release();
+        throw error;
+      }
+      breaker?.recordFailure(Date.now() - startedAt, error);
+      attempts.push({
+        model: target.id,
+        provider: provider.id,
+        outcome: 'error',
+        latencyMs: Date.now() - startedAt,
+        error: errorText(error)
+      });
+      console.error(`❌ ${target.name} (${provider.id}) 실패, 다음 모델 시도:`, errorText(error));
+    }
+  }
+
+  return { answered: false, routing: routing(null, 'simulated') };
+}
+
+function logRouting(routing: ResponseRouting): void {
+  if (!routing.fallback) return;
+  const tried = routing.attempts.map(a => `${a.model}:${a.outcome}`).join(' → ');
+  console.warn(`⚠️ AI 폴백 (${routing.reason}): ${tried} → ${routing.answeredBy || 'simulated'}`);
+}
+
+/**
+ * 모델 응답 한 번에 생성 - 폴백 체인이 모두 실패하면 시뮬레이션 응답
+ * assembler: 이전 대화를 포함한 프롬프트 (없으면 현재 메시지만)
+ */
+export async function generateModelResponse(
+  model: string,
+  message: string,
+  context: any,
+  assembler: ContextAssembler = singleTurn(message, context)
+): Promise<ModelResponse> {
+  const usedData = extractUsedData(context);
+
+  const outcome = await runChain(model, context, async (target, provider) => {
+    const prompt = await assembler.forModel(target);
+    const result = await provider.chat({
+      model: target.providerModel,
+      messages: prompt.messages,
+      maxTokens: target.maxOutputTokens
+    });
+    if (!result.text) throw new Error('Empty response');
+    return result;
+  });
+  logRouting(outcome.routing);
+
+  if (!outcome.answered) {
+    const requested = findModel(model);
+    return {
+      ...generateEnhancedMockResponse(message, context, requested?.name || model),
+      provider: 'simulated',
+      routing: outcome.routing,
+      context: null
+    };
+  }
+
+  const { result, target, provider, startedAt } = outcome;
+  if (provider.id !== 'mock') getCircuitBreaker(provider.id).recordSuccess(Date.now() - startedAt);
+
+  // 정산 기준은 공급자가 보고한 사용량 - 보고가 없으면 조립된 프롬프트 + 응답 토큰 수
+  const report = (await assembler.forModel(target)).report;
+  const reportedTokens = result.usage.inputTokens + result.usage.outputTokens;
+
+  console.log(`✅ ${target.name} response generated successfully`);
+  return {
+    response: result.text,
+    tokensUsed: reportedTokens > 0
+      ? reportedTokens
+      : report.inputTokens + countTextTokens(result.text, report.tokenizer),
+    usedData,
+    provider: provider.id,
+    simulated: provider.id === 'mock',
+    routing: outcome.routing,
+    context: report
+  };
+}
+
+/**
+ * 모델별 스트림 열기 - 연결 단계 실패는 다음 모델로 폴백, 모두 실패하면 시뮬레이션 응답
+ * 연결 후 끊기면 pieces 반복 중 에러가 그대로 전달됨 (부분 응답 저장용, 폴백 없음)
+ * 브레이커 지연 시간 = 첫 조각까지 걸린 시간
+ */
+export async function openModelStream(
+  model: string,
+  message: string,
+  context: any,
+  signal: AbortSignal,
+  assembler: ContextAssembler = singleTurn(message, context)
+): Promise<ModelStream> {
+  const usedData = extractUsedData(context);
+
+  const outcome = await runChain(model, context, async (target, provider) => provider.stream({
+    model: target.providerModel,
+    messages: (await assembler.forModel(target)).messages,
+    maxTokens: target.maxOutputTokens,
+    signal
+  }), signal);
+  logRouting(outcome.routing);
+
+  if (!outcome.answered) {
+    const requested = findModel(model);
+    return { ...simulatedStream(message, context, requested?.name || model, signal), routing: outcome.routing, context: null };
+  }
+
+  const { result, target, provider, startedAt } = outcome;
+  const breaker = provider.id === 'mock' ? null : getCircuitBreaker(provider.id);
+
+  async function* tracked(): AsyncGenerator<StreamPiece> {
+    let firstPieceMs: number | null = null;
+    let settled = false;
+    try {
+      for await (const piece of result) {
+        if (firstPieceMs === null) firstPieceMs = Date.now() - startedAt;
+        yield piece;
+      }
+      breaker?.recordSuccess(firstPieceMs ?? Date.now() - startedAt);
+      settled = true;
+    } catch (error) {
+      if (signal.aborted) breaker?.release();
+      else breaker?.recordFailure(Date.now() - startedAt, error);
+      settled = true;
+      throw error;
+    } finally {
+      // 소비자가 중간에 멈춤 (취소)
+      if (!settled) breaker?.release();
+    }
+  }
+
+  return {
+    provider: provider.id,
+    simulated: provider.id === 'mock',
+    usedData,
+    routing: outcome.routing,
+    context: (await assembler.forModel(target)).report,
+    pieces: tracked()
+  };
+}
+
+function simulatedStream(message: string, context: any, modelName: string, signal: AbortSignal) {
+  const simulated = generateEnhancedMockResponse(message, context, modelName);
+  const parts = simulated.response.match(/\s*\S+/g) || [];
+
+  async function* pieces(): AsyncGenerator<StreamPiece> {
+    for (const part of parts) {
+      if (signal.aborted) return;
+      await new Promise(resolve => setTimeout(resolve, SIMULATED_CHUNK_DELAY_MS));
+      yield { text: part };
+    }
+  }
+
+  return { provider: 'simulated' as const, simulated: true, usedData: simulated.usedData, pieces: pieces() };
+}
@@ -0,0 +1,312 @@
+// ============================================================================
+// 📡 AI 채팅 스트리밍 서비스 (SSE 라우트 / Socket.IO 공용)
+// 경로: backend/src/services/ai/ChatStreamService.ts
+// 흐름: 대화 준비 → 프롬프트 조립(이전 대화 + 개인화, ContextBuilder) → CUE 예약 → 사용자 메시지 저장
+//       → 제공자 스트림 → 조각 전달
+//       → 완료: 토큰 사용량으로 정산 + CUE 마이닝 + 응답 저장
+//       → 취소/끊김: 받은 만큼만 정산, 부분 응답 저장 (마이닝 없음)
+// 취소: 클라이언트 요청(cancel) 또는 연결 종료(signal)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+import { PersonalizationService } from './PersonalizationService';
+import {
+  answeredModel,
+  learnFromInteraction,
+  ModelStream,
+  openModelStream,
+  recordTurnInGraph,
+  ResponseRouting,
+  updatePassportActivity
+} from './ChatProviders';
+import { CUEMiningService } from '../cue/CUEMiningService';
+import { InteractionContext } from '../cue/AbuseDetector';
+import { getCueSpendingService, SpendHoldView } from '../cue/CueSpendingService';
+import { getConversationService } from './ConversationService';
+import { ContextAssembler, ContextReport } from './ContextBuilder';
+import { countTextTokens } from './providers/Tokenizer';
+
+export type ChatStreamStatus = 'completed' | 'cancelled' | 'failed';
+
+export interface ChatStreamRequest {
+  userDid: string;
+  /** 재생성이면 비워도 됨 (기존 사용자 메시지 사용) */
+  message: string;
+  model: string;
+  conversationId?: string;
+  /** 이 사용자 메시지를 고친 새 가지로 전송 */
+  editOf?: string;
+  /** 이 AI 메시지를 다시 생성 */
+  regenerate?: string;
+  /** 요청 기기 정보 (어뷰징 탐지, 메시지 저장용) */
+  client: Omit<InteractionContext, 'messageContent'>;
+  /** 연결이 끊기면 abort - 스트림 취소와 같게 처리 */
+  signal?: AbortSignal;
+}
+
+export interface ChatStreamStart {
+  streamId: string;
+  messageId: string;
+  conversationId: string;
+  /** 응답의 부모 사용자 메시지 (재생성이면 기존 메시지) */
+  userMessageId: string;
+  model: string;
+}
+
+export interface ChatStreamChunk {
+  streamId: string;
+  messageId: string;
+  index: number;
+  text: string;
+  /** 지금까지의 응답 토큰 추정치 (문자 4개 ≈ 1토큰) */
+  outputTokens: number;
+}
+
+export interface ChatStreamResult {
+  streamId: string;
+  status: ChatStreamStatus;
+  /** /api/ai/chat 응답의 message와 같은 형태 (응답이 비어 있으면 null) */
+  message: {
+    id: string;
+    conversationId: string;
+    parentId: string;
+    content: string;
+    model: string;
+    usedPassportData: string[];
+    cueTokensEarned: number;
+    cueSpent: number;
+    tokensUsed: number;
+    responseTimeMs: number;
+    streamStatus: ChatStreamStatus;
+    /** 실제로 응답한 제공자와 폴백 이유 */
+    routing: ResponseRouting | null;
+    /** 프롬프트에 포함된 이전 대화/CUE/볼트 스니펫과 토큰 예산 */
+    context: ContextReport | null;
+  } | null;
+  error?: string;
+}
+
+export interface ChatStreamHandlers {
+  onStart?(start: ChatStreamStart): void;
+  onChunk?(chunk: ChatStreamChunk): void;
+}
+
+export class ChatStreamService {
+  private active: Map<string, { userDid: string; controller: AbortController }> = new Map();
+
+  constructor(private db: any) {}
+
+  /**
+   * 스트리밍 채팅 한 번 실행 - 잔액 부족은 스트림 시작 전에 CueLedgerError로 던짐
+   */
+  async run(request: ChatStreamRequest, handlers: ChatStreamHandlers = {}): Promise<ChatStreamResult> {
+    const { userDid, model } = request;
+    const streamId = uuidv4();
+    const messageId = uuidv4();
+    const controller = new AbortController();
+    const spending = getCueSpendingService();
+    const startTime = Date.now();
+
+    if (request.signal) {
+      if (request.signal.aborted) controller.abort();
+      request.signal.addEventListener('abort', () => controller.abort(), { once: true });
+    }
+
+    // 0. 대화 준비 + 프롬프트 조립 + CUE 비용 예약 (실패 시 스트림을 열지 않음)
+    const conversations = getConversationService();
+    const turn = await conversations.prepareTurn(userDid, {
+      conversationId: request.conversationId,
+      message: request.message,
+      model,
+      editOf: request.editOf,
+      regenerate: request.regenerate
+    });
+    const { conversationId, message } = turn;
+    const context = await new PersonalizationService(this.db).getPersonalizedContext(userDid, message);
+    const assembler = new ContextAssembler({ message, personal: context, history: turn.history });
+    const prompt = await assembler.forRequestedModel(model);
+    let hold: SpendHoldView | null = await spending.holdChat(userDid, model, message, conversationId, prompt.report.inputTokens);
+
+    this.active.set(streamId, { userDid, controller });
+    let content = '';
+    let usage: { inputTokens: number; outputTokens: number } | null = null;
+    let stream: ModelStream | null = null;
+    let status: ChatStreamStatus = 'completed';
+    let errorMessage: string | undefined;
+
+    try {
+      // 1. 사용자 메시지 저장 (재생성이면 기존 메시지 사용)
+      if (turn.saveUserMessage) {
+        await this.db.saveChatMessage({
+          id: turn.userMessageId,
+          parent_id: turn.parentId,
+          user_did: userDid,
+          conversation_id: conversationId,
+          message_type: 'user',
+          content: message,
+          ip_address: request.client.ipAddress,
+          user_agent: request.client.userAgent,
+          metadata: turn.editOf ? { editOf: turn.editOf } : {}
+        });
+        await conversations.recordMessage(userDid, conversationId, { id: turn.userMessageId, role: 'user', content: message });
+      }
+
+      handlers.onStart?.({ streamId, messageId, conversationId, userMessageId: turn.userMessageId, model });
+
+      // 2. 제공자 스트림
+      stream = await openModelStream(model, message, context, controller.signal, assembler);
+      const { tokenizer } = stream.context ?? prompt.report;
+      let index = 0;
+      for await (const piece of stream.pieces) {
+        if (controller.signal.aborted) break;
+        if (piece.usage) usage = piece.usage;
+        if (piece.text) {
+          content += piece.text;
+          handlers.onChunk?.({ streamId, messageId, index: index++, text: piece.text, outputTokens: countTextTokens(content, tokenizer) });
+        }
+      }
+      if (controller.signal.aborted) status = 'cancelled';
+    } catch (error) {
+      if (controller.signal.aborted) {
+        status = 'cancelled';
+      } else {
+        status = 'failed';
+        errorMessage = error instanceof Error ? error.message : String(error);
+        console.error('❌ AI 스트리밍 오류:', errorMessage);
+      }
+    } finally {
+      this.active.delete(streamId);
+    }
+
+    const responseTime = Date.now() - startTime;
+    // /chat와 같은 기준 - 응답한 모델의 프롬프트 구성과 토크나이저
+    const report = stream?.context ?? prompt.report;
+    const tokensUsed = usage && status === 'completed'
+      ? usage.inputTokens + usage.outputTokens
+      : report.inputTokens + countTextTokens(content, report.tokenizer);
+
+    // 3. CUE 비용 정산 - 받은 응답이 없거나 시뮬레이션이면 환불
+    let cueSpent = 0;
+    try {
+      if (hold) {
+        const settled = !content
+          ? await spending.refund(hold.id, status === 'cancelled' ? 'stream_cancelled' : 'generation_failed')
+          : stream?.simulated
+            ? await spending.refund(hold.id, 'simulated_response')
+            : await spending.settleChat(hold.id, tokensUsed);
+        cueSpent = settled.chargedAmount || 0;
+        hold = null;
+      }
+    } catch (error) {
+      console.error('CUE hold settlement error:', error);
+    }
+
+    if (!content) {
+      console.log(`⚠️ AI 스트림 ${status} - 저장할 응답 없음 (${streamId})`);
+      return { streamId, status, message: null, error: errorMessage };
+    }
+
+    // 4. CUE 마이닝 - 실제 모델이 끝까지 응답한 경우에만, 턴당 한 번 (시뮬레이션 응답, 이미 보상된 턴의 재생성 제외)
+    const respondedModel = stream ? answeredModel(stream.routing) : model;
+    let minedTokens = 0;
+    if (status === 'completed' && !stream?.simulated && !turn.alreadyRewarded) {
+      minedTokens = await new CUEMiningService().mineFromInteraction({
+        userDid,
+        messageContent: message,
+        aiResponse: content,
+        model: respondedModel,
+        personalContextUsed: context.cues.length,
+        responseTime,
+        conversationId,
+        idempotencyKey: `ai_chat:${turn.userMessageId}`,
+        client: request.client
+      });
+    }
+
+    // 5. AI 응답 저장 (중단된 경우 부분 응답)
+    const usedData = stream?.usedData || [];
+    await this.db.saveChatMessage({
+      id: messageId,
+      parent_id: turn.userMessageId,
+      user_did: userDid,
+      conversation_id: conversationId,
+      message_type: 'ai',
+      content,
+      ai_model: respondedModel,
+      used_passport_data: usedData,
+      used_vault_ids: context.vaultIds,
+      cue_tokens_earned: minedTokens,
+      cue_tokens_used: cueSpent,
+      verified: status === 'completed',
+      verification_signature: `ai_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      response_time_ms: responseTime,
+      tokens_used: tokensUsed,
+      metadata: {
+        streamId,
+        streamStatus: status,
+        provider: stream?.provider || null,
+        routing: stream?.routing || null,
+        context: stream?.context || null,
+        ...(turn.regenerateOf ? { regenerateOf: turn.regenerateOf } : {})
+      }
+    });
+    await conversations.recordMessage(userDid, conversationId, { id: messageId, role: 'ai', content });
+    await recordTurnInGraph(userDid, turn, { id: messageId, content, model: respondedModel }, context, stream?.context || null);
+
+    if (status === 'completed') {
+      setImmediate(async () => {
+        try {
+          await learnFromInteraction(userDid, message, content, context, messageId);
+        } catch (error) {
+          console.error('Background learning error:', error);
+        }
+      });
+      await updatePassportActivity(userDid);
+    }
+
+    console.log(`✅ AI 스트림 ${status}: ${streamId} (${content.length}자, ${responseTime}ms, mined ${minedTokens} CUE)`);
+
+    return {
+      streamId,
+      status,
+      message: {
+        id: messageId,
+        conversationId,
+        parentId: turn.userMessageId,
+        content,
+        model: respondedModel,
+        usedPassportData: usedData,
+        cueTokensEarned: minedTokens,
+        cueSpent,
+        tokensUsed,
+        responseTimeMs: responseTime,
+        streamStatus: status,
+        routing: stream?.routing || null,
+        context: stream?.context || null
+      },
+      error: errorMessage
+    };
+  }
+
+  /**
+   * 진행 중인 스트림 취소 (본인 스트림만)
+   */
+  cancel(streamId: string, userDid: string): boolean {
+    const stream = this.active.get(streamId);
+    if (!stream || stream.userDid !== userDid) return false;
+
+    console.log(`🛑 AI 스트림 취소 요청: ${streamId}`);
+    stream.controller.abort();
+    return true;
+  }
+}
+
+let sharedChatStreamService: ChatStreamService | null = null;
+
+export function getChatStreamService(): ChatStreamService {
+  if (!sharedChatStreamService) {
+    sharedChatStreamService = new ChatStreamService(DatabaseService.getInstance());
+  }
+  return sharedChatStreamService;
+}
@@ -0,0 +1,312 @@
+// ============================================================================
+// 🧩 대화 컨텍스트 조립 (모델별 토큰 예산)
+// 경로: backend/src/services/ai/ContextBuilder.ts
+// 구성: [system: 성격 프로필 + 개인 CUE + 볼트 스니펫 + 이전 대화 요약] + 최근 대화 + 현재 메시지
+// 예산: min(contextWindow - maxOutputTokens, maxInputTokens)에서 여유분을 뺀 값, 토큰 수는 제공자 토크나이저
+// 우선순위: 현재 메시지 / 프로필 → 개인 CUE, 볼트 스니펫 (예산 비율 상한) → 최근 대화 (최신부터)
+//          → 예산을 넘은 오래된 대화는 SemanticCompressionService로 요약
+// 폴백 체인의 모델마다 창 크기/토크나이저가 달라 모델별로 한 번씩 조립 (ContextAssembler)
+// ============================================================================
+
+import { SemanticCompressionService } from './SemanticCompressionService';
+import { getProvider, ModelDefinition, resolveModel } from './providers/ModelRegistry';
+import { ModelProvider, ProviderId, ProviderMessage } from './providers/types';
+import { TokenizerName, truncateToTokens } from './providers/Tokenizer';
+
+export const CONTEXT_LIMITS = {
+  /** 모델 창이 커도 한 요청의 입력은 이 이하 (CUE 비용 상한) */
+  maxInputTokens: Number(process.env.AI_CONTEXT_MAX_INPUT_TOKENS || 16000),
+  /** 토크나이저 오차 여유 (입력 예산 비율) */
+  safetyMarginRatio: 0.05,
+  /** 메시지 하나당 역할/구분자 토큰 */
+  messageOverheadTokens: 4,
+  /** 입력 예산 중 개인 CUE / 볼트 스니펫 / 이전 대화 요약 상한 비율 */
+  cueShare: 0.1,
+  vaultShare: 0.15,
+  summaryShare: 0.1,
+  maxCues: 8,
+  maxVaultSnippets: 3,
+  vaultSnippetChars: 800,
+  /** 요약 시 메시지마다 남길 문장 비율 */
+  summaryRatio: 0.3
+};
+
+export interface ContextInput {
+  message: string;
+  /** PersonalizationService.getPersonalizedContext 결과 */
+  personal: any;
+  /** 이전 대화 (활성 가지, 오래된 순, chat_messages 행) */
+  history: any[];
+}
+
+/** 프롬프트에 무엇이 들어갔는지 (응답 메타데이터 context) */
+export interface ContextReport {
+  model: string;
+  provider: ProviderId;
+  tokenizer: TokenizerName;
+  contextWindow: number;
+  /** 응답용으로 남긴 토큰 */
+  reservedOutputTokens: number;
+  /** 입력 토큰 예산 */
+  budget: number;
+  /** 조립된 입력 토큰 (메시지 구분 토큰 포함) */
+  inputTokens: number;
+  sections: {
+    profile: number;
+    cues: number;
+    vault: number;
+    summary: number;
+    history: number;
+    message: number;
+  };
+  history: {
+    /** 활성 가지의 이전 메시지 수 */
+    total: number;
+    included: number;
+    /** 원문 대신 요약으로 들어간 오래된 메시지 수 */
+    summarized: number;
+    includedIds: string[];
+  };
+  cues: ContextCueReport;
+  vault: ContextCueReport;
+  /** 현재 메시지가 예산을 넘어 잘림 */
+  messageTruncated: boolean;
+}
+
+export interface ContextCueReport {
+  available: number;
+  includedIds: string[];
+  /** 포함된 CUE별 검색 근거 (CueRetrievalService reasons) */
+  reasons: Record<string, string[]>;
+}
+
+export interface AssembledContext {
+  messages: ProviderMessage[];
+  report: ContextReport;
+}
+
+interface Line {
+  id: string;
+  text: string;
+}
+
+/**
+ * 모델 하나의 예산에 맞춰 프롬프트 조립
+ */
+export async function assembleContext(target: ModelDefinition, input: ContextInput): Promise<AssembledContext> {
+  const provider = getProvider(target.provider);
+  const overhead = CONTEXT_LIMITS.messageOverheadTokens;
+  const count = (text: string) => provider.countTokens(text);
+
+  const window = Math.min(target.contextWindow - target.maxOutputTokens, CONTEXT_LIMITS.maxInputTokens);
+  const budget = Math.max(0, Math.floor(window * (1 - CONTEXT_LIMITS.safetyMarginRatio)));
+
+  // 1. 필수: 프로필 + 현재 메시지 (넘치면 메시지 뒷부분을 자름)
+  const profile = profilePrompt(input.personal);
+  const profileTokens = count(profile) + overhead;
+  let message = input.message;
+  let messageTokens = count(message) + overhead;
+  const messageTruncated = profileTokens + messageTokens > budget;
+  if (messageTruncated) {
+    message = truncateToTokens(message, Math.max(0, budget - profileTokens - overhead), provider.tokenizer);
+    messageTokens = count(message) + overhead;
+  }
+  let remaining = Math.max(0, budget - profileTokens - messageTokens);
+
+  // 2. 개인 CUE / 볼트 스니펫 (관련도 순)
+  const cues: any[] = input.personal?.cues || [];
+  const snippetCues = cues.filter(isVaultSnippet);
+  const personalCues = cues.filter(cue => !isVaultSnippet(cue) && cue.compressed_content);
+
+  const cueSection = fitSection(
+    '**Personal Context:**',
+    personalCues.slice(0, CONTEXT_LIMITS.maxCues).map(cue => ({
+      id: cue.id,
+      text: `- ${cue.compressed_content} (${cue.content_type})`
+    })),
+    Math.min(remaining, Math.floor(budget * CONTEXT_LIMITS.cueShare)),
+    count
+  );
+  remaining -= cueSection.tokens;
+
+  const vaultSection = fitSection(
+    '**From the user\'s data vault:**',
+    snippetCues.slice(0, CONTEXT_LIMITS.maxVaultSnippets).map(cue => ({
+      id: cue.id,
+      text: `- [${cue.content_type}] ${excerpt(cue.original_content, CONTEXT_LIMITS.vaultSnippetChars)}`
+    })),
+    Math.min(remaining, Math.floor(budget * CONTEXT_LIMITS.vaultShare)),
+    count
+  );
+  remaining -= vaultSection.tokens;
+
+  // 3. 최근 대화 - 최신 메시지부터, 넘치면 요약 자리를 남겨 두고 채움
+  const history = input.history.filter(row => row && row.content);
+  const historyTokens = history.map(row => count(row.content) + overhead);
+  const totalHistoryTokens = historyTokens.reduce((sum, tokens) => sum + tokens, 0);
+  const summaryBudget = totalHistoryTokens > remaining
+    ? Math.min(Math.floor(budget * CONTEXT_LIMITS.summaryShare), remaining)
+    : 0;
+
+  let historyBudget = remaining - summaryBudget;
+  let firstIncluded = history.length;
+  while (firstIncluded > 0 && historyTokens[firstIncluded - 1] <= historyBudget) {
+    historyBudget -= historyTokens[firstIncluded - 1];
+    firstIncluded--;
+  }
+  const recent = history.slice(firstIncluded);
+  const older = history.slice(0, firstIncluded);
+
+  // 4. 오래된 대화 요약
+  const summaryTitle = '**Earlier in this conversation (summarized):**';
+  const summaryLinesBudget = summaryBudget - count(summaryTitle) - 1;
+  const summary = older.length > 0 && summaryLinesBudget > 0
+    ? await summarizeTurns(older, summaryLinesBudget, provider)
+    : '';
+  const summarySection = summary ? `${summaryTitle}\n${summary}` : '';
+
+  const system = [profile, cueSection.text, vaultSection.text, summarySection].filter(Boolean).join('\n\n');
+  const messages: ProviderMessage[] = [
+    { role: 'system', content: system },
+    ...recent.map(row => ({
+      role: row.message_type === 'user' ? 'user' as const : 'assistant' as const,
+      content: row.content
+    })),
+    { role: 'user', content: message }
+  ];
+
+  return {
+    messages,
+    report: {
+      model: target.id,
+      provider: provider.id,
+      tokenizer: provider.tokenizer,
+      contextWindow: target.contextWindow,
+      reservedOutputTokens: target.maxOutputTokens,
+      budget,
+      inputTokens: messages.reduce((sum, m) => sum + count(m.content) + overhead, 0),
+      sections: {
+        profile: profileTokens,
+        cues: cueSection.tokens,
+        vault: vaultSection.tokens,
+        summary: summarySection ? count(summarySection) : 0,
+        history: historyTokens.slice(firstIncluded).reduce((sum, tokens) => sum + tokens, 0),
+        message: messageTokens
+      },
+      history: {
+        total: history.length,
+        included: recent.length,
+        summarized: summary ? older.length : 0,
+        includedIds: recent.map(row => row.id)
+      },
+      cues: cueReport(personalCues, cueSection.ids),
+      vault: cueReport(snippetCues, vaultSection.ids),
+      messageTruncated
+    }
+  };
+}
+
+/**
+ * 한 요청 안에서 모델별 조립 결과 재사용 (CUE 예약 견적 → 폴백 체인의 각 모델)
+ */
+export class ContextAssembler {
+  private built: Map<string, Promise<AssembledContext>> = new Map();
+
+  constructor(readonly input: ContextInput) {}
+
+  forModel(target: ModelDefinition): Promise<AssembledContext> {
+    let assembled = this.built.get(target.id);
+    if (!assembled) {
+      assembled = assembleContext(target, this.input);
+      this.built.set(target.id, assembled);
+    }
+    return assembled;
+  }
+
+  /** 요청한 모델이 라우팅되는 첫 모델 기준 */
+  forRequestedModel(model: string): Promise<AssembledContext> {
+    return this.forModel(resolveModel(model, this.input.personal).target);
+  }
+}
+
+// ============================================================================
+// 🔧 내부 유틸
+// ============================================================================
+
+function profilePrompt(personal: any): string {
+  const { personalityProfile, behaviorPatterns } = personal || {};
+
+  return `You are an AI assistant with deep knowledge of the user's personality and preferences.
+
+**User Profile:**
+- Personality: ${personalityProfile?.type || 'Unknown'}
+- Communication: ${personalityProfile?.communicationStyle || 'Adaptive'}
+- Learning: ${personalityProfile?.learningPattern || 'Visual'}
+- Decision Making: ${personalityProfile?.decisionMaking || 'Analytical'}
+
+**Behavioral Patterns:**
+${behaviorPatterns?.slice(0, 5).join(', ') || 'Learning patterns...'}
+
+Respond in a way that matches their personality and communication style. Use their personal context and the earlier conversation when relevant.`;
+}
+
+/** 대화에서 학습한 CUE가 아닌, 볼트/플랫폼에서 추출한 원문 데이터 */
+function isVaultSnippet(cue: any): boolean {
+  return cue?.content_type !== 'conversation' && typeof cue?.original_content === 'string' && cue.original_content.length > 0;
+}
+
+function cueReport(cues: any[], includedIds: string[]): ContextCueReport {
+  const reasons: Record<string, string[]> = {};
+  for (const cue of cues) {
+    if (includedIds.includes(cue.id) && cue.retrieval?.reasons) {
+      reasons[cue.id] = cue.retrieval.reasons.map((reason: any) => reason.detail);
+    }
+  }
+  return { available: cues.length, includedIds, reasons };
+}
+
+function excerpt(text: string, maxChars: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  return flat.length > maxChars ? `${flat.slice(0, maxChars)}…` : flat;
+}
+
+/**
+ * 제목 + 줄 목록을 예산 안에서 앞에서부터 채움 (넘치는 줄은 제외)
+ */
+function fitSection(title: string, lines: Line[], maxTokens: number, count: (text: string) => number) {
+  const ids: string[] = [];
+  const kept: string[] = [];
+  let tokens = count(title) + 1;
+
+  for (const line of lines) {
+    const lineTokens = count(line.text) + 1;
+    if (tokens + lineTokens > maxTokens) continue;
+    tokens += lineTokens;
+    kept.push(line.text);
+    ids.push(line.id);
+  }
+
+  return kept.length > 0
+    ? { text: [title, ...kept].join('\n'), tokens, ids }
+    : { text: '', tokens: 0, ids };
+}
+
+/**
+ * 오래된 메시지를 메시지마다 의미 압축 후 역할별 한 줄로 (예산을 넘으면 뒤를 자름)
+ */
+async function summarizeTurns(rows: any[], maxTokens: number, provider: ModelProvider): Promise<string> {
+  const compression = new SemanticCompressionService();
+  const lines: string[] = [];
+
+  for (const row of rows) {
+    let content = String(row.content).replace(/\s+/g, ' ').trim();
+    try {
+      content = (await compression.compressContent(content, CONTEXT_LIMITS.summaryRatio)).compressedContent;
+    } catch (error) {
+      console.warn('⚠️ 대화 요약 실패, 원문 사용:', error);
+    }
+    lines.push(`- ${row.message_type === 'user' ? 'User' : 'AI'}: ${content}`);
+  }
+
+  return truncateToTokens(lines.join('\n'), maxTokens, provider.tokenizer);
+}
@@ -0,0 +1,501 @@
+// ============================================================================
+// 🗂️ 대화 관리 서비스 (목록, 제목, 고정, 보관, 분기, 삭제)
+// 경로: backend/src/services/ai/ConversationService.ts
+// 저장: conversations (제목/상태 + 마지막 메시지 미리보기), 메시지는 chat_messages.conversation_id
+// 제목: 첫 사용자 메시지에서 자동 생성 (title_source 'auto'), 사용자가 바꾸면 'user'
+// 분기: 원본 대화의 루트부터 지정한 메시지까지(그 가지만) 새 대화로 복사 (복사본의 CUE 보상/비용은 0)
+// 메시지 트리: 편집/재생성은 형제 가지를 만들고 active_leaf_id가 활성 가지를 가리킴 (MessageTree.ts)
+// 채팅 라우트/스트리밍은 메시지 저장 전에 prepareTurn, 저장 후 recordMessage 호출
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+import { activePath, branchOf, buildMessageTree, latestLeaf, MessageBranch, MessageTree } from './MessageTree';
+
+export const CONVERSATION_LIMITS = {
+  titleMaxLength: 80,
+  /** 자동 제목 최대 길이 (단어 경계에서 자르고 … 추가) */
+  autoTitleLength: 40,
+  previewLength: 120,
+  maxListLimit: 100,
+  /** 대화 조회/분기 시 읽는 최대 메시지 수 */
+  maxMessages: 500
+};
+
+export const DEFAULT_CONVERSATION_TITLE = '새 대화';
+
+export type ConversationTitleSource = 'auto' | 'user';
+
+export enum ConversationErrorCode {
+  CONVERSATION_NOT_FOUND = 'CONVERSATION_NOT_FOUND',
+  MESSAGE_NOT_FOUND = 'MESSAGE_NOT_FOUND',
+  INVALID_TITLE = 'INVALID_TITLE',
+  /** 편집 대상이 사용자 메시지가 아니거나 재생성 대상이 AI 메시지가 아님 */
+  INVALID_TURN_TARGET = 'INVALID_TURN_TARGET'
+}
+
+export class ConversationError extends Error {
+  constructor(public code: ConversationErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ConversationError';
+  }
+}
+
+export interface ConversationView {
+  id: string;
+  title: string;
+  titleSource: ConversationTitleSource;
+  pinned: boolean;
+  archived: boolean;
+  model: string | null;
+  /** 모든 가지의 메시지 수 */
+  messageCount: number;
+  /** 활성 가지의 마지막 메시지 */
+  activeMessageId: string | null;
+  lastMessage: {
+    preview: string;
+    role: 'user' | 'ai';
+    at: string;
+  } | null;
+  /** 분기된 대화면 원본 대화와 분기 지점 메시지 */
+  forkedFrom: {
+    conversationId: string;
+    messageId: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ConversationListOptions {
+  archived?: boolean;
+  query?: string;
+  limit?: number;
+}
+
+/** 활성 경로 메시지 + 형제 가지 정보 */
+export type ConversationMessage = any & { branch: MessageBranch };
+
+export interface ChatTurnRequest {
+  conversationId?: string;
+  message?: string;
+  model: string;
+  /** 이 사용자 메시지를 고친 새 가지 */
+  editOf?: string;
+  /** 이 AI 메시지를 다시 생성 (같은 사용자 메시지 아래 새 응답) */
+  regenerate?: string;
+}
+
+/** 채팅 한 턴의 저장 위치 (prepareTurn 결과) */
+export interface ChatTurn {
+  kind: 'message' | 'edit' | 'regenerate';
+  conversationId: string;
+  /** 이번 턴의 사용자 메시지 - 재생성이면 기존 메시지 */
+  userMessageId: string;
+  /** 새 사용자 메시지의 부모 (루트면 null) */
+  parentId: string | null;
+  /** AI에 보낼 사용자 메시지 (재생성이면 기존 내용) */
+  message: string;
+  /** 재생성이면 false (사용자 메시지는 이미 저장됨) */
+  saveUserMessage: boolean;
+  editOf: string | null;
+  regenerateOf: string | null;
+  /** 같은 턴에 이미 CUE가 지급됨 (재생성) - 다시 마이닝하지 않음 */
+  alreadyRewarded: boolean;
+  /** 이번 사용자 메시지 앞의 활성 경로 (오래된 순, 컨텍스트 조립용) */
+  history: any[];
+}
+
+export interface ConversationUpdate {
+  /** null이면 자동 제목으로 되돌림 */
+  title?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+/**
+ * 메시지에서 대화 제목 생성 - 첫 줄, 마크다운 기호 제거, 단어 경계에서 자름
+ */
+export function autoTitle(text: string, maxLength = CONVERSATION_LIMITS.autoTitleLength): string {
+  const firstLine = (text || '')
+    .split('\n')
+    .map(line => line.replace(/[#>*_`~\[\]()]/g, ' ').replace(/\s+/g, ' ').trim())
+    .find(line => line.length > 0) || '';
+
+  if (!firstLine) return DEFAULT_CONVERSATION_TITLE;
+  if (firstLine.length <= maxLength) return firstLine;
+
+  const cut = firstLine.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+}
+
+function preview(text: string): string {
+  const flat = (text || '').replace(/\s+/g, ' ').trim();
+  return flat.length > CONVERSATION_LIMITS.previewLength
+    ? `${flat.slice(0, CONVERSATION_LIMITS.previewLength)}…`
+    : flat;
+}
+
+function withBranches(tree: MessageTree, path: any[]): ConversationMessage[] {
+  return path.map(message => ({ ...message, branch: branchOf(tree, message.id) }));
+}
+
+function toConversationView(row: any): ConversationView {
+  return {
+    id: row.id,
+    title: row.title || DEFAULT_CONVERSATION_TITLE,
+    titleSource: row.title_source || 'auto',
+    pinned: !!row.pinned,
+    archived: !!row.archived,
+    model: row.model || null,
+    messageCount: Number(row.message_count || 0),
+    activeMessageId: row.active_leaf_id || null,
+    lastMessage: row.last_message_at
+      ? { preview: row.last_message_preview || '', role: row.last_message_role, at: row.last_message_at }
+      : null,
+    forkedFrom: row.forked_from_conversation_id
+      ? { conversationId: row.forked_from_conversation_id, messageId: row.forked_from_message_id }
+      : null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at || row.created_at
+  };
+}
+
+export class ConversationService {
+  constructor(private db: any) {}
+
+  // ============================================================================
+  // 📋 조회
+  // ============================================================================
+
+  async list(userDid: string, options: ConversationListOptions = {}): Promise<ConversationView[]> {
+    const limit = Math.min(Math.max(options.limit || 50, 1), CONVERSATION_LIMITS.maxListLimit);
+    const rows = await this.db.getConversations({
+      did: userDid,
+      archived: options.archived ?? false,
+      query: options.query?.trim() || undefined,
+      limit
+    });
+    return rows.map(toConversationView);
+  }
+
+  async get(userDid: string, conversationId: string): Promise<ConversationView> {
+    return toConversationView(await this.requireConversation(userDid, conversationId));
+  }
+
+  /**
+   * 대화 + 활성 가지 메시지 (오래된 순, 메시지마다 형제 가지 정보)
+   */
+  async getWithMessages(userDid: string, conversationId: string, limit = CONVERSATION_LIMITS.maxMessages) {
+    const row = await this.requireConversation(userDid, conversationId);
+    const tree = await this.tree(userDid, conversationId);
+    const path = activePath(tree, row.active_leaf_id).slice(-limit);
+    return { conversation: toConversationView(row), messages: withBranches(tree, path) };
+  }
+
+  /**
+   * 활성 가지 전환 - messageId에서 가장 최근 자식을 따라 내려간 끝 메시지가 활성
+   */
+  async switchBranch(userDid: string, conversationId: string, messageId: string) {
+    await this.requireConversation(userDid, conversationId);
+    const tree = await this.tree(userDid, conversationId);
+    if (!tree.byId.has(messageId)) {
+      throw new ConversationError(ConversationErrorCode.MESSAGE_NOT_FOUND, 'Message not found in conversation', 404);
+    }
+
+    await this.db.updateConversation(conversationId, userDid, {
+      active_leaf_id: latestLeaf(tree, messageId),
+      updated_at: new Date().toISOString()
+    });
+    return this.getWithMessages(userDid, conversationId);
+  }
+
+  // ============================================================================
+  // ✏️ 생성 / 수정 / 삭제
+  // ============================================================================
+
+  async create(userDid: string, params: { title?: string; model?: string } = {}): Promise<ConversationView> {
+    const title = params.title === undefined ? undefined : this.validTitle(params.title);
+    const row = await this.insert(userDid, {
+      title: title || DEFAULT_CONVERSATION_TITLE,
+      title_source: title ? 'user' : 'auto',
+      model: params.model || null
+    });
+    console.log(`🗂️ 대화 생성: ${row.id}`);
+    return toConversationView(row);
+  }
+
+  async update(userDid: string, conversationId: string, changes: ConversationUpdate): Promise<ConversationView> {
+    await this.requireConversation(userDid, conversationId);
+    const updates: any = { updated_at: new Date().toISOString() };
+
+    if (changes.title === null) {
+      const firstUser = (await this.tree(userDid, conversationId)).ordered.find(m => m.message_type === 'user');
+      updates.title = firstUser ? autoTitle(firstUser.content) : DEFAULT_CONVERSATION_TITLE;
+      updates.title_source = 'auto';
+    } else if (changes.title !== undefined) {
+      updates.title = this.validTitle(changes.title);
+      updates.title_source = 'user';
+    }
+    if (changes.pinned !== undefined) updates.pinned = !!changes.pinned;
+    if (changes.archived !== undefined) updates.archived = !!changes.archived;
+
+    const row = await this.db.updateConversation(conversationId, userDid, updates);
+    if (!row) {
+      throw new ConversationError(ConversationErrorCode.CONVERSATION_NOT_FOUND, 'Conversation not found', 404);
+    }
+    return toConversationView(row);
+  }
+
+  /**
+   * 대화와 메시지 삭제 (되돌릴 수 없음)
+   */
+  async delete(userDid: string, conversationId: string): Promise<{ deletedMessages: number }> {
+    await this.requireConversation(userDid, conversationId);
+    const deletedMessages = await this.db.deleteChatMessages(userDid, conversationId);
+    await this.db.deleteConversation(conversationId, userDid);
+
+    console.log(`🗑️ 대화 삭제: ${conversationId} (메시지 ${deletedMessages}개)`);
+    return { deletedMessages };
+  }
+
+  /**
+   * 루트부터 지정한 메시지까지의 가지를 복사해 새 대화 생성 - 원본은 그대로
+   */
+  async fork(userDid: string, conversationId: string, messageId: string, title?: string) {
+    const source = await this.requireConversation(userDid, conversationId);
+    const tree = await this.tree(userDid, conversationId);
+    if (!tree.byId.has(messageId)) {
+      throw new ConversationError(ConversationErrorCode.MESSAGE_NOT_FOUND, 'Message not found in conversation', 404);
+    }
+
+    const forkTitle = title === undefined ? undefined : this.validTitle(title);
+    const copied = activePath(tree, messageId);
+    const last = copied[copied.length - 1];
+    const now = new Date().toISOString();
+    const copyIds = copied.map(() => uuidv4());
+
+    const row = await this.insert(userDid, {
+      title: forkTitle || `${source.title || DEFAULT_CONVERSATION_TITLE} (분기)`,
+      title_source: forkTitle ? 'user' : source.title_source || 'auto',
+      model: source.model || null,
+      message_count: copied.length,
+      last_message_preview: preview(last.content),
+      last_message_role: last.message_type,
+      last_message_at: now,
+      active_leaf_id: copyIds[copyIds.length - 1],
+      forked_from_conversation_id: conversationId,
+      forked_from_message_id: messageId
+    });
+
+    const forkedMessages = [];
+    for (const [index, message] of copied.entries()) {
+      const { id, created_at, updated_at, ...rest } = message;
+      const copy = {
+        ...rest,
+        id: copyIds[index],
+        parent_id: index === 0 ? null : copyIds[index - 1],
+        conversation_id: row.id,
+        // 보상/비용은 원본 메시지에서 이미 처리됨
+        cue_tokens_earned: 0,
+        cue_tokens_used: 0,
+        metadata: { ...(message.metadata || {}), editOf: undefined, forkedFrom: { conversationId, messageId: id } }
+      };
+      await this.db.saveChatMessage(copy);
+      forkedMessages.push(copy);
+    }
+
+    console.log(`🌿 대화 분기: ${conversationId} → ${row.id} (메시지 ${copied.length}개)`);
+    return { conversation: toConversationView(row), messages: forkedMessages };
+  }
+
+  // ============================================================================
+  // 💬 채팅 연동
+  // ============================================================================
+
+  /**
+   * 채팅 한 턴 준비 - 대화 확보 후 사용자 메시지를 어디에 붙일지 결정
+   * 일반: 활성 가지 끝, 편집: 고친 메시지의 부모 아래, 재생성: 기존 사용자 메시지 재사용
+   */
+  async prepareTurn(userDid: string, request: ChatTurnRequest): Promise<ChatTurn> {
+    const { editOf, regenerate, model } = request;
+
+    if (!editOf && !regenerate) {
+      const conversation = await this.ensureForMessage(userDid, request.conversationId, request.message || '', model);
+      const tree = await this.tree(userDid, conversation.id);
+      const path = activePath(tree, conversation.active_leaf_id);
+
+      return {
+        kind: 'message',
+        conversationId: conversation.id,
+        userMessageId: uuidv4(),
+        parentId: path.length > 0 ? path[path.length - 1].id : null,
+        message: request.message || '',
+        saveUserMessage: true,
+        editOf: null,
+        regenerateOf: null,
+        alreadyRewarded: false,
+        history: path
+      };
+    }
+
+    if (!request.conversationId) {
+      throw new ConversationError(ConversationErrorCode.INVALID_TURN_TARGET, 'conversationId is required to edit or regenerate');
+    }
+    const conversation = await this.requireConversation(userDid, request.conversationId);
+    const tree = await this.tree(userDid, conversation.id);
+    const target = tree.byId.get((editOf || regenerate)!);
+    if (!target) {
+      throw new ConversationError(ConversationErrorCode.MESSAGE_NOT_FOUND, 'Message not found in conversation', 404);
+    }
+    await this.ensureForMessage(userDid, conversation.id, request.message || '', model);
+
+    if (editOf) {
+      if (target.message_type !== 'user') {
+        throw new ConversationError(ConversationErrorCode.INVALID_TURN_TARGET, 'Only user messages can be edited');
+      }
+      const parentId = tree.parentOf.get(target.id) || null;
+      return {
+        kind: 'edit',
+        conversationId: conversation.id,
+        userMessageId: uuidv4(),
+        parentId,
+        message: request.message || '',
+        saveUserMessage: true,
+        editOf: target.id,
+        regenerateOf: null,
+        alreadyRewarded: false,
+        history: parentId ? activePath(tree, parentId) : []
+      };
+    }
+
+    const userMessage = tree.byId.get(tree.parentOf.get(target.id) || '');
+    if (target.message_type !== 'ai' || !userMessage || userMessage.message_type !== 'user') {
+      throw new ConversationError(ConversationErrorCode.INVALID_TURN_TARGET, 'Only AI replies to a user message can be regenerated');
+    }
+    const replies = tree.children.get(userMessage.id) || [];
+    const parentId = tree.parentOf.get(userMessage.id) || null;
+
+    return {
+      kind: 'regenerate',
+      conversationId: conversation.id,
+      userMessageId: userMessage.id,
+      parentId,
+      message: userMessage.content,
+      saveUserMessage: false,
+      editOf: null,
+      regenerateOf: target.id,
+      alreadyRewarded: replies.some(reply => Number(reply.cue_tokens_earned || 0) > 0),
+      history: parentId ? activePath(tree, parentId) : []
+    };
+  }
+
+  /**
+   * 메시지를 저장할 대화 준비 - 없으면 생성(첫 메시지로 자동 제목), 보관된 대화면 복원
+   * 다른 사용자의 대화 ID면 CONVERSATION_NOT_FOUND
+   */
+  private async ensureForMessage(userDid: string, conversationId: string | undefined, message: string, model: string) {
+    const existing = conversationId ? await this.db.getConversation(conversationId) : null;
+
+    if (!existing) {
+      return this.insert(userDid, {
+        id: conversationId || uuidv4(),
+        title: autoTitle(message),
+        title_source: 'auto',
+        model
+      });
+    }
+
+    if (existing.user_did !== userDid) {
+      throw new ConversationError(ConversationErrorCode.CONVERSATION_NOT_FOUND, 'Conversation not found', 404);
+    }
+
+    const updates: any = {};
+    if (existing.archived) updates.archived = false;
+    if (existing.title_source !== 'user' && !existing.message_count) updates.title = autoTitle(message);
+    if (existing.model !== model) updates.model = model;
+    if (Object.keys(updates).length > 0) {
+      return (await this.db.updateConversation(existing.id, userDid, updates)) || existing;
+    }
+    return existing;
+  }
+
+  /**
+   * 저장된 메시지를 대화 미리보기/개수에 반영하고 활성 가지 끝으로 지정 - 실패해도 채팅은 계속
+   */
+  async recordMessage(userDid: string, conversationId: string, message: { id: string; role: 'user' | 'ai'; content: string }): Promise<void> {
+    try {
+      const row = await this.db.getConversation(conversationId);
+      if (!row || row.user_did !== userDid) return;
+
+      const now = new Date().toISOString();
+      await this.db.updateConversation(conversationId, userDid, {
+        message_count: Number(row.message_count || 0) + 1,
+        last_message_preview: preview(message.content),
+        last_message_role: message.role,
+        last_message_at: now,
+        active_leaf_id: message.id,
+        updated_at: now
+      });
+    } catch (error) {
+      console.error('❌ 대화 미리보기 갱신 실패:', error);
+    }
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸
+  // ============================================================================
+
+  private async insert(userDid: string, fields: any) {
+    const now = new Date().toISOString();
+    return this.db.createConversation({
+      id: uuidv4(),
+      user_did: userDid,
+      pinned: false,
+      archived: false,
+      message_count: 0,
+      last_message_preview: null,
+      last_message_role: null,
+      last_message_at: null,
+      active_leaf_id: null,
+      forked_from_conversation_id: null,
+      forked_from_message_id: null,
+      created_at: now,
+      updated_at: now,
+      ...fields
+    });
+  }
+
+  private async requireConversation(userDid: string, conversationId: string) {
+    const row = await this.db.getConversation(conversationId);
+    if (!row || row.user_did !== userDid) {
+      throw new ConversationError(ConversationErrorCode.CONVERSATION_NOT_FOUND, 'Conversation not found', 404);
+    }
+    return row;
+  }
+
+  /** 대화의 모든 가지 메시지로 트리 구성 */
+  private async tree(userDid: string, conversationId: string): Promise<MessageTree> {
+    return buildMessageTree(await this.db.getConversationMessages(userDid, conversationId, CONVERSATION_LIMITS.maxMessages));
+  }
+
+  private validTitle(title: unknown): string {
+    const trimmed = typeof title === 'string' ? title.replace(/\s+/g, ' ').trim() : '';
+    if (!trimmed || trimmed.length > CONVERSATION_LIMITS.titleMaxLength) {
+      throw new ConversationError(
+        ConversationErrorCode.INVALID_TITLE,
+        `title must be a non-empty string up to ${CONVERSATION_LIMITS.titleMaxLength} characters`
+      );
+    }
+    return trimmed;
+  }
+}
+
+let sharedConversationService: ConversationService | null = null;
+
+export function getConversationService(): ConversationService {
+  if (!sharedConversationService) {
+    sharedConversationService = new ConversationService(DatabaseService.getInstance());
+  }
+  return sharedConversationService;
+}
@@ -0,0 +1,489 @@
+// ============================================================================
+// 🔎 개인화 CUE 검색 (BM25 + 임베딩 하이브리드)
+// 경로: backend/src/services/ai/CueRetrievalService.ts
+// 인덱스: CUE(대화 학습 + 볼트 추출)를 제공자 임베딩으로 personal_cue_embeddings에 저장
+//        (Supabase pgvector / Mock은 메모리 전수 비교 - DatabaseService.matchCueEmbeddings)
+// 임베딩 제공자: AI_EMBEDDING_PROVIDER, 없으면 설정된 ollama → openai → gemini, 모두 없으면 mock
+// 점수: 관련도(BM25 0.4 + 코사인 0.6) 0.7 + 최신성(반감기 30일) 0.15 + 중요도 0.15
+//      임베딩 실패 시 BM25만, 질의어가 없거나 일치가 없으면 최신성/중요도 순
+// 저장 시 바로 인덱싱하고, 검색 시 빠지거나 내용이 바뀐 CUE를 채움 (배치 상한)
+// 그래프: 상위 결과의 RAG-DAG 이웃 CUE를 거리만큼 감점해 후보에 추가, 대체된 CUE는 새 CUE로 교체
+// 결과 CUE마다 retrieval: { score, signals, reasons } - 왜 골랐는지
+// ============================================================================
+
+import { createHash } from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { getProvider } from './providers/ModelRegistry';
+import { MOCK_EMBEDDING_DIMENSIONS } from './providers/MockProvider';
+import { ModelProvider, ProviderId } from './providers/types';
+import { getRagDagService } from '../vault/RagDagService';
+
+export const RETRIEVAL_LIMITS = {
+  /** 검색 대상으로 읽는 사용자 CUE 수 (중요도/최신 순) */
+  corpusSize: 500,
+  /** 벡터 검색 후보 수 */
+  vectorCandidates: 50,
+  /** 임베딩 요청 한 번에 보낼 CUE 수 */
+  embedBatchSize: Number(process.env.AI_EMBEDDING_BATCH_SIZE || 32),
+  /** 검색 한 번에 새로 인덱싱할 최대 CUE 수 (나머지는 다음 검색에서) */
+  maxIndexPerSearch: 64,
+  embeddingTextChars: 2000,
+  bm25K1: 1.2,
+  bm25B: 0.75,
+  lexicalWeight: 0.4,
+  semanticWeight: 0.6,
+  relevanceWeight: 0.7,
+  recencyWeight: 0.15,
+  importanceWeight: 0.15,
+  recencyHalfLifeDays: 30,
+  /** 이 미만의 코사인 유사도는 의미 일치로 보지 않음 */
+  minSemanticSimilarity: 0.2,
+  /** 이유에 최신/중요를 적는 기준 */
+  recentSignal: 0.5,
+  importantSignal: 0.7,
+  /** 그래프 이웃 점수 = 연결된 결과 점수 × decay^거리 */
+  graphNeighborDecay: 0.7,
+  maxGraphNeighbors: 3
+};
+
+export type CueSource = 'conversation' | 'vault';
+
+export type RetrievalReasonType = 'keyword' | 'semantic' | 'recent' | 'important' | 'graph' | 'fallback';
+
+export interface RetrievalReason {
+  type: RetrievalReasonType;
+  detail: string;
+}
+
+/** 검색 결과 CUE에 붙는 선택 근거 */
+export interface CueRetrieval {
+  /** 재순위 후 최종 점수 (0~1) */
+  score: number;
+  source: CueSource;
+  mode: 'hybrid' | 'lexical' | 'recent' | 'graph';
+  signals: {
+    /** 질의 중 최고 BM25 대비 비율 */
+    lexical: number;
+    /** 코사인 유사도 (임베딩을 쓰지 못했으면 null) */
+    semantic: number | null;
+    recency: number;
+    importance: number;
+  };
+  matchedTerms: string[];
+  reasons: RetrievalReason[];
+}
+
+export interface RetrievalOptions {
+  limit?: number;
+}
+
+interface Embedder {
+  provider: ModelProvider;
+  /** 제공자에 넘길 임베딩 모델 */
+  model: string;
+  /** 저장 키 - 모델이 바뀌면 다시 인덱싱 */
+  label: string;
+}
+
+const EMBEDDING_FALLBACK_ORDER: ProviderId[] = ['ollama', 'openai', 'gemini'];
+
+const EMBEDDING_MODELS: Partial<Record<ProviderId, () => string>> = {
+  ollama: () => process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text',
+  openai: () => process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+  gemini: () => process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004',
+  mock: () => `hash-${MOCK_EMBEDDING_DIMENSIONS}`
+};
+
+const STOP_WORDS = new Set([
+  'the', 'is', 'at', 'which', 'on', 'and', 'or', 'but', 'in', 'with', 'an', 'as', 'are', 'was',
+  'were', 'be', 'have', 'has', 'had', 'do', 'does', 'did', 'to', 'of', 'for', 'from', 'by', 'it',
+  'this', 'that', 'what', 'how', 'can', 'you', 'me', 'my', 'user', 'ai'
+]);
+
+export class CueRetrievalService {
+  constructor(private db: DatabaseService) {}
+
+  /**
+   * 질의와 관련 높은 CUE (retrieval 근거 포함, 점수 순)
+   */
+  async search(userDid: string, query: string, options: RetrievalOptions = {}): Promise<any[]> {
+    const limit = Math.max(1, options.limit || 10);
+    const corpus: any[] = (await this.db.getPersonalCues(userDid, RETRIEVAL_LIMITS.corpusSize))
+      .filter((cue: any) => cue && cue.id);
+    if (corpus.length === 0) return [];
+
+    const queryTerms = tokenize(query);
+    if (queryTerms.length === 0) {
+      return rankWithoutQuery(corpus, limit, 'No query terms; ranked by recency and importance');
+    }
+
+    const lexical = bm25(corpus, queryTerms);
+    const embedder = this.embedder();
+    let semantic: Map<string, number> | null = null;
+    try {
+      await this.indexCues(userDid, corpus, embedder);
+      const [vector] = await embedder.provider.embed([query], embedder.model);
+      const matches = await this.db.matchCueEmbeddings(userDid, embedder.label, vector, RETRIEVAL_LIMITS.vectorCandidates);
+      semantic = new Map(matches.map(match => [match.cue_id, match.similarity]));
+    } catch (error) {
+      console.warn(`⚠️ CUE 임베딩 검색 실패 (${embedder.label}), 키워드 검색만 사용:`, error);
+    }
+
+    const maxLexical = Math.max(0, ...Array.from(lexical.values()).map(hit => hit.score));
+    const candidates = corpus.filter(cue => {
+      const similarity = semantic?.get(cue.id) ?? 0;
+      return (lexical.get(cue.id)?.score || 0) > 0 || similarity >= RETRIEVAL_LIMITS.minSemanticSimilarity;
+    });
+    if (candidates.length === 0) {
+      return rankWithoutQuery(corpus, limit, 'No keyword or semantic match; ranked by recency and importance');
+    }
+
+    const ranked = candidates.map(cue => {
+      const hit = lexical.get(cue.id);
+      const lexicalSignal = hit && maxLexical > 0 ? hit.score / maxLexical : 0;
+      const similarity = semantic ? Math.max(0, semantic.get(cue.id) ?? 0) : null;
+      const relevance = similarity === null
+        ? lexicalSignal
+        : RETRIEVAL_LIMITS.lexicalWeight * lexicalSignal + RETRIEVAL_LIMITS.semanticWeight * similarity;
+
+      const reasons: RetrievalReason[] = [];
+      if (hit && hit.terms.length > 0) {
+        reasons.push({ type: 'keyword', detail: `Matched keywords: ${hit.terms.join(', ')}` });
+      }
+      if (similarity !== null && similarity >= RETRIEVAL_LIMITS.minSemanticSimilarity) {
+        reasons.push({ type: 'semantic', detail: `Semantic similarity ${similarity.toFixed(2)} (${embedder.label})` });
+      }
+
+      return withRetrieval(cue, relevance, {
+        mode: similarity === null ? 'lexical' : 'hybrid',
+        lexical: lexicalSignal,
+        semantic: similarity,
+        matchedTerms: hit?.terms || [],
+        reasons
+      });
+    });
+
+    const top = ranked
+      .sort((a, b) => b.retrieval.score - a.retrieval.score)
+      .slice(0, limit);
+    return this.withGraphContext(userDid, top, corpus, limit);
+  }
+
+  /**
+   * RAG-DAG 주변 반영 - 대체된 CUE 교체, 모순 표시, 계보로 이어진 CUE 추가 (그래프 오류 시 그대로)
+   */
+  private async withGraphContext(userDid: string, results: any[], corpus: any[], limit: number): Promise<any[]> {
+    let neighborhoods;
+    try {
+      neighborhoods = await getRagDagService().cueNeighborhoods(userDid, results.map(cue => cue.id));
+    } catch (error) {
+      console.warn('⚠️ RAG-DAG 주변 조회 실패, 그래프 없이 검색:', error);
+      return results;
+    }
+    if (neighborhoods.size === 0) return results;
+
+    const byId = new Map(corpus.map(cue => [cue.id, cue]));
+    const merged = new Map<string, any>();
+    const keep = (cue: any) => {
+      const current = merged.get(cue.id);
+      if (!current || current.retrieval.score < cue.retrieval.score) merged.set(cue.id, cue);
+    };
+    const linked: any[] = [];
+    const superseded = new Set<string>();
+
+    for (const cue of results) {
+      const around = neighborhoods.get(cue.id);
+      if (!around) {
+        keep(cue);
+        continue;
+      }
+
+      const graphReasons: RetrievalReason[] = [
+        ...around.imports.map(platform => ({ type: 'graph' as const, detail: `Derived from a ${platform} import` })),
+        ...around.contradicts.map(id => ({ type: 'graph' as const, detail: `Contradicts cue ${id}` }))
+      ];
+
+      const newer = around.supersededBy.map(id => byId.get(id)).filter(Boolean);
+      if (newer.length > 0) {
+        superseded.add(cue.id);
+        newer.forEach(row => keep(graphCue(row, cue.retrieval.score, `Supersedes cue ${cue.id}, which matched the query`)));
+        continue;
+      }
+      keep({ ...cue, retrieval: { ...cue.retrieval, reasons: [...cue.retrieval.reasons, ...graphReasons] } });
+
+      around.neighbors.forEach(({ cueId, hops }) => {
+        const row = byId.get(cueId);
+        if (!row) return;
+        const score = cue.retrieval.score * Math.pow(RETRIEVAL_LIMITS.graphNeighborDecay, hops);
+        linked.push(graphCue(row, score, `Linked to cue ${cue.id} in the knowledge graph (${hops} hop${hops > 1 ? 's' : ''})`));
+      });
+    }
+
+    linked
+      .filter(cue => !merged.has(cue.id) && !superseded.has(cue.id))
+      .sort((a, b) => b.retrieval.score - a.retrieval.score)
+      .slice(0, RETRIEVAL_LIMITS.maxGraphNeighbors)
+      .forEach(keep);
+
+    return Array.from(merged.values())
+      .filter(cue => !superseded.has(cue.id))
+      .sort((a, b) => b.retrieval.score - a.retrieval.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * 새 CUE 하나 인덱싱 (저장 직후 호출, 실패해도 다음 검색에서 다시 시도)
+   */
+  async indexCue(cue: any): Promise<number> {
+    if (!cue?.id || !cue.user_did) return 0;
+    return this.indexCues(cue.user_did, [cue], this.embedder());
+  }
+
+  /**
+   * 임베딩이 없거나 내용이 바뀐 CUE만 임베딩 - 새로 저장한 수 반환
+   */
+  async indexCues(userDid: string, cues: any[], embedder: Embedder = this.embedder()): Promise<number> {
+    const states = await this.db.getCueEmbeddingStates(userDid, embedder.label);
+    const indexed = new Map(states.map(state => [state.cue_id, state.content_hash]));
+
+    const pending = cues
+      .map(cue => ({ cue, text: embeddingText(cue) }))
+      .filter(item => item.text && indexed.get(item.cue.id) !== contentHash(item.text))
+      .slice(0, RETRIEVAL_LIMITS.maxIndexPerSearch);
+
+    let stored = 0;
+    for (let i = 0; i < pending.length; i += RETRIEVAL_LIMITS.embedBatchSize) {
+      const batch = pending.slice(i, i + RETRIEVAL_LIMITS.embedBatchSize);
+      const vectors = await embedder.provider.embed(batch.map(item => item.text), embedder.model);
+
+      for (let j = 0; j < batch.length; j++) {
+        if (!vectors[j] || vectors[j].length === 0) continue;
+        await this.db.upsertCueEmbedding({
+          cue_id: batch[j].cue.id,
+          user_did: userDid,
+          model: embedder.label,
+          embedding: vectors[j],
+          content_hash: contentHash(batch[j].text)
+        });
+        stored++;
+      }
+    }
+
+    if (stored > 0) {
+      console.log(`🧭 CUE 임베딩 ${stored}개 인덱싱 (${embedder.label})`);
+    }
+    return stored;
+  }
+
+  /** 현재 사용할 임베딩 제공자/모델 */
+  embedder(): Embedder {
+    const provider = pickEmbeddingProvider();
+    const model = EMBEDDING_MODELS[provider.id]?.() || 'default';
+    return { provider, model, label: `${provider.id}:${model}` };
+  }
+}
+
+// ============================================================================
+// 🔧 내부 유틸
+// ============================================================================
+
+function pickEmbeddingProvider(): ModelProvider {
+  const usable = (provider: ModelProvider | undefined): provider is ModelProvider =>
+    !!provider && provider.capabilities.embeddings && provider.isConfigured();
+
+  const preferred = process.env.AI_EMBEDDING_PROVIDER as ProviderId | undefined;
+  if (preferred) {
+    const provider = getProvider(preferred);
+    if (usable(provider)) return provider;
+    console.warn(`⚠️ AI_EMBEDDING_PROVIDER=${preferred} 사용 불가, 자동 선택`);
+  }
+
+  for (const id of EMBEDDING_FALLBACK_ORDER) {
+    const provider = getProvider(id);
+    if (usable(provider)) return provider;
+  }
+  return getProvider('mock');
+}
+
+/** 임베딩 대상 텍스트 - 요약 + 원문 (볼트 원문은 길어서 자름) */
+function embeddingText(cue: any): string {
+  return [cue.compressed_content, cue.original_content]
+    .filter(part => typeof part === 'string' && part.trim())
+    .join('\n')
+    .slice(0, RETRIEVAL_LIMITS.embeddingTextChars);
+}
+
+/** BM25 문서 - 요약/원문 + 키워드/토픽 */
+function documentText(cue: any): string {
+  return [
+    cue.compressed_content,
+    cue.original_content,
+    ...(Array.isArray(cue.keywords) ? cue.keywords : []),
+    ...(Array.isArray(cue.topics) ? cue.topics : [])
+  ].filter(part => typeof part === 'string').join(' ');
+}
+
+function contentHash(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+/**
+ * 단어 토큰 + 한글 음절 바이그램 (조사가 붙어도 겹치도록)
+ */
+function tokenize(text: string): string[] {
+  const words = (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+  const terms: string[] = [];
+
+  for (const word of words) {
+    if (/[가-힣]/.test(word)) {
+      if (word.length === 1) continue;
+      for (let i = 0; i < word.length - 1; i++) terms.push(word.slice(i, i + 2));
+    } else if (word.length > 1 && !STOP_WORDS.has(word)) {
+      terms.push(word);
+    }
+  }
+  return terms;
+}
+
+/**
+ * Okapi BM25 - CUE별 점수와 일치한 질의어
+ */
+function bm25(corpus: any[], queryTerms: string[]): Map<string, { score: number; terms: string[] }> {
+  const { bm25K1: k1, bm25B: b } = RETRIEVAL_LIMITS;
+  const documents = corpus.map(cue => {
+    const frequencies = new Map<string, number>();
+    const terms = tokenize(documentText(cue));
+    for (const term of terms) frequencies.set(term, (frequencies.get(term) || 0) + 1);
+    return { id: cue.id as string, length: terms.length, frequencies };
+  });
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documents.length || 1;
+  const uniqueTerms = Array.from(new Set(queryTerms));
+  const idf = new Map(uniqueTerms.map(term => {
+    const containing = documents.filter(doc => doc.frequencies.has(term)).length;
+    return [term, Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5))] as [string, number];
+  }));
+
+  const scores = new Map<string, { score: number; terms: string[] }>();
+  for (const doc of documents) {
+    let score = 0;
+    const matched: string[] = [];
+    for (const term of uniqueTerms) {
+      const frequency = doc.frequencies.get(term) || 0;
+      if (frequency === 0) continue;
+      score += idf.get(term)! * (frequency * (k1 + 1)) /
+        (frequency + k1 * (1 - b + b * doc.length / averageLength));
+      matched.push(term);
+    }
+    if (score > 0) scores.set(doc.id, { score, terms: matched });
+  }
+  return scores;
+}
+
+function ageDaysOf(cue: any): number | null {
+  const created = Date.parse(cue.created_at || '');
+  return isNaN(created) ? null : Math.max(0, Date.now() - created) / 86400000;
+}
+
+/** 최신성 - 저장 후 반감기마다 절반 */
+function recencyOf(cue: any): number {
+  const ageDays = ageDaysOf(cue);
+  return ageDays === null ? 0 : Math.pow(0.5, ageDays / RETRIEVAL_LIMITS.recencyHalfLifeDays);
+}
+
+function importanceOf(cue: any): number {
+  const importance = Number(cue.importance_score);
+  return isNaN(importance) ? 0 : Math.max(0, Math.min(1, importance));
+}
+
+function sourceOf(cue: any): CueSource {
+  return cue.content_type === 'conversation' ? 'conversation' : 'vault';
+}
+
+/**
+ * 최신성/중요도 재순위 후 retrieval 근거를 붙인 CUE 복사본
+ */
+function withRetrieval(
+  cue: any,
+  relevance: number,
+  match: Pick<CueRetrieval, 'mode' | 'matchedTerms' | 'reasons'> & { lexical: number; semantic: number | null }
+): any & { retrieval: CueRetrieval } {
+  const recency = recencyOf(cue);
+  const importance = importanceOf(cue);
+  const score = match.mode === 'recent'
+    ? (recency + importance) / 2
+    : match.mode === 'graph'
+      ? relevance
+      : RETRIEVAL_LIMITS.relevanceWeight * relevance +
+        RETRIEVAL_LIMITS.recencyWeight * recency +
+        RETRIEVAL_LIMITS.importanceWeight * importance;
+
+  const reasons = [...match.reasons];
+  if (recency >= RETRIEVAL_LIMITS.recentSignal) {
+    const days = Math.floor(ageDaysOf(cue) || 0);
+    reasons.push({ type: 'recent', detail: days === 0 ? 'Saved today' : `Saved ${days} day(s) ago` });
+  }
+  if (importance >= RETRIEVAL_LIMITS.importantSignal) {
+    reasons.push({ type: 'important', detail: `Importance ${importance.toFixed(2)}` });
+  }
+
+  const source = sourceOf(cue);
+  const origin = source === 'vault'
+    ? `vault ${cue.content_type}${cue.source_platform ? ` from ${cue.source_platform}` : ''}`
+    : 'learned from a conversation';
+  reasons.forEach(reason => {
+    if (reason.type === 'keyword' || reason.type === 'semantic' || reason.type === 'graph' || reason.type === 'fallback') {
+      reason.detail = `${reason.detail} [${origin}]`;
+    }
+  });
+
+  return {
+    ...cue,
+    retrieval: {
+      score: Math.round(score * 1000) / 1000,
+      source,
+      mode: match.mode,
+      signals: {
+        lexical: Math.round(match.lexical * 1000) / 1000,
+        semantic: match.semantic === null ? null : Math.round(match.semantic * 1000) / 1000,
+        recency: Math.round(recency * 1000) / 1000,
+        importance
+      },
+      matchedTerms: match.matchedTerms,
+      reasons
+    }
+  };
+}
+
+/** 그래프로 들어온 CUE - 점수는 연결된 결과에서 물려받음 */
+function graphCue(cue: any, score: number, why: string): any {
+  return withRetrieval(cue, score, {
+    mode: 'graph',
+    lexical: 0,
+    semantic: null,
+    matchedTerms: [],
+    reasons: [{ type: 'graph', detail: why }]
+  });
+}
+
+function rankWithoutQuery(corpus: any[], limit: number, why: string): any[] {
+  return corpus
+    .map(cue => withRetrieval(cue, 0, {
+      mode: 'recent',
+      lexical: 0,
+      semantic: null,
+      matchedTerms: [],
+      reasons: [{ type: 'fallback', detail: why }]
+    }))
+    .sort((a, b) => b.retrieval.score - a.retrieval.score)
+    .slice(0, limit);
+}
+
+let sharedCueRetrievalService: CueRetrievalService | null = null;
+
+export function getCueRetrievalService(): CueRetrievalService {
+  if (!sharedCueRetrievalService) {
+    sharedCueRetrievalService = new CueRetrievalService(DatabaseService.getInstance());
+  }
+  return sharedCueRetrievalService;
+}
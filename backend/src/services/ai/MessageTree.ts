@@ -0,0 +1,102 @@
+// ============================================================================
+// 🌳 대화 메시지 트리 (parent_id 기반)
+// 경로: backend/src/services/ai/MessageTree.ts
+// 편집 = 같은 부모 아래 새 사용자 메시지(형제 가지), 재생성 = 같은 사용자 메시지 아래 새 AI 응답
+// 활성 경로: conversations.active_leaf_id에서 부모를 따라 루트까지
+// parent_id가 없는 트리 도입 전 메시지는 시간순으로 바로 앞 메시지에 이어진 것으로 봄
+// (첫 메시지와 첫 메시지를 편집한 메시지(metadata.editOf)만 루트)
+// ============================================================================
+
+export interface MessageBranch {
+  /** 형제 중 이 메시지의 순서 (0부터, 오래된 순) */
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+export interface MessageTree {
+  /** 오래된 순 */
+  ordered: any[];
+  byId: Map<string, any>;
+  parentOf: Map<string, string | null>;
+  /** 부모 ID('' = 루트) → 자식 (오래된 순) */
+  children: Map<string, any[]>;
+}
+
+const ROOT = '';
+
+function timeOf(message: any): number {
+  const time = Date.parse(message.created_at || '');
+  return Number.isNaN(time) ? 0 : time;
+}
+
+/**
+ * 메시지 목록(순서 무관)으로 트리 구성 - 시간이 같으면 입력 순서 유지
+ */
+export function buildMessageTree(messages: any[]): MessageTree {
+  const ordered = messages
+    .map((message, position) => ({ message, position }))
+    .sort((a, b) => timeOf(a.message) - timeOf(b.message) || a.position - b.position)
+    .map(entry => entry.message);
+
+  const byId = new Map<string, any>();
+  const parentOf = new Map<string, string | null>();
+  const children = new Map<string, any[]>();
+
+  ordered.forEach(message => byId.set(message.id, message));
+  ordered.forEach((message, index) => {
+    let parent: string | null;
+    if (message.parent_id && byId.has(message.parent_id)) {
+      parent = message.parent_id;
+    } else if (message.parent_id || index === 0 || message.metadata?.editOf) {
+      // 부모가 삭제/누락된 메시지도 루트로 취급
+      parent = null;
+    } else {
+      parent = ordered[index - 1].id;
+    }
+
+    parentOf.set(message.id, parent);
+    const siblings = children.get(parent || ROOT) || [];
+    siblings.push(message);
+    children.set(parent || ROOT, siblings);
+  });
+
+  return { ordered, byId, parentOf, children };
+}
+
+/**
+ * 가장 최근 자식을 따라 내려간 끝 메시지 (fromId가 없으면 루트부터)
+ */
+export function latestLeaf(tree: MessageTree, fromId: string | null = null): string | null {
+  let current = fromId;
+  for (;;) {
+    const kids = tree.children.get(current || ROOT) || [];
+    if (kids.length === 0) return current;
+    current = kids[kids.length - 1].id;
+  }
+}
+
+/**
+ * 루트 → leafId 경로 (leafId가 없거나 트리에 없으면 최근 가지의 끝)
+ */
+export function activePath(tree: MessageTree, leafId: string | null | undefined): any[] {
+  const leaf = leafId && tree.byId.has(leafId) ? leafId : latestLeaf(tree);
+  const path: any[] = [];
+
+  let current = leaf;
+  while (current) {
+    path.push(tree.byId.get(current));
+    current = tree.parentOf.get(current) || null;
+  }
+  return path.reverse();
+}
+
+export function branchOf(tree: MessageTree, messageId: string): MessageBranch {
+  const parent = tree.parentOf.get(messageId);
+  const siblings = tree.children.get(parent || ROOT) || [];
+  return {
+    index: Math.max(0, siblings.findIndex(m => m.id === messageId)),
+    count: siblings.length,
+    siblingIds: siblings.map(m => m.id)
+  };
+}
@@ -7,6 +7,7 @@
 // ============================================================================
 
 import { DatabaseService } from '../database/DatabaseService';
+import { getCueRetrievalService } from './CueRetrievalService';
 
 export class PersonalizationService {
   private db: DatabaseService;
@@ -86,8 +87,15 @@ export class PersonalizationService {
 
   /**
    * 현재 메시지와 관련성 높은 개인화 CUE들을 가져옵니다
+   * (BM25 + 임베딩 하이브리드 검색, 실패 시 키워드 검색)
    */
   private async getRelevantCues(userDid: string, message: string, limit = 10): Promise<any[]> {
+    try {
+      return await getCueRetrievalService().search(userDid, message, { limit });
+    } catch (error) {
+      console.error('Hybrid cue retrieval error:', error);
+    }
+
     try {
       // 메시지에서 키워드 추출
       const keywords = this.extractKeywordsFromMessage(message);
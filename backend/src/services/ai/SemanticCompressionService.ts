@@ -4,6 +4,8 @@
 // // 압축하고, 키워드, 엔티티, 토픽 등을 추출하여 의미 보존율을 계산하는 서비스
 // // ============================================================================  
 
+import { RewardCalculation, getRewardPolicyEngine } from '../cue/RewardPolicyEngine';
+
 export class SemanticCompressionService {
   private readonly DEFAULT_COMPRESSION_RATIO = 0.15; // 85% 압축, 15% 유지
   private readonly MIN_SEMANTIC_PRESERVATION = 0.85; // 최소 85% 의미 보존
@@ -86,15 +88,16 @@ export class SemanticCompressionService {
       // 중요도 계산
       const importance = this.calculateImportance(userMessage, aiResponse);
       
-      // CUE 값 계산
-      const cueValue = this.calculateCUEValue(compressionResult, importance);
+      // CUE 값 계산 (보상 정책 'semantic_value' 공식)
+      const cueReward = await this.calculateCUEValue(compressionResult, importance);
 
       return {
         shouldStore: true,
         ...compressionResult,
         sentiment,
         importance,
-        cueValue
+        cueValue: cueReward.amount,
+        rewardPolicyVersion: cueReward.policyVersion
       };
 
     } catch (error) {
@@ -349,25 +352,16 @@ export class SemanticCompressionService {
   /**
    * CUE 값을 계산합니다
    */
-  private calculateCUEValue(compressionResult: any, importance: number): number {
-    // 압축 효율성
-    const compressionEfficiency = 1 - compressionResult.compressionRatio;
-    
-    // 의미 보존 품질
-    const semanticQuality = compressionResult.semanticPreservation;
-    
-    // 키워드 풍부도
-    const keywordRichness = Math.min(compressionResult.keywords.length / 10, 1);
-    
-    // 최종 CUE 값 계산
-    const cueValue = (
-      compressionEfficiency * 0.4 +
-      semanticQuality * 0.4 +
-      importance * 0.1 +
-      keywordRichness * 0.1
-    ) * 10; // 0-10 범위로 스케일링
-    
-    return Math.round(cueValue * 100) / 100;
+  private calculateCUEValue(compressionResult: any, importance: number): Promise<RewardCalculation> {
+    return getRewardPolicyEngine().calculate('semantic_value', {
+      // 압축 효율성
+      compressionEfficiency: 1 - compressionResult.compressionRatio,
+      // 의미 보존 품질
+      semanticPreservation: compressionResult.semanticPreservation,
+      importance,
+      // 키워드 풍부도
+      keywordCount: compressionResult.keywords.length
+    });
   }
 
   /**
@@ -0,0 +1,148 @@
+// ============================================================================
+// 🧠 Anthropic 제공자 (messages API)
+// 경로: backend/src/services/ai/providers/AnthropicProvider.ts
+// 설정: ANTHROPIC_API_KEY
+// 임베딩 API가 없으므로 embed는 UNSUPPORTED
+// ============================================================================
+
+import {
+  ModelProvider,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderError,
+  ProviderErrorCode,
+  ProviderMessage,
+  StreamPiece
+} from './types';
+import { countTextTokens, TokenizerName } from './Tokenizer';
+
+let anthropicClient: any = null;
+let anthropicAttempted = false;
+
+function configuredKey(): string | null {
+  const apiKey = process.env.ANTHROPIC_API_KEY;
+  if (!apiKey || apiKey.trim() === '' || apiKey === 'your-anthropic-key-here') return null;
+  return apiKey;
+}
+
+/**
+ * 안전한 Anthropic 클라이언트 생성 (키가 없거나 로드 실패 시 null)
+ */
+export async function getAnthropicClient() {
+  if (anthropicAttempted) {
+    return anthropicClient;
+  }
+
+  anthropicAttempted = true;
+
+  const apiKey = configuredKey();
+  if (!apiKey) {
+    console.log('⚠️ Anthropic API key not configured - will use mock responses');
+    return null;
+  }
+
+  try {
+    console.log('🔄 Dynamically importing Anthropic...');
+    const { default: Anthropic } = await import('@anthropic-ai/sdk');
+    anthropicClient = new Anthropic({ apiKey });
+    console.log('✅ Anthropic client created successfully');
+    return anthropicClient;
+  } catch (error) {
+    console.error('❌ Failed to create Anthropic client:', error instanceof Error ? error.message : error);
+    anthropicClient = null;
+    return null;
+  }
+}
+
+/**
+ * system 메시지는 별도 필드로 분리
+ */
+function splitSystem(messages: ProviderMessage[]): { system?: string; messages: ProviderMessage[] } {
+  const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+  return {
+    system: system || undefined,
+    messages: messages.filter(m => m.role !== 'system')
+  };
+}
+
+export class AnthropicProvider implements ModelProvider {
+  readonly id = 'anthropic' as const;
+  readonly capabilities = { chat: true, streaming: true, embeddings: false };
+  readonly tokenizer: TokenizerName = 'cl100k_base';
+
+  isConfigured(): boolean {
+    return !!configuredKey();
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const client = await this.client();
+    const { system, messages } = splitSystem(request.messages);
+    const response = await client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system,
+      messages
+    }, { signal: request.signal });
+
+    const text = (response.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    return {
+      text,
+      usage: {
+        inputTokens: response.usage?.input_tokens || 0,
+        outputTokens: response.usage?.output_tokens || 0
+      }
+    };
+  }
+
+  async stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>> {
+    const client = await this.client();
+    const { system, messages } = splitSystem(request.messages);
+    const stream = await client.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      system,
+      messages,
+      stream: true
+    }, { signal: request.signal });
+
+    return pieces(stream);
+  }
+
+  async embed(): Promise<number[][]> {
+    throw new ProviderError(ProviderErrorCode.UNSUPPORTED, 'Anthropic does not provide an embeddings API', 400);
+  }
+
+  countTokens(text: string): number {
+    return countTextTokens(text, this.tokenizer, 3.5);
+  }
+
+  private async client(): Promise<any> {
+    const client = await getAnthropicClient();
+    if (!client) {
+      throw new ProviderError(ProviderErrorCode.NOT_CONFIGURED, 'Anthropic API key is not configured', 503);
+    }
+    return client;
+  }
+}
+
+async function* pieces(stream: AsyncIterable<any>): AsyncGenerator<StreamPiece> {
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  for await (const event of stream) {
+    if (event.type === 'message_start') {
+      inputTokens = event.message?.usage?.input_tokens || 0;
+    } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta') {
+      yield { text: event.delta.text };
+    } else if (event.type === 'message_delta') {
+      outputTokens = event.usage?.output_tokens || outputTokens;
+    }
+  }
+  yield { usage: { inputTokens, outputTokens } };
+}
@@ -0,0 +1,203 @@
+// ============================================================================
+// 🔌 제공자 서킷 브레이커 (오류율 + 지연 시간)
+// 경로: backend/src/services/ai/providers/CircuitBreaker.ts
+// 상태: closed → (최근 호출 오류율 ≥ 임계치) → open → (쿨다운 후) half_open
+//       half_open에서 시험 호출 1건 성공 → closed, 실패 → 다시 open
+// 느린 호출(slowCallMs 초과)도 실패로 셈 - 응답은 오지만 사용자는 기다리다 떠남
+// 설정: AI_BREAKER_WINDOW, AI_BREAKER_MIN_CALLS, AI_BREAKER_FAILURE_RATE,
+//       AI_BREAKER_SLOW_CALL_MS, AI_BREAKER_OPEN_MS
+// ============================================================================
+
+import { ProviderId } from './types';
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export const BREAKER_DEFAULTS = {
+  /** 오류율 계산에 쓰는 최근 호출 수 */
+  windowSize: Number(process.env.AI_BREAKER_WINDOW || 20),
+  /** 이 수보다 적게 호출됐으면 열지 않음 */
+  minimumCalls: Number(process.env.AI_BREAKER_MIN_CALLS || 5),
+  /** 실패 비율 임계치 (0~1) */
+  failureRateThreshold: Number(process.env.AI_BREAKER_FAILURE_RATE || 0.5),
+  slowCallMs: Number(process.env.AI_BREAKER_SLOW_CALL_MS || 20000),
+  /** open 유지 시간 - 지나면 half_open으로 시험 호출 허용 */
+  openMs: Number(process.env.AI_BREAKER_OPEN_MS || 30000)
+};
+
+interface CallOutcome {
+  ok: boolean;
+  slow: boolean;
+  latencyMs: number;
+  at: number;
+}
+
+export interface BreakerSnapshot {
+  provider: ProviderId;
+  state: BreakerState;
+  calls: number;
+  failures: number;
+  slowCalls: number;
+  /** 최근 창 기준 실패 비율 (느린 호출 포함) */
+  failureRate: number;
+  avgLatencyMs: number;
+  p95LatencyMs: number;
+  openedAt: string | null;
+  /** open 상태면 다음 시험 호출 가능 시각 */
+  retryAt: string | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+}
+
+export class CircuitBreaker {
+  private outcomes: CallOutcome[] = [];
+  private state: BreakerState = 'closed';
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+  private lastError: string | null = null;
+  private lastErrorAt: number | null = null;
+
+  constructor(
+    public readonly provider: ProviderId,
+    private options = BREAKER_DEFAULTS
+  ) {}
+
+  /**
+   * 호출해도 되는지 - open이면 false, 쿨다운이 지났으면 시험 호출 1건만 허용
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'closed') return true;
+
+    if (this.state === 'open') {
+      if (Date.now() - (this.openedAt || 0) < this.options.openMs) return false;
+      this.state = 'half_open';
+      this.probeInFlight = false;
+      console.log(`🟡 AI 브레이커 half_open: ${this.provider}`);
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    const slow = latencyMs > this.options.slowCallMs;
+    this.push({ ok: true, slow, latencyMs, at: Date.now() });
+
+    if (this.state === 'half_open') {
+      if (slow) {
+        this.trip('slow response during probe');
+      } else {
+        this.state = 'closed';
+        this.outcomes = [];
+        this.probeInFlight = false;
+        console.log(`🟢 AI 브레이커 closed: ${this.provider}`);
+      }
+      return;
+    }
+    this.evaluate();
+  }
+
+  recordFailure(latencyMs: number, error: unknown): void {
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastErrorAt = Date.now();
+    this.push({ ok: false, slow: false, latencyMs, at: Date.now() });
+
+    if (this.state === 'half_open') {
+      this.trip(this.lastError);
+      return;
+    }
+    this.evaluate();
+  }
+
+  /**
+   * 중단된 호출 (사용자 취소) - 결과에 반영하지 않고 시험 호출 자리만 반납
+   */
+  release(): void {
+    if (this.state === 'half_open') this.probeInFlight = false;
+  }
+
+  getState(): BreakerState {
+    // 쿨다운이 지난 open은 조회 시에도 half_open으로 표시
+    if (this.state === 'open' && Date.now() - (this.openedAt || 0) >= this.options.openMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  snapshot(): BreakerSnapshot {
+    const failures = this.outcomes.filter(o => !o.ok).length;
+    const slowCalls = this.outcomes.filter(o => o.ok && o.slow).length;
+    const latencies = this.outcomes.map(o => o.latencyMs).sort((a, b) => a - b);
+    const state = this.getState();
+
+    return {
+      provider: this.provider,
+      state,
+      calls: this.outcomes.length,
+      failures,
+      slowCalls,
+      failureRate: this.failureRate(),
+      avgLatencyMs: latencies.length
+        ? Math.round(latencies.reduce((sum, l) => sum + l, 0) / latencies.length)
+        : 0,
+      p95LatencyMs: latencies.length
+        ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))]
+        : 0,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.state === 'open' && this.openedAt
+        ? new Date(this.openedAt + this.options.openMs).toISOString()
+        : null,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt ? new Date(this.lastErrorAt).toISOString() : null
+    };
+  }
+
+  reset(): void {
+    this.outcomes = [];
+    this.state = 'closed';
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸
+  // ============================================================================
+
+  private push(outcome: CallOutcome): void {
+    this.outcomes.push(outcome);
+    if (this.outcomes.length > this.options.windowSize) {
+      this.outcomes.splice(0, this.outcomes.length - this.options.windowSize);
+    }
+  }
+
+  private failureRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    const bad = this.outcomes.filter(o => !o.ok || o.slow).length;
+    return Math.round((bad / this.outcomes.length) * 100) / 100;
+  }
+
+  private evaluate(): void {
+    if (this.state !== 'closed' || this.outcomes.length < this.options.minimumCalls) return;
+    if (this.failureRate() >= this.options.failureRateThreshold) {
+      this.trip(this.lastError || 'slow responses');
+    }
+  }
+
+  private trip(reason: string): void {
+    this.state = 'open';
+    this.openedAt = Date.now();
+    this.probeInFlight = false;
+    console.warn(`🔴 AI 브레이커 open: ${this.provider} (${reason})`);
+  }
+}
+
+const breakers = new Map<ProviderId, CircuitBreaker>();
+
+export function getCircuitBreaker(provider: ProviderId): CircuitBreaker {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = new CircuitBreaker(provider);
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
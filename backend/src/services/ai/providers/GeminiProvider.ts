@@ -0,0 +1,136 @@
+// ============================================================================
+// ✨ Google Gemini 제공자 (@google/generative-ai)
+// 경로: backend/src/services/ai/providers/GeminiProvider.ts
+// 설정: GEMINI_API_KEY (또는 GOOGLE_API_KEY), GEMINI_EMBEDDING_MODEL (기본 text-embedding-004)
+// 역할 매핑: system → systemInstruction, assistant → model
+// ============================================================================
+
+import {
+  ModelProvider,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderError,
+  ProviderErrorCode,
+  StreamPiece
+} from './types';
+import { countTextTokens, TokenizerName } from './Tokenizer';
+
+let geminiClient: any = null;
+let geminiAttempted = false;
+
+function configuredKey(): string | null {
+  const apiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY;
+  if (!apiKey || apiKey.trim() === '' || apiKey === 'your-gemini-key-here') return null;
+  return apiKey;
+}
+
+async function getGeminiClient() {
+  if (geminiAttempted) {
+    return geminiClient;
+  }
+
+  geminiAttempted = true;
+
+  const apiKey = configuredKey();
+  if (!apiKey) {
+    console.log('⚠️ Gemini API key not configured - will use mock responses');
+    return null;
+  }
+
+  try {
+    console.log('🔄 Dynamically importing Google Generative AI...');
+    const { GoogleGenerativeAI } = await import('@google/generative-ai');
+    geminiClient = new GoogleGenerativeAI(apiKey);
+    console.log('✅ Gemini client created successfully');
+    return geminiClient;
+  } catch (error) {
+    console.error('❌ Failed to create Gemini client:', error instanceof Error ? error.message : error);
+    geminiClient = null;
+    return null;
+  }
+}
+
+export class GeminiProvider implements ModelProvider {
+  readonly id = 'gemini' as const;
+  readonly capabilities = { chat: true, streaming: true, embeddings: true };
+  readonly tokenizer: TokenizerName = 'cl100k_base';
+
+  isConfigured(): boolean {
+    return !!configuredKey();
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const { model, contents } = await this.prepare(request);
+    const result = await model.generateContent({ contents }, { signal: request.signal });
+    const usage = result.response.usageMetadata;
+
+    return {
+      text: result.response.text(),
+      usage: {
+        inputTokens: usage?.promptTokenCount || 0,
+        outputTokens: usage?.candidatesTokenCount || 0
+      }
+    };
+  }
+
+  async stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>> {
+    const { model, contents } = await this.prepare(request);
+    const result = await model.generateContentStream({ contents }, { signal: request.signal });
+    return pieces(result.stream);
+  }
+
+  async embed(texts: string[], modelName?: string): Promise<number[][]> {
+    const client = await this.client();
+    const model = client.getGenerativeModel({
+      model: modelName || process.env.GEMINI_EMBEDDING_MODEL || 'text-embedding-004'
+    });
+    const response = await model.batchEmbedContents({
+      requests: texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+    });
+    return response.embeddings.map((embedding: any) => embedding.values);
+  }
+
+  countTokens(text: string): number {
+    return countTextTokens(text, this.tokenizer, 4);
+  }
+
+  private async prepare(request: ProviderChatRequest): Promise<{ model: any; contents: any[] }> {
+    const client = await this.client();
+    const system = request.messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+
+    const model = client.getGenerativeModel({
+      model: request.model,
+      systemInstruction: system || undefined,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature ?? 0.7
+      }
+    });
+
+    const contents = request.messages
+      .filter(m => m.role !== 'system')
+      .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+
+    return { model, contents };
+  }
+
+  private async client(): Promise<any> {
+    const client = await getGeminiClient();
+    if (!client) {
+      throw new ProviderError(ProviderErrorCode.NOT_CONFIGURED, 'Gemini API key is not configured', 503);
+    }
+    return client;
+  }
+}
+
+async function* pieces(stream: AsyncIterable<any>): AsyncGenerator<StreamPiece> {
+  let usage: any = null;
+  for await (const chunk of stream) {
+    const text = chunk.text();
+    if (text) yield { text };
+    if (chunk.usageMetadata) usage = chunk.usageMetadata;
+  }
+  if (usage) {
+    yield { usage: { inputTokens: usage.promptTokenCount || 0, outputTokens: usage.candidatesTokenCount || 0 } };
+  }
+}
@@ -0,0 +1,111 @@
+// ============================================================================
+// 🎭 결정적 Mock 제공자 (키 없이 개발/데모)
+// 경로: backend/src/services/ai/providers/MockProvider.ts
+// 같은 입력이면 항상 같은 응답/임베딩 - 난수 없음
+// 임베딩: 단어 해시 버킷(feature hashing) + L2 정규화, 같은 단어가 많을수록 코사인 유사도가 높음
+// ============================================================================
+
+import {
+  ModelProvider,
+  ProviderChatRequest,
+  ProviderChatResult,
+  StreamPiece
+} from './types';
+import { countTextTokens, TokenizerName } from './Tokenizer';
+
+export const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+// 스트리밍 단어 사이 지연
+const MOCK_CHUNK_DELAY_MS = Number(process.env.AI_SIMULATED_STREAM_DELAY_MS || 30);
+
+/** FNV-1a 32비트 해시 */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * 결정적 임베딩 - 단어마다 해시 버킷에 ±1을 더한 뒤 정규화
+ */
+export function mockEmbedding(text: string, dimensions = MOCK_EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  for (const word of words) {
+    const hash = fnv1a(word);
+    vector[hash % dimensions] += (hash & 0x80000000) ? -1 : 1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+export class MockProvider implements ModelProvider {
+  readonly id = 'mock' as const;
+  readonly capabilities = { chat: true, streaming: true, embeddings: true };
+  readonly tokenizer: TokenizerName = 'estimate';
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const text = this.respond(request);
+    return { text, usage: this.usage(request, text) };
+  }
+
+  async stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>> {
+    const text = this.respond(request);
+    const parts = text.match(/\s*\S+/g) || [];
+    const usage = this.usage(request, text);
+    const signal = request.signal;
+
+    async function* pieces(): AsyncGenerator<StreamPiece> {
+      for (const part of parts) {
+        if (signal?.aborted) return;
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+        yield { text: part };
+      }
+      yield { usage };
+    }
+
+    return pieces();
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => mockEmbedding(text));
+  }
+
+  countTokens(text: string): number {
+    return countTextTokens(text, this.tokenizer, 4);
+  }
+
+  private respond(request: ProviderChatRequest): string {
+    const lastUser = [...request.messages].reverse().find(m => m.role === 'user')?.content || '';
+    const contextItems = request.messages.filter(m => m.role !== 'user').length;
+    const fingerprint = fnv1a(request.messages.map(m => `${m.role}:${m.content}`).join('\n'))
+      .toString(16)
+      .padStart(8, '0');
+
+    return `**Mock AI** 응답
+
+"${lastUser}"
+
+이 응답은 결정적 Mock 제공자가 생성했습니다. 같은 입력에는 항상 같은 응답을 돌려줍니다.
+
+• 모델: ${request.model}
+• 참고한 컨텍스트 메시지: ${contextItems}개
+• 응답 지문: ${fingerprint}`;
+  }
+
+  private usage(request: ProviderChatRequest, text: string) {
+    return {
+      inputTokens: this.countTokens(request.messages.map(m => m.content).join('\n')),
+      outputTokens: this.countTokens(text)
+    };
+  }
+}
@@ -0,0 +1,239 @@
+// ============================================================================
+// 📚 AI 모델 레지스트리 (모델 추가 = MODEL_REGISTRY 항목 하나)
+// 경로: backend/src/services/ai/providers/ModelRegistry.ts
+// 용도: /api/ai/models 목록, CUE 모델 가격표, 채팅/스트리밍 제공자 선택
+// 'ollama:<모델명>'은 목록에 없어도 Ollama 모델로 처리
+// fallbacks: 제공자가 실패하거나 브레이커가 열려 있을 때 순서대로 시도할 모델
+// 목록의 available/provider는 폴백 체인에서 제공자가 설정된 첫 모델 기준
+// 목록에 없는 모델 ID는 기본 모델(personalized-agent)로 처리
+// ============================================================================
+
+import { AnthropicProvider } from './AnthropicProvider';
+import { GeminiProvider } from './GeminiProvider';
+import { MockProvider } from './MockProvider';
+import { OllamaProvider } from './OllamaProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { ModelProvider, ProviderCapabilities, ProviderId } from './types';
+
+/** 'ollama:<모델명>' 형식이면 로컬 Ollama 모델 */
+export const OLLAMA_MODEL_PREFIX = 'ollama:';
+
+export const DEFAULT_MODEL_ID = 'personalized-agent';
+
+export interface ModelDefinition {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  /** 제공자 API에 보내는 모델명 */
+  providerModel: string;
+  description: string;
+  /** 1K 토큰당 CUE */
+  cuePer1kTokens: number;
+  contextWindow: number;
+  /** 요청 최대 출력 토큰 (CUE 예약 금액 기준) */
+  maxOutputTokens: number;
+  /** 예전 클라이언트가 보내는 모델 ID */
+  aliases?: string[];
+  /** 이 모델이 응답하지 못할 때 순서대로 시도할 모델 ID */
+  fallbacks?: string[];
+  /** 개인화 컨텍스트에 따라 다른 모델로 라우팅 */
+  route?: (context: any) => string;
+}
+
+export const MODEL_REGISTRY: ModelDefinition[] = [
+  {
+    id: 'personalized-agent',
+    name: 'Personalized Agent',
+    provider: 'openai',
+    providerModel: 'gpt-4o',
+    description: '성격 프로필에 맞춰 GPT-4o / Claude 중 선택',
+    cuePer1kTokens: 1.0,
+    contextWindow: 128000,
+    maxOutputTokens: 1000,
+    route: (context) => {
+      const personalityType = context?.personalityProfile?.type || '';
+      return personalityType.includes('Technical') || personalityType.includes('INTJ')
+        ? 'claude-3.5-sonnet'
+        : 'gpt-4o';
+    }
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    providerModel: 'gpt-4o',
+    description: '가장 강력한 범용 AI 모델',
+    cuePer1kTokens: 3.0,
+    contextWindow: 128000,
+    maxOutputTokens: 1000,
+    aliases: ['gpt-4'],
+    fallbacks: ['claude-3.5-sonnet', `${OLLAMA_MODEL_PREFIX}llama3.2`]
+  },
+  {
+    id: 'claude-3.5-sonnet',
+    name: 'Claude 3.5 Sonnet',
+    provider: 'anthropic',
+    providerModel: 'claude-3-5-sonnet-20241022',
+    description: '안전하고 도움이 되는 AI 어시스턴트',
+    cuePer1kTokens: 2.5,
+    contextWindow: 200000,
+    maxOutputTokens: 1000,
+    aliases: ['claude-3'],
+    fallbacks: ['gpt-4o', `${OLLAMA_MODEL_PREFIX}llama3.2`]
+  },
+  {
+    id: 'gemini-pro',
+    name: 'Gemini 1.5 Pro',
+    provider: 'gemini',
+    providerModel: 'gemini-1.5-pro',
+    description: '빠르고 효율적인 멀티모달 AI',
+    cuePer1kTokens: 1.5,
+    contextWindow: 1048576,
+    maxOutputTokens: 1000,
+    fallbacks: ['gpt-4o', 'claude-3.5-sonnet', `${OLLAMA_MODEL_PREFIX}llama3.2`]
+  },
+  {
+    id: `${OLLAMA_MODEL_PREFIX}llama3.2`,
+    name: 'Llama 3.2 (Ollama)',
+    provider: 'ollama',
+    providerModel: 'llama3.2',
+    description: '로컬 Ollama 서버에서 실행',
+    cuePer1kTokens: 1.0,
+    contextWindow: 131072,
+    maxOutputTokens: 1000
+  },
+  {
+    id: 'mock-ai',
+    name: 'Mock AI',
+    provider: 'mock',
+    providerModel: 'mock-ai',
+    description: 'Demo용 결정적 시뮬레이션 AI',
+    cuePer1kTokens: 0,
+    contextWindow: 8192,
+    maxOutputTokens: 1000
+  }
+];
+
+export interface ModelView {
+  id: string;
+  name: string;
+  provider: ProviderId;
+  description: string;
+  available: boolean;
+  cuePer1kTokens: number;
+  contextWindow: number;
+  maxOutputTokens: number;
+  capabilities: ProviderCapabilities;
+  aliases: string[];
+  fallbacks: string[];
+}
+
+export interface ResolvedModel {
+  /** 사용자가 선택한 모델 (가격 기준) */
+  definition: ModelDefinition;
+  /** 라우팅 후 실제로 호출하는 모델 */
+  target: ModelDefinition;
+  provider: ModelProvider;
+}
+
+const providers: Record<ProviderId, ModelProvider> = {
+  openai: new OpenAIProvider(),
+  anthropic: new AnthropicProvider(),
+  gemini: new GeminiProvider(),
+  ollama: new OllamaProvider(),
+  mock: new MockProvider()
+};
+
+export function getProvider(id: ProviderId): ModelProvider {
+  return providers[id];
+}
+
+export function listProviders(): ModelProvider[] {
+  return Object.values(providers);
+}
+
+/**
+ * ID 또는 별칭으로 모델 조회 (등록되지 않은 ollama:<모델명> 포함)
+ */
+export function findModel(id: string): ModelDefinition | null {
+  const found = MODEL_REGISTRY.find(m => m.id === id || (m.aliases || []).includes(id));
+  if (found) return found;
+
+  if (id.startsWith(OLLAMA_MODEL_PREFIX) && id.length > OLLAMA_MODEL_PREFIX.length) {
+    const providerModel = id.slice(OLLAMA_MODEL_PREFIX.length);
+    return {
+      id,
+      name: `${providerModel} (Ollama)`,
+      provider: 'ollama',
+      providerModel,
+      description: '로컬 Ollama 서버에서 실행',
+      cuePer1kTokens: 1.0,
+      contextWindow: 8192,
+      maxOutputTokens: 1000
+    };
+  }
+  return null;
+}
+
+/**
+ * 채팅에 쓸 모델/제공자 결정 - 목록에 없으면 기본 모델, route가 있으면 한 번 라우팅
+ */
+export function resolveModel(id: string, context?: any): ResolvedModel {
+  const definition = findModel(id) || findModel(DEFAULT_MODEL_ID)!;
+  const routed = definition.route ? findModel(definition.route(context)) : null;
+  const target = routed || definition;
+
+  return { definition, target, provider: getProvider(target.provider) };
+}
+
+/**
+ * 시도할 모델 순서 - 라우팅된 모델 + 그 모델의 fallbacks (중복 제외)
+ */
+export function fallbackChain(id: string, context?: any): ModelDefinition[] {
+  const { target } = resolveModel(id, context);
+  const chain: ModelDefinition[] = [target];
+
+  (target.fallbacks || []).forEach(fallbackId => {
+    const fallback = findModel(fallbackId);
+    if (fallback && !chain.some(m => m.id === fallback.id)) chain.push(fallback);
+  });
+  return chain;
+}
+
+/**
+ * 폴백 체인에서 실제로 응답할 첫 모델 (설정된 제공자 기준, 없으면 null = 시뮬레이션 응답)
+ */
+export function answeringModel(id: string, context?: any): ModelDefinition | null {
+  return fallbackChain(id, context).find(m => getProvider(m.provider).isConfigured()) || null;
+}
+
+export function listModels(): ModelView[] {
+  return MODEL_REGISTRY.map(m => {
+    const answering = answeringModel(m.id);
+    return {
+      id: m.id,
+      name: m.name,
+      provider: answering?.provider || m.provider,
+      description: m.description,
+      available: answering !== null,
+      cuePer1kTokens: m.cuePer1kTokens,
+      contextWindow: m.contextWindow,
+      maxOutputTokens: m.maxOutputTokens,
+      capabilities: { ...getProvider(answering?.provider || m.provider).capabilities },
+      aliases: m.aliases || [],
+      fallbacks: m.fallbacks || []
+    };
+  });
+}
+
+/**
+ * CUE 가격표 - 모델 ID와 별칭 모두 포함
+ */
+export function modelPriceTable(): Record<string, number> {
+  const table: Record<string, number> = {};
+  MODEL_REGISTRY.forEach(m => {
+    table[m.id] = m.cuePer1kTokens;
+    (m.aliases || []).forEach(alias => { table[alias] = m.cuePer1kTokens; });
+  });
+  return table;
+}
@@ -0,0 +1,67 @@
+// ============================================================================
+// 🦙 Ollama 제공자 (로컬 모델)
+// 경로: backend/src/services/ai/providers/OllamaProvider.ts
+// 설정: OLLAMA_URL (설정되어 있을 때만 사용 가능), OLLAMA_EMBEDDING_MODEL (기본 nomic-embed-text)
+// ============================================================================
+
+import { ollamaService } from '../../ollama';
+import {
+  ModelProvider,
+  ProviderChatRequest,
+  ProviderChatResult,
+  StreamPiece
+} from './types';
+import { countTextTokens, TokenizerName } from './Tokenizer';
+
+export class OllamaProvider implements ModelProvider {
+  readonly id = 'ollama' as const;
+  readonly capabilities = { chat: true, streaming: true, embeddings: true };
+  readonly tokenizer: TokenizerName = 'cl100k_base';
+
+  isConfigured(): boolean {
+    return !!process.env.OLLAMA_URL;
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const result = await ollamaService.chatDetailed(request.model, request.messages, {
+      signal: request.signal,
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+
+    const text = result.message?.content || '';
+    return {
+      text,
+      usage: {
+        inputTokens: result.prompt_eval_count ?? this.countTokens(request.messages.map(m => m.content).join('\n')),
+        outputTokens: result.eval_count ?? this.countTokens(text)
+      }
+    };
+  }
+
+  async stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>> {
+    const lines = await ollamaService.chatStream(request.model, request.messages, request.signal, {
+      maxTokens: request.maxTokens,
+      temperature: request.temperature
+    });
+    return pieces(lines);
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    return ollamaService.embed(model || process.env.OLLAMA_EMBEDDING_MODEL || 'nomic-embed-text', texts);
+  }
+
+  countTokens(text: string): number {
+    return countTextTokens(text, this.tokenizer, 4);
+  }
+}
+
+async function* pieces(lines: AsyncIterable<any>): AsyncGenerator<StreamPiece> {
+  for await (const line of lines) {
+    if (line.error) throw new Error(`Ollama API 에러: ${line.error}`);
+    if (line.message?.content) yield { text: line.message.content };
+    if (line.done) {
+      yield { usage: { inputTokens: line.prompt_eval_count || 0, outputTokens: line.eval_count || 0 } };
+    }
+  }
+}
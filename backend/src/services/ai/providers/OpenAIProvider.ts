@@ -0,0 +1,129 @@
+// ============================================================================
+// 🤖 OpenAI 제공자 (chat.completions + embeddings)
+// 경로: backend/src/services/ai/providers/OpenAIProvider.ts
+// 설정: OPENAI_API_KEY, OPENAI_EMBEDDING_MODEL (기본 text-embedding-3-small)
+// ============================================================================
+
+import {
+  ModelProvider,
+  ProviderChatRequest,
+  ProviderChatResult,
+  ProviderError,
+  ProviderErrorCode,
+  StreamPiece
+} from './types';
+import { countTextTokens, TokenizerName } from './Tokenizer';
+
+// 클라이언트 - 절대 파일 로드 시점에 초기화하지 않음
+let openaiClient: any = null;
+let openaiAttempted = false;
+
+function configuredKey(): string | null {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey || apiKey.trim() === '' || apiKey === 'your-openai-key-here') return null;
+  return apiKey;
+}
+
+/**
+ * 안전한 OpenAI 클라이언트 생성 (키가 없거나 로드 실패 시 null)
+ */
+export async function getOpenAIClient() {
+  if (openaiAttempted) {
+    return openaiClient; // 이미 시도했으면 결과 반환 (성공이든 실패든)
+  }
+
+  openaiAttempted = true;
+
+  const apiKey = configuredKey();
+  if (!apiKey) {
+    console.log('⚠️ OpenAI API key not configured - will use mock responses');
+    return null;
+  }
+
+  try {
+    console.log('🔄 Dynamically importing OpenAI...');
+    const { default: OpenAI } = await import('openai');
+    openaiClient = new OpenAI({ apiKey });
+    console.log('✅ OpenAI client created successfully');
+    return openaiClient;
+  } catch (error) {
+    console.error('❌ Failed to create OpenAI client:', error instanceof Error ? error.message : error);
+    openaiClient = null;
+    return null;
+  }
+}
+
+export class OpenAIProvider implements ModelProvider {
+  readonly id = 'openai' as const;
+  readonly capabilities = { chat: true, streaming: true, embeddings: true };
+  readonly tokenizer: TokenizerName = 'o200k_base';
+
+  isConfigured(): boolean {
+    return !!configuredKey();
+  }
+
+  async chat(request: ProviderChatRequest): Promise<ProviderChatResult> {
+    const client = await this.client();
+    const completion = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0.7
+    }, { signal: request.signal });
+
+    return {
+      text: completion.choices[0]?.message?.content || '',
+      usage: {
+        inputTokens: completion.usage?.prompt_tokens || 0,
+        outputTokens: completion.usage?.completion_tokens || 0
+      }
+    };
+  }
+
+  async stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>> {
+    const client = await this.client();
+    const stream = await client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature ?? 0.7,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, { signal: request.signal });
+
+    return pieces(stream);
+  }
+
+  async embed(texts: string[], model?: string): Promise<number[][]> {
+    const client = await this.client();
+    const response = await client.embeddings.create({
+      model: model || process.env.OPENAI_EMBEDDING_MODEL || 'text-embedding-3-small',
+      input: texts
+    });
+    return response.data
+      .sort((a: any, b: any) => a.index - b.index)
+      .map((item: any) => item.embedding);
+  }
+
+  countTokens(text: string): number {
+    return countTextTokens(text, this.tokenizer, 4);
+  }
+
+  private async client(): Promise<any> {
+    const client = await getOpenAIClient();
+    if (!client) {
+      throw new ProviderError(ProviderErrorCode.NOT_CONFIGURED, 'OpenAI API key is not configured', 503);
+    }
+    return client;
+  }
+}
+
+async function* pieces(stream: AsyncIterable<any>): AsyncGenerator<StreamPiece> {
+  for await (const chunk of stream) {
+    const text = chunk.choices?.[0]?.delta?.content;
+    if (text) yield { text };
+    if (chunk.usage) {
+      yield { usage: { inputTokens: chunk.usage.prompt_tokens || 0, outputTokens: chunk.usage.completion_tokens || 0 } };
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// 🔢 BPE 토크나이저 (js-tiktoken)
+// 경로: backend/src/services/ai/providers/Tokenizer.ts
+// OpenAI(gpt-4o)는 o200k_base, 토크나이저를 공개하지 않은 제공자(Anthropic/Gemini/Ollama)는 cl100k_base로 근사
+// 인코더는 처음 쓸 때 한 번 로드 - 로드 실패 시 문자 수 기반 추정(estimateTokens)
+// ============================================================================
+
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+import { estimateTokens } from './types';
+
+export type TokenizerName = 'o200k_base' | 'cl100k_base' | 'estimate';
+
+const encoders = new Map<TokenizerName, Tiktoken | null>();
+
+function encoder(name: TokenizerName): Tiktoken | null {
+  if (name === 'estimate') return null;
+  if (!encoders.has(name)) {
+    try {
+      encoders.set(name, getEncoding(name));
+    } catch (error) {
+      console.error(`❌ 토크나이저 ${name} 로드 실패, 문자 수 추정 사용:`, error);
+      encoders.set(name, null);
+    }
+  }
+  return encoders.get(name) || null;
+}
+
+/**
+ * 텍스트 토큰 수 - 사용자 입력의 특수 토큰(<|endoftext|> 등)은 일반 텍스트로 셈
+ */
+export function countTextTokens(text: string, tokenizer: TokenizerName, charsPerToken = 4): number {
+  if (!text) return 0;
+  const bpe = encoder(tokenizer);
+  return bpe ? bpe.encode(text, [], []).length : estimateTokens(text, charsPerToken);
+}
+
+/**
+ * maxTokens 이하가 되도록 앞부분만 남김 (토큰 경계에서 자름)
+ */
+export function truncateToTokens(text: string, maxTokens: number, tokenizer: TokenizerName, charsPerToken = 4): string {
+  if (maxTokens <= 0) return '';
+  const bpe = encoder(tokenizer);
+  if (bpe) {
+    const tokens = bpe.encode(text, [], []);
+    return tokens.length <= maxTokens ? text : bpe.decode(tokens.slice(0, maxTokens));
+  }
+
+  let end = text.length;
+  while (end > 0 && estimateTokens(text.slice(0, end), charsPerToken) > maxTokens) {
+    end = Math.floor(end * 0.9);
+  }
+  return text.slice(0, end);
+}
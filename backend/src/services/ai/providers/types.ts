@@ -0,0 +1,90 @@
+// ============================================================================
+// 🔌 AI 모델 제공자 공통 인터페이스
+// 경로: backend/src/services/ai/providers/types.ts
+// 구현: OpenAI | Anthropic | Gemini | Ollama | Mock (결정적 응답)
+// 모델 목록/가격/기능은 ModelRegistry.ts 설정 한 곳에서 관리
+// ============================================================================
+
+import type { TokenizerName } from './Tokenizer';
+
+export type ProviderId = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'mock';
+
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface ProviderChatRequest {
+  /** 제공자 쪽 모델명 (예: gpt-4o, claude-3-5-sonnet-20241022) */
+  model: string;
+  messages: ProviderMessage[];
+  maxTokens: number;
+  temperature?: number;
+  signal?: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface ProviderChatResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface StreamPiece {
+  /** 새로 생성된 텍스트 조각 */
+  text?: string;
+  /** 제공자가 보고한 토큰 사용량 (스트림 끝에 한 번) */
+  usage?: TokenUsage;
+}
+
+export interface ProviderCapabilities {
+  chat: boolean;
+  streaming: boolean;
+  embeddings: boolean;
+}
+
+export interface ModelProvider {
+  readonly id: ProviderId;
+  readonly capabilities: ProviderCapabilities;
+  /** countTokens가 쓰는 토크나이저 (컨텍스트 리포트용) */
+  readonly tokenizer: TokenizerName;
+  /** API 키/서버 주소가 설정되어 있는지 (호출 가능 여부) */
+  isConfigured(): boolean;
+  chat(request: ProviderChatRequest): Promise<ProviderChatResult>;
+  /** 연결이 열리면 반환 - 이후 끊기면 반복 중 에러 */
+  stream(request: ProviderChatRequest): Promise<AsyncIterable<StreamPiece>>;
+  embed(texts: string[], model?: string): Promise<number[][]>;
+  /** 요청 전 토큰 수 계산 (예약/컨텍스트 예산용) */
+  countTokens(text: string): number;
+}
+
+export enum ProviderErrorCode {
+  NOT_CONFIGURED = 'NOT_CONFIGURED',
+  UNSUPPORTED = 'UNSUPPORTED',
+  UNKNOWN_MODEL = 'UNKNOWN_MODEL',
+  PROVIDER_ERROR = 'PROVIDER_ERROR'
+}
+
+export class ProviderError extends Error {
+  constructor(public code: ProviderErrorCode, message: string, public statusCode = 502) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+/**
+ * 토큰 수 추정 - ASCII는 charsPerToken 글자당 1토큰, 한글 등 그 외 문자는 글자당 1토큰
+ */
+export function estimateTokens(text: string, charsPerToken = 4): number {
+  let ascii = 0;
+  let other = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) < 128) ascii++;
+    else other++;
+  }
+  return Math.ceil(ascii / charsPerToken) + other;
+}
+
@@ -0,0 +1,267 @@
+// ============================================================================
+// 🎫 WebAuthn 챌린지 저장소
+// 경로: backend/src/services/auth/ChallengeStore.ts
+// 용도: 등록/로그인 챌린지의 발급, 만료(TTL), 1회성 소비, IP별 발급 제한
+// 백엔드: memory (테스트/단일 프로세스) | table (webauthn_challenges 테이블)
+// ============================================================================
+
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+
+export type ChallengeType = 'registration' | 'authentication' | 'unified' | 'step_up';
+
+export interface ChallengeRecord {
+  sessionId: string;
+  challenge: string;
+  type: ChallengeType;
+  ipAddress: string | null;
+  data: Record<string, any>;
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface ChallengeBackend {
+  readonly name: string;
+  save(record: ChallengeRecord): Promise<boolean>;
+  /** 레코드를 삭제하면서 반환 (없거나 만료되었으면 null) */
+  take(sessionId: string): Promise<ChallengeRecord | null>;
+  countActive(ipAddress: string): Promise<number>;
+  sweep(): Promise<void>;
+}
+
+export interface ChallengeStoreOptions {
+  ttlMs?: number;
+  maxPerIp?: number;
+}
+
+export class ChallengeLimitError extends Error {
+  statusCode = 429;
+  isOperational = true;
+
+  constructor(message = 'Too many outstanding challenges') {
+    super(message);
+    this.name = 'ChallengeLimitError';
+  }
+}
+
+// ============================================================================
+// 🧠 메모리 백엔드
+// ============================================================================
+
+export class MemoryChallengeBackend implements ChallengeBackend {
+  readonly name = 'memory';
+  private records = new Map<string, ChallengeRecord>();
+
+  async save(record: ChallengeRecord): Promise<boolean> {
+    this.records.set(record.sessionId, record);
+    return true;
+  }
+
+  async take(sessionId: string): Promise<ChallengeRecord | null> {
+    const record = this.records.get(sessionId);
+    if (!record) return null;
+    this.records.delete(sessionId);
+    return record.expiresAt > Date.now() ? record : null;
+  }
+
+  async countActive(ipAddress: string): Promise<number> {
+    const now = Date.now();
+    let count = 0;
+    for (const record of this.records.values()) {
+      if (record.ipAddress === ipAddress && record.expiresAt > now) count++;
+    }
+    return count;
+  }
+
+  async sweep(): Promise<void> {
+    const now = Date.now();
+    for (const [sessionId, record] of this.records.entries()) {
+      if (record.expiresAt <= now) this.records.delete(sessionId);
+    }
+  }
+
+  get size(): number {
+    return this.records.size;
+  }
+}
+
+// ============================================================================
+// 🗄️ 테이블 백엔드 (webauthn_challenges)
+// ============================================================================
+
+export class TableChallengeBackend implements ChallengeBackend {
+  readonly name = 'table';
+
+  constructor(private db: any) {}
+
+  async save(record: ChallengeRecord): Promise<boolean> {
+    return this.db.createWebAuthnChallenge({
+      session_id: record.sessionId,
+      challenge: record.challenge,
+      challenge_type: record.type,
+      ip_address: record.ipAddress,
+      payload: record.data,
+      created_at: new Date(record.createdAt).toISOString(),
+      expires_at: new Date(record.expiresAt).toISOString()
+    });
+  }
+
+  async take(sessionId: string): Promise<ChallengeRecord | null> {
+    const row = await this.db.consumeWebAuthnChallenge(sessionId);
+    if (!row) return null;
+
+    return {
+      sessionId: row.session_id,
+      challenge: row.challenge,
+      type: row.challenge_type,
+      ipAddress: row.ip_address ?? null,
+      data: row.payload || {},
+      createdAt: new Date(row.created_at).getTime(),
+      expiresAt: new Date(row.expires_at).getTime()
+    };
+  }
+
+  async countActive(ipAddress: string): Promise<number> {
+    return this.db.countActiveWebAuthnChallenges(ipAddress);
+  }
+
+  async sweep(): Promise<void> {
+    await this.db.cleanupExpiredSessions();
+  }
+}
+
+// ============================================================================
+// 🎫 ChallengeStore
+// ============================================================================
+
+export class ChallengeStore {
+  private readonly ttlMs: number;
+  private readonly maxPerIp: number;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private backend: ChallengeBackend, options: ChallengeStoreOptions = {}) {
+    this.ttlMs = options.ttlMs ?? 5 * 60 * 1000;
+    this.maxPerIp = options.maxPerIp ?? 10;
+  }
+
+  get backendName(): string {
+    return this.backend.name;
+  }
+
+  /**
+   * 새 챌린지 발급 (IP별 미사용 챌린지 수 제한)
+   */
+  async issue(params: {
+    type: ChallengeType;
+    ipAddress?: string | null;
+    data?: Record<string, any>;
+  }): Promise<ChallengeRecord> {
+    const ipAddress = params.ipAddress || null;
+
+    if (ipAddress && this.maxPerIp > 0) {
+      const outstanding = await this.backend.countActive(ipAddress);
+      if (outstanding >= this.maxPerIp) {
+        console.warn(`⚠️ 챌린지 발급 제한 초과: ${ipAddress} (${outstanding}개)`);
+        throw new ChallengeLimitError();
+      }
+    }
+
+    const now = Date.now();
+    const record: ChallengeRecord = {
+      sessionId: `${params.type}_${now}_${uuidv4().substring(0, 8)}`,
+      challenge: crypto.randomBytes(32).toString('base64url'),
+      type: params.type,
+      ipAddress,
+      data: params.data || {},
+      createdAt: now,
+      expiresAt: now + this.ttlMs
+    };
+
+    const saved = await this.backend.save(record);
+    if (!saved) {
+      throw new Error('Failed to persist WebAuthn challenge');
+    }
+
+    return record;
+  }
+
+  /**
+   * 챌린지 1회성 소비 - 호출 즉시 삭제되며, 만료 또는 타입 불일치 시 null
+   */
+  async consume(sessionId: string, expectedType?: ChallengeType | ChallengeType[]): Promise<ChallengeRecord | null> {
+    if (!sessionId) return null;
+
+    const record = await this.backend.take(sessionId);
+    if (!record || record.expiresAt <= Date.now()) return null;
+
+    if (expectedType) {
+      const allowed = Array.isArray(expectedType) ? expectedType : [expectedType];
+      if (!allowed.includes(record.type)) return null;
+    }
+
+    return record;
+  }
+
+  /**
+   * 만료된 챌린지 정리
+   */
+  async cleanup(): Promise<void> {
+    try {
+      await this.backend.sweep();
+    } catch (error) {
+      console.error('❌ 챌린지 정리 오류:', error);
+    }
+  }
+
+  /**
+   * 주기적 정리 시작 (프로세스 종료를 막지 않도록 unref)
+   */
+  startSweeper(intervalMs = 60 * 1000): void {
+    if (this.sweepTimer) return;
+    this.sweepTimer = setInterval(() => this.cleanup(), intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  stopSweeper(): void {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+}
+
+/**
+ * 환경 설정에 따른 ChallengeStore 생성
+ * WEBAUTHN_CHALLENGE_STORE=memory 이면 메모리, 그 외에는 webauthn_challenges 테이블 사용
+ */
+export function createChallengeStore(options: ChallengeStoreOptions = {}): ChallengeStore {
+  if (process.env.WEBAUTHN_CHALLENGE_STORE === 'memory') {
+    return new ChallengeStore(new MemoryChallengeBackend(), options);
+  }
+
+  const db = process.env.USE_MOCK_DATABASE === 'true' ||
+            !process.env.SUPABASE_URL ||
+            process.env.SUPABASE_URL.includes('dummy')
+    ? DatabaseService.getInstance()
+    : supabaseService;
+
+  return new ChallengeStore(new TableChallengeBackend(db), options);
+}
+
+// app.ts와 라우트가 같은 저장소를 공유하도록 단일 인스턴스 제공
+// (dotenv 로드 이후 환경 변수를 읽도록 첫 사용 시점에 생성)
+let sharedStore: ChallengeStore | null = null;
+
+export function getChallengeStore(): ChallengeStore {
+  if (!sharedStore) {
+    sharedStore = createChallengeStore({
+      ttlMs: Number(process.env.WEBAUTHN_CHALLENGE_TTL_MS) || 5 * 60 * 1000,
+      maxPerIp: Number(process.env.WEBAUTHN_CHALLENGE_MAX_PER_IP) || 10
+    });
+    sharedStore.startSweeper();
+    console.log(`🎫 WebAuthn 챌린지 저장소 초기화: ${sharedStore.backendName}`);
+  }
+  return sharedStore;
+}
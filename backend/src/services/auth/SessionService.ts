@@ -0,0 +1,346 @@
+// ============================================================================
+// 🔑 인증 세션 서비스
+// 경로: backend/src/services/auth/SessionService.ts
+// 용도: 단기 액세스 토큰 + 회전형 리프레시 토큰 발급, 재사용 탐지, 서버측 세션 폐기
+// 저장소: auth_sessions 테이블 (jti 기준, 리프레시 토큰은 해시만 저장)
+// ============================================================================
+
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+
+export type SessionErrorCode =
+  | 'INVALID_TOKEN'
+  | 'LEGACY_TOKEN'
+  | 'SESSION_NOT_FOUND'
+  | 'SESSION_REVOKED'
+  | 'SESSION_EXPIRED'
+  | 'CREDENTIAL_REVOKED'
+  | 'REFRESH_TOKEN_REUSED';
+
+/** 패스키 로그인 세션에 기본으로 부여되는 권한 범위 */
+export const DEFAULT_SESSION_SCOPES = ['user'];
+
+export class SessionError extends Error {
+  statusCode = 401;
+  isOperational = true;
+
+  constructor(public code: SessionErrorCode, message: string) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+export interface SessionContext {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  jti: string;
+  accessToken: string;
+  refreshToken: string;
+  /** 액세스 토큰 유효 시간 (초) */
+  expiresIn: number;
+  refreshExpiresAt: string;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  credentialId: string;
+  type: 'access';
+  jti: string;
+  /** 공백으로 구분된 권한 범위 (OAuth scope 형식) */
+  scope: string;
+  iat: number;
+  exp: number;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  credentialId: string | null;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string | null;
+  expiresAt: string;
+  isCurrent: boolean;
+}
+
+export interface SessionServiceOptions {
+  secret: string;
+  accessTokenTtlSec?: number;
+  refreshTokenTtlMs?: number;
+}
+
+export class SessionService {
+  private readonly secret: string;
+  private readonly accessTokenTtlSec: number;
+  private readonly refreshTokenTtlMs: number;
+
+  constructor(private db: any, options: SessionServiceOptions) {
+    this.secret = options.secret;
+    this.accessTokenTtlSec = options.accessTokenTtlSec ?? 15 * 60;
+    this.refreshTokenTtlMs = options.refreshTokenTtlMs ?? 30 * 24 * 60 * 60 * 1000;
+  }
+
+  /**
+   * 새 세션 발급 (로그인/가입 완료 시)
+   */
+  async issueSession(
+    userId: string,
+    credentialId: string,
+    context: SessionContext = {},
+    scopes: string[] = DEFAULT_SESSION_SCOPES
+  ): Promise<SessionTokens> {
+    const jti = uuidv4();
+    const now = new Date();
+    const refreshToken = this.createRefreshToken(jti, 0);
+    const expiresAt = new Date(now.getTime() + this.refreshTokenTtlMs).toISOString();
+
+    const session = await this.db.createAuthSession({
+      jti,
+      user_id: userId,
+      credential_id: credentialId,
+      refresh_token_hash: this.hashToken(refreshToken),
+      refresh_generation: 0,
+      scopes,
+      user_agent: context.userAgent || null,
+      ip_address: context.ipAddress || null,
+      created_at: now.toISOString(),
+      last_used_at: now.toISOString(),
+      expires_at: expiresAt
+    });
+
+    if (!session) {
+      throw new Error('Failed to persist auth session');
+    }
+
+    console.log(`🔑 세션 발급: ${jti} (사용자 ${userId})`);
+
+    return {
+      jti,
+      accessToken: this.signAccessToken(userId, credentialId, jti, scopes),
+      refreshToken,
+      expiresIn: this.accessTokenTtlSec,
+      refreshExpiresAt: expiresAt
+    };
+  }
+
+  /**
+   * 액세스 토큰 검증 - 서명/만료 확인 후 서버측 세션의 폐기 여부까지 확인
+   */
+  async verifyAccessToken(token: string): Promise<{ payload: AccessTokenPayload; session: any }> {
+    let payload: AccessTokenPayload;
+    try {
+      payload = jwt.verify(token, this.secret) as AccessTokenPayload;
+    } catch (error) {
+      throw new SessionError('INVALID_TOKEN', 'Invalid or expired access token');
+    }
+
+    // jti 없는 예전 30일 토큰은 폐기 여부를 확인할 수 없으므로 거부
+    if (payload.type !== 'access' || !payload.jti) {
+      throw new SessionError('LEGACY_TOKEN', 'Token is not a revocable access token');
+    }
+
+    const session = await this.getLiveSession(payload.jti);
+    if (session.user_id !== payload.userId) {
+      throw new SessionError('INVALID_TOKEN', 'Token does not match session');
+    }
+
+    return { payload, session };
+  }
+
+  /**
+   * 리프레시 토큰 회전 - 이전 세대 토큰이 다시 쓰이면 세션 전체를 폐기
+   */
+  async refresh(refreshToken: string, context: SessionContext = {}): Promise<SessionTokens> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new SessionError('INVALID_TOKEN', 'Malformed refresh token');
+    }
+
+    const session = await this.getLiveSession(parsed.jti);
+
+    const matches = parsed.generation === session.refresh_generation &&
+      this.safeEqual(this.hashToken(refreshToken), session.refresh_token_hash);
+
+    if (!matches) {
+      await this.handleReuse(session);
+    }
+
+    // 세션을 발급한 패스키가 폐기되었으면 회전 거부 (분실/도난 기기 차단)
+    if (session.credential_id && !(await this.db.getWebAuthnCredentialById(session.credential_id))) {
+      await this.db.revokeAuthSession(session.jti, 'credential_revoked');
+      throw new SessionError('CREDENTIAL_REVOKED', 'Passkey for this session has been revoked');
+    }
+
+    const nextGeneration = session.refresh_generation + 1;
+    const nextRefreshToken = this.createRefreshToken(parsed.jti, nextGeneration);
+
+    // 세대 조건부 갱신 - 동시에 같은 토큰으로 회전하면 한쪽만 성공
+    const rotated = await this.db.rotateAuthSession(parsed.jti, session.refresh_generation, {
+      refresh_token_hash: this.hashToken(nextRefreshToken),
+      refresh_generation: nextGeneration,
+      last_used_at: new Date().toISOString(),
+      ...(context.userAgent ? { user_agent: context.userAgent } : {}),
+      ...(context.ipAddress ? { ip_address: context.ipAddress } : {})
+    });
+
+    if (!rotated) {
+      await this.handleReuse(session);
+    }
+
+    console.log(`🔄 리프레시 토큰 회전: ${parsed.jti} (세대 ${nextGeneration})`);
+
+    return {
+      jti: parsed.jti,
+      accessToken: this.signAccessToken(
+        session.user_id,
+        session.credential_id,
+        parsed.jti,
+        session.scopes || DEFAULT_SESSION_SCOPES
+      ),
+      refreshToken: nextRefreshToken,
+      expiresIn: this.accessTokenTtlSec,
+      refreshExpiresAt: session.expires_at
+    };
+  }
+
+  async revokeSession(jti: string, reason = 'logout'): Promise<boolean> {
+    const revoked = await this.db.revokeAuthSession(jti, reason);
+    if (revoked) {
+      console.log(`🚫 세션 폐기: ${jti} (${reason})`);
+    }
+    return revoked;
+  }
+
+  /**
+   * 현재 세대의 리프레시 토큰으로 세션 폐기 (액세스 토큰이 만료된 상태의 로그아웃)
+   */
+  async revokeByRefreshToken(refreshToken: string, reason = 'logout'): Promise<boolean> {
+    const parsed = this.parseRefreshToken(refreshToken);
+    if (!parsed) return false;
+
+    const session = await this.db.getAuthSession(parsed.jti);
+    if (!session || session.revoked_at) return false;
+    if (!this.safeEqual(this.hashToken(refreshToken), session.refresh_token_hash)) return false;
+
+    return this.revokeSession(parsed.jti, reason);
+  }
+
+  /**
+   * 사용자의 모든 세션 폐기 (exceptJti 지정 시 해당 세션은 유지)
+   */
+  async revokeAllForUser(userId: string, reason = 'logout_all', exceptJti?: string): Promise<number> {
+    const count = await this.db.revokeUserAuthSessions(userId, reason, exceptJti);
+    console.log(`🚫 사용자 세션 전체 폐기: ${userId} (${count}개)`);
+    return count;
+  }
+
+  /**
+   * 특정 패스키로 발급된 사용자 세션 전체 폐기 (패스키 폐기 시)
+   */
+  async revokeAllForCredential(userId: string, credentialId: string, reason = 'credential_revoked'): Promise<number> {
+    const count = await this.db.revokeCredentialAuthSessions(userId, credentialId, reason);
+    console.log(`🚫 패스키 세션 폐기: ${credentialId} (${count}개)`);
+    return count;
+  }
+
+  async listSessions(userId: string, currentJti?: string): Promise<SessionSummary[]> {
+    const sessions = await this.db.getActiveAuthSessions(userId);
+    return sessions.map((session: any) => ({
+      sessionId: session.jti,
+      credentialId: session.credential_id || null,
+      userAgent: session.user_agent || null,
+      ipAddress: session.ip_address || null,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at || null,
+      expiresAt: session.expires_at,
+      isCurrent: session.jti === currentJti
+    }));
+  }
+
+  // ============================================================================
+  // 🔧 내부 헬퍼
+  // ============================================================================
+
+  private async getLiveSession(jti: string): Promise<any> {
+    const session = await this.db.getAuthSession(jti);
+    if (!session) {
+      throw new SessionError('SESSION_NOT_FOUND', 'Session not found');
+    }
+    if (session.revoked_at) {
+      throw new SessionError('SESSION_REVOKED', 'Session has been revoked');
+    }
+    if (new Date(session.expires_at).getTime() <= Date.now()) {
+      throw new SessionError('SESSION_EXPIRED', 'Session has expired');
+    }
+    return session;
+  }
+
+  private async handleReuse(session: any): Promise<never> {
+    console.warn(`⚠️ 리프레시 토큰 재사용 탐지: ${session.jti} - 세션 폐기`);
+    await this.db.revokeAuthSession(session.jti, 'refresh_token_reuse');
+    throw new SessionError('REFRESH_TOKEN_REUSED', 'Refresh token reuse detected; session revoked');
+  }
+
+  private signAccessToken(userId: string, credentialId: string, jti: string, scopes: string[]): string {
+    return jwt.sign(
+      { userId, credentialId, type: 'access', scope: scopes.join(' ') },
+      this.secret,
+      { expiresIn: this.accessTokenTtlSec, jwtid: jti }
+    );
+  }
+
+  // 형식: <jti>.<generation>.<random>
+  private createRefreshToken(jti: string, generation: number): string {
+    return `${jti}.${generation}.${crypto.randomBytes(32).toString('base64url')}`;
+  }
+
+  private parseRefreshToken(token: string): { jti: string; generation: number } | null {
+    if (typeof token !== 'string') return null;
+    const parts = token.split('.');
+    if (parts.length !== 3 || !parts[0] || !/^\d+$/.test(parts[1])) return null;
+    return { jti: parts[0], generation: Number(parts[1]) };
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufA = Buffer.from(a || '');
+    const bufB = Buffer.from(b || '');
+    return bufA.length === bufB.length && crypto.timingSafeEqual(bufA, bufB);
+  }
+}
+
+/**
+ * 환경 설정에 따른 SessionService 생성
+ */
+export function createSessionService(): SessionService {
+  const db = process.env.USE_MOCK_DATABASE === 'true' ||
+            !process.env.SUPABASE_URL ||
+            process.env.SUPABASE_URL.includes('dummy')
+    ? DatabaseService.getInstance()
+    : supabaseService;
+
+  return new SessionService(db, {
+    secret: process.env.JWT_SECRET || 'temp-secret-key-for-development-only',
+    accessTokenTtlSec: Number(process.env.ACCESS_TOKEN_TTL_SEC) || 15 * 60,
+    refreshTokenTtlMs: (Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000
+  });
+}
+
+// app.ts, 라우트, 미들웨어, 소켓이 같은 세션 저장소를 공유하도록 단일 인스턴스 제공
+let sharedService: SessionService | null = null;
+
+export function getSessionService(): SessionService {
+  if (!sharedService) {
+    sharedService = createSessionService();
+  }
+  return sharedService;
+}
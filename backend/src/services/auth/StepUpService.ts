@@ -0,0 +1,185 @@
+// ============================================================================
+// 🛡️ 패스키 재인증 (step-up) 서비스
+// 경로: backend/src/services/auth/StepUpService.ts
+// 용도: 고액 송금 등 민감한 작업 직전에 새 패스키 assertion 요구
+// 흐름: issueChallenge(작업 내용) → 클라이언트 navigator.credentials.get → verifyAssertion(같은 작업 내용)
+//       챌린지는 1회용이며 작업 내용 해시에 묶여 있어 다른 작업에 재사용할 수 없음
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { ChallengeStore, getChallengeStore } from './ChallengeStore';
+import { WebAuthnService } from './WebAuthnService';
+import { AuthUser } from '../../middleware/authMiddleware';
+
+export enum StepUpErrorCode {
+  STEP_UP_REQUIRED = 'STEP_UP_REQUIRED',
+  STEP_UP_INVALID = 'STEP_UP_INVALID'
+}
+
+export class StepUpError extends Error {
+  constructor(
+    public code: StepUpErrorCode,
+    message: string,
+    public statusCode = 401,
+    /** STEP_UP_REQUIRED일 때 클라이언트가 서명할 챌린지 */
+    public challenge?: StepUpChallenge
+  ) {
+    super(message);
+    this.name = 'StepUpError';
+  }
+}
+
+/** 재인증으로 승인할 작업 내용 (purpose + 작업별 필드) */
+export type StepUpBinding = { purpose: string } & Record<string, string | number | boolean | null>;
+
+export interface StepUpChallenge {
+  sessionId: string;
+  options: {
+    challenge: string;
+    timeout: number;
+    rpId: string;
+    allowCredentials: { id: string; type: 'public-key'; transports?: string[] }[];
+    userVerification: 'required';
+  };
+}
+
+export interface StepUpAssertion {
+  sessionId: string;
+  credential: any;
+}
+
+/**
+ * 작업 내용 해시 (키 순서와 무관)
+ */
+function bindingHash(binding: StepUpBinding): string {
+  const canonical = JSON.stringify(Object.keys(binding).sort().map(key => [key, binding[key]]));
+  return crypto.createHash('sha256').update(canonical).digest('base64url');
+}
+
+export class StepUpService {
+  constructor(
+    private db: any,
+    private challengeStore: ChallengeStore,
+    private webauthnService: WebAuthnService,
+    private rpID: string
+  ) {}
+
+  /**
+   * 재인증 챌린지 발급 - 사용자의 등록된 패스키만 허용
+   */
+  async issueChallenge(user: AuthUser, binding: StepUpBinding, ipAddress?: string | null): Promise<StepUpChallenge> {
+    const credentials = await this.db.getWebAuthnCredentials(user.id);
+
+    const { sessionId, challenge } = await this.challengeStore.issue({
+      type: 'step_up',
+      ipAddress,
+      data: { userId: user.id, purpose: binding.purpose, bindingHash: bindingHash(binding) }
+    });
+
+    console.log(`🛡️ 재인증 챌린지 발급: ${user.did} (${binding.purpose})`);
+
+    return {
+      sessionId,
+      options: {
+        challenge,
+        timeout: 60000,
+        rpId: this.rpID,
+        allowCredentials: credentials.map((c: any) => ({
+          id: c.credential_id,
+          type: 'public-key' as const,
+          transports: c.device_info?.transports
+        })),
+        userVerification: 'required'
+      }
+    };
+  }
+
+  /**
+   * assertion이 없으면 챌린지를 담은 STEP_UP_REQUIRED, 있으면 검증
+   */
+  async requireAssertion(
+    user: AuthUser,
+    binding: StepUpBinding,
+    assertion: StepUpAssertion | undefined,
+    ipAddress?: string | null
+  ): Promise<void> {
+    if (!assertion) {
+      const challenge = await this.issueChallenge(user, binding, ipAddress);
+      throw new StepUpError(
+        StepUpErrorCode.STEP_UP_REQUIRED,
+        'A fresh passkey assertion is required for this operation',
+        401,
+        challenge
+      );
+    }
+
+    await this.verifyAssertion(user, assertion, binding);
+  }
+
+  /**
+   * 재인증 assertion 검증 - 챌린지 소비, 작업 내용 일치, 본인 패스키 서명 확인
+   */
+  async verifyAssertion(user: AuthUser, assertion: StepUpAssertion, binding: StepUpBinding): Promise<void> {
+    const record = await this.challengeStore.consume(assertion?.sessionId, 'step_up');
+    if (!record) {
+      throw new StepUpError(StepUpErrorCode.STEP_UP_INVALID, 'Step-up challenge is invalid or expired');
+    }
+
+    if (record.data.userId !== user.id || record.data.bindingHash !== bindingHash(binding)) {
+      throw new StepUpError(StepUpErrorCode.STEP_UP_INVALID, 'Step-up challenge was issued for a different operation');
+    }
+
+    const storedCredential = await this.db.getWebAuthnCredentialById(assertion.credential?.id);
+    if (!storedCredential || storedCredential.user_id !== user.id) {
+      throw new StepUpError(StepUpErrorCode.STEP_UP_INVALID, 'Passkey does not belong to the current user');
+    }
+
+    const verification = await this.webauthnService.verifyAuthenticationResponse({
+      credential: assertion.credential,
+      expectedChallenge: record.challenge,
+      storedCredential
+    });
+
+    if (!verification.verified || !verification.authenticationInfo) {
+      throw new StepUpError(
+        StepUpErrorCode.STEP_UP_INVALID,
+        verification.counterRegression
+          ? 'Signature counter regression detected'
+          : 'Passkey assertion verification failed'
+      );
+    }
+
+    await this.db.updateWebAuthnCredentialCounter(
+      storedCredential.credential_id,
+      verification.authenticationInfo.newCounter
+    );
+
+    console.log(`✅ 재인증 완료: ${user.did} (${binding.purpose})`);
+  }
+}
+
+let sharedService: StepUpService | null = null;
+
+export function getStepUpService(): StepUpService {
+  if (!sharedService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    // WebAuthn 라우트와 같은 RP 설정 (재인증은 항상 사용자 검증 필수)
+    const rpID = process.env.WEBAUTHN_RP_ID || 'localhost';
+    const origin = process.env.WEBAUTHN_ORIGIN || 'http://localhost:3000';
+    const webauthnService = new WebAuthnService({
+      rpID,
+      origin: origin.split(',').map(o => o.trim()),
+      requireUserVerification: true
+    });
+
+    sharedService = new StepUpService(db, getChallengeStore(), webauthnService, rpID);
+  }
+  return sharedService;
+}
@@ -0,0 +1,224 @@
+// ============================================================================
+// 🔐 WebAuthn 검증 서비스
+// 경로: backend/src/services/auth/WebAuthnService.ts
+// 용도: attestation / assertion 응답의 실제 서명 검증 (@simplewebauthn/server 위임)
+// 지원 알고리즘: ES256 (-7), RS256 (-257) - DID 문서 JWK 변환이 가능한 키만 허용
+// ============================================================================
+
+import crypto from 'crypto';
+import {
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse
+} from '@simplewebauthn/server';
+import {
+  cose,
+  decodeCredentialPublicKey,
+  isoBase64URL
+} from '@simplewebauthn/server/helpers';
+
+// COSE 알고리즘 식별자
+export const COSE_ALG_ES256 = -7;
+export const COSE_ALG_RS256 = -257;
+
+export interface WebAuthnConfig {
+  rpID: string;
+  origin: string | string[];
+  requireUserVerification?: boolean;
+}
+
+export interface RegistrationVerification {
+  verified: boolean;
+  error?: string;
+  registrationInfo?: {
+    credentialID: string;
+    credentialPublicKey: Buffer;
+    alg: number;
+    counter: number;
+    fmt: string;
+    aaguid: string;
+    userVerified: boolean;
+    credentialDeviceType: 'singleDevice' | 'multiDevice';
+    credentialBackedUp: boolean;
+    transports: string[];
+  };
+}
+
+export interface AuthenticationVerification {
+  verified: boolean;
+  error?: string;
+  counterRegression?: boolean;
+  authenticationInfo?: {
+    credentialID: string;
+    newCounter: number;
+    userVerified: boolean;
+    credentialDeviceType: 'singleDevice' | 'multiDevice';
+    credentialBackedUp: boolean;
+  };
+}
+
+// ============================================================================
+// 🔐 WebAuthnService
+// ============================================================================
+
+export class WebAuthnService {
+  private readonly config: WebAuthnConfig;
+  private readonly expectedOrigins: string[];
+
+  constructor(config: WebAuthnConfig) {
+    this.config = config;
+    this.expectedOrigins = Array.isArray(config.origin) ? config.origin : [config.origin];
+  }
+
+  /**
+   * 패스키 등록 응답(attestation) 검증
+   */
+  async verifyRegistrationResponse(params: {
+    credential: any;
+    expectedChallenge: string;
+  }): Promise<RegistrationVerification> {
+    try {
+      const { credential, expectedChallenge } = params;
+
+      if (!credential?.id || !credential.response?.clientDataJSON || !credential.response?.attestationObject) {
+        return { verified: false, error: 'Malformed registration credential' };
+      }
+
+      const { verified, registrationInfo } = await verifyRegistrationResponse({
+        response: { ...credential, rawId: credential.rawId || credential.id, type: credential.type || 'public-key' },
+        expectedChallenge,
+        expectedOrigin: this.expectedOrigins,
+        expectedRPID: this.config.rpID,
+        requireUserVerification: !!this.config.requireUserVerification,
+        supportedAlgorithmIDs: [COSE_ALG_ES256, COSE_ALG_RS256]
+      });
+
+      if (!verified || !registrationInfo) {
+        return { verified: false, error: 'Attestation could not be verified' };
+      }
+
+      const credentialID = isoBase64URL.fromBuffer(registrationInfo.credentialID);
+      if (credentialID !== credential.id) {
+        return { verified: false, error: 'Credential ID does not match authenticator data' };
+      }
+
+      const credentialPublicKey = Buffer.from(registrationInfo.credentialPublicKey);
+      const transports = credential.response.transports;
+
+      return {
+        verified: true,
+        registrationInfo: {
+          credentialID,
+          credentialPublicKey,
+          alg: decodeCredentialPublicKey(credentialPublicKey).get(cose.COSEKEYS.alg) as number,
+          counter: registrationInfo.counter,
+          fmt: registrationInfo.fmt,
+          aaguid: registrationInfo.aaguid,
+          userVerified: registrationInfo.userVerified,
+          credentialDeviceType: registrationInfo.credentialDeviceType,
+          credentialBackedUp: registrationInfo.credentialBackedUp,
+          transports: Array.isArray(transports) ? transports : []
+        }
+      };
+    } catch (error: any) {
+      console.error('❌ 등록 응답 검증 오류:', error.message);
+      return { verified: false, error: error.message || 'Registration verification error' };
+    }
+  }
+
+  /**
+   * 패스키 로그인 응답(assertion) 검증 - 저장된 공개키로 서명 확인
+   */
+  async verifyAuthenticationResponse(params: {
+    credential: any;
+    expectedChallenge: string;
+    storedCredential: {
+      credential_id: string;
+      public_key: string;
+      counter: number;
+    };
+  }): Promise<AuthenticationVerification> {
+    const { credential, expectedChallenge, storedCredential } = params;
+
+    if (!credential?.id || !credential.response?.clientDataJSON ||
+        !credential.response?.authenticatorData || !credential.response?.signature) {
+      return { verified: false, error: 'Malformed authentication credential' };
+    }
+
+    if (credential.id !== storedCredential.credential_id) {
+      return { verified: false, error: 'Credential ID does not match stored credential' };
+    }
+
+    const storedCounter = Number(storedCredential.counter) || 0;
+
+    try {
+      const { verified, authenticationInfo } = await verifyAuthenticationResponse({
+        response: { ...credential, rawId: credential.rawId || credential.id, type: credential.type || 'public-key' },
+        expectedChallenge,
+        expectedOrigin: this.expectedOrigins,
+        expectedRPID: this.config.rpID,
+        requireUserVerification: !!this.config.requireUserVerification,
+        authenticator: {
+          credentialID: isoBase64URL.toBuffer(storedCredential.credential_id),
+          credentialPublicKey: new Uint8Array(Buffer.from(storedCredential.public_key, 'base64')),
+          counter: storedCounter
+        }
+      });
+
+      if (!verified) {
+        return { verified: false, error: 'Assertion signature is invalid' };
+      }
+
+      return {
+        verified: true,
+        authenticationInfo: {
+          credentialID: credential.id,
+          newCounter: authenticationInfo.newCounter,
+          userVerified: authenticationInfo.userVerified,
+          credentialDeviceType: authenticationInfo.credentialDeviceType,
+          credentialBackedUp: authenticationInfo.credentialBackedUp
+        }
+      };
+    } catch (error: any) {
+      // 서명 카운터 역행 (복제된 인증기 가능성) - 라이브러리는 예외로 보고
+      if (/counter value/i.test(error.message || '')) {
+        console.warn(`⚠️ 서명 카운터 역행 감지: ${credential.id} (저장: ${storedCounter})`);
+        return {
+          verified: false,
+          counterRegression: true,
+          error: 'Signature counter regression detected'
+        };
+      }
+      console.error('❌ 로그인 응답 검증 오류:', error.message);
+      return { verified: false, error: error.message || 'Authentication verification error' };
+    }
+  }
+
+  /**
+   * 저장된 COSE 공개키(base64)를 JWK로 변환 (DID 문서의 검증 수단용)
+   */
+  public static credentialPublicKeyToJwk(publicKeyBase64: string): { jwk: crypto.JsonWebKey; alg: number } {
+    const coseKey = decodeCredentialPublicKey(new Uint8Array(Buffer.from(publicKeyBase64, 'base64')));
+    const alg = coseKey.get(cose.COSEKEYS.alg) as number;
+    const toBase64url = (value?: Uint8Array) => {
+      if (!value) {
+        throw new Error(`Incomplete COSE key (alg: ${alg})`);
+      }
+      return isoBase64URL.fromBuffer(value);
+    };
+
+    let jwk: crypto.JsonWebKey;
+    if (cose.isCOSEPublicKeyEC2(coseKey) && alg === COSE_ALG_ES256) {
+      jwk = { kty: 'EC', crv: 'P-256', x: toBase64url(coseKey.get(cose.COSEKEYS.x)), y: toBase64url(coseKey.get(cose.COSEKEYS.y)) };
+    } else if (cose.isCOSEPublicKeyRSA(coseKey) && alg === COSE_ALG_RS256) {
+      jwk = { kty: 'RSA', n: toBase64url(coseKey.get(cose.COSEKEYS.n)), e: toBase64url(coseKey.get(cose.COSEKEYS.e)) };
+    } else {
+      throw new Error(`Unsupported COSE key (alg: ${alg})`);
+    }
+
+    // 키 자체가 유효한지 확인 후 정규화된 JWK 반환
+    return {
+      jwk: crypto.createPublicKey({ key: jwk, format: 'jwk' }).export({ format: 'jwk' }),
+      alg
+    };
+  }
+}
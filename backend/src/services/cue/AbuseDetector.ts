@@ -0,0 +1,292 @@
+// ============================================================================
+// 🕵️ CUE 마이닝 어뷰징 탐지
+// 경로: backend/src/services/cue/AbuseDetector.ts
+// 용도: 채팅 보상 마이닝 전에 상호작용을 점수화하여 스팸성 파밍을 보류
+// 신호: 유사 프롬프트 반복 | 단시간 폭주 | 낮은 엔트로피 | 보상 키워드 남용 | 같은 기기 다계정
+// 기록: cue_abuse_events (원문 대신 문자 5-gram 해시만 저장)
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+
+/** CUEMiningService 품질 보너스가 가산하는 기술 용어 (키워드 남용 탐지에도 사용) */
+export const REWARDED_TECH_TERMS = [
+  'api', 'code', 'algorithm', 'system', 'data', 'programming',
+  '개발', '시스템', '알고리즘', 'database', 'server', 'client'
+];
+
+export const ABUSE_THRESHOLDS = {
+  /** 종합 점수가 이 값 이상이면 보상 보류 */
+  holdScore: 0.6,
+  duplicateSimilarity: 0.8,
+  duplicateWindowMs: 60 * 60 * 1000,
+  burstWindowMs: 60 * 1000,
+  burstMax: 6,
+  hourlyMax: 60,
+  minEntropyBits: 2.5,
+  minUniqueWordRatio: 0.3,
+  maxKeywordDensity: 0.3,
+  sharedDeviceWindowMs: 24 * 60 * 60 * 1000,
+  recentEventLimit: 100
+};
+
+const SHINGLE_SIZE = 5;
+
+export type AbuseSignalType =
+  | 'near_duplicate'
+  | 'burst_rate'
+  | 'low_entropy'
+  | 'keyword_stuffing'
+  | 'shared_device';
+
+export interface AbuseSignal {
+  type: AbuseSignalType;
+  /** 0~1 */
+  score: number;
+  detail: string;
+}
+
+export interface InteractionContext {
+  messageContent: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+  /** 클라이언트가 보낸 기기 식별자 (X-Device-Id) - 위조 가능하므로 보조 신호로만 사용 */
+  deviceId?: string | null;
+}
+
+export interface AbuseAssessment {
+  eventId: string;
+  score: number;
+  suspicious: boolean;
+  signals: AbuseSignal[];
+}
+
+/**
+ * Express 요청에서 기기 정보 추출 (라우트에서 사용)
+ */
+export function interactionContextFromRequest(
+  req: { ip?: string; get(name: string): string | undefined },
+  messageContent: string
+): InteractionContext {
+  return {
+    messageContent,
+    ipAddress: req.ip || null,
+    userAgent: req.get('User-Agent') || null,
+    deviceId: req.get('X-Device-Id') || null
+  };
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * 문자 5-gram 해시 집합 (언어 무관 유사 문장 비교용)
+ */
+export function shingles(text: string): number[] {
+  const normalized = normalize(text);
+  const source = normalized.length < SHINGLE_SIZE ? [normalized] : [];
+  for (let i = 0; i + SHINGLE_SIZE <= normalized.length; i++) {
+    source.push(normalized.substring(i, i + SHINGLE_SIZE));
+  }
+  return Array.from(new Set(
+    source.map(s => crypto.createHash('sha1').update(s).digest().readUInt32BE(0))
+  ));
+}
+
+function jaccard(a: number[], b: number[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const setB = new Set(b);
+  const intersection = a.filter(x => setB.has(x)).length;
+  return intersection / (a.length + b.length - intersection);
+}
+
+function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const ch of text) counts.set(ch, (counts.get(ch) || 0) + 1);
+  const length = text.length;
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+export class AbuseDetector {
+  constructor(private db: any) {}
+
+  /**
+   * 상호작용 점수화 + 이벤트 기록 (이후 요청의 비교 대상이 됨)
+   */
+  async assess(userDid: string, context: InteractionContext): Promise<AbuseAssessment> {
+    const now = Date.now();
+    const fingerprint = shingles(context.messageContent);
+    const deviceHash = this.deviceHash(context);
+    const claimedDeviceHash = context.deviceId ? this.hash(`device:${context.deviceId}`) : null;
+
+    const recent = await this.db.getRecentAbuseEvents(
+      userDid,
+      new Date(now - ABUSE_THRESHOLDS.duplicateWindowMs).toISOString(),
+      ABUSE_THRESHOLDS.recentEventLimit
+    );
+
+    const signals = [
+      this.duplicateSignal(fingerprint, recent),
+      this.burstSignal(recent, now),
+      this.entropySignal(context.messageContent),
+      this.keywordSignal(context.messageContent),
+      await this.sharedDeviceSignal(userDid, deviceHash, claimedDeviceHash, now)
+    ].filter((s): s is AbuseSignal => s !== null && s.score > 0);
+
+    // 독립 신호 결합: 1 - Π(1 - s)
+    const score = Math.round((1 - signals.reduce((acc, s) => acc * (1 - s.score), 1)) * 100) / 100;
+    const suspicious = score >= ABUSE_THRESHOLDS.holdScore;
+
+    const eventId = crypto.randomUUID();
+    await this.db.createAbuseEvent({
+      id: eventId,
+      did: userDid,
+      device_hash: deviceHash,
+      claimed_device_hash: claimedDeviceHash,
+      shingles: fingerprint,
+      score,
+      signals,
+      created_at: new Date(now).toISOString()
+    });
+
+    if (suspicious) {
+      console.log(`🕵️ 의심 마이닝 탐지: ${userDid} (점수 ${score}, ${signals.map(s => s.type).join(', ')})`);
+    }
+
+    return { eventId, score, suspicious, signals };
+  }
+
+  // ============================================================================
+  // 🔎 개별 신호
+  // ============================================================================
+
+  private duplicateSignal(fingerprint: number[], recent: any[]): AbuseSignal | null {
+    const duplicates = recent.filter(event =>
+      jaccard(fingerprint, event.shingles || []) >= ABUSE_THRESHOLDS.duplicateSimilarity
+    ).length;
+    if (duplicates === 0) return null;
+
+    return {
+      type: 'near_duplicate',
+      score: Math.min(0.9, 0.4 + duplicates * 0.15),
+      detail: `${duplicates} near-duplicate prompt(s) in the last hour`
+    };
+  }
+
+  private burstSignal(recent: any[], now: number): AbuseSignal | null {
+    const lastMinute = recent.filter(event =>
+      now - Date.parse(event.created_at) < ABUSE_THRESHOLDS.burstWindowMs
+    ).length;
+
+    if (lastMinute >= ABUSE_THRESHOLDS.burstMax * 2) {
+      return { type: 'burst_rate', score: 0.8, detail: `${lastMinute} interactions in the last minute` };
+    }
+    if (lastMinute >= ABUSE_THRESHOLDS.burstMax) {
+      return { type: 'burst_rate', score: 0.5, detail: `${lastMinute} interactions in the last minute` };
+    }
+    if (recent.length >= ABUSE_THRESHOLDS.hourlyMax) {
+      return { type: 'burst_rate', score: 0.6, detail: `${recent.length} interactions in the last hour` };
+    }
+    return null;
+  }
+
+  private entropySignal(message: string): AbuseSignal | null {
+    const normalized = normalize(message);
+    if (normalized.length < 20) return null;
+
+    const entropy = shannonEntropy(normalized);
+    if (entropy < ABUSE_THRESHOLDS.minEntropyBits) {
+      return { type: 'low_entropy', score: 0.6, detail: `character entropy ${entropy.toFixed(2)} bits` };
+    }
+
+    const words = normalized.split(' ');
+    const uniqueRatio = new Set(words).size / words.length;
+    if (words.length >= 10 && uniqueRatio < ABUSE_THRESHOLDS.minUniqueWordRatio) {
+      return { type: 'low_entropy', score: 0.5, detail: `only ${Math.round(uniqueRatio * 100)}% unique words` };
+    }
+    return null;
+  }
+
+  private keywordSignal(message: string): AbuseSignal | null {
+    const words = normalize(message).split(' ').filter(Boolean);
+    const questionMarks = (message.match(/\?/g) || []).length;
+    if (words.length < 5 && questionMarks <= 3) return null;
+
+    const keywordHits = words.filter(word => REWARDED_TECH_TERMS.includes(word)).length;
+    const density = words.length > 0 ? keywordHits / words.length : 0;
+
+    if (density > ABUSE_THRESHOLDS.maxKeywordDensity || questionMarks > Math.max(3, words.length / 2)) {
+      return {
+        type: 'keyword_stuffing',
+        score: density > 0.5 ? 0.7 : 0.5,
+        detail: `reward keyword density ${Math.round(density * 100)}%, ${questionMarks} question marks`
+      };
+    }
+    return null;
+  }
+
+  /**
+   * 같은 기기에서 마이닝한 다른 계정 - 서버가 관측한 IP+User-Agent 기준, 클라이언트 기기 ID는 추가 근거
+   */
+  private async sharedDeviceSignal(
+    userDid: string,
+    deviceHash: string | null,
+    claimedDeviceHash: string | null,
+    now: number
+  ): Promise<AbuseSignal | null> {
+    const since = new Date(now - ABUSE_THRESHOLDS.sharedDeviceWindowMs).toISOString();
+    const [observed, claimed] = await Promise.all([
+      deviceHash
+        ? this.db.getAbuseEventsByDevice(deviceHash, since, ABUSE_THRESHOLDS.recentEventLimit)
+        : [],
+      claimedDeviceHash
+        ? this.db.getAbuseEventsByDevice(claimedDeviceHash, since, ABUSE_THRESHOLDS.recentEventLimit, 'claimed_device_hash')
+        : []
+    ]);
+    const otherAccounts = new Set(
+      [...observed, ...claimed].map((event: any) => event.did).filter((did: string) => did !== userDid)
+    ).size;
+    if (otherAccounts === 0) return null;
+
+    return {
+      type: 'shared_device',
+      score: otherAccounts >= 2 ? 0.7 : 0.3,
+      detail: `${otherAccounts} other account(s) mined from this device in 24h`
+    };
+  }
+
+  /**
+   * 서버가 관측한 클라이언트 식별 (접속 IP + User-Agent)
+   */
+  private deviceHash(context: InteractionContext): string | null {
+    return context.ipAddress && context.userAgent
+      ? this.hash(`client:${context.ipAddress}|${context.userAgent}`)
+      : null;
+  }
+
+  private hash(identity: string): string {
+    return crypto.createHash('sha256').update(identity).digest('hex');
+  }
+}
+
+let sharedDetector: AbuseDetector | null = null;
+
+export function getAbuseDetector(): AbuseDetector {
+  if (!sharedDetector) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedDetector = new AbuseDetector(db);
+  }
+  return sharedDetector;
+}
@@ -5,28 +5,27 @@
 // 수정사항: 기존 간단한 버전과 고급 버전 통합
 // ============================================================================
 
-// Make sure the following import path is correct and the file exists.
-// If the file does not exist, create it or update the path accordingly.
-import { DatabaseService } from '../database/DatabaseService';
-import { supabaseService } from '../database/SupabaseService';
 import { v4 as uuidv4 } from 'uuid';
+import { CueLedger, LedgerEntryView, getCueLedger, userAccount } from './CueLedger';
+import { MiningLimiter, MiningStateView, getMiningLimiter } from './MiningLimiter';
+import { AbuseDetector, InteractionContext, REWARDED_TECH_TERMS, getAbuseDetector } from './AbuseDetector';
+import { MiningReviewQueue, getMiningReviewQueue } from './MiningReviewQueue';
+import { RewardInputs, RewardPolicyEngine, getRewardPolicyEngine, rewardPolicyMetadata } from './RewardPolicyEngine';
 
 export class CUEMiningService {
-  private db: any;
-
-  constructor(database?: any) {
-    // 자동으로 적절한 데이터베이스 서비스 선택
-    this.db = database || (
-      process.env.USE_MOCK_DATABASE === 'true' || 
-      !process.env.SUPABASE_URL || 
-      process.env.SUPABASE_URL.includes('dummy')
-        ? DatabaseService.getInstance()
-        : supabaseService
-    );
-  }
+  // 모든 마이닝/소비는 CUE 원장을 통해 기록, 사용자 활동 마이닝은 한도 적용
+  // 채팅 보상은 어뷰징 점수가 높으면 원장 대신 검토 대기열에 보류
+  // 보상 금액은 버전 관리되는 보상 정책으로 계산
+  constructor(
+    private ledger: CueLedger = getCueLedger(),
+    private limiter: MiningLimiter = getMiningLimiter(),
+    private abuseDetector: AbuseDetector = getAbuseDetector(),
+    private reviewQueue: MiningReviewQueue = getMiningReviewQueue(),
+    private policies: RewardPolicyEngine = getRewardPolicyEngine()
+  ) {}
 
   /**
-   * AI 상호작용으로부터 CUE 토큰을 마이닝합니다 (개선된 버전)
+   * AI 상호작용으로부터 CUE 토큰을 마이닝합니다 (보상 정책 'ai_chat' 공식)
    */
   async mineFromInteraction(params: {
     userDid: string;
@@ -36,6 +35,9 @@ export class CUEMiningService {
     personalContextUsed: number;
     responseTime: number;
     conversationId: string;
+    idempotencyKey?: string;
+    /** 요청 기기 정보 (어뷰징 탐지용) */
+    client?: Omit<InteractionContext, 'messageContent'>;
   }): Promise<number> {
     try {
       const { 
@@ -45,52 +47,18 @@ export class CUEMiningService {
         model, 
         personalContextUsed, 
         responseTime,
-        conversationId 
+        conversationId,
+        idempotencyKey,
+        client
       } = params;
 
-      // 기본 보상
-      let baseReward = 2.0;
-      
-      // 개인화 컨텍스트 사용량에 따른 보너스
-      const contextBonus = Math.min(personalContextUsed * 0.5, 5.0);
-      
-      // 응답 품질에 따른 보너스 (응답 시간 기반)
-      const qualityBonus = responseTime < 3000 ? 1.0 : 0.5;
-      
-      // 메시지 복잡도에 따른 보너스
-      const complexityBonus = Math.min(messageContent.length / 100, 3.0);
-      
-      // AI 모델별 가중치
-      const modelMultipliers: Record<string, number> = {
-        'personalized-agent': 1.5,
-        'gpt-4o': 1.2,
-        'gpt-4': 1.2,
-        'claude-3.5-sonnet': 1.2,
-        'claude-sonnet': 1.1,
-        'gemini-pro': 1.0
-      };
-      const modelMultiplier = modelMultipliers[model] || 1.0;
-      
-      // 고급 분석 추가
-      const advancedAnalysis = this.performAdvancedAnalysis(messageContent, aiResponse);
-      
-      const totalReward = (
-        baseReward + 
-        contextBonus + 
-        qualityBonus + 
-        complexityBonus + 
-        advancedAnalysis.bonus
-      ) * modelMultiplier;
-      
-      const finalAmount = Math.round(totalReward * 100) / 100;
-
-      // CUE 트랜잭션 생성
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'mining',
-        amount: finalAmount,
-        status: 'completed',
+      const reward = await this.policies.calculate('ai_chat', this.interactionRewardInputs(params));
+
+      // CUE 원장 기록 (어뷰징 검사 → 일일 한도/쿨다운/연속 일수 배율 적용)
+      const minedAmount = await this.mineWithLimits(userDid, reward.amount, {
+        idempotencyKey: idempotencyKey || `ai_chat:${uuidv4()}`,
         source: 'ai_chat',
+        interaction: { ...client, messageContent },
         description: `CUE mined from AI chat interaction (${model})`,
         metadata: {
           model,
@@ -99,18 +67,13 @@ export class CUEMiningService {
           responseTime,
           contextUsed: personalContextUsed,
           conversationId,
-          baseReward,
-          contextBonus,
-          qualityBonus,
-          complexityBonus,
-          modelMultiplier,
-          advancedAnalysis,
+          rewardPolicy: rewardPolicyMetadata(reward),
           calculationTimestamp: new Date().toISOString()
         }
       });
 
-      console.log(`⛏️ CUE 마이닝 완료: ${finalAmount} tokens for ${userDid}`);
-      return finalAmount;
+      console.log(`⛏️ CUE 마이닝 완료: ${minedAmount} tokens for ${userDid}`);
+      return minedAmount;
 
     } catch (error) {
       console.error('CUE 마이닝 오류:', error);
@@ -119,159 +82,158 @@ export class CUEMiningService {
   }
 
   /**
-   * 고급 분석 수행 (메시지 품질, 기술적 복잡도 등)
+   * 보상 공식 입력값 추출 (메시지 품질, 기술적 복잡도, 응답 구조 등)
+   * 가격은 보상 정책이 정하고 여기서는 특성만 계산 (드라이런에서도 사용)
    */
-  private performAdvancedAnalysis(messageContent: string, aiResponse: string): {
-    bonus: number;
-    factors: string[];
-    details: any;
-  } {
-    let bonus = 0;
-    const factors: string[] = [];
-    const details: any = {};
-
-    // 질문 복잡도 분석
-    const hasQuestion = messageContent.includes('?') || 
-                       /how|what|why|when|where|어떻게|무엇|왜|언제|어디/.test(messageContent.toLowerCase());
-    if (hasQuestion) {
-      bonus += 0.5;
-      factors.push('질문 포함');
-      details.hasQuestion = true;
-    }
-
-    // 기술적 용어 분석
-    const techTerms = ['api', 'code', 'algorithm', 'system', 'data', 'programming', 
-                      '개발', '시스템', '알고리즘', 'database', 'server', 'client'];
-    const techTermCount = techTerms.filter(term => 
-      messageContent.toLowerCase().includes(term)
-    ).length;
-    
-    if (techTermCount > 0) {
-      const techBonus = Math.min(techTermCount * 0.3, 1.5);
-      bonus += techBonus;
-      factors.push(`기술 용어 ${techTermCount}개`);
-      details.techTermCount = techTermCount;
-      details.techBonus = techBonus;
-    }
-
-    // 응답 품질 분석
-    const responseQuality = this.analyzeResponseQuality(aiResponse);
-    bonus += responseQuality.bonus;
-    factors.push(...responseQuality.factors);
-    details.responseQuality = responseQuality;
-
-    // 대화 길이 보너스
-    const conversationLengthBonus = this.calculateConversationBonus(messageContent, aiResponse);
-    bonus += conversationLengthBonus;
-    if (conversationLengthBonus > 0) {
-      factors.push('대화 길이 보너스');
-      details.conversationLengthBonus = conversationLengthBonus;
-    }
+  interactionRewardInputs(params: {
+    messageContent: string;
+    aiResponse: string;
+    model: string;
+    personalContextUsed: number;
+    responseTime: number;
+  }): RewardInputs {
+    const { messageContent, aiResponse, model, personalContextUsed, responseTime } = params;
+    const lowered = messageContent.toLowerCase();
 
     return {
-      bonus: Math.round(bonus * 100) / 100,
-      factors,
-      details
+      model,
+      personalContextUsed,
+      responseTime,
+      messageLength: messageContent.length,
+      // 질문 복잡도
+      hasQuestion: messageContent.includes('?') ||
+                   /how|what|why|when|where|어떻게|무엇|왜|언제|어디/.test(lowered),
+      // 기술적 용어
+      techTermCount: REWARDED_TECH_TERMS.filter(term => lowered.includes(term)).length,
+      // 응답 품질 (길이, 리스트/제목 구조, 코드 블록)
+      responseLength: aiResponse.length,
+      hasStructure: /[\*\-\d+\.]\s/.test(aiResponse) ||
+                    aiResponse.includes('**') ||
+                    aiResponse.includes('##'),
+      hasCode: aiResponse.includes('```') || aiResponse.includes('`'),
+      totalLength: messageContent.length + aiResponse.length
     };
   }
 
   /**
-   * AI 응답 품질 분석
+   * 원장 기록 결과에서 사용자에게 지급된 금액 (재시도 시 최초 기록 금액)
    */
-  private analyzeResponseQuality(aiResponse: string): {
-    bonus: number;
-    factors: string[];
-  } {
-    let bonus = 0;
-    const factors: string[] = [];
-
-    // 응답 길이 적절성
-    if (aiResponse.length >= 100 && aiResponse.length <= 2000) {
-      bonus += 0.3;
-      factors.push('적절한 응답 길이');
-    } else if (aiResponse.length > 2000) {
-      bonus += 0.5;
-      factors.push('상세한 응답');
-    }
+  private creditedAmount(entry: LedgerEntryView, userDid: string): number {
+    const posting = entry.postings.find(p => p.account === userAccount(userDid));
+    return posting ? posting.amount : 0;
+  }
 
-    // 구조화된 응답 (리스트, 제목 등)
-    const hasStructure = /[\*\-\d+\.]\s/.test(aiResponse) || 
-                        aiResponse.includes('**') || 
-                        aiResponse.includes('##');
-    if (hasStructure) {
-      bonus += 0.4;
-      factors.push('구조화된 응답');
+  /**
+   * 한도 적용 마이닝 - 이미 기록된 멱등성 키면 한도 확인 없이 최초 금액 반환
+   * interaction이 있으면 어뷰징 점수가 기준 이상일 때 지급 대신 검토 보류 (0 반환)
+   */
+  private async mineWithLimits(
+    userDid: string,
+    baseAmount: number,
+    options: {
+      idempotencyKey: string;
+      source: string;
+      type?: 'mining' | 'reward';
+      description: string;
+      metadata?: any;
+      interaction?: InteractionContext;
+    }
+  ): Promise<number> {
+    const existing = await this.ledger.getEntry(options.idempotencyKey);
+    if (existing) {
+      return this.creditedAmount(existing, userDid);
     }
 
-    // 코드 블록 포함
-    if (aiResponse.includes('```') || aiResponse.includes('`')) {
-      bonus += 0.6;
-      factors.push('코드 예제 포함');
+    if (options.interaction) {
+      const assessment = await this.abuseDetector.assess(userDid, options.interaction);
+      if (assessment.suspicious) {
+        await this.reviewQueue.hold({
+          userDid,
+          amount: baseAmount,
+          source: options.source,
+          idempotencyKey: options.idempotencyKey,
+          type: options.type,
+          description: options.description,
+          metadata: { ...options.metadata, baseAmount },
+          assessment
+        });
+        return 0;
+      }
     }
 
-    return { bonus, factors };
-  }
+    const allowance = await this.limiter.mine(userDid, options.source, baseAmount, (amount, multiplier) =>
+      this.ledger.mine(userDid, amount, {
+        idempotencyKey: options.idempotencyKey,
+        type: options.type,
+        source: options.source,
+        description: options.description,
+        metadata: {
+          ...options.metadata,
+          baseAmount,
+          streakMultiplier: multiplier
+        }
+      })
+    );
 
-  /**
-   * 대화 길이 보너스 계산
-   */
-  private calculateConversationBonus(messageContent: string, aiResponse: string): number {
-    const totalLength = messageContent.length + aiResponse.length;
-    
-    if (totalLength > 1000) return 0.5;
-    if (totalLength > 500) return 0.3;
-    if (totalLength > 200) return 0.1;
-    
-    return 0;
+    if (allowance.reason) {
+      console.log(`ℹ️ CUE 마이닝 제한 (${allowance.reason}): ${userDid} - ${options.source}`);
+    }
+    return allowance.credited;
   }
 
   /**
-   * 거래 기록 생성 (호환성 보장)
+   * 외부에서 계산한 활동 보상을 한도 적용하여 마이닝 (AI 채팅 라우트 등)
    */
-  private async recordTransaction(transactionData: any): Promise<void> {
+  async mineActivity(params: {
+    userDid: string;
+    source: string;
+    amount: number;
+    idempotencyKey?: string;
+    description?: string;
+    metadata?: any;
+    /** 채팅 등 사용자 입력 기반 보상이면 어뷰징 검사 */
+    interaction?: InteractionContext;
+  }): Promise<number> {
     try {
-      // 적절한 메서드 사용 (호환성)
-      if (typeof this.db.recordCueTransaction === 'function') {
-        await this.db.recordCueTransaction(transactionData);
-      } else if (typeof this.db.createCUETransaction === 'function') {
-        await this.db.createCUETransaction(transactionData);
-      } else if (typeof this.db.createCUETransactionTyped === 'function') {
-        await this.db.createCUETransactionTyped(transactionData);
-      } else {
-        console.warn('⚠️ CUE 거래 기록 메서드를 찾을 수 없습니다');
-      }
+      const { userDid, source, amount, idempotencyKey, description, metadata, interaction } = params;
+      return await this.mineWithLimits(userDid, amount, {
+        idempotencyKey: idempotencyKey || `${source}:${uuidv4()}`,
+        source,
+        description: description || `CUE mined from ${source}`,
+        metadata,
+        interaction
+      });
     } catch (error) {
-      console.error('CUE 거래 기록 오류:', error);
-      // 거래 기록 실패는 전체 프로세스를 중단시키지 않음
+      console.error('CUE 활동 마이닝 오류:', error);
+      return 0;
     }
   }
 
   /**
-   * CUE 소비 (기능 사용 시)
+   * 마이닝 한도/연속 일수 상태 (MiningStatus 화면용)
    */
-  async spendCUE(userDid: string, amount: number, purpose: string, metadata: any = {}): Promise<number> {
-    try {
-      // CUE 잔액 확인
-      const balance = await this.getBalance(userDid);
-      
-      if (balance < amount) {
-        throw new Error(`Insufficient CUE balance. Current: ${balance}, Required: ${amount}`);
-      }
+  async getMiningState(userDid: string, timezone?: string): Promise<MiningStateView> {
+    return this.limiter.getState(userDid, timezone);
+  }
 
-      // 소비 트랜잭션 생성
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'spending',
-        amount: -amount, // 음수로 기록
-        status: 'completed',
+  /**
+   * CUE 소비 (기능 사용 시) - 잔액 부족 시 CueLedgerError(INSUFFICIENT_FUNDS)
+   */
+  async spendCUE(
+    userDid: string,
+    amount: number,
+    purpose: string,
+    metadata: any = {},
+    idempotencyKey?: string
+  ): Promise<number> {
+    try {
+      await this.ledger.spend(userDid, amount, {
+        idempotencyKey: idempotencyKey || `spend:${uuidv4()}`,
         source: purpose,
         description: `CUE spent on ${purpose}`,
         metadata: {
           ...metadata,
-          originalAmount: amount,
-          spendingPurpose: purpose,
-          balanceBefore: balance,
-          balanceAfter: balance - amount
+          spendingPurpose: purpose
         }
       });
 
@@ -288,12 +250,7 @@ export class CUEMiningService {
    */
   async getBalance(userDid: string): Promise<number> {
     try {
-      if (typeof this.db.getCUEBalance === 'function') {
-        return await this.db.getCUEBalance(userDid);
-      } else {
-        console.warn('CUE 잔액 조회 메서드를 찾을 수 없습니다');
-        return 0;
-      }
+      return await this.ledger.getBalance(userDid);
     } catch (error) {
       console.error('CUE 잔액 조회 오류:', error);
       return 0;
@@ -301,27 +258,33 @@ export class CUEMiningService {
   }
 
   /**
-   * 거래 내역 조회
+   * 거래 내역 조회 (검토 중/거절된 보류 보상 포함, 최신순)
    */
   async getTransactionHistory(userDid: string, limit = 50): Promise<any[]> {
     try {
-      if (typeof this.db.getCUETransactions === 'function') {
-        return await this.db.getCUETransactions(userDid, limit);
-      } else if (this.db.getClient && typeof this.db.getClient === 'function') {
-        // Supabase 직접 접근
-        const { data: transactions, error } = await this.db.getClient()
-          .from('cue_transactions')
-          .select('*')
-          .eq('user_did', userDid)
-          .order('created_at', { ascending: false })
-          .limit(limit);
-
-        if (error) throw error;
-        return transactions || [];
-      } else {
-        console.warn('거래 내역 조회 메서드를 찾을 수 없습니다');
-        return [];
-      }
+      const [history, reviews] = await Promise.all([
+        this.ledger.getHistory(userDid, limit),
+        this.reviewQueue.listForUser(userDid, limit)
+      ]);
+
+      // 승인된 보류 보상은 원장 기록으로 이미 포함됨
+      const held = reviews
+        .filter(review => review.status !== 'approved')
+        .map(review => ({
+          id: review.id,
+          transaction_type: 'mining',
+          amount: review.amount,
+          status: review.status,
+          source: review.source,
+          description: review.description,
+          metadata: { reviewId: review.id, abuseScore: review.score },
+          idempotency_key: null,
+          created_at: review.createdAt
+        }));
+
+      return [...history, ...held]
+        .sort((a, b) => String(b.created_at).localeCompare(String(a.created_at)))
+        .slice(0, limit);
     } catch (error) {
       console.error('거래 내역 조회 오류:', error);
       return [];
@@ -341,32 +304,15 @@ export class CUEMiningService {
     try {
       const { userDid, dataType, dataSize, extractionQuality, processingTime } = params;
 
-      // 데이터 크기 기반 점수
-      const sizeScore = Math.min(dataSize / 1000, 10);
-      
-      // 데이터 타입별 가중치
-      const typeMultipliers: Record<string, number> = {
-        'text': 1.0,
-        'image': 1.2,
-        'video': 1.5,
-        'audio': 1.3,
-        'document': 1.1,
-        'code': 1.4
-      };
-      
-      const typeMultiplier = typeMultipliers[dataType] || 1.0;
-      const qualityBonus = extractionQuality * 2;
-      const efficiencyBonus = processingTime < 10000 ? 1 : 0.5;
-      
-      const totalCue = Math.round(
-        (sizeScore * typeMultiplier + qualityBonus + efficiencyBonus) * 100
-      ) / 100;
-
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'mining',
-        amount: totalCue,
-        status: 'completed',
+      const reward = await this.policies.calculate('data_extraction', {
+        dataType,
+        dataSize,
+        extractionQuality,
+        processingTime
+      });
+
+      const minedAmount = await this.mineWithLimits(userDid, reward.amount, {
+        idempotencyKey: `data_extraction:${uuidv4()}`,
         source: 'data_extraction',
         description: `Data extraction CUE mining (${dataType})`,
         metadata: {
@@ -374,15 +320,12 @@ export class CUEMiningService {
           dataSize,
           extractionQuality,
           processingTime,
-          sizeScore,
-          typeMultiplier,
-          qualityBonus,
-          efficiencyBonus
+          rewardPolicy: rewardPolicyMetadata(reward)
         }
       });
 
-      console.log(`⛏️ 데이터 추출 CUE 마이닝 완료: ${totalCue} tokens`);
-      return totalCue;
+      console.log(`⛏️ 데이터 추출 CUE 마이닝 완료: ${minedAmount} tokens`);
+      return minedAmount;
     } catch (error) {
       console.error('데이터 추출 CUE 마이닝 오류:', error);
       return 0;
@@ -390,27 +333,35 @@ export class CUEMiningService {
   }
 
   /**
-   * 일일 로그인 보너스
+   * 일일 로그인 보너스 (사용자 시간대 기준 하루 1회)
    */
-  async mineLoginBonus(userDid: string): Promise<number> {
+  async mineLoginBonus(userDid: string, timezone?: string): Promise<number> {
     try {
-      const bonusAmount = 5.0;
-
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'reward',
-        amount: bonusAmount,
-        status: 'completed',
-        source: 'daily_login',
-        description: 'Daily login bonus',
-        metadata: {
-          bonusType: 'daily_login',
-          timestamp: new Date().toISOString()
-        }
-      });
+      const reward = await this.policies.calculate('daily_login', {});
+      const allowance = await this.limiter.claimLoginBonus(userDid, timezone, (bonusAmount, localDay) =>
+        // 같은 날 두 번째 요청은 멱등성 키로 기존 기록을 돌려받음
+        this.ledger.mine(userDid, bonusAmount, {
+          idempotencyKey: `daily_login:${userDid}:${localDay}`,
+          type: 'reward',
+          source: 'daily_login',
+          description: 'Daily login bonus',
+          metadata: {
+            bonusType: 'daily_login',
+            localDay,
+            rewardPolicy: rewardPolicyMetadata(reward),
+            timestamp: new Date().toISOString()
+          }
+        }),
+        reward.amount
+      );
 
-      console.log(`⛏️ 일일 로그인 보너스: ${bonusAmount} CUE`);
-      return bonusAmount;
+      if (allowance.reason === 'already_claimed') {
+        console.log(`ℹ️ 오늘 로그인 보너스 이미 지급됨: ${userDid}`);
+        return 0;
+      }
+
+      console.log(`⛏️ 일일 로그인 보너스: ${allowance.credited} CUE`);
+      return allowance.credited;
     } catch (error) {
       console.error('로그인 보너스 마이닝 오류:', error);
       return 0;
@@ -429,8 +380,9 @@ export class CUEMiningService {
     try {
       const transactions = await this.getTransactionHistory(userDid, days * 10);
       
-      // 마이닝 거래만 필터링
+      // 지급 완료된 마이닝 거래만 필터링
       const miningTransactions = transactions.filter(tx => 
+        tx.status === 'completed' &&
         (tx.transaction_type === 'mining' || tx.transaction_type === 'reward') && 
         new Date(tx.created_at) > new Date(Date.now() - days * 24 * 60 * 60 * 1000)
       );
@@ -470,7 +422,7 @@ export class CUEMiningService {
   }
 
   /**
-   * CUE 보상 지급 (시스템 보상)
+   * CUE 보상 지급 (사용자 활동 보상 - 한도 적용)
    */
   async awardCUE(params: {
     userDid: string;
@@ -478,22 +430,21 @@ export class CUEMiningService {
     reason: string;
     description?: string;
     metadata?: any;
+    idempotencyKey?: string;
   }): Promise<number> {
     try {
-      const { userDid, amount, reason, description, metadata } = params;
+      const { userDid, amount, reason, description, metadata, idempotencyKey } = params;
 
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'reward',
-        amount: amount,
-        status: 'completed',
+      const awardedAmount = await this.mineWithLimits(userDid, amount, {
+        idempotencyKey: idempotencyKey || `${reason}:${uuidv4()}`,
+        type: 'reward',
         source: reason,
         description: description || `CUE reward: ${reason}`,
         metadata: metadata || {}
       });
 
-      console.log(`🎁 CUE 보상 지급: ${amount} tokens (${reason})`);
-      return amount;
+      console.log(`🎁 CUE 보상 지급: ${awardedAmount} tokens (${reason})`);
+      return awardedAmount;
     } catch (error) {
       console.error('CUE 보상 지급 오류:', error);
       return 0;
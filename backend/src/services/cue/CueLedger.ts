@@ -0,0 +1,545 @@
+// ============================================================================
+// 📒 CUE 원장 서비스 (추가 전용, 복식부기)
+// 경로: backend/src/services/cue/CueLedger.ts
+// 용도: 모든 CUE 마이닝/소비/보상을 하나의 분개로 기록하고 잔액을 계산
+// 구조: 분개(cue_ledger_entries) 1건 = 합계가 0인 전기(cue_ledger_postings) 2건 이상
+//       계정: user:<did> | system:mint (발행) | system:treasury (소비 수취) | system:escrow (보관)
+//             system:holds (유료 기능 사용 중 예약) | system:bridge (온체인 출금분)
+// 잔액: 최신 스냅샷(cue_ledger_snapshots) + 스냅샷 이후 전기 합계
+// 영수증: 마이닝/보상 분개는 cue_hash(일별 Merkle 트리 리프)를 함께 저장
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { cueReceiptLeaf } from '../settlement/merkle';
+
+export const LEDGER_ACCOUNTS = {
+  MINT: 'system:mint',
+  TREASURY: 'system:treasury',
+  ESCROW: 'system:escrow',
+  HOLDS: 'system:holds',
+  BRIDGE: 'system:bridge'
+} as const;
+
+export type LedgerEntryType =
+  | 'opening_balance'
+  | 'mining'
+  | 'reward'
+  | 'spending'
+  | 'transfer'
+  | 'adjustment';
+
+// 발행 계정 → 사용자 분개 = 영수증 대상
+export const RECEIPT_ENTRY_TYPES: LedgerEntryType[] = ['mining', 'reward'];
+
+// 스냅샷 이후 전기가 이만큼 쌓이면 새 스냅샷 저장
+const SNAPSHOT_INTERVAL = 100;
+const MAX_IDEMPOTENCY_KEY_LENGTH = 200;
+
+export enum CueLedgerErrorCode {
+  INVALID_ENTRY = 'INVALID_ENTRY',
+  INVALID_AMOUNT = 'INVALID_AMOUNT',
+  UNBALANCED_ENTRY = 'UNBALANCED_ENTRY',
+  INSUFFICIENT_FUNDS = 'INSUFFICIENT_FUNDS',
+  LEDGER_WRITE_FAILED = 'LEDGER_WRITE_FAILED'
+}
+
+export class CueLedgerError extends Error {
+  constructor(public code: CueLedgerErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'CueLedgerError';
+  }
+}
+
+export interface LedgerPostingInput {
+  account: string;
+  amount: number;
+}
+
+export interface LedgerEntryInput {
+  idempotencyKey: string;
+  type: LedgerEntryType;
+  postings: LedgerPostingInput[];
+  source?: string;
+  description?: string;
+  metadata?: any;
+}
+
+export interface LedgerMovementOptions {
+  idempotencyKey: string;
+  source: string;
+  description?: string;
+  metadata?: any;
+}
+
+export interface LedgerEntryView {
+  id: string;
+  idempotencyKey: string;
+  type: LedgerEntryType;
+  source: string | null;
+  description: string | null;
+  metadata: any;
+  postings: Array<{ account: string; amount: number; seq: number }>;
+  createdAt: string;
+}
+
+export interface LedgerPostResult {
+  entry: LedgerEntryView;
+  /** 같은 멱등성 키로 이미 기록된 분개를 돌려준 경우 true */
+  replayed: boolean;
+}
+
+export interface LedgerConsistencyReport {
+  balanced: boolean;
+  /** 모든 계정 잔액의 합 - 복식부기에서는 항상 0 */
+  totalSum: number;
+  totalSupply: number;
+  entryCount: number;
+  postingCount: number;
+  accountCount: number;
+  systemAccounts: Record<string, number>;
+  unbalancedEntries: string[];
+  snapshotMismatches: Array<{
+    account: string;
+    lastSeq: number;
+    snapshotBalance: number;
+    recomputedBalance: number;
+  }>;
+  checkedAt: string;
+}
+
+export function userAccount(did: string): string {
+  return `user:${did}`;
+}
+
+// 부동소수 오차를 피하기 위해 0.01 CUE 단위 정수로 계산
+export function toUnits(amount: number | string): number {
+  return Math.round(Number(amount) * 100);
+}
+
+function fromUnits(units: number): number {
+  return units / 100;
+}
+
+export class CueLedger {
+  private accountLocks = new Map<string, Promise<void>>();
+  private openedAccounts = new Set<string>();
+
+  constructor(private db: any) {}
+
+  // ============================================================================
+  // ✍️ 기록
+  // ============================================================================
+
+  /**
+   * 분개 기록 - 전기 합계가 0이 아니거나 system:mint 외 계정이 음수가 되면 거부
+   */
+  async postEntry(input: LedgerEntryInput): Promise<LedgerPostResult> {
+    this.validateEntry(input);
+
+    for (const posting of input.postings) {
+      if (posting.account.startsWith('user:')) {
+        await this.ensureOpeningBalance(posting.account.substring('user:'.length));
+      }
+    }
+
+    return this.writeEntry(input);
+  }
+
+  /**
+   * 발행 계정 → 사용자 (마이닝/보상)
+   */
+  async mine(
+    did: string,
+    amount: number,
+    options: LedgerMovementOptions & { type?: 'mining' | 'reward' }
+  ): Promise<LedgerPostResult> {
+    const units = this.requirePositiveUnits(amount);
+
+    return this.postEntry({
+      idempotencyKey: options.idempotencyKey,
+      type: options.type || 'mining',
+      source: options.source,
+      description: options.description,
+      metadata: options.metadata,
+      postings: [
+        { account: LEDGER_ACCOUNTS.MINT, amount: -fromUnits(units) },
+        { account: userAccount(did), amount: fromUnits(units) }
+      ]
+    });
+  }
+
+  /**
+   * 사용자 → 트레저리 (기능 사용 소비)
+   */
+  async spend(did: string, amount: number, options: LedgerMovementOptions): Promise<LedgerPostResult> {
+    const units = this.requirePositiveUnits(amount);
+
+    return this.postEntry({
+      idempotencyKey: options.idempotencyKey,
+      type: 'spending',
+      source: options.source,
+      description: options.description,
+      metadata: options.metadata,
+      postings: [
+        { account: userAccount(did), amount: -fromUnits(units) },
+        { account: LEDGER_ACCOUNTS.TREASURY, amount: fromUnits(units) }
+      ]
+    });
+  }
+
+  // ============================================================================
+  // 💰 조회
+  // ============================================================================
+
+  /**
+   * 멱등성 키로 기록된 분개 조회 (재시도 요청의 이전 결과 확인용)
+   */
+  async getEntry(idempotencyKey: string): Promise<LedgerEntryView | null> {
+    const row = await this.db.getLedgerEntryByIdempotencyKey(idempotencyKey);
+    return row ? this.toEntryView(row) : null;
+  }
+
+  async getBalance(did: string): Promise<number> {
+    await this.ensureOpeningBalance(did);
+    return this.getAccountBalance(userAccount(did));
+  }
+
+  async getAccountBalance(account: string): Promise<number> {
+    return fromUnits((await this.computeAccountUnits(account)).units);
+  }
+
+  /**
+   * 사용자 거래 내역 (기존 cue_transactions 응답과 같은 필드명 유지)
+   */
+  async getHistory(did: string, limit = 50): Promise<any[]> {
+    await this.ensureOpeningBalance(did);
+    const rows = await this.db.getLedgerAccountHistory(userAccount(did), limit);
+
+    return rows.map((row: any) => ({
+      id: row.entry?.id || row.entry_id,
+      transaction_type: row.entry?.entry_type || 'adjustment',
+      amount: fromUnits(toUnits(row.amount)),
+      status: 'completed',
+      source: row.entry?.source || null,
+      description: row.entry?.description || null,
+      metadata: row.entry?.metadata || {},
+      idempotency_key: row.entry?.idempotency_key || null,
+      cue_hash: row.entry?.cue_hash || null,
+      seq: Number(row.seq),
+      created_at: row.created_at
+    }));
+  }
+
+  // ============================================================================
+  // 🧮 정합성 검사
+  // ============================================================================
+
+  /**
+   * 전체 원장 검사 - 분개별 합계 0, 전체 계정 합계 0, 스냅샷 재계산 일치
+   */
+  async verifyConsistency(): Promise<LedgerConsistencyReport> {
+    const postings = await this.db.getAllLedgerPostings();
+    const snapshots = await this.db.getLedgerSnapshots();
+
+    const entrySums = new Map<string, number>();
+    const accountSums = new Map<string, number>();
+    let totalUnits = 0;
+
+    for (const posting of postings) {
+      const units = toUnits(posting.amount);
+      entrySums.set(posting.entry_id, (entrySums.get(posting.entry_id) || 0) + units);
+      accountSums.set(posting.account, (accountSums.get(posting.account) || 0) + units);
+      totalUnits += units;
+    }
+
+    const unbalancedEntries = Array.from(entrySums.entries())
+      .filter(([, units]) => units !== 0)
+      .map(([entryId]) => entryId);
+
+    const snapshotMismatches: LedgerConsistencyReport['snapshotMismatches'] = [];
+    for (const snapshot of snapshots) {
+      const recomputed = postings
+        .filter((p: any) => p.account === snapshot.account && Number(p.seq) <= Number(snapshot.last_seq))
+        .reduce((sum: number, p: any) => sum + toUnits(p.amount), 0);
+
+      if (recomputed !== toUnits(snapshot.balance)) {
+        snapshotMismatches.push({
+          account: snapshot.account,
+          lastSeq: Number(snapshot.last_seq),
+          snapshotBalance: fromUnits(toUnits(snapshot.balance)),
+          recomputedBalance: fromUnits(recomputed)
+        });
+      }
+    }
+
+    const systemAccounts: Record<string, number> = {};
+    for (const account of Object.values(LEDGER_ACCOUNTS)) {
+      systemAccounts[account] = fromUnits(accountSums.get(account) || 0);
+    }
+
+    const report: LedgerConsistencyReport = {
+      balanced: totalUnits === 0 && unbalancedEntries.length === 0 && snapshotMismatches.length === 0,
+      totalSum: fromUnits(totalUnits),
+      totalSupply: fromUnits(-(accountSums.get(LEDGER_ACCOUNTS.MINT) || 0)),
+      entryCount: entrySums.size,
+      postingCount: postings.length,
+      accountCount: accountSums.size,
+      systemAccounts,
+      unbalancedEntries,
+      snapshotMismatches,
+      checkedAt: new Date().toISOString()
+    };
+
+    console.log(`🧮 CUE 원장 정합성 검사: ${report.balanced ? '정상' : '불일치'} (분개 ${report.entryCount}건, 합계 ${report.totalSum})`);
+    return report;
+  }
+
+  // ============================================================================
+  // 🔧 내부 구현
+  // ============================================================================
+
+  private validateEntry(input: LedgerEntryInput): void {
+    if (typeof input.idempotencyKey !== 'string' || input.idempotencyKey.length === 0 ||
+        input.idempotencyKey.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new CueLedgerError(
+        CueLedgerErrorCode.INVALID_ENTRY,
+        `idempotencyKey must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`
+      );
+    }
+    if (!Array.isArray(input.postings) || input.postings.length < 2) {
+      throw new CueLedgerError(CueLedgerErrorCode.INVALID_ENTRY, 'An entry needs at least two postings');
+    }
+
+    let sum = 0;
+    for (const posting of input.postings) {
+      if (typeof posting.account !== 'string' || posting.account.length === 0) {
+        throw new CueLedgerError(CueLedgerErrorCode.INVALID_ENTRY, 'Every posting needs an account');
+      }
+      const units = Number.isFinite(posting.amount) ? toUnits(posting.amount) : 0;
+      if (units === 0) {
+        throw new CueLedgerError(CueLedgerErrorCode.INVALID_AMOUNT, `Posting amount for ${posting.account} must be a non-zero number`);
+      }
+      sum += units;
+    }
+
+    if (sum !== 0) {
+      throw new CueLedgerError(
+        CueLedgerErrorCode.UNBALANCED_ENTRY,
+        `Postings must sum to zero (got ${fromUnits(sum)})`
+      );
+    }
+  }
+
+  private requirePositiveUnits(amount: number): number {
+    const units = Number.isFinite(amount) ? toUnits(amount) : 0;
+    if (units <= 0) {
+      throw new CueLedgerError(CueLedgerErrorCode.INVALID_AMOUNT, 'Amount must be at least 0.01 CUE');
+    }
+    return units;
+  }
+
+  private async writeEntry(input: LedgerEntryInput): Promise<LedgerPostResult> {
+    const existing = await this.db.getLedgerEntryByIdempotencyKey(input.idempotencyKey);
+    if (existing) {
+      return { entry: this.toEntryView(existing), replayed: true };
+    }
+
+    // 출금 계정은 잔액 확인부터 기록까지 같은 프로세스 안에서 직렬화
+    const debitedAccounts = Array.from(new Set(
+      input.postings
+        .filter(p => toUnits(p.amount) < 0 && p.account !== LEDGER_ACCOUNTS.MINT)
+        .map(p => p.account)
+    )).sort();
+
+    const releases: Array<() => void> = [];
+    try {
+      for (const account of debitedAccounts) {
+        releases.push(await this.acquireAccountLock(account));
+      }
+
+      for (const account of debitedAccounts) {
+        const required = -input.postings
+          .filter(p => p.account === account)
+          .reduce((sum, p) => sum + toUnits(p.amount), 0);
+        const { units: available } = await this.computeAccountUnits(account);
+
+        if (available < required) {
+          throw new CueLedgerError(
+            CueLedgerErrorCode.INSUFFICIENT_FUNDS,
+            `Insufficient CUE balance. Current: ${fromUnits(available)}, Required: ${fromUnits(required)}`,
+            402
+          );
+        }
+      }
+
+      const entryId = crypto.randomUUID();
+      const createdAt = new Date().toISOString();
+      const saved = await this.db.createLedgerEntry(
+        {
+          id: entryId,
+          idempotency_key: input.idempotencyKey,
+          entry_type: input.type,
+          source: input.source || null,
+          description: input.description || null,
+          metadata: input.metadata || {},
+          cue_hash: this.receiptHash(entryId, input, createdAt),
+          created_at: createdAt
+        },
+        input.postings.map(p => ({
+          id: crypto.randomUUID(),
+          entry_id: entryId,
+          account: p.account,
+          amount: fromUnits(toUnits(p.amount))
+        }))
+      );
+
+      if (!saved) {
+        // 다른 요청이 같은 키로 먼저 기록함
+        const winner = await this.db.getLedgerEntryByIdempotencyKey(input.idempotencyKey);
+        if (!winner) {
+          throw new CueLedgerError(CueLedgerErrorCode.LEDGER_WRITE_FAILED, 'Ledger entry could not be recorded', 500);
+        }
+        return { entry: this.toEntryView(winner), replayed: true };
+      }
+
+      console.log(`📒 CUE 원장 기록: ${input.type} ${input.postings.map(p => `${p.account} ${p.amount > 0 ? '+' : ''}${p.amount}`).join(', ')}`);
+      await this.snapshotIfDue(input.postings.map(p => p.account));
+
+      return { entry: this.toEntryView(saved), replayed: false };
+    } finally {
+      releases.reverse().forEach(release => release());
+    }
+  }
+
+  /**
+   * 마이닝/보상 분개의 영수증 리프 (그 외 분개는 null)
+   */
+  private receiptHash(entryId: string, input: LedgerEntryInput, createdAt: string): string | null {
+    const credit = input.postings.find(p => p.account.startsWith('user:') && toUnits(p.amount) > 0);
+    if (!RECEIPT_ENTRY_TYPES.includes(input.type) || !credit) return null;
+
+    return cueReceiptLeaf({
+      entryId,
+      did: credit.account.slice('user:'.length),
+      amount: fromUnits(toUnits(credit.amount)),
+      type: input.type,
+      source: input.source || null,
+      createdAt
+    });
+  }
+
+  /**
+   * 원장 도입 전 cue_transactions 합계를 개시 잔액으로 한 번만 이월
+   */
+  private async ensureOpeningBalance(did: string): Promise<void> {
+    if (this.openedAccounts.has(did)) return;
+
+    const idempotencyKey = `opening:${did}`;
+    if (!(await this.db.getLedgerEntryByIdempotencyKey(idempotencyKey))) {
+      const legacyUnits = typeof this.db.getCUEBalance === 'function'
+        ? toUnits(await this.db.getCUEBalance(did))
+        : 0;
+
+      if (legacyUnits > 0) {
+        await this.writeEntry({
+          idempotencyKey,
+          type: 'opening_balance',
+          source: 'legacy_cue_transactions',
+          description: 'Opening balance carried over from cue_transactions',
+          postings: [
+            { account: LEDGER_ACCOUNTS.MINT, amount: -fromUnits(legacyUnits) },
+            { account: userAccount(did), amount: fromUnits(legacyUnits) }
+          ]
+        });
+      }
+    }
+
+    this.openedAccounts.add(did);
+  }
+
+  private async computeAccountUnits(account: string): Promise<{ units: number; lastSeq: number; sinceSnapshot: number }> {
+    const snapshot = await this.db.getLatestLedgerSnapshot(account);
+    const baseSeq = snapshot ? Number(snapshot.last_seq) : 0;
+    const postings = await this.db.getLedgerPostings(account, baseSeq);
+
+    let units = snapshot ? toUnits(snapshot.balance) : 0;
+    let lastSeq = baseSeq;
+    for (const posting of postings) {
+      units += toUnits(posting.amount);
+      lastSeq = Math.max(lastSeq, Number(posting.seq));
+    }
+
+    return { units, lastSeq, sinceSnapshot: postings.length };
+  }
+
+  private async snapshotIfDue(accounts: string[]): Promise<void> {
+    for (const account of new Set(accounts)) {
+      try {
+        const { units, lastSeq, sinceSnapshot } = await this.computeAccountUnits(account);
+        if (sinceSnapshot < SNAPSHOT_INTERVAL) continue;
+
+        await this.db.createLedgerSnapshot({
+          id: crypto.randomUUID(),
+          account,
+          balance: fromUnits(units),
+          last_seq: lastSeq,
+          created_at: new Date().toISOString()
+        });
+        console.log(`📸 CUE 잔액 스냅샷: ${account} = ${fromUnits(units)} (seq ${lastSeq})`);
+      } catch (error) {
+        // 스냅샷은 조회 최적화용이므로 실패해도 기록은 유지
+        console.error('❌ CUE 잔액 스냅샷 실패:', error);
+      }
+    }
+  }
+
+  private async acquireAccountLock(account: string): Promise<() => void> {
+    const previous = this.accountLocks.get(account) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const chained = previous.then(() => current);
+    this.accountLocks.set(account, chained);
+
+    await previous;
+    return () => {
+      release();
+      if (this.accountLocks.get(account) === chained) {
+        this.accountLocks.delete(account);
+      }
+    };
+  }
+
+  private toEntryView(row: any): LedgerEntryView {
+    return {
+      id: row.id,
+      idempotencyKey: row.idempotency_key,
+      type: row.entry_type,
+      source: row.source || null,
+      description: row.description || null,
+      metadata: row.metadata || {},
+      postings: (row.postings || []).map((p: any) => ({
+        account: p.account,
+        amount: fromUnits(toUnits(p.amount)),
+        seq: Number(p.seq)
+      })),
+      createdAt: row.created_at
+    };
+  }
+}
+
+let sharedLedger: CueLedger | null = null;
+
+export function getCueLedger(): CueLedger {
+  if (!sharedLedger) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedLedger = new CueLedger(db);
+  }
+  return sharedLedger;
+}
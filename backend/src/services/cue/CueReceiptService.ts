@@ -0,0 +1,305 @@
+// ============================================================================
+// 🧾 CUE 마이닝 영수증 서비스 (일별 Merkle 루트 + 서버 서명 + 포함 증명)
+// 경로: backend/src/services/cue/CueReceiptService.ts
+// 용도: 대시보드를 믿지 않고도 CUE 보상이 기록되었음을 증명
+// 흐름: 마이닝/보상 분개 기록 시 cue_hash(리프) 저장
+//       → UTC 하루가 끝나면 그날 리프로 트리를 만들고 루트에 ES256 서명 (첫 조회 시 봉인)
+//       → 거래별 포함 증명 = 리프 원문 + 형제 해시 + 서명된 루트
+// 서명 키: CUE_RECEIPT_SIGNING_KEY (P-256 PKCS#8 PEM, 운영 필수), 개발 환경에서 없으면 프로세스 임시 키
+// 기록: cue_receipt_roots (날짜별 1건, 봉인 후 변경 없음)
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { RECEIPT_ENTRY_TYPES, toUnits } from './CueLedger';
+import {
+  buildMerkleTree,
+  CueReceiptLeafInput,
+  cueReceiptLeaf,
+  getMerkleProof,
+  RECEIPT_LEAF_VERSION,
+  sha256Pair,
+  verifyMerkleProof
+} from '../settlement/merkle';
+
+export const RECEIPT_DEFAULTS = {
+  /** 자정 직후 늦게 기록되는 분개를 기다리는 시간 */
+  sealGraceMs: 5 * 60 * 1000,
+  algorithm: 'ES256',
+  rootVersion: 'cue-receipt-root-v1',
+  /** 리프가 없는 날의 루트 */
+  emptyRoot: '0x' + '0'.repeat(64)
+};
+
+export enum ReceiptErrorCode {
+  INVALID_DATE = 'INVALID_DATE',
+  ROOT_NOT_READY = 'ROOT_NOT_READY',
+  TRANSACTION_NOT_FOUND = 'TRANSACTION_NOT_FOUND',
+  RECEIPT_MISMATCH = 'RECEIPT_MISMATCH'
+}
+
+export class ReceiptError extends Error {
+  constructor(public code: ReceiptErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+export interface ReceiptRootView {
+  date: string;
+  root: string;
+  leafCount: number;
+  algorithm: string;
+  /** base64 (IEEE P1363 r||s) 서명 - 원문은 JSON [rootVersion, date, root, leafCount] */
+  signature: string;
+  keyId: string;
+  publicKey: crypto.JsonWebKey;
+  sealedAt: string;
+}
+
+export interface ReceiptSigningKeyView {
+  keyId: string;
+  algorithm: string;
+  publicKey: crypto.JsonWebKey;
+}
+
+export interface ReceiptProofView {
+  transactionId: string;
+  leafVersion: string;
+  leaf: CueReceiptLeafInput;
+  cueHash: string;
+  leafIndex: number;
+  proof: string[];
+  root: ReceiptRootView;
+}
+
+interface ReceiptLeaf {
+  input: CueReceiptLeafInput;
+  hash: string;
+}
+
+interface ReceiptSigner {
+  privateKey: crypto.KeyObject;
+  publicKey: crypto.JsonWebKey;
+  keyId: string;
+}
+
+/**
+ * 서명 원문 - 프론트엔드 검증기와 같은 형식이어야 함
+ */
+export function receiptRootMessage(date: string, root: string, leafCount: number): string {
+  return JSON.stringify([RECEIPT_DEFAULTS.rootVersion, date, root, leafCount]);
+}
+
+export class CueReceiptService {
+  private signer: ReceiptSigner | null = null;
+
+  constructor(private db: any) {}
+
+  /**
+   * 날짜별 서명된 루트 (하루가 끝나기 전이면 409)
+   */
+  async getRoot(date: string): Promise<ReceiptRootView> {
+    const { from, to } = this.dayRange(date);
+    const sealableAt = new Date(to).getTime() + RECEIPT_DEFAULTS.sealGraceMs;
+    if (Date.now() < sealableAt) {
+      throw new ReceiptError(
+        ReceiptErrorCode.ROOT_NOT_READY,
+        `Receipt root for ${date} is published after ${new Date(sealableAt).toISOString()}`,
+        409
+      );
+    }
+
+    const existing = await this.db.getCueReceiptRoot(date);
+    if (existing) return this.toRootView(existing);
+
+    const leaves = await this.loadLeaves(from, to);
+    const root = leaves.length > 0
+      ? buildMerkleTree(leaves.map(l => l.hash), sha256Pair).root
+      : RECEIPT_DEFAULTS.emptyRoot;
+
+    const signer = this.getSigner();
+    const signature = crypto.sign(
+      'sha256',
+      Buffer.from(receiptRootMessage(date, root, leaves.length)),
+      { key: signer.privateKey, dsaEncoding: 'ieee-p1363' }
+    ).toString('base64');
+
+    const saved = await this.db.createCueReceiptRoot({
+      id: crypto.randomUUID(),
+      date,
+      root,
+      leaf_count: leaves.length,
+      algorithm: RECEIPT_DEFAULTS.algorithm,
+      signature,
+      key_id: signer.keyId,
+      public_key: signer.publicKey,
+      created_at: new Date().toISOString()
+    });
+
+    if (!saved) {
+      // 다른 요청이 먼저 봉인함
+      const winner = await this.db.getCueReceiptRoot(date);
+      if (!winner) {
+        throw new ReceiptError(ReceiptErrorCode.RECEIPT_MISMATCH, `Receipt root for ${date} could not be stored`, 500);
+      }
+      return this.toRootView(winner);
+    }
+
+    console.log(`🧾 CUE 영수증 루트 봉인: ${date} (${leaves.length}건) ${root}`);
+    return this.toRootView(saved);
+  }
+
+  /**
+   * 본인 마이닝 거래의 포함 증명
+   */
+  async getProof(did: string, transactionId: string): Promise<ReceiptProofView> {
+    const entry = await this.db.getLedgerEntryById(transactionId);
+    const leaf = entry ? this.toLeaf(entry) : null;
+    if (!leaf || leaf.input.did !== did) {
+      throw new ReceiptError(ReceiptErrorCode.TRANSACTION_NOT_FOUND, 'Mining transaction not found', 404);
+    }
+
+    const date = leaf.input.createdAt.slice(0, 10);
+    const root = await this.getRoot(date);
+    const { from, to } = this.dayRange(date);
+    const leaves = await this.loadLeaves(from, to);
+    const index = leaves.findIndex(l => l.input.entryId === transactionId);
+
+    const tree = index >= 0 ? buildMerkleTree(leaves.map(l => l.hash), sha256Pair) : null;
+    if (!tree || tree.root !== root.root || leaves.length !== root.leafCount) {
+      console.error(`❌ CUE 영수증 불일치: ${date} 봉인 루트 ${root.root}, 재계산 ${tree?.root || '없음'}`);
+      throw new ReceiptError(
+        ReceiptErrorCode.RECEIPT_MISMATCH,
+        `Ledger no longer matches the sealed receipt root for ${date}`,
+        500
+      );
+    }
+
+    const proof = getMerkleProof(tree, index);
+    if (!verifyMerkleProof(leaf.hash, proof, root.root, sha256Pair)) {
+      throw new ReceiptError(ReceiptErrorCode.RECEIPT_MISMATCH, 'Generated receipt proof does not verify', 500);
+    }
+
+    return {
+      transactionId,
+      leafVersion: RECEIPT_LEAF_VERSION,
+      leaf: leaf.input,
+      cueHash: leaf.hash,
+      leafIndex: index,
+      proof,
+      root
+    };
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸
+  // ============================================================================
+
+  private dayRange(date: string): { from: string; to: string } {
+    const start = /^\d{4}-\d{2}-\d{2}$/.test(date) ? new Date(`${date}T00:00:00.000Z`) : null;
+    if (!start || isNaN(start.getTime()) || start.toISOString().slice(0, 10) !== date) {
+      throw new ReceiptError(ReceiptErrorCode.INVALID_DATE, 'Date must be a valid UTC day in YYYY-MM-DD format');
+    }
+    const end = new Date(start.getTime() + 24 * 60 * 60 * 1000);
+    return { from: start.toISOString(), to: end.toISOString() };
+  }
+
+  /**
+   * 그날의 영수증 리프 (created_at → id 순서 고정)
+   */
+  private async loadLeaves(from: string, to: string): Promise<ReceiptLeaf[]> {
+    const entries = await this.db.getLedgerEntriesBetween(RECEIPT_ENTRY_TYPES, from, to);
+    return entries
+      .map((entry: any) => this.toLeaf(entry))
+      .filter((leaf: ReceiptLeaf | null): leaf is ReceiptLeaf => !!leaf);
+  }
+
+  private toLeaf(entry: any): ReceiptLeaf | null {
+    const credit = (entry.postings || []).find((p: any) =>
+      typeof p.account === 'string' && p.account.startsWith('user:') && toUnits(p.amount) > 0
+    );
+    if (!RECEIPT_ENTRY_TYPES.includes(entry.entry_type) || !credit) return null;
+
+    const input: CueReceiptLeafInput = {
+      entryId: entry.id,
+      did: credit.account.slice('user:'.length),
+      amount: toUnits(credit.amount) / 100,
+      type: entry.entry_type,
+      source: entry.source || null,
+      createdAt: new Date(entry.created_at).toISOString()
+    };
+    const hash = cueReceiptLeaf(input);
+
+    // 저장된 cue_hash가 재계산과 다르면 분개가 기록 후 바뀐 것
+    if (entry.cue_hash && entry.cue_hash !== hash) {
+      console.warn(`⚠️ cue_hash 불일치: ${entry.id}`);
+    }
+    return { input, hash };
+  }
+
+  /**
+   * 현재 루트 서명 키 (공개) - 검증자는 영수증에 포함된 키 대신 이 키를 고정해서 사용
+   */
+  getSigningKey(): ReceiptSigningKeyView {
+    const signer = this.getSigner();
+    return {
+      keyId: signer.keyId,
+      algorithm: RECEIPT_DEFAULTS.algorithm,
+      publicKey: signer.publicKey
+    };
+  }
+
+  private getSigner(): ReceiptSigner {
+    if (!this.signer) {
+      let privateKey: crypto.KeyObject;
+      if (process.env.CUE_RECEIPT_SIGNING_KEY) {
+        privateKey = crypto.createPrivateKey(process.env.CUE_RECEIPT_SIGNING_KEY.replace(/\\n/g, '\n'));
+      } else {
+        if (process.env.NODE_ENV === 'production') {
+          throw new Error('CUE_RECEIPT_SIGNING_KEY is required in production');
+        }
+        console.warn('⚠️ CUE_RECEIPT_SIGNING_KEY 미설정 - 임시 서명 키로 영수증 루트를 서명합니다 (재시작 시 변경, 운영 환경 사용 금지)');
+        privateKey = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' }).privateKey;
+      }
+
+      const publicKey = crypto.createPublicKey(privateKey);
+      const spki = publicKey.export({ type: 'spki', format: 'der' });
+      this.signer = {
+        privateKey,
+        publicKey: publicKey.export({ format: 'jwk' }),
+        keyId: crypto.createHash('sha256').update(spki).digest('hex').slice(0, 16)
+      };
+    }
+    return this.signer;
+  }
+
+  private toRootView(row: any): ReceiptRootView {
+    return {
+      date: row.date,
+      root: row.root,
+      leafCount: Number(row.leaf_count),
+      algorithm: row.algorithm,
+      signature: row.signature,
+      keyId: row.key_id,
+      publicKey: row.public_key,
+      sealedAt: row.created_at
+    };
+  }
+}
+
+let sharedReceiptService: CueReceiptService | null = null;
+
+export function getCueReceiptService(): CueReceiptService {
+  if (!sharedReceiptService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedReceiptService = new CueReceiptService(db);
+  }
+  return sharedReceiptService;
+}
@@ -2,89 +2,94 @@
 // ============================================================================
 // 💎 CueService 모듈 - CUE 토큰 마이닝, 잔액 조회, 거래 기록 API
 // ============================================================================ 
-import { DatabaseService } from '../database/DatabaseService';
+import { v4 as uuidv4 } from 'uuid';
+import { CueLedger, LedgerPostResult, getCueLedger, userAccount } from './CueLedger';
+import { MiningLimiter, getMiningLimiter } from './MiningLimiter';
+import { RewardInputs, RewardPolicyEngine, getRewardPolicyEngine, rewardPolicyMetadata } from './RewardPolicyEngine';
 
 export class CueService {
-  constructor(private db = DatabaseService.getInstance()) {}
+  constructor(
+    private ledger: CueLedger = getCueLedger(),
+    private limiter: MiningLimiter = getMiningLimiter(),
+    private policies: RewardPolicyEngine = getRewardPolicyEngine()
+  ) {}
 
-  async mineCUE(userDid: string, activity: string, data: any = {}): Promise<number> {
+  async mineCUE(userDid: string, activity: string, data: any = {}, idempotencyKey?: string): Promise<number> {
     try {
       console.log(`⛏️ CUE 마이닝: ${userDid} - ${activity}`);
 
-      // 활동별 CUE 보상 계산
-      let amount = 0;
+      // 활동별 CUE 보상 계산 (보상 정책 공식)
+      let formula = 'default';
+      let inputs: RewardInputs = {};
       
       switch (activity) {
         case 'ai_chat':
-          amount = this.calculateChatReward(data);
+          formula = 'ai_chat_simple';
+          inputs = {
+            messageLength: data.messageLength || 0,
+            personalContextUsed: data.personalContextUsed || 0
+          };
           break;
         case 'data_extraction':
-          amount = this.calculateExtractionReward(data);
+          formula = 'data_extraction_simple';
+          inputs = {
+            dataSize: data.dataSize || 0,
+            quality: data.quality || 0.5
+          };
           break;
         case 'daily_login':
-          amount = 5.0;
-          break;
         case 'registration':
-          amount = 100.0;
+          formula = activity;
           break;
-        default:
-          amount = 1.0;
       }
 
-      // CUE 거래 기록
-      await this.recordTransaction({
-        user_did: userDid,
-        transaction_type: 'mining',
-        amount: amount,
-        status: 'completed',
-        source: activity,
-        description: `CUE mined from ${activity}`,
-        metadata: data
-      });
-
-      console.log(`✅ CUE 마이닝 완료: ${amount} tokens`);
-      return amount;
-
-    } catch (error) {
-      console.error('CUE 마이닝 오류:', error);
-      return 0;
-    }
-  }
+      const reward = await this.policies.calculate(formula, inputs);
+      const amount = reward.amount;
 
-  private calculateChatReward(data: any): number {
-    const baseReward = 2.0;
-    const lengthBonus = Math.min((data.messageLength || 0) / 100, 3.0);
-    const contextBonus = Math.min((data.personalContextUsed || 0) * 0.5, 2.0);
-    
-    return Math.round((baseReward + lengthBonus + contextBonus) * 100) / 100;
-  }
+      // 재시도 요청이면 한도 확인 없이 최초 기록된 금액을 반환
+      if (idempotencyKey) {
+        const existing = await this.ledger.getEntry(idempotencyKey);
+        if (existing) {
+          const posting = existing.postings.find(p => p.account === userAccount(userDid));
+          return posting ? posting.amount : 0;
+        }
+      }
 
-  private calculateExtractionReward(data: any): number {
-    const baseReward = 1.0;
-    const sizeBonus = Math.min((data.dataSize || 0) / 1000, 5.0);
-    const qualityBonus = (data.quality || 0.5) * 2.0;
-    
-    return Math.round((baseReward + sizeBonus + qualityBonus) * 100) / 100;
-  }
+      // CUE 원장 기록 (가입 보상 외 활동은 일일 한도/쿨다운 적용)
+      const post = (minedAmount: number, key = idempotencyKey || `${activity}:${uuidv4()}`): Promise<LedgerPostResult> =>
+        this.ledger.mine(userDid, minedAmount, {
+          idempotencyKey: key,
+          source: activity,
+          description: `CUE mined from ${activity}`,
+          metadata: { ...data, rewardPolicy: rewardPolicyMetadata(reward) }
+        });
 
-  private async recordTransaction(transactionData: any): Promise<void> {
-    try {
-      // 적절한 메서드 사용 (호환성 보장)
-      if (typeof this.db.recordCueTransaction === 'function') {
-        await this.db.recordCueTransaction(transactionData);
-      } else if (typeof this.db.createCUETransaction === 'function') {
-        await this.db.createCUETransaction(transactionData);
+      let result: { credited: number; replayed: boolean };
+      if (activity === 'registration') {
+        const posted = await post(amount);
+        const posting = posted.entry.postings.find(p => p.account === userAccount(userDid));
+        result = { credited: posting ? posting.amount : 0, replayed: posted.replayed };
+      } else if (activity === 'daily_login') {
+        result = await this.limiter.claimLoginBonus(userDid, data.timezone, (bonus, localDay) =>
+          post(bonus, `daily_login:${userDid}:${localDay}`),
+          amount
+        );
       } else {
-        console.warn('⚠️ CUE 거래 기록 메서드를 찾을 수 없습니다');
+        result = await this.limiter.mine(userDid, activity, amount, minedAmount => post(minedAmount));
       }
+
+      console.log(`✅ CUE 마이닝 완료: ${result.credited} tokens${result.replayed ? ' (기존 기록)' : ''}`);
+      return result.credited;
+
     } catch (error) {
-      console.error('CUE 거래 기록 오류:', error);
+      console.error('CUE 마이닝 오류:', error);
+      return 0;
     }
   }
 
   async getBalance(userDid: string): Promise<number> {
     try {
-      return await this.db.getCUEBalance(userDid);
+      return await this.ledger.getBalance(userDid);
     } catch (error) {
       console.error('CUE 잔액 조회 오류:', error);
       return 0;
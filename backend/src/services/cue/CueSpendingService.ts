@@ -0,0 +1,358 @@
+// ============================================================================
+// 🛒 CUE 소비 서비스 (유료 모델/기능 가격표, 예약 → 정산 → 환불)
+// 경로: backend/src/services/cue/CueSpendingService.ts
+// 용도: 프리미엄 AI 모델과 기능 사용 시 CUE 차감
+// 흐름: hold   user:<did> → system:holds             (예상 최대 비용 예약, 잔액 부족 시 402)
+//       settle system:holds → system:treasury (실사용) + user:<did> (남은 예약 반환)
+//       refund system:holds → user:<did>               (생성 실패/시뮬레이션 응답)
+// 기록: cue_spend_holds (예약 상태), 원장 분개 metadata.holdId
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { CueLedger, getCueLedger, LEDGER_ACCOUNTS, userAccount } from './CueLedger';
+import { findModel, modelPriceTable } from '../ai/providers/ModelRegistry';
+
+export const CUE_PRICING = {
+  /** 모델별 1K 토큰당 CUE - 모델 레지스트리에서 (목록에 없는 모델은 defaultPer1kTokens) */
+  modelsPer1kTokens: modelPriceTable(),
+  defaultPer1kTokens: 1.0,
+  /** 레지스트리에 없는 모델의 응답 최대 토큰 - 예약 금액 = (입력 추정 + 최대 출력) 토큰 비용 */
+  maxOutputTokens: 1000,
+  /** 시스템 프롬프트 + 개인화 컨텍스트 추정 토큰 */
+  promptOverheadTokens: 500,
+  /** 기능별 1회 고정 비용 */
+  features: {
+    vault_extraction: 2.0,
+    agent_training: 10.0
+  } as Record<string, number>,
+  /** 이 시간이 지나도 정산되지 않은 예약은 자동 환불 */
+  holdTtlMs: 10 * 60 * 1000
+};
+
+export type SpendFeature = 'ai_chat' | 'vault_extraction' | 'agent_training';
+
+export type SpendHoldStatus = 'held' | 'settled' | 'refunded';
+
+export enum SpendingErrorCode {
+  HOLD_NOT_FOUND = 'HOLD_NOT_FOUND',
+  INVALID_HOLD_STATE = 'INVALID_HOLD_STATE'
+}
+
+export class SpendingError extends Error {
+  constructor(public code: SpendingErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'SpendingError';
+  }
+}
+
+export interface SpendHoldView {
+  id: string;
+  userDid: string;
+  feature: SpendFeature;
+  model: string | null;
+  reservedAmount: number;
+  chargedAmount: number | null;
+  status: SpendHoldStatus;
+  usage: any;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+export interface ModelPriceView {
+  model: string;
+  per1kTokens: number;
+  /** 한 번의 채팅에서 예약될 수 있는 최대 금액 (입력 토큰 제외) */
+  maxChargePerMessage: number;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+function toHoldView(row: any): SpendHoldView {
+  return {
+    id: row.id,
+    userDid: row.did,
+    feature: row.feature,
+    model: row.model || null,
+    reservedAmount: Number(row.reserved_amount),
+    chargedAmount: row.charged_amount === null || row.charged_amount === undefined ? null : Number(row.charged_amount),
+    status: row.status,
+    usage: row.usage || null,
+    createdAt: row.created_at,
+    settledAt: row.settled_at || null
+  };
+}
+
+export class CueSpendingService {
+  constructor(
+    private db: any,
+    private ledger: CueLedger = getCueLedger()
+  ) {}
+
+  // ============================================================================
+  // 🏷️ 가격표
+  // ============================================================================
+
+  modelPrice(model: string): number {
+    const price = CUE_PRICING.modelsPer1kTokens[model];
+    return price === undefined ? CUE_PRICING.defaultPer1kTokens : price;
+  }
+
+  listModelPrices(): ModelPriceView[] {
+    return Object.keys(CUE_PRICING.modelsPer1kTokens).map(model => ({
+      model,
+      per1kTokens: this.modelPrice(model),
+      maxChargePerMessage: this.tokenCost(model, this.maxOutputTokens(model) + CUE_PRICING.promptOverheadTokens)
+    }));
+  }
+
+  getCatalog() {
+    return {
+      currency: 'CUE',
+      models: this.listModelPrices(),
+      defaultPer1kTokens: CUE_PRICING.defaultPer1kTokens,
+      maxOutputTokens: CUE_PRICING.maxOutputTokens,
+      features: { ...CUE_PRICING.features }
+    };
+  }
+
+  tokenCost(model: string, tokens: number): number {
+    return round2((Math.max(0, tokens) / 1000) * this.modelPrice(model));
+  }
+
+  /**
+   * 채팅 예약 금액 - 입력 토큰 + 최대 출력 토큰
+   * promptTokens: 조립된 프롬프트 토큰 수 (ContextBuilder), 없으면 메시지로 추정(문자 4개 ≈ 1토큰)
+   */
+  quoteChat(model: string, message: string, promptTokens?: number): number {
+    const inputTokens = promptTokens ?? Math.ceil(message.length / 4) + CUE_PRICING.promptOverheadTokens;
+    return this.tokenCost(model, inputTokens + this.maxOutputTokens(model));
+  }
+
+  maxOutputTokens(model: string): number {
+    return findModel(model)?.maxOutputTokens ?? CUE_PRICING.maxOutputTokens;
+  }
+
+  // ============================================================================
+  // 🔒 예약 / 정산 / 환불
+  // ============================================================================
+
+  /**
+   * 채팅 비용 예약 - 무료 모델이면 null (잔액 부족 시 CueLedgerError INSUFFICIENT_FUNDS)
+   */
+  async holdChat(
+    userDid: string,
+    model: string,
+    message: string,
+    reference?: string,
+    promptTokens?: number
+  ): Promise<SpendHoldView | null> {
+    const amount = this.quoteChat(model, message, promptTokens);
+    if (amount <= 0) return null;
+
+    return this.hold({ userDid, feature: 'ai_chat', amount, model, reference });
+  }
+
+  /**
+   * 실제 토큰 사용량으로 채팅 비용 정산 (예약 금액이 상한)
+   */
+  async settleChat(holdId: string, tokensUsed: number): Promise<SpendHoldView> {
+    const row = await this.requireHold(holdId);
+    const actual = this.tokenCost(row.model, tokensUsed);
+    return this.settle(holdId, actual, { tokensUsed, per1kTokens: this.modelPrice(row.model) });
+  }
+
+  /**
+   * 고정 비용 기능 예약 (볼트 추출, 에이전트 학습)
+   */
+  async holdFeature(userDid: string, feature: Exclude<SpendFeature, 'ai_chat'>, reference?: string): Promise<SpendHoldView | null> {
+    const amount = CUE_PRICING.features[feature] || 0;
+    if (amount <= 0) return null;
+
+    return this.hold({ userDid, feature, amount, reference });
+  }
+
+  async hold(params: {
+    userDid: string;
+    feature: SpendFeature;
+    amount: number;
+    model?: string;
+    reference?: string;
+  }): Promise<SpendHoldView> {
+    const { userDid, feature, model, reference } = params;
+    const amount = round2(params.amount);
+
+    // 서버 중단 등으로 남은 예약을 먼저 돌려받아 잔액 확인에 반영
+    await this.refundStaleHolds(userDid);
+
+    const holdId = crypto.randomUUID();
+    await this.ledger.postEntry({
+      idempotencyKey: `hold:${holdId}:reserve`,
+      type: 'spending',
+      source: feature,
+      description: `CUE reserved for ${feature}${model ? ` (${model})` : ''}`,
+      metadata: { holdId, phase: 'hold', model: model || null, reference: reference || null },
+      postings: [
+        { account: userAccount(userDid), amount: -amount },
+        { account: LEDGER_ACCOUNTS.HOLDS, amount }
+      ]
+    });
+
+    const row = {
+      id: holdId,
+      did: userDid,
+      feature,
+      model: model || null,
+      reference: reference || null,
+      reserved_amount: amount,
+      charged_amount: null,
+      status: 'held',
+      usage: null,
+      created_at: new Date().toISOString(),
+      settled_at: null
+    };
+    const saved = await this.db.createSpendHold(row);
+
+    console.log(`🔒 CUE 예약: ${userDid} ${amount} CUE (${feature}${model ? `, ${model}` : ''})`);
+    return toHoldView(saved || row);
+  }
+
+  /**
+   * 정산 - 실사용 금액은 트레저리로, 남은 예약은 사용자에게 반환
+   */
+  async settle(holdId: string, actualAmount: number, usage: any = {}): Promise<SpendHoldView> {
+    const row = await this.requireHold(holdId);
+    const reserved = Number(row.reserved_amount);
+    const charged = Math.min(round2(Math.max(0, actualAmount)), reserved);
+    const returned = round2(reserved - charged);
+
+    const claimed = await this.claim(row, 'settled', {
+      charged_amount: charged,
+      usage: { ...usage, requestedAmount: round2(actualAmount) }
+    });
+
+    const postings = [
+      { account: LEDGER_ACCOUNTS.HOLDS, amount: -reserved },
+      ...(charged > 0 ? [{ account: LEDGER_ACCOUNTS.TREASURY, amount: charged }] : []),
+      ...(returned > 0 ? [{ account: userAccount(row.did), amount: returned }] : [])
+    ];
+
+    await this.ledger.postEntry({
+      idempotencyKey: `hold:${holdId}:settle`,
+      type: 'spending',
+      source: row.feature,
+      description: `CUE spent on ${row.feature}${row.model ? ` (${row.model})` : ''}`,
+      metadata: { holdId, phase: 'settle', model: row.model, charged, returned, usage },
+      postings
+    });
+
+    console.log(`💰 CUE 정산: ${row.did} ${charged} CUE 사용, ${returned} CUE 반환 (${row.feature})`);
+    return toHoldView(claimed);
+  }
+
+  /**
+   * 환불 - 예약 전액 반환 (생성 실패, 시뮬레이션 응답, 만료)
+   */
+  async refund(holdId: string, reason: string): Promise<SpendHoldView> {
+    const row = await this.requireHold(holdId);
+    const reserved = Number(row.reserved_amount);
+
+    const claimed = await this.claim(row, 'refunded', {
+      charged_amount: 0,
+      usage: { refundReason: reason }
+    });
+
+    await this.ledger.postEntry({
+      idempotencyKey: `hold:${holdId}:refund`,
+      type: 'spending',
+      source: row.feature,
+      description: `CUE reservation refunded (${reason})`,
+      metadata: { holdId, phase: 'refund', model: row.model, reason },
+      postings: [
+        { account: LEDGER_ACCOUNTS.HOLDS, amount: -reserved },
+        { account: userAccount(row.did), amount: reserved }
+      ]
+    });
+
+    console.log(`↩️ CUE 예약 환불: ${row.did} ${reserved} CUE (${reason})`);
+    return toHoldView(claimed);
+  }
+
+  async listHolds(userDid: string, limit = 50): Promise<SpendHoldView[]> {
+    const rows = await this.db.getSpendHolds({ did: userDid, limit });
+    return rows.map(toHoldView);
+  }
+
+  /**
+   * TTL이 지난 미정산 예약 환불
+   */
+  async refundStaleHolds(userDid: string): Promise<number> {
+    const cutoff = new Date(Date.now() - CUE_PRICING.holdTtlMs).toISOString();
+    const stale = (await this.db.getSpendHolds({ did: userDid, status: 'held', limit: 50 }))
+      .filter((row: any) => row.created_at < cutoff);
+
+    let refunded = 0;
+    for (const row of stale) {
+      try {
+        await this.refund(row.id, 'expired');
+        refunded++;
+      } catch (error) {
+        // 다른 요청이 먼저 정산/환불함
+        if (!(error instanceof SpendingError)) throw error;
+      }
+    }
+    return refunded;
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸리티
+  // ============================================================================
+
+  private async requireHold(holdId: string): Promise<any> {
+    const row = await this.db.getSpendHold(holdId);
+    if (!row) {
+      throw new SpendingError(SpendingErrorCode.HOLD_NOT_FOUND, 'CUE hold not found', 404);
+    }
+    return row;
+  }
+
+  /**
+   * held → settled/refunded 전환 (정산과 환불이 동시에 일어나지 않도록 먼저 선점)
+   */
+  private async claim(row: any, status: 'settled' | 'refunded', updates: any): Promise<any> {
+    const updated = row.status === 'held'
+      ? await this.db.updateSpendHold(row.id, 'held', {
+          ...updates,
+          status,
+          settled_at: new Date().toISOString()
+        })
+      : null;
+
+    if (!updated) {
+      throw new SpendingError(
+        SpendingErrorCode.INVALID_HOLD_STATE,
+        `CUE hold is already ${row.status === 'held' ? 'being processed' : row.status}`,
+        409
+      );
+    }
+    return updated;
+  }
+}
+
+let sharedSpendingService: CueSpendingService | null = null;
+
+export function getCueSpendingService(): CueSpendingService {
+  if (!sharedSpendingService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedSpendingService = new CueSpendingService(db);
+  }
+  return sharedSpendingService;
+}
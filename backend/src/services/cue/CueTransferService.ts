@@ -0,0 +1,396 @@
+// ============================================================================
+// 💸 CUE 송금 서비스 (DID 간 P2P 송금, 메모, 에스크로)
+// 경로: backend/src/services/cue/CueTransferService.ts
+// 용도: 송금 요청 검증 → 원장 분개 기록 → cue_transfers 상태 관리 → 수신자 알림
+// 흐름: 즉시 송금  user:<보낸이> → user:<받는이>                       (completed)
+//       에스크로    user:<보낸이> → system:escrow                       (escrowed)
+//                   system:escrow → user:<받는이> (지급) | user:<보낸이> (환불)
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { CueLedger, getCueLedger, LEDGER_ACCOUNTS, userAccount } from './CueLedger';
+import { getSocketService } from '../socket/SocketService';
+
+export const MAX_TRANSFER_MEMO_LENGTH = 280;
+
+export enum TransferErrorCode {
+  INVALID_TRANSFER = 'INVALID_TRANSFER',
+  SELF_TRANSFER = 'SELF_TRANSFER',
+  RECIPIENT_NOT_FOUND = 'RECIPIENT_NOT_FOUND',
+  TRANSFER_NOT_FOUND = 'TRANSFER_NOT_FOUND',
+  TRANSFER_FORBIDDEN = 'TRANSFER_FORBIDDEN',
+  INVALID_TRANSFER_STATE = 'INVALID_TRANSFER_STATE',
+  ESCROW_LOCKED = 'ESCROW_LOCKED'
+}
+
+export class TransferError extends Error {
+  constructor(public code: TransferErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export type TransferStatus = 'pending' | 'completed' | 'escrowed' | 'released' | 'refunded' | 'failed';
+
+/**
+ * 에스크로 지급 조건
+ * - sender_approval: 보낸이가 지급해야 받는이에게 이동 (그 전까지 환불 가능)
+ * - time_lock: releaseAt 이후 받는이가 직접 수령 가능 (그 전까지 보낸이 환불 가능)
+ */
+export type EscrowCondition =
+  | { type: 'sender_approval' }
+  | { type: 'time_lock'; releaseAt: string };
+
+export interface TransferRequest {
+  fromDid: string;
+  toDid: string;
+  amount: number;
+  memo?: string | null;
+  escrow?: EscrowCondition | null;
+  /** 클라이언트 재시도 키 (Idempotency-Key) */
+  idempotencyKey?: string;
+}
+
+export interface TransferView {
+  id: string;
+  fromDid: string;
+  toDid: string;
+  amount: number;
+  memo: string | null;
+  status: TransferStatus;
+  escrow: EscrowCondition | null;
+  entryId: string | null;
+  settlementEntryId: string | null;
+  createdAt: string;
+  settledAt: string | null;
+}
+
+export interface TransferResult {
+  transfer: TransferView;
+  /** 같은 멱등성 키로 이미 처리된 송금을 돌려준 경우 true */
+  replayed: boolean;
+}
+
+function toTransferView(row: any): TransferView {
+  return {
+    id: row.id,
+    fromDid: row.sender_did,
+    toDid: row.recipient_did,
+    amount: Number(row.amount),
+    memo: row.memo || null,
+    status: row.status,
+    escrow: row.escrow_condition
+      ? (row.escrow_condition === 'time_lock'
+        ? { type: 'time_lock', releaseAt: row.release_at }
+        : { type: 'sender_approval' })
+      : null,
+    entryId: row.entry_id || null,
+    settlementEntryId: row.settlement_entry_id || null,
+    createdAt: row.created_at,
+    settledAt: row.settled_at || null
+  };
+}
+
+export class CueTransferService {
+  constructor(
+    private db: any,
+    private ledger: CueLedger = getCueLedger()
+  ) {}
+
+  /**
+   * 이 금액 이상이면 새 패스키 assertion 필요
+   */
+  static stepUpThreshold(): number {
+    const threshold = Number(process.env.CUE_TRANSFER_STEP_UP_THRESHOLD);
+    return Number.isFinite(threshold) && threshold >= 0 ? threshold : 100;
+  }
+
+  requiresStepUp(amount: number): boolean {
+    return amount >= CueTransferService.stepUpThreshold();
+  }
+
+  /**
+   * 요청 형식 검증 (DB 조회 없음) - 재인증 챌린지 발급 전에 호출
+   */
+  validate(request: TransferRequest): void {
+    const { fromDid, toDid, amount, memo, escrow } = request;
+
+    if (!toDid || typeof toDid !== 'string') {
+      throw new TransferError(TransferErrorCode.INVALID_TRANSFER, 'Recipient DID is required');
+    }
+    if (toDid === fromDid) {
+      throw new TransferError(TransferErrorCode.SELF_TRANSFER, 'Cannot transfer CUE to yourself');
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || Math.round(amount * 100) < 1) {
+      throw new TransferError(TransferErrorCode.INVALID_TRANSFER, 'Amount must be at least 0.01 CUE');
+    }
+    if (Math.abs(Math.round(amount * 100) - amount * 100) > 1e-6) {
+      throw new TransferError(TransferErrorCode.INVALID_TRANSFER, 'Amount supports at most 2 decimal places');
+    }
+    if (memo != null && (typeof memo !== 'string' || memo.length > MAX_TRANSFER_MEMO_LENGTH)) {
+      throw new TransferError(
+        TransferErrorCode.INVALID_TRANSFER,
+        `Memo must be a string of at most ${MAX_TRANSFER_MEMO_LENGTH} characters`
+      );
+    }
+
+    if (escrow) {
+      if (escrow.type === 'time_lock') {
+        const releaseAt = Date.parse(escrow.releaseAt);
+        if (!Number.isFinite(releaseAt) || releaseAt <= Date.now()) {
+          throw new TransferError(TransferErrorCode.INVALID_TRANSFER, 'Escrow releaseAt must be a future ISO timestamp');
+        }
+      } else if (escrow.type !== 'sender_approval') {
+        throw new TransferError(
+          TransferErrorCode.INVALID_TRANSFER,
+          "Escrow condition must be 'sender_approval' or 'time_lock'"
+        );
+      }
+    }
+  }
+
+  /**
+   * 같은 Idempotency-Key로 이미 처리된 송금 조회
+   */
+  async findReplay(fromDid: string, idempotencyKey?: string): Promise<TransferView | null> {
+    if (!idempotencyKey) return null;
+
+    const entry = await this.ledger.getEntry(`transfer:${fromDid}:${idempotencyKey}`);
+    const transferId = entry?.metadata?.transferId;
+    if (!transferId) return null;
+
+    const row = await this.db.getCueTransfer(transferId);
+    return row ? toTransferView(row) : null;
+  }
+
+  /**
+   * 송금 실행 - 재인증은 호출하는 쪽(라우트)에서 먼저 확인
+   */
+  async transfer(request: TransferRequest): Promise<TransferResult> {
+    this.validate(request);
+
+    const replay = await this.findReplay(request.fromDid, request.idempotencyKey);
+    if (replay) {
+      return { transfer: replay, replayed: true };
+    }
+
+    const recipient = await this.db.getUserByDID(request.toDid);
+    if (!recipient) {
+      throw new TransferError(TransferErrorCode.RECIPIENT_NOT_FOUND, 'Recipient DID is not registered', 404);
+    }
+
+    const { fromDid, toDid, amount, escrow } = request;
+    const memo = request.memo?.trim() || null;
+    const transferId = crypto.randomUUID();
+    const now = new Date().toISOString();
+
+    await this.db.createCueTransfer({
+      id: transferId,
+      sender_did: fromDid,
+      recipient_did: toDid,
+      amount,
+      memo,
+      status: 'pending',
+      escrow_condition: escrow?.type || null,
+      release_at: escrow?.type === 'time_lock' ? new Date(escrow.releaseAt).toISOString() : null,
+      entry_id: null,
+      settlement_entry_id: null,
+      created_at: now,
+      settled_at: null
+    });
+
+    const creditAccount = escrow ? LEDGER_ACCOUNTS.ESCROW : userAccount(toDid);
+    let posted;
+    try {
+      posted = await this.ledger.postEntry({
+        idempotencyKey: request.idempotencyKey
+          ? `transfer:${fromDid}:${request.idempotencyKey}`
+          : `transfer:${transferId}:send`,
+        type: 'transfer',
+        source: 'transfer',
+        description: escrow ? 'CUE 에스크로 송금' : 'CUE 송금',
+        metadata: { transferId, fromDid, toDid, memo, phase: escrow ? 'escrow' : 'direct' },
+        postings: [
+          { account: userAccount(fromDid), amount: -amount },
+          { account: creditAccount, amount }
+        ]
+      });
+    } catch (error) {
+      await this.db.updateCueTransfer(transferId, 'pending', { status: 'failed', settled_at: new Date().toISOString() });
+      throw error;
+    }
+
+    if (posted.replayed) {
+      // 같은 키의 동시 요청이 먼저 기록함 - 이 요청의 대기 행은 폐기
+      await this.db.updateCueTransfer(transferId, 'pending', { status: 'failed', settled_at: new Date().toISOString() });
+      const winner = await this.db.getCueTransfer(posted.entry.metadata?.transferId);
+      if (!winner) {
+        throw new TransferError(TransferErrorCode.TRANSFER_NOT_FOUND, 'Transfer could not be found', 404);
+      }
+      return { transfer: toTransferView(winner), replayed: true };
+    }
+
+    const updated = await this.db.updateCueTransfer(transferId, 'pending', {
+      status: escrow ? 'escrowed' : 'completed',
+      entry_id: posted.entry.id,
+      settled_at: escrow ? null : new Date().toISOString()
+    });
+    const transfer = toTransferView(updated || (await this.db.getCueTransfer(transferId)));
+
+    console.log(`💸 CUE 송금 ${escrow ? '(에스크로)' : ''}: ${fromDid} → ${toDid} ${amount} CUE`);
+    this.notifyRecipient(transfer);
+
+    return { transfer, replayed: false };
+  }
+
+  /**
+   * 에스크로 지급 (system:escrow → 받는이)
+   * 보낸이는 언제든, 받는이는 time_lock 조건의 releaseAt 이후에만 가능
+   */
+  async release(transferId: string, actorDid: string): Promise<TransferView> {
+    const transfer = await this.getEscrowed(transferId, actorDid);
+    const isSender = actorDid === transfer.fromDid;
+
+    if (!isSender) {
+      if (transfer.escrow?.type !== 'time_lock') {
+        throw new TransferError(TransferErrorCode.TRANSFER_FORBIDDEN, 'Only the sender can release this escrow', 403);
+      }
+      if (Date.parse(transfer.escrow.releaseAt) > Date.now()) {
+        throw new TransferError(
+          TransferErrorCode.ESCROW_LOCKED,
+          `Escrow is locked until ${transfer.escrow.releaseAt}`,
+          409
+        );
+      }
+    }
+
+    const settled = await this.settle(transfer, 'released', userAccount(transfer.toDid));
+    this.notifyRecipient(settled);
+    return settled;
+  }
+
+  /**
+   * 에스크로 환불 (system:escrow → 보낸이) - 보낸이만, time_lock은 releaseAt 전까지만
+   */
+  async refund(transferId: string, actorDid: string): Promise<TransferView> {
+    const transfer = await this.getEscrowed(transferId, actorDid);
+
+    if (actorDid !== transfer.fromDid) {
+      throw new TransferError(TransferErrorCode.TRANSFER_FORBIDDEN, 'Only the sender can refund this escrow', 403);
+    }
+    if (transfer.escrow?.type === 'time_lock' && Date.parse(transfer.escrow.releaseAt) <= Date.now()) {
+      throw new TransferError(
+        TransferErrorCode.INVALID_TRANSFER_STATE,
+        'Time-locked escrow can no longer be refunded after its release time',
+        409
+      );
+    }
+
+    return this.settle(transfer, 'refunded', userAccount(transfer.fromDid));
+  }
+
+  /**
+   * 보낸 송금 + 받은 송금
+   */
+  async listTransfers(did: string, limit = 50): Promise<TransferView[]> {
+    const rows = await this.db.getCueTransfers(did, limit);
+    return rows
+      .filter((row: any) => row.status !== 'pending' && row.status !== 'failed')
+      .map(toTransferView);
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸리티
+  // ============================================================================
+
+  private async getEscrowed(transferId: string, actorDid: string): Promise<TransferView> {
+    const row = await this.db.getCueTransfer(transferId);
+    if (!row || (row.sender_did !== actorDid && row.recipient_did !== actorDid)) {
+      throw new TransferError(TransferErrorCode.TRANSFER_NOT_FOUND, 'Transfer not found', 404);
+    }
+
+    const transfer = toTransferView(row);
+    if (transfer.status !== 'escrowed') {
+      throw new TransferError(
+        TransferErrorCode.INVALID_TRANSFER_STATE,
+        `Transfer is ${transfer.status}, not escrowed`,
+        409
+      );
+    }
+    return transfer;
+  }
+
+  private async settle(
+    transfer: TransferView,
+    status: 'released' | 'refunded',
+    creditAccount: string
+  ): Promise<TransferView> {
+    const phase = status === 'released' ? 'release' : 'refund';
+
+    // 지급/환불 분개는 송금당 하나의 키를 공유 - 둘 중 먼저 기록된 쪽만 유효
+    const { entry } = await this.ledger.postEntry({
+      idempotencyKey: `transfer:${transfer.id}:settle`,
+      type: 'transfer',
+      source: 'transfer',
+      description: status === 'released' ? 'CUE 에스크로 지급' : 'CUE 에스크로 환불',
+      metadata: {
+        transferId: transfer.id,
+        fromDid: transfer.fromDid,
+        toDid: transfer.toDid,
+        memo: transfer.memo,
+        phase
+      },
+      postings: [
+        { account: LEDGER_ACCOUNTS.ESCROW, amount: -transfer.amount },
+        { account: creditAccount, amount: transfer.amount }
+      ]
+    });
+
+    if (entry.metadata?.phase !== phase) {
+      throw new TransferError(
+        TransferErrorCode.INVALID_TRANSFER_STATE,
+        `Escrow was already settled by ${entry.metadata?.phase}`,
+        409
+      );
+    }
+
+    const updated = await this.db.updateCueTransfer(transfer.id, 'escrowed', {
+      status,
+      settlement_entry_id: entry.id,
+      settled_at: new Date().toISOString()
+    });
+    const settled = toTransferView(updated || (await this.db.getCueTransfer(transfer.id)));
+
+    console.log(`🔓 CUE 에스크로 ${status === 'released' ? '지급' : '환불'}: ${transfer.id} (${transfer.amount} CUE)`);
+    return settled;
+  }
+
+  private notifyRecipient(transfer: TransferView): void {
+    getSocketService()?.sendToUser(transfer.toDid, 'cue:received', {
+      transferId: transfer.id,
+      fromDid: transfer.fromDid,
+      amount: transfer.amount,
+      memo: transfer.memo,
+      status: transfer.status,
+      escrow: transfer.escrow,
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+let sharedService: CueTransferService | null = null;
+
+export function getCueTransferService(): CueTransferService {
+  if (!sharedService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedService = new CueTransferService(db);
+  }
+  return sharedService;
+}
@@ -0,0 +1,399 @@
+// ============================================================================
+// ⏱️ CUE 마이닝 한도 관리 (일일 한도, 소스별 쿨다운, 연속 일수 배율)
+// 경로: backend/src/services/cue/MiningLimiter.ts
+// 용도: 사용자 활동 마이닝이 원장에 기록되기 전에 서버에서 한도를 강제
+// 상태: cue_mining_states (DID당 1행) - 날짜는 모두 사용자 시간대 기준 YYYY-MM-DD
+// ============================================================================
+
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { LedgerPostResult, userAccount } from './CueLedger';
+
+export const MINING_LIMITS = {
+  /** 기본 일일 마이닝 한도 (CUE_MAX_DAILY_MINING 환경변수로 변경) */
+  defaultMaxDailyMining: 500,
+  /** 보상 정책을 사용하지 않는 호출용 기본 로그인 보너스 */
+  loginBonus: 5,
+  defaultCooldownMs: 60 * 1000,
+  cooldownsMs: {
+    ai_chat: 15 * 1000,
+    data_extraction: 60 * 1000,
+    data_contribution: 5 * 60 * 1000,
+    manual_mining: 5 * 60 * 1000
+  } as Record<string, number>,
+  /** 이 시간 안에 마이닝 기록이 있으면 "마이닝 활성" */
+  activeWindowMs: 5 * 60 * 1000
+};
+
+// 7일마다 배율 상승 (MiningStatus의 "다음 보너스까지" 주기와 동일)
+const STREAK_MULTIPLIERS = [
+  { minDays: 28, multiplier: 2.0 },
+  { minDays: 21, multiplier: 1.75 },
+  { minDays: 14, multiplier: 1.5 },
+  { minDays: 7, multiplier: 1.25 }
+];
+
+const DAILY_TOTALS_RETENTION_DAYS = 31;
+
+export type MiningDenialReason = 'cooldown' | 'daily_cap' | 'already_claimed';
+
+export interface MiningStateView {
+  did: string;
+  timezone: string;
+  isActive: boolean;
+  canMine: boolean;
+  /** 일일 한도 도달 시 다음 날 0시 */
+  cooldownUntil: string | null;
+  multiplier: number;
+  streakDays: number;
+  dailyCap: number;
+  minedToday: number;
+  remainingToday: number;
+  /** 쿨다운 중인 소스별 재개 시각 */
+  cooldowns: Record<string, string>;
+  activityToday: Record<string, number>;
+  loginBonusClaimedToday: boolean;
+  nextLoginBonusAt: string | null;
+  weeklyMined: number;
+  monthlyMined: number;
+  totalMined: number;
+  lastMinedAt: string | null;
+}
+
+export interface MiningAllowanceResult {
+  credited: number;
+  multiplier: number;
+  replayed: boolean;
+  reason?: MiningDenialReason;
+  /** 쿨다운 거부 시 해당 소스 재개 시각 */
+  retryAt?: string;
+}
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || timezone.length === 0 || timezone.length > 64) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 시간대 기준 날짜 (YYYY-MM-DD)
+ */
+export function localDate(at: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(at);
+}
+
+function shiftDate(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().substring(0, 10);
+}
+
+/**
+ * 시간대 기준 다음 날 0시까지 남은 시간
+ */
+function msUntilLocalMidnight(at: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(at);
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+  const elapsed = ((part('hour') * 60 + part('minute')) * 60 + part('second')) * 1000 + at.getMilliseconds();
+  return 24 * 60 * 60 * 1000 - elapsed;
+}
+
+function round2(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+export function streakMultiplier(streakDays: number): number {
+  return STREAK_MULTIPLIERS.find(tier => streakDays >= tier.minDays)?.multiplier || 1.0;
+}
+
+export class MiningLimiter {
+  private didLocks = new Map<string, Promise<void>>();
+
+  constructor(private db: any) {}
+
+  static dailyCap(): number {
+    const cap = Number(process.env.CUE_MAX_DAILY_MINING);
+    return Number.isFinite(cap) && cap > 0 ? cap : MINING_LIMITS.defaultMaxDailyMining;
+  }
+
+  static cooldownMs(source: string): number {
+    return MINING_LIMITS.cooldownsMs[source] ?? MINING_LIMITS.defaultCooldownMs;
+  }
+
+  // ============================================================================
+  // 📊 상태 조회 / 설정
+  // ============================================================================
+
+  /**
+   * MiningStatus 화면 상태 - timezone은 저장된 시간대가 없을 때만 사용
+   */
+  async getState(did: string, timezone?: string): Promise<MiningStateView> {
+    const row = await this.loadRow(did, isValidTimezone(timezone) ? timezone : undefined);
+    return this.toView(row, new Date());
+  }
+
+  async setTimezone(did: string, timezone: string): Promise<MiningStateView> {
+    const release = await this.acquireLock(did);
+    try {
+      const row = await this.loadRow(did);
+      row.timezone = timezone;
+      await this.saveRow(row);
+      console.log(`🌐 마이닝 시간대 설정: ${did} → ${timezone}`);
+      return this.toView(row, new Date());
+    } finally {
+      release();
+    }
+  }
+
+  // ============================================================================
+  // ⛏️ 한도 적용 마이닝
+  // ============================================================================
+
+  /**
+   * 쿨다운/일일 한도 확인 후 배율을 적용한 금액으로 post 실행
+   * post는 원장 기록 함수 - 한도를 넘는 부분은 잘라서 기록
+   */
+  async mine(
+    did: string,
+    source: string,
+    baseAmount: number,
+    post: (amount: number, multiplier: number) => Promise<LedgerPostResult>
+  ): Promise<MiningAllowanceResult> {
+    const release = await this.acquireLock(did);
+    try {
+      const now = new Date();
+      const row = await this.loadRow(did);
+      const today = localDate(now, row.timezone);
+      const multiplier = streakMultiplier(this.currentStreak(row, today));
+
+      const lastMinedAt = row.source_last_mined_at?.[source];
+      if (lastMinedAt) {
+        const retryAt = Date.parse(lastMinedAt) + MiningLimiter.cooldownMs(source);
+        if (retryAt > now.getTime()) {
+          console.log(`⏳ 마이닝 쿨다운: ${did} (${source})`);
+          return { credited: 0, multiplier, replayed: false, reason: 'cooldown', retryAt: new Date(retryAt).toISOString() };
+        }
+      }
+
+      const remaining = MiningLimiter.dailyCap() - (row.daily_totals[today] || 0);
+      const amount = round2(Math.min(baseAmount * multiplier, remaining));
+      if (amount < 0.01) {
+        console.log(`🚫 일일 마이닝 한도 도달: ${did}`);
+        return { credited: 0, multiplier, replayed: false, reason: 'daily_cap' };
+      }
+
+      const result = await post(amount, multiplier);
+      const credited = this.creditedAmount(result, did);
+      if (!result.replayed) {
+        this.recordMining(row, source, credited, now, today);
+        await this.saveRow(row);
+      }
+
+      return { credited, multiplier, replayed: result.replayed };
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * 일일 로그인 보너스 - 사용자 시간대 기준 하루 1회
+   * 시간대를 바꿔도 이미 받은 날짜보다 이후 날짜일 때만 지급
+   */
+  async claimLoginBonus(
+    did: string,
+    timezone: string | undefined,
+    post: (amount: number, localDay: string) => Promise<LedgerPostResult>,
+    bonusAmount: number = MINING_LIMITS.loginBonus
+  ): Promise<MiningAllowanceResult> {
+    const release = await this.acquireLock(did);
+    try {
+      const now = new Date();
+      const row = await this.loadRow(did);
+      if (isValidTimezone(timezone) && timezone !== row.timezone) {
+        row.timezone = timezone;
+      }
+
+      const today = localDate(now, row.timezone);
+      const multiplier = streakMultiplier(this.currentStreak(row, today));
+
+      if (row.last_login_bonus_date && row.last_login_bonus_date >= today) {
+        await this.saveRow(row);
+        return { credited: 0, multiplier, replayed: false, reason: 'already_claimed' };
+      }
+
+      const result = await post(bonusAmount, today);
+      const credited = this.creditedAmount(result, did);
+      row.last_login_bonus_date = today;
+      if (!result.replayed) {
+        // 로그인 보너스는 날짜로 제한하므로 쿨다운 대상 아님
+        this.recordMining(row, 'daily_login', credited, now, today, false);
+      }
+      await this.saveRow(row);
+
+      return {
+        credited: result.replayed ? 0 : credited,
+        multiplier,
+        replayed: result.replayed,
+        reason: result.replayed ? 'already_claimed' : undefined
+      };
+    } finally {
+      release();
+    }
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸리티
+  // ============================================================================
+
+  private recordMining(row: any, source: string, credited: number, now: Date, today: string, cooldown = true): void {
+    row.daily_totals[today] = round2((row.daily_totals[today] || 0) + credited);
+    row.total_mined = round2(Number(row.total_mined || 0) + credited);
+    if (cooldown) {
+      row.source_last_mined_at = { ...row.source_last_mined_at, [source]: now.toISOString() };
+    }
+    row.last_mined_at = now.toISOString();
+
+    if (row.activity_today?.date !== today) {
+      row.activity_today = { date: today, counts: {} };
+    }
+    row.activity_today.counts[source] = (row.activity_today.counts[source] || 0) + 1;
+
+    // 연속 일수: 어제 활동했으면 +1, 오늘 이미 집계됐으면 유지, 그 외 1부터 다시
+    if (row.last_active_date !== today) {
+      row.streak_days = row.last_active_date === shiftDate(today, -1) ? Number(row.streak_days || 0) + 1 : 1;
+      row.last_active_date = today;
+    }
+
+    const oldest = shiftDate(today, -DAILY_TOTALS_RETENTION_DAYS);
+    for (const day of Object.keys(row.daily_totals)) {
+      if (day < oldest) delete row.daily_totals[day];
+    }
+  }
+
+  /**
+   * 어제나 오늘 활동이 없으면 연속 기록은 끊긴 것으로 간주
+   */
+  private currentStreak(row: any, today: string): number {
+    if (row.last_active_date === today || row.last_active_date === shiftDate(today, -1)) {
+      return Number(row.streak_days || 0);
+    }
+    return 0;
+  }
+
+  private toView(row: any, now: Date): MiningStateView {
+    const today = localDate(now, row.timezone);
+    const dailyCap = MiningLimiter.dailyCap();
+    const minedToday = round2(row.daily_totals[today] || 0);
+    const remainingToday = round2(Math.max(0, dailyCap - minedToday));
+    const streakDays = this.currentStreak(row, today);
+    const untilMidnight = new Date(now.getTime() + msUntilLocalMidnight(now, row.timezone)).toISOString();
+
+    const cooldowns: Record<string, string> = {};
+    for (const [source, at] of Object.entries(row.source_last_mined_at || {})) {
+      const retryAt = Date.parse(at as string) + MiningLimiter.cooldownMs(source);
+      if (retryAt > now.getTime()) cooldowns[source] = new Date(retryAt).toISOString();
+    }
+
+    const sumSince = (days: number) => round2(
+      Object.entries(row.daily_totals)
+        .filter(([day]) => day > shiftDate(today, -days))
+        .reduce((sum, [, amount]) => sum + Number(amount), 0)
+    );
+
+    const loginBonusClaimedToday = !!row.last_login_bonus_date && row.last_login_bonus_date >= today;
+
+    return {
+      did: row.did,
+      timezone: row.timezone,
+      isActive: !!row.last_mined_at && now.getTime() - Date.parse(row.last_mined_at) < MINING_LIMITS.activeWindowMs,
+      canMine: remainingToday > 0,
+      cooldownUntil: remainingToday > 0 ? null : untilMidnight,
+      multiplier: streakMultiplier(streakDays),
+      streakDays,
+      dailyCap,
+      minedToday,
+      remainingToday,
+      cooldowns,
+      activityToday: row.activity_today?.date === today ? { ...row.activity_today.counts } : {},
+      loginBonusClaimedToday,
+      nextLoginBonusAt: loginBonusClaimedToday ? untilMidnight : null,
+      weeklyMined: sumSince(7),
+      monthlyMined: sumSince(30),
+      totalMined: round2(Number(row.total_mined || 0)),
+      lastMinedAt: row.last_mined_at || null
+    };
+  }
+
+  private async loadRow(did: string, fallbackTimezone?: string): Promise<any> {
+    const row = await this.db.getMiningState(did);
+    return {
+      did,
+      timezone: row?.timezone || fallbackTimezone || 'UTC',
+      streak_days: row?.streak_days || 0,
+      last_active_date: row?.last_active_date || null,
+      last_login_bonus_date: row?.last_login_bonus_date || null,
+      source_last_mined_at: row?.source_last_mined_at || {},
+      daily_totals: { ...(row?.daily_totals || {}) },
+      activity_today: row?.activity_today || null,
+      total_mined: row?.total_mined || 0,
+      last_mined_at: row?.last_mined_at || null
+    };
+  }
+
+  private async saveRow(row: any): Promise<void> {
+    const saved = await this.db.upsertMiningState({ ...row, updated_at: new Date().toISOString() });
+    if (!saved) {
+      console.error('❌ 마이닝 상태 저장 실패:', row.did);
+    }
+  }
+
+  private creditedAmount(result: LedgerPostResult, did: string): number {
+    const posting = result.entry.postings.find(p => p.account === userAccount(did));
+    return posting ? posting.amount : 0;
+  }
+
+  private async acquireLock(did: string): Promise<() => void> {
+    const previous = this.didLocks.get(did) || Promise.resolve();
+    let release!: () => void;
+    const current = new Promise<void>(resolve => { release = resolve; });
+    const chained = previous.then(() => current);
+    this.didLocks.set(did, chained);
+
+    await previous;
+    return () => {
+      release();
+      if (this.didLocks.get(did) === chained) {
+        this.didLocks.delete(did);
+      }
+    };
+  }
+}
+
+let sharedLimiter: MiningLimiter | null = null;
+
+export function getMiningLimiter(): MiningLimiter {
+  if (!sharedLimiter) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedLimiter = new MiningLimiter(db);
+  }
+  return sharedLimiter;
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// 🧾 CUE 마이닝 검토 대기열
+// 경로: backend/src/services/cue/MiningReviewQueue.ts
+// 용도: 어뷰징 의심 보상을 원장에 기록하지 않고 pending으로 보류 → 관리자 승인/거절
+// 흐름: hold(pending) → approve(원장 기록, approved) | reject(rejected, 지급 없음)
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { CueLedger, getCueLedger } from './CueLedger';
+import { AbuseAssessment } from './AbuseDetector';
+
+export enum MiningReviewErrorCode {
+  REVIEW_NOT_FOUND = 'REVIEW_NOT_FOUND',
+  REVIEW_ALREADY_DECIDED = 'REVIEW_ALREADY_DECIDED'
+}
+
+export class MiningReviewError extends Error {
+  constructor(public code: MiningReviewErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'MiningReviewError';
+  }
+}
+
+export type MiningReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface MiningHoldInput {
+  userDid: string;
+  amount: number;
+  source: string;
+  /** 승인 시 원장 분개에 사용할 멱등성 키 */
+  idempotencyKey: string;
+  type?: 'mining' | 'reward';
+  description: string;
+  metadata?: any;
+  assessment: AbuseAssessment;
+}
+
+export interface MiningReviewView {
+  id: string;
+  userDid: string;
+  amount: number;
+  source: string;
+  description: string;
+  score: number;
+  signals: AbuseAssessment['signals'];
+  status: MiningReviewStatus;
+  reviewerDid: string | null;
+  reviewNote: string | null;
+  entryId: string | null;
+  createdAt: string;
+  reviewedAt: string | null;
+}
+
+function toReviewView(row: any): MiningReviewView {
+  return {
+    id: row.id,
+    userDid: row.did,
+    amount: Number(row.amount),
+    source: row.source,
+    description: row.description,
+    score: Number(row.score),
+    signals: row.signals || [],
+    status: row.status,
+    reviewerDid: row.reviewer_did || null,
+    reviewNote: row.review_note || null,
+    entryId: row.entry_id || null,
+    createdAt: row.created_at,
+    reviewedAt: row.reviewed_at || null
+  };
+}
+
+export class MiningReviewQueue {
+  constructor(
+    private db: any,
+    private ledger: CueLedger = getCueLedger()
+  ) {}
+
+  async hold(input: MiningHoldInput): Promise<MiningReviewView> {
+    const row = {
+      id: crypto.randomUUID(),
+      did: input.userDid,
+      amount: Math.round(input.amount * 100) / 100,
+      source: input.source,
+      entry_type: input.type || 'mining',
+      idempotency_key: input.idempotencyKey,
+      description: input.description,
+      metadata: input.metadata || {},
+      abuse_event_id: input.assessment.eventId,
+      score: input.assessment.score,
+      signals: input.assessment.signals,
+      status: 'pending',
+      reviewer_did: null,
+      review_note: null,
+      entry_id: null,
+      created_at: new Date().toISOString(),
+      reviewed_at: null
+    };
+
+    const saved = await this.db.createMiningReview(row);
+    console.log(`⏸️ CUE 보상 보류: ${input.userDid} ${row.amount} CUE (${input.source}, 점수 ${row.score})`);
+    return toReviewView(saved || row);
+  }
+
+  async list(status: MiningReviewStatus | 'all' = 'pending', limit = 50): Promise<MiningReviewView[]> {
+    const rows = await this.db.getMiningReviews({ status: status === 'all' ? undefined : status, limit });
+    return rows.map(toReviewView);
+  }
+
+  /**
+   * 사용자 본인 보류/거절 내역 (거래 내역 표시용)
+   */
+  async listForUser(userDid: string, limit = 50): Promise<MiningReviewView[]> {
+    const rows = await this.db.getMiningReviews({ did: userDid, limit });
+    return rows.map(toReviewView);
+  }
+
+  /**
+   * 승인 - 먼저 상태를 선점한 뒤 보류 당시 금액을 원장에 기록
+   */
+  async approve(reviewId: string, reviewerDid: string, note?: string): Promise<MiningReviewView> {
+    const row = await this.claim(reviewId, 'approved', reviewerDid, note);
+
+    let entryId: string;
+    try {
+      const { entry } = await this.ledger.mine(row.did, Number(row.amount), {
+        idempotencyKey: row.idempotency_key,
+        type: row.entry_type === 'reward' ? 'reward' : 'mining',
+        source: row.source,
+        description: row.description,
+        metadata: { ...row.metadata, reviewId: row.id, reviewedBy: reviewerDid }
+      });
+      entryId = entry.id;
+    } catch (error) {
+      // 원장 기록 실패 시 다시 검토 대기로 되돌림
+      await this.db.updateMiningReview(row.id, 'approved', {
+        status: 'pending',
+        reviewer_did: null,
+        review_note: null,
+        reviewed_at: null
+      });
+      throw error;
+    }
+
+    const updated = await this.db.updateMiningReview(row.id, 'approved', { entry_id: entryId });
+    return toReviewView(updated || { ...row, entry_id: entryId });
+  }
+
+  async reject(reviewId: string, reviewerDid: string, note?: string): Promise<MiningReviewView> {
+    return toReviewView(await this.claim(reviewId, 'rejected', reviewerDid, note));
+  }
+
+  /**
+   * pending → approved/rejected 전환 (동시에 다른 관리자가 처리했으면 409)
+   */
+  private async claim(
+    reviewId: string,
+    status: 'approved' | 'rejected',
+    reviewerDid: string,
+    note?: string
+  ): Promise<any> {
+    const row = await this.db.getMiningReview(reviewId);
+    if (!row) {
+      throw new MiningReviewError(MiningReviewErrorCode.REVIEW_NOT_FOUND, 'Mining review not found', 404);
+    }
+
+    const updated = row.status === 'pending'
+      ? await this.db.updateMiningReview(reviewId, 'pending', {
+          status,
+          reviewer_did: reviewerDid,
+          review_note: note || null,
+          reviewed_at: new Date().toISOString()
+        })
+      : null;
+
+    if (!updated) {
+      const current = row.status === 'pending' ? await this.db.getMiningReview(reviewId) : row;
+      throw new MiningReviewError(
+        MiningReviewErrorCode.REVIEW_ALREADY_DECIDED,
+        `Mining review is already ${current?.status || 'decided'}`,
+        409
+      );
+    }
+
+    console.log(`${status === 'approved' ? '✅' : '🚫'} CUE 보상 검토 ${status}: ${reviewId} (${row.did})`);
+    return updated;
+  }
+}
+
+let sharedQueue: MiningReviewQueue | null = null;
+
+export function getMiningReviewQueue(): MiningReviewQueue {
+  if (!sharedQueue) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedQueue = new MiningReviewQueue(db);
+  }
+  return sharedQueue;
+}
@@ -6,7 +6,13 @@
 // ============================================================================
 
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { Database } from '../../types/database.types';
+import {
+  CueEmbeddingStateRow,
+  Database,
+  MatchedCueEmbeddingRow,
+  MatchPersonalCueEmbeddingsFunction
+} from '../../types/database.types';
+import { activePath, buildMessageTree } from '../ai/MessageTree';
 
 export class DatabaseService {
   private static instance: DatabaseService;
@@ -17,10 +23,30 @@ export class DatabaseService {
     users: [],
     ai_passports: [],
     cue_transactions: [],
+    cue_ledger_entries: [],
+    cue_ledger_postings: [],
+    cue_ledger_snapshots: [],
+    cue_transfers: [],
+    cue_mining_states: [],
+    cue_abuse_events: [],
+    cue_mining_reviews: [],
+    cue_reward_policies: [],
+    cue_spend_holds: [],
+    cue_settlement_batches: [],
+    cue_withdrawals: [],
+    cue_receipt_roots: [],
     data_vaults: [],
     personal_cues: [],
+    personal_cue_embeddings: [],
+    rag_dag_nodes: [],
+    rag_dag_edges: [],
     chat_messages: [],
+    conversations: [],
     webauthn_credentials: [],
+    webauthn_challenges: [],
+    auth_sessions: [],
+    verifiable_credentials: [],
+    presentation_requests: [],
     system_logs: []
   };
 
@@ -479,6 +505,310 @@ export class DatabaseService {
     }
   }
 
+  public async updateWebAuthnCredential(credentialId: string, updates: any) {
+    if (this.mockMode) {
+      const credential = this.mockData.webauthn_credentials.find((c: any) => 
+        c.credential_id === credentialId
+      );
+      if (!credential) return null;
+      Object.assign(credential, updates, { updated_at: new Date().toISOString() });
+      console.log('🎭 Mock WebAuthn credential updated:', credentialId);
+      return credential;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('webauthn_credentials')
+        .update({ 
+          ...updates, 
+          updated_at: new Date().toISOString() 
+        })
+        .eq('credential_id', credentialId)
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Update WebAuthn credential error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🔑 인증 세션 관리 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createAuthSession(sessionData: any) {
+    if (this.mockMode) {
+      const newSession = {
+        ...sessionData,
+        created_at: sessionData.created_at || new Date().toISOString(),
+        revoked_at: null
+      };
+      this.mockData.auth_sessions.push(newSession);
+      return newSession;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('auth_sessions')
+        .insert([sessionData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create auth session error:', error);
+      return null;
+    }
+  }
+
+  public async getAuthSession(jti: string) {
+    if (this.mockMode) {
+      return this.mockData.auth_sessions.find((s: any) => s.jti === jti) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('auth_sessions')
+        .select('*')
+        .eq('jti', jti)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get auth session error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 리프레시 토큰 회전 - 세대(generation)가 일치할 때만 갱신 (동시 회전 방지)
+   */
+  public async rotateAuthSession(jti: string, expectedGeneration: number, updates: any) {
+    if (this.mockMode) {
+      const session = this.mockData.auth_sessions.find((s: any) => 
+        s.jti === jti && s.refresh_generation === expectedGeneration && !s.revoked_at
+      );
+      if (!session) return null;
+      Object.assign(session, updates);
+      return session;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('auth_sessions')
+        .update(updates)
+        .eq('jti', jti)
+        .eq('refresh_generation', expectedGeneration)
+        .is('revoked_at', null)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Rotate auth session error:', error);
+      return null;
+    }
+  }
+
+  public async getActiveAuthSessions(userId: string) {
+    const now = new Date().toISOString();
+
+    if (this.mockMode) {
+      return this.mockData.auth_sessions
+        .filter((s: any) => s.user_id === userId && !s.revoked_at && s.expires_at > now)
+        .sort((a: any, b: any) => (b.last_used_at || '').localeCompare(a.last_used_at || ''));
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('auth_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .gt('expires_at', now)
+        .order('last_used_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get active auth sessions error:', error);
+      return [];
+    }
+  }
+
+  public async revokeAuthSession(jti: string, reason: string) {
+    const updates = { revoked_at: new Date().toISOString(), revoked_reason: reason };
+
+    if (this.mockMode) {
+      const session = this.mockData.auth_sessions.find((s: any) => s.jti === jti && !s.revoked_at);
+      if (!session) return false;
+      Object.assign(session, updates);
+      return true;
+    }
+
+    try {
+      const { error } = await this.supabase!
+        .from('auth_sessions')
+        .update(updates)
+        .eq('jti', jti)
+        .is('revoked_at', null);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Revoke auth session error:', error);
+      return false;
+    }
+  }
+
+  public async revokeUserAuthSessions(userId: string, reason: string, exceptJti?: string): Promise<number> {
+    const updates = { revoked_at: new Date().toISOString(), revoked_reason: reason };
+
+    if (this.mockMode) {
+      const targets = this.mockData.auth_sessions.filter((s: any) => 
+        s.user_id === userId && !s.revoked_at && s.jti !== exceptJti
+      );
+      targets.forEach((s: any) => Object.assign(s, updates));
+      return targets.length;
+    }
+
+    try {
+      let query = this.supabase!
+        .from('auth_sessions')
+        .update(updates)
+        .eq('user_id', userId)
+        .is('revoked_at', null);
+
+      if (exceptJti) {
+        query = query.neq('jti', exceptJti);
+      }
+
+      const { data, error } = await query.select('jti');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      console.error('Revoke user auth sessions error:', error);
+      return 0;
+    }
+  }
+
+  public async revokeCredentialAuthSessions(userId: string, credentialId: string, reason: string): Promise<number> {
+    const updates = { revoked_at: new Date().toISOString(), revoked_reason: reason };
+
+    if (this.mockMode) {
+      const targets = this.mockData.auth_sessions.filter((s: any) => 
+        s.user_id === userId && s.credential_id === credentialId && !s.revoked_at
+      );
+      targets.forEach((s: any) => Object.assign(s, updates));
+      return targets.length;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('auth_sessions')
+        .update(updates)
+        .eq('user_id', userId)
+        .eq('credential_id', credentialId)
+        .is('revoked_at', null)
+        .select('jti');
+
+      if (error) throw error;
+      return data?.length || 0;
+    } catch (error) {
+      console.error('Revoke credential auth sessions error:', error);
+      return 0;
+    }
+  }
+
+  // ============================================================================
+  // 🎫 WebAuthn 챌린지 관리 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createWebAuthnChallenge(challengeData: any) {
+    if (this.mockMode) {
+      this.mockData.webauthn_challenges.push({
+        ...challengeData,
+        created_at: challengeData.created_at || new Date().toISOString()
+      });
+      return true;
+    }
+
+    try {
+      const { error } = await this.supabase!
+        .from('webauthn_challenges')
+        .insert([challengeData]);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Create WebAuthn challenge error:', error);
+      return false;
+    }
+  }
+
+  /**
+   * 챌린지 1회성 소비 - 만료되지 않은 행을 삭제하면서 반환
+   */
+  public async consumeWebAuthnChallenge(sessionId: string) {
+    const now = new Date().toISOString();
+
+    if (this.mockMode) {
+      const index = this.mockData.webauthn_challenges.findIndex((c: any) => 
+        c.session_id === sessionId
+      );
+      if (index < 0) return null;
+      const [challenge] = this.mockData.webauthn_challenges.splice(index, 1);
+      return challenge.expires_at > now ? challenge : null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('webauthn_challenges')
+        .delete()
+        .eq('session_id', sessionId)
+        .gt('expires_at', now)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Consume WebAuthn challenge error:', error);
+      return null;
+    }
+  }
+
+  public async countActiveWebAuthnChallenges(ipAddress: string): Promise<number> {
+    const now = new Date().toISOString();
+
+    if (this.mockMode) {
+      return this.mockData.webauthn_challenges.filter((c: any) => 
+        c.ip_address === ipAddress && c.expires_at > now
+      ).length;
+    }
+
+    try {
+      const { count, error } = await this.supabase!
+        .from('webauthn_challenges')
+        .select('session_id', { count: 'exact', head: true })
+        .eq('ip_address', ipAddress)
+        .gt('expires_at', now);
+
+      if (error) throw error;
+      return count || 0;
+    } catch (error) {
+      console.error('Count WebAuthn challenges error:', error);
+      return 0;
+    }
+  }
+
   // ============================================================================
   // 🎫 AI Passport 관련 메서드 (SupabaseService와 동일)
   // ============================================================================
@@ -536,363 +866,2174 @@ export class DatabaseService {
         .single();
 
       if (error) throw error;
-      return data;
+      return data;
+    } catch (error) {
+      console.error('Update passport error:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // 📜 검증 가능한 자격증명 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createVerifiableCredential(credentialData: any) {
+    if (this.mockMode) {
+      const newCredential = {
+        ...credentialData,
+        revoked_at: null,
+        revoked_reason: null
+      };
+      this.mockData.verifiable_credentials.push(newCredential);
+      return newCredential;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .insert([credentialData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create verifiable credential error:', error);
+      return null;
+    }
+  }
+
+  public async getVerifiableCredentials(holderDid: string) {
+    if (this.mockMode) {
+      return this.mockData.verifiable_credentials
+        .filter((c: any) => c.holder_did === holderDid)
+        .sort((a: any, b: any) => b.issued_at.localeCompare(a.issued_at));
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('holder_did', holderDid)
+        .order('issued_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get verifiable credentials error:', error);
+      return [];
+    }
+  }
+
+  public async getVerifiableCredentialById(id: string) {
+    if (this.mockMode) {
+      return this.mockData.verifiable_credentials.find((c: any) => c.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get verifiable credential error:', error);
+      return null;
+    }
+  }
+
+  public async getVerifiableCredentialByStatusIndex(statusListId: string, statusIndex: number) {
+    if (this.mockMode) {
+      return this.mockData.verifiable_credentials.find((c: any) => 
+        c.status_list_id === statusListId && c.status_index === statusIndex
+      ) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('status_list_id', statusListId)
+        .eq('status_index', statusIndex)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get verifiable credential by status index error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 상태 목록에서 폐기된 인덱스 목록 (StatusList2021 비트열 생성용)
+   */
+  public async getRevokedStatusIndices(statusListId: string): Promise<number[]> {
+    if (this.mockMode) {
+      return this.mockData.verifiable_credentials
+        .filter((c: any) => c.status_list_id === statusListId && c.revoked_at)
+        .map((c: any) => c.status_index);
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .select('status_index')
+        .eq('status_list_id', statusListId)
+        .not('revoked_at', 'is', null);
+
+      if (error) throw error;
+      return (data || []).map((row: any) => row.status_index);
+    } catch (error) {
+      console.error('Get revoked status indices error:', error);
+      return [];
+    }
+  }
+
+  public async revokeVerifiableCredential(id: string, reason: string) {
+    const updates = { revoked_at: new Date().toISOString(), revoked_reason: reason };
+
+    if (this.mockMode) {
+      const credential = this.mockData.verifiable_credentials.find((c: any) => c.id === id && !c.revoked_at);
+      if (!credential) return null;
+      Object.assign(credential, updates);
+      return credential;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('verifiable_credentials')
+        .update(updates)
+        .eq('id', id)
+        .is('revoked_at', null)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Revoke verifiable credential error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🤝 제시 요청 (선택적 공개, SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createPresentationRequest(requestData: any) {
+    if (this.mockMode) {
+      const newRequest = { ...requestData };
+      this.mockData.presentation_requests.push(newRequest);
+      return newRequest;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('presentation_requests')
+        .insert([requestData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create presentation request error:', error);
+      return null;
+    }
+  }
+
+  public async getPresentationRequest(id: string) {
+    if (this.mockMode) {
+      return this.mockData.presentation_requests.find((r: any) => r.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('presentation_requests')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get presentation request error:', error);
+      return null;
+    }
+  }
+
+  public async getPendingPresentationRequests(subjectDid: string) {
+    const now = new Date().toISOString();
+
+    if (this.mockMode) {
+      return this.mockData.presentation_requests
+        .filter((r: any) => r.subject_did === subjectDid && r.status === 'pending' && r.expires_at > now)
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at));
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('presentation_requests')
+        .select('*')
+        .eq('subject_did', subjectDid)
+        .eq('status', 'pending')
+        .gt('expires_at', now)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get pending presentation requests error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 상태가 expectedStatus일 때만 갱신 (승인/거절 중복 처리 방지)
+   */
+  public async updatePresentationRequest(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const request = this.mockData.presentation_requests.find((r: any) => 
+        r.id === id && r.status === expectedStatus
+      );
+      if (!request) return null;
+      Object.assign(request, updates);
+      return request;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('presentation_requests')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update presentation request error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 💎 CUE 토큰 관련 메서드 (SupabaseService와 동일)
+  // ============================================================================
+
+  public async createCUETransaction(transaction: any) {
+    if (this.mockMode) {
+      const newTransaction = {
+        id: `cue-${Date.now()}`,
+        ...transaction,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      this.mockData.cue_transactions.push(newTransaction);
+      console.log('🎭 Mock CUE transaction created:', newTransaction.amount);
+      return newTransaction;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transactions')
+        .insert([transaction])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create CUE transaction error:', error);
+      throw error;
+    }
+  }
+
+  public async getCUEBalance(did: string): Promise<number> {
+    if (this.mockMode) {
+      const transactions = this.mockData.cue_transactions.filter((t: any) => t.user_did === did);
+      const balance = transactions.reduce((sum: number, tx: any) => sum + parseFloat(tx.amount), 0);
+      console.log('🎭 Mock CUE balance:', balance);
+      return Math.round(balance * 100) / 100;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transactions')
+        .select('amount')
+        .eq('user_did', did);
+
+      if (error) throw error;
+      
+      const balance = data?.reduce((sum, tx) => sum + parseFloat(tx.amount.toString()), 0) || 0;
+      return Math.round(balance * 100) / 100;
+    } catch (error) {
+      console.error('Get CUE balance error:', error);
+      return 0;
+    }
+  }
+
+  public async getCUETransactions(did: string, limit = 50) {
+    if (this.mockMode) {
+      const transactions = this.mockData.cue_transactions
+        .filter((t: any) => t.user_did === did)
+        .slice(-limit)
+        .reverse();
+      return transactions;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transactions')
+        .select('*')
+        .eq('user_did', did)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get CUE transactions error:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 📒 CUE 원장 (복식부기, SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  /**
+   * 분개와 전기를 함께 기록 - 같은 멱등성 키가 이미 있으면 null
+   */
+  public async createLedgerEntry(entryData: any, postingsData: any[]) {
+    if (this.mockMode) {
+      if (this.mockData.cue_ledger_entries.some((e: any) => e.idempotency_key === entryData.idempotency_key)) {
+        return null;
+      }
+      const entry = { ...entryData };
+      const postings = postingsData.map((posting: any) => {
+        const newPosting = {
+          ...posting,
+          seq: this.mockData.cue_ledger_postings.length + 1,
+          created_at: entry.created_at
+        };
+        this.mockData.cue_ledger_postings.push(newPosting);
+        return newPosting;
+      });
+      this.mockData.cue_ledger_entries.push(entry);
+      return { ...entry, postings };
+    }
+
+    const { data: entry, error } = await this.supabase!
+      .from('cue_ledger_entries')
+      .insert([entryData])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null;
+      console.error('Create ledger entry error:', error);
+      throw error;
+    }
+
+    const { data: postings, error: postingsError } = await this.supabase!
+      .from('cue_ledger_postings')
+      .insert(postingsData.map((posting: any) => ({ ...posting, created_at: entry.created_at })))
+      .select();
+
+    if (postingsError) {
+      // 전기 실패 시 분개를 되돌려 한쪽만 남지 않게 함
+      await this.supabase!.from('cue_ledger_entries').delete().eq('id', entry.id);
+      console.error('Create ledger postings error:', postingsError);
+      throw postingsError;
+    }
+
+    return { ...entry, postings: postings || [] };
+  }
+
+  public async getLedgerEntryByIdempotencyKey(idempotencyKey: string) {
+    if (this.mockMode) {
+      const entry = this.mockData.cue_ledger_entries.find((e: any) => e.idempotency_key === idempotencyKey);
+      if (!entry) return null;
+      return {
+        ...entry,
+        postings: this.mockData.cue_ledger_postings.filter((p: any) => p.entry_id === entry.id)
+      };
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .eq('idempotency_key', idempotencyKey)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get ledger entry error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 계정의 전기 목록 (afterSeq 이후, seq 오름차순)
+   */
+  public async getLedgerPostings(account: string, afterSeq = 0) {
+    if (this.mockMode) {
+      return this.mockData.cue_ledger_postings
+        .filter((p: any) => p.account === account && p.seq > afterSeq);
+    }
+
+    const { data, error } = await this.supabase!
+      .from('cue_ledger_postings')
+      .select('*')
+      .eq('account', account)
+      .gt('seq', afterSeq)
+      .order('seq', { ascending: true });
+
+    if (error) {
+      console.error('Get ledger postings error:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  /**
+   * 계정 거래 내역 (전기 + 분개, 최신순)
+   */
+  public async getLedgerAccountHistory(account: string, limit = 50) {
+    if (this.mockMode) {
+      return this.mockData.cue_ledger_postings
+        .filter((p: any) => p.account === account)
+        .slice(-limit)
+        .reverse()
+        .map((p: any) => ({
+          ...p,
+          entry: this.mockData.cue_ledger_entries.find((e: any) => e.id === p.entry_id) || null
+        }));
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_postings')
+        .select('*, entry:cue_ledger_entries(*)')
+        .eq('account', account)
+        .order('seq', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get ledger account history error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 전체 전기 목록 (정합성 검사용, 1000건 단위 페이지 조회)
+   */
+  public async getAllLedgerPostings() {
+    if (this.mockMode) {
+      return [...this.mockData.cue_ledger_postings];
+    }
+
+    const pageSize = 1000;
+    const postings: any[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_postings')
+        .select('entry_id, account, amount, seq')
+        .order('seq', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('Get all ledger postings error:', error);
+        throw error;
+      }
+      postings.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+    return postings;
+  }
+
+  /**
+   * 전체 계정 전기 (afterSeq 이후, before 이전 기록만, seq 오름차순) - 정산 묶음용
+   */
+  public async getLedgerPostingsAfterSeq(afterSeq: number, before: string, limit = 500) {
+    if (this.mockMode) {
+      return this.mockData.cue_ledger_postings
+        .filter((p: any) => p.seq > afterSeq && p.created_at < before)
+        .slice(0, limit);
+    }
+
+    const { data, error } = await this.supabase!
+      .from('cue_ledger_postings')
+      .select('entry_id, account, amount, seq, created_at')
+      .gt('seq', afterSeq)
+      .lt('created_at', before)
+      .order('seq', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('Get ledger postings after seq error:', error);
+      throw error;
+    }
+    return data || [];
+  }
+
+  public async getLedgerEntryById(id: string) {
+    if (this.mockMode) {
+      const entry = this.mockData.cue_ledger_entries.find((e: any) => e.id === id);
+      if (!entry) return null;
+      return {
+        ...entry,
+        postings: this.mockData.cue_ledger_postings.filter((p: any) => p.entry_id === entry.id)
+      };
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get ledger entry by id error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 기간 내 분개 (전기 포함, created_at → id 오름차순) - 일별 영수증 트리용
+   */
+  public async getLedgerEntriesBetween(entryTypes: string[], from: string, to: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_ledger_entries
+        .filter((e: any) => entryTypes.includes(e.entry_type) && e.created_at >= from && e.created_at < to)
+        .slice()
+        .sort((a: any, b: any) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id))
+        .map((entry: any) => ({
+          ...entry,
+          postings: this.mockData.cue_ledger_postings.filter((p: any) => p.entry_id === entry.id)
+        }));
+    }
+
+    const pageSize = 1000;
+    const entries: any[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .in('entry_type', entryTypes)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        console.error('Get ledger entries between error:', error);
+        throw error;
+      }
+      entries.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+    return entries;
+  }
+
+  public async createLedgerSnapshot(snapshotData: any) {
+    if (this.mockMode) {
+      const newSnapshot = { ...snapshotData };
+      this.mockData.cue_ledger_snapshots.push(newSnapshot);
+      return newSnapshot;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_snapshots')
+        .insert([snapshotData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create ledger snapshot error:', error);
+      return null;
+    }
+  }
+
+  public async getLatestLedgerSnapshot(account: string) {
+    if (this.mockMode) {
+      const snapshots = this.mockData.cue_ledger_snapshots.filter((s: any) => s.account === account);
+      return snapshots.length > 0 ? snapshots[snapshots.length - 1] : null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_snapshots')
+        .select('*')
+        .eq('account', account)
+        .order('last_seq', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get latest ledger snapshot error:', error);
+      return null;
+    }
+  }
+
+  public async getLedgerSnapshots() {
+    if (this.mockMode) {
+      return [...this.mockData.cue_ledger_snapshots];
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_ledger_snapshots')
+        .select('*')
+        .order('last_seq', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get ledger snapshots error:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 💸 CUE 송금 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createCueTransfer(transferData: any) {
+    if (this.mockMode) {
+      const newTransfer = { ...transferData };
+      this.mockData.cue_transfers.push(newTransfer);
+      return newTransfer;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transfers')
+        .insert([transferData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create CUE transfer error:', error);
+      return null;
+    }
+  }
+
+  public async getCueTransfer(id: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_transfers.find((t: any) => t.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transfers')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get CUE transfer error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 보낸 송금 + 받은 송금 (최신순)
+   */
+  public async getCueTransfers(did: string, limit = 50) {
+    if (this.mockMode) {
+      return this.mockData.cue_transfers
+        .filter((t: any) => t.sender_did === did || t.recipient_did === did)
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transfers')
+        .select('*')
+        .or(`sender_did.eq.${did},recipient_did.eq.${did}`)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get CUE transfers error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 상태가 expectedStatus일 때만 갱신 (에스크로 지급/환불 중복 처리 방지)
+   */
+  public async updateCueTransfer(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const transfer = this.mockData.cue_transfers.find((t: any) =>
+        t.id === id && t.status === expectedStatus
+      );
+      if (!transfer) return null;
+      Object.assign(transfer, updates);
+      return transfer;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transfers')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update CUE transfer error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // ⏱️ CUE 마이닝 한도 상태 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async getMiningState(did: string) {
+    if (this.mockMode) {
+      const state = this.mockData.cue_mining_states.find((s: any) => s.did === did);
+      return state ? JSON.parse(JSON.stringify(state)) : null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_mining_states')
+        .select('*')
+        .eq('did', did)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get mining state error:', error);
+      return null;
+    }
+  }
+
+  public async upsertMiningState(stateData: any) {
+    if (this.mockMode) {
+      const index = this.mockData.cue_mining_states.findIndex((s: any) => s.did === stateData.did);
+      const saved = JSON.parse(JSON.stringify(stateData));
+      if (index >= 0) {
+        this.mockData.cue_mining_states[index] = saved;
+      } else {
+        this.mockData.cue_mining_states.push(saved);
+      }
+      return saved;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_mining_states')
+        .upsert(stateData, { onConflict: 'did' })
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Upsert mining state error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🕵️ CUE 어뷰징 탐지 / 보상 검토 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createAbuseEvent(eventData: any) {
+    if (this.mockMode) {
+      const newEvent = { ...eventData };
+      this.mockData.cue_abuse_events.push(newEvent);
+      return newEvent;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_abuse_events')
+        .insert([eventData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create abuse event error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * since 이후 사용자 상호작용 이벤트 (최신순)
+   */
+  public async getRecentAbuseEvents(did: string, since: string, limit = 100) {
+    if (this.mockMode) {
+      return this.mockData.cue_abuse_events
+        .filter((e: any) => e.did === did && e.created_at >= since)
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_abuse_events')
+        .select('*')
+        .eq('did', did)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get abuse events error:', error);
+      return [];
+    }
+  }
+
+  public async getAbuseEventsByDevice(
+    deviceHash: string,
+    since: string,
+    limit = 100,
+    field: 'device_hash' | 'claimed_device_hash' = 'device_hash'
+  ) {
+    if (this.mockMode) {
+      return this.mockData.cue_abuse_events
+        .filter((e: any) => e[field] === deviceHash && e.created_at >= since)
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_abuse_events')
+        .select('did, created_at')
+        .eq(field, deviceHash)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get abuse events by device error:', error);
+      return [];
+    }
+  }
+
+  public async createMiningReview(reviewData: any) {
+    if (this.mockMode) {
+      const newReview = { ...reviewData };
+      this.mockData.cue_mining_reviews.push(newReview);
+      return newReview;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_mining_reviews')
+        .insert([reviewData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create mining review error:', error);
+      return null;
+    }
+  }
+
+  public async getMiningReview(id: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_mining_reviews.find((r: any) => r.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_mining_reviews')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get mining review error:', error);
+      return null;
+    }
+  }
+
+  public async getMiningReviews(filter: { status?: string; did?: string; limit?: number } = {}) {
+    const limit = filter.limit || 50;
+
+    if (this.mockMode) {
+      return this.mockData.cue_mining_reviews
+        .filter((r: any) =>
+          (!filter.status || r.status === filter.status) &&
+          (!filter.did || r.did === filter.did)
+        )
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      let query = this.supabase!
+        .from('cue_mining_reviews')
+        .select('*');
+
+      if (filter.status) query = query.eq('status', filter.status);
+      if (filter.did) query = query.eq('did', filter.did);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get mining reviews error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 상태가 expectedStatus일 때만 갱신 (승인/거절 중복 처리 방지)
+   */
+  public async updateMiningReview(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const review = this.mockData.cue_mining_reviews.find((r: any) =>
+        r.id === id && r.status === expectedStatus
+      );
+      if (!review) return null;
+      Object.assign(review, updates);
+      return review;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_mining_reviews')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update mining review error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 📐 CUE 보상 정책 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createRewardPolicy(policyData: any) {
+    if (this.mockMode) {
+      if (this.mockData.cue_reward_policies.some((p: any) => p.version === policyData.version)) {
+        return null;
+      }
+      const newPolicy = JSON.parse(JSON.stringify(policyData));
+      this.mockData.cue_reward_policies.push(newPolicy);
+      return newPolicy;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_reward_policies')
+        .insert([policyData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create reward policy error:', error);
+      return null;
+    }
+  }
+
+  public async getRewardPolicies() {
+    if (this.mockMode) {
+      return JSON.parse(JSON.stringify(this.mockData.cue_reward_policies));
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_reward_policies')
+        .select('*')
+        .order('effective_from', { ascending: true });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get reward policies error:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 🔒 CUE 소비 예약 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  public async createSpendHold(holdData: any) {
+    if (this.mockMode) {
+      const newHold = { ...holdData };
+      this.mockData.cue_spend_holds.push(newHold);
+      return newHold;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_spend_holds')
+        .insert([holdData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create spend hold error:', error);
+      return null;
+    }
+  }
+
+  public async getSpendHold(id: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_spend_holds.find((h: any) => h.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_spend_holds')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get spend hold error:', error);
+      return null;
+    }
+  }
+
+  public async getSpendHolds(filter: { did: string; status?: string; limit?: number }) {
+    const limit = filter.limit || 50;
+
+    if (this.mockMode) {
+      return this.mockData.cue_spend_holds
+        .filter((h: any) => h.did === filter.did && (!filter.status || h.status === filter.status))
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      let query = this.supabase!
+        .from('cue_spend_holds')
+        .select('*')
+        .eq('did', filter.did);
+
+      if (filter.status) query = query.eq('status', filter.status);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get spend holds error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 상태가 expectedStatus일 때만 갱신 (정산/환불 중복 처리 방지)
+   */
+  public async updateSpendHold(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const hold = this.mockData.cue_spend_holds.find((h: any) =>
+        h.id === id && h.status === expectedStatus
+      );
+      if (!hold) return null;
+      Object.assign(hold, updates);
+      return hold;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_spend_holds')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update spend hold error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🌉 CUE 온체인 정산 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  /**
+   * 같은 묶음 번호가 이미 있으면 null
+   */
+  public async createSettlementBatch(batchData: any) {
+    if (this.mockMode) {
+      if (this.mockData.cue_settlement_batches.some((b: any) => b.batch_number === batchData.batch_number)) {
+        return null;
+      }
+      const newBatch = { ...batchData };
+      this.mockData.cue_settlement_batches.push(newBatch);
+      return newBatch;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_settlement_batches')
+        .insert([batchData])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') return null;
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      console.error('Create settlement batch error:', error);
+      return null;
+    }
+  }
+
+  public async getLatestSettlementBatch() {
+    if (this.mockMode) {
+      const batches = this.mockData.cue_settlement_batches;
+      return batches.length > 0 ? batches[batches.length - 1] : null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_settlement_batches')
+        .select('*')
+        .order('batch_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Get latest settlement batch error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 묶음 목록 (최신순) - fromSeq/toSeq가 있으면 그 범위와 겹치는 묶음만
+   */
+  public async getSettlementBatches(filter: { statuses?: string[]; fromSeq?: number; toSeq?: number; limit?: number } = {}) {
+    const limit = filter.limit || 20;
+
+    if (this.mockMode) {
+      return this.mockData.cue_settlement_batches
+        .filter((b: any) =>
+          (!filter.statuses || filter.statuses.includes(b.status)) &&
+          (filter.fromSeq === undefined || b.last_seq >= filter.fromSeq) &&
+          (filter.toSeq === undefined || b.first_seq <= filter.toSeq)
+        )
+        .slice()
+        .sort((a: any, b: any) => b.batch_number - a.batch_number)
+        .slice(0, limit);
+    }
+
+    try {
+      let query = this.supabase!
+        .from('cue_settlement_batches')
+        .select('*');
+
+      if (filter.statuses) query = query.in('status', filter.statuses);
+      if (filter.fromSeq !== undefined) query = query.gte('last_seq', filter.fromSeq);
+      if (filter.toSeq !== undefined) query = query.lte('first_seq', filter.toSeq);
+
+      const { data, error } = await query
+        .order('batch_number', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get settlement batches error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 상태가 expectedStatus일 때만 갱신 (정산 주기 중복 처리 방지)
+   */
+  public async updateSettlementBatch(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const batch = this.mockData.cue_settlement_batches.find((b: any) =>
+        b.id === id && b.status === expectedStatus
+      );
+      if (!batch) return null;
+      Object.assign(batch, updates);
+      return batch;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_settlement_batches')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update settlement batch error:', error);
+      return null;
+    }
+  }
+
+  public async createCueWithdrawal(withdrawalData: any) {
+    if (this.mockMode) {
+      const newWithdrawal = { ...withdrawalData };
+      this.mockData.cue_withdrawals.push(newWithdrawal);
+      return newWithdrawal;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_withdrawals')
+        .insert([withdrawalData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create CUE withdrawal error:', error);
+      return null;
+    }
+  }
+
+  public async getCueWithdrawal(id: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_withdrawals.find((w: any) => w.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_withdrawals')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get CUE withdrawal error:', error);
+      return null;
+    }
+  }
+
+  public async getCueWithdrawals(filter: { did?: string; statuses?: string[]; limit?: number } = {}) {
+    const limit = filter.limit || 50;
+
+    if (this.mockMode) {
+      return this.mockData.cue_withdrawals
+        .filter((w: any) =>
+          (!filter.did || w.did === filter.did) &&
+          (!filter.statuses || filter.statuses.includes(w.status))
+        )
+        .slice()
+        .sort((a: any, b: any) => b.created_at.localeCompare(a.created_at))
+        .slice(0, limit);
+    }
+
+    try {
+      let query = this.supabase!
+        .from('cue_withdrawals')
+        .select('*');
+
+      if (filter.did) query = query.eq('did', filter.did);
+      if (filter.statuses) query = query.in('status', filter.statuses);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get CUE withdrawals error:', error);
+      return [];
+    }
+  }
+
+  public async updateCueWithdrawal(id: string, expectedStatus: string, updates: any) {
+    if (this.mockMode) {
+      const withdrawal = this.mockData.cue_withdrawals.find((w: any) =>
+        w.id === id && w.status === expectedStatus
+      );
+      if (!withdrawal) return null;
+      Object.assign(withdrawal, updates);
+      return withdrawal;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_withdrawals')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update CUE withdrawal error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🧾 CUE 영수증 일별 루트 (SupabaseService와 동일한 인터페이스)
+  // ============================================================================
+
+  /**
+   * 같은 날짜 루트가 이미 있으면 null
+   */
+  public async createCueReceiptRoot(rootData: any) {
+    if (this.mockMode) {
+      if (this.mockData.cue_receipt_roots.some((r: any) => r.date === rootData.date)) {
+        return null;
+      }
+      const newRoot = { ...rootData };
+      this.mockData.cue_receipt_roots.push(newRoot);
+      return newRoot;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_receipt_roots')
+        .insert([rootData])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') return null;
+        throw error;
+      }
+      return data;
+    } catch (error) {
+      console.error('Create CUE receipt root error:', error);
+      return null;
+    }
+  }
+
+  public async getCueReceiptRoot(date: string) {
+    if (this.mockMode) {
+      return this.mockData.cue_receipt_roots.find((r: any) => r.date === date) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_receipt_roots')
+        .select('*')
+        .eq('date', date)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get CUE receipt root error:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🗄️ 데이터 볼트 관련 메서드 (SupabaseService와 동일)
+  // ============================================================================
+
+  public async createDataVault(vaultData: any) {
+    if (this.mockMode) {
+      const newVault = {
+        id: `vault-${Date.now()}`,
+        ...vaultData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      this.mockData.data_vaults.push(newVault);
+      console.log('🎭 Mock data vault created:', newVault.name);
+      return newVault;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('data_vaults')
+        .insert([vaultData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create data vault error:', error);
+      throw error;
+    }
+  }
+
+  public async getDataVaults(did: string) {
+    if (this.mockMode) {
+      const vaults = this.mockData.data_vaults.filter((v: any) => v.owner_did === did);
+      return vaults;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('data_vaults')
+        .select('*')
+        .eq('owner_did', did)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get data vaults error:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 💬 채팅 메시지 저장 및 조회 (추가됨 - SupabaseService와 동일)
+  // ============================================================================
+
+  public async saveChatMessage(messageData: any): Promise<void> {
+    if (this.mockMode) {
+      const newMessage = {
+        id: messageData.id || `msg-${Date.now()}`,
+        ...messageData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      this.mockData.chat_messages.push(newMessage);
+      console.log('🎭 Mock chat message stored:', newMessage.message_type);
+      return;
+    }
+
+    try {
+      const { error } = await this.supabase!
+        .from('chat_messages')
+        .insert([messageData]);
+
+      if (error) throw error;
+    } catch (error) {
+      console.error('Store chat message error:', error);
+      throw error;
+    }
+  }
+
+  // 새로 추가됨: recordCueTransaction (SupabaseService와 동일)
+  // (중복 구현 제거됨)
+
+  // 추가: 타입 안전성이 강화된 CUE 거래 생성
+  public async createCUETransactionTyped(transactionData: {
+    user_did: string;
+    user_id?: string;
+    transaction_type: 'mining' | 'spending' | 'reward' | 'transfer';
+    amount: number;
+    status: 'pending' | 'completed' | 'failed';
+    source?: string;
+    description?: string;
+    metadata?: any;
+  }) {
+    if (this.mockMode) {
+      const newTransaction = {
+        id: `cue-tx-${Date.now()}`,
+        ...transactionData,
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      };
+      this.mockData.cue_transactions.push(newTransaction);
+      console.log('🎭 Mock typed CUE transaction created:', newTransaction.amount);
+      return newTransaction;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('cue_transactions')
+        .insert([{
+          user_did: transactionData.user_did,
+          user_id: transactionData.user_id || null,
+          transaction_type: transactionData.transaction_type,
+          amount: transactionData.amount,
+          status: transactionData.status,
+          source: transactionData.source || null,
+          description: transactionData.description || null,
+          metadata: transactionData.metadata || {},
+          created_at: new Date().toISOString()
+        }])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create typed CUE transaction error:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 채팅 기록 (최신순) - conversationId가 있으면 그 대화의 활성 가지만
+   */
+  public async getChatHistory(did: string, conversationId?: string, limit = 100) {
+    if (conversationId) {
+      const [messages, conversation] = await Promise.all([
+        this.getConversationMessages(did, conversationId),
+        this.getConversation(conversationId)
+      ]);
+      const path = activePath(buildMessageTree(messages), conversation?.active_leaf_id);
+      return path.slice(-limit).reverse();
+    }
+
+    if (this.mockMode) {
+      const messages = this.mockData.chat_messages.filter((m: any) => m.user_did === did);
+      return messages.slice(-limit).reverse();
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('chat_messages')
+        .select('*')
+        .eq('user_did', did)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get chat history error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 대화의 모든 메시지 (모든 가지, 오래된 순) - 메시지 트리 구성용
+   */
+  public async getConversationMessages(did: string, conversationId: string, limit = 1000) {
+    if (this.mockMode) {
+      return this.mockData.chat_messages
+        .filter((m: any) => m.user_did === did && m.conversation_id === conversationId)
+        .slice(-limit);
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('chat_messages')
+        .select('*')
+        .eq('user_did', did)
+        .eq('conversation_id', conversationId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return (data || []).reverse();
+    } catch (error) {
+      console.error('Get conversation messages error:', error);
+      return [];
+    }
+  }
+
+  public async getRecentInteractions(did: string, limit = 10) {
+    if (this.mockMode) {
+      const messages = this.mockData.chat_messages
+        .filter((m: any) => m.user_did === did)
+        .slice(-limit);
+      return messages;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('chat_messages')
+        .select('content, ai_model, created_at, message_type')
+        .eq('user_did', did)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get recent interactions error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 대화 하나의 메시지 삭제 (대화 삭제 시) - 삭제된 개수 반환
+   */
+  public async deleteChatMessages(did: string, conversationId: string): Promise<number> {
+    if (this.mockMode) {
+      const before = this.mockData.chat_messages.length;
+      this.mockData.chat_messages = this.mockData.chat_messages.filter((m: any) =>
+        !(m.user_did === did && m.conversation_id === conversationId)
+      );
+      return before - this.mockData.chat_messages.length;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('chat_messages')
+        .delete()
+        .eq('user_did', did)
+        .eq('conversation_id', conversationId)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length;
+    } catch (error) {
+      console.error('Delete chat messages error:', error);
+      throw error;
+    }
+  }
+
+  // ============================================================================
+  // 🗂️ 대화 (conversations) - 제목, 고정, 보관, 마지막 메시지 미리보기
+  // ============================================================================
+
+  public async createConversation(conversationData: any) {
+    if (this.mockMode) {
+      const newConversation = { ...conversationData };
+      this.mockData.conversations.push(newConversation);
+      return newConversation;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('conversations')
+        .insert([conversationData])
+        .select()
+        .single();
+
+      if (error) throw error;
+      return data;
+    } catch (error) {
+      console.error('Create conversation error:', error);
+      throw error;
+    }
+  }
+
+  public async getConversation(id: string) {
+    if (this.mockMode) {
+      return this.mockData.conversations.find((c: any) => c.id === id) || null;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('conversations')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Get conversation error:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 대화 목록 - 고정된 대화 먼저, 그다음 최근 메시지 순
+   */
+  public async getConversations(filter: { did: string; archived?: boolean; query?: string; limit?: number }) {
+    const limit = filter.limit || 50;
+
+    if (this.mockMode) {
+      const query = (filter.query || '').toLowerCase();
+      return this.mockData.conversations
+        .filter((c: any) =>
+          c.user_did === filter.did &&
+          (filter.archived === undefined || c.archived === filter.archived) &&
+          (!query || (c.title || '').toLowerCase().includes(query))
+        )
+        .sort((a: any, b: any) =>
+          Number(b.pinned) - Number(a.pinned) ||
+          (b.last_message_at || b.created_at).localeCompare(a.last_message_at || a.created_at)
+        )
+        .slice(0, limit);
+    }
+
+    try {
+      let query = this.supabase!
+        .from('conversations')
+        .select('*')
+        .eq('user_did', filter.did);
+
+      if (filter.archived !== undefined) query = query.eq('archived', filter.archived);
+      if (filter.query) query = query.ilike('title', `%${filter.query}%`);
+
+      const { data, error } = await query
+        .order('pinned', { ascending: false })
+        .order('last_message_at', { ascending: false, nullsFirst: false })
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return data || [];
+    } catch (error) {
+      console.error('Get conversations error:', error);
+      return [];
+    }
+  }
+
+  public async updateConversation(id: string, did: string, updates: any) {
+    if (this.mockMode) {
+      const conversation = this.mockData.conversations.find((c: any) => c.id === id && c.user_did === did);
+      if (!conversation) return null;
+      Object.assign(conversation, updates);
+      return conversation;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('conversations')
+        .update(updates)
+        .eq('id', id)
+        .eq('user_did', did)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') throw error;
+      return data;
+    } catch (error) {
+      console.error('Update conversation error:', error);
+      return null;
+    }
+  }
+
+  public async deleteConversation(id: string, did: string): Promise<boolean> {
+    if (this.mockMode) {
+      const index = this.mockData.conversations.findIndex((c: any) => c.id === id && c.user_did === did);
+      if (index === -1) return false;
+      this.mockData.conversations.splice(index, 1);
+      return true;
+    }
+
+    try {
+      const { data, error } = await this.supabase!
+        .from('conversations')
+        .delete()
+        .eq('id', id)
+        .eq('user_did', did)
+        .select('id');
+
+      if (error) throw error;
+      return (data || []).length > 0;
     } catch (error) {
-      console.error('Update passport error:', error);
+      console.error('Delete conversation error:', error);
       throw error;
     }
   }
 
   // ============================================================================
-  // 💎 CUE 토큰 관련 메서드 (SupabaseService와 동일)
+  // 🧠 개인화 CUE 저장 및 조회 (기존 유지)
   // ============================================================================
 
-  public async createCUETransaction(transaction: any) {
+  public async storePersonalCue(cueData: any) {
     if (this.mockMode) {
-      const newTransaction = {
+      const newCue = {
         id: `cue-${Date.now()}`,
-        ...transaction,
+        ...cueData,
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
       };
-      this.mockData.cue_transactions.push(newTransaction);
-      console.log('🎭 Mock CUE transaction created:', newTransaction.amount);
-      return newTransaction;
+      this.mockData.personal_cues.push(newCue);
+      console.log('🎭 Mock personal CUE stored');
+      return newCue;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('cue_transactions')
-        .insert([transaction])
+        .from('personal_cues')
+        .insert([cueData])
         .select()
         .single();
 
       if (error) throw error;
       return data;
     } catch (error) {
-      console.error('Create CUE transaction error:', error);
+      console.error('Store personal cue error:', error);
       throw error;
     }
   }
 
-  public async getCUEBalance(did: string): Promise<number> {
+  public async getPersonalCues(did: string, limit = 50) {
     if (this.mockMode) {
-      const transactions = this.mockData.cue_transactions.filter((t: any) => t.user_did === did);
-      const balance = transactions.reduce((sum: number, tx: any) => sum + parseFloat(tx.amount), 0);
-      console.log('🎭 Mock CUE balance:', balance);
-      return Math.round(balance * 100) / 100;
+      const cues = this.mockData.personal_cues
+        .filter((c: any) => c.user_did === did)
+        .slice(-limit);
+      return cues;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('cue_transactions')
-        .select('amount')
-        .eq('user_did', did);
+        .from('personal_cues')
+        .select('*')
+        .eq('user_did', did)
+        .order('importance_score', { ascending: false })
+        .order('created_at', { ascending: false })
+        .limit(limit);
 
       if (error) throw error;
-      
-      const balance = data?.reduce((sum, tx) => sum + parseFloat(tx.amount.toString()), 0) || 0;
-      return Math.round(balance * 100) / 100;
+      return data || [];
     } catch (error) {
-      console.error('Get CUE balance error:', error);
-      return 0;
+      console.error('Get personal cues error:', error);
+      return [];
     }
   }
 
-  public async getCUETransactions(did: string, limit = 50) {
+  public async searchPersonalCues(did: string, keywords: string[], limit = 10) {
     if (this.mockMode) {
-      const transactions = this.mockData.cue_transactions
-        .filter((t: any) => t.user_did === did)
-        .slice(-limit)
-        .reverse();
-      return transactions;
+      // Mock 키워드 검색 (keywords 배열이 하나라도 겹치는 CUE, 중요도 순)
+      const wanted = new Set(keywords.map(keyword => keyword.toLowerCase()));
+      const cues = this.mockData.personal_cues
+        .filter((c: any) => c.user_did === did)
+        .filter((c: any) => (c.keywords || []).some((keyword: string) => wanted.has(String(keyword).toLowerCase())))
+        .sort((a: any, b: any) => (b.importance_score || 0) - (a.importance_score || 0))
+        .slice(0, limit);
+      return cues;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('cue_transactions')
+        .from('personal_cues')
         .select('*')
         .eq('user_did', did)
-        .order('created_at', { ascending: false })
+        .overlaps('keywords', keywords)
+        .order('importance_score', { ascending: false })
         .limit(limit);
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      console.error('Get CUE transactions error:', error);
+      console.error('Search personal cues error:', error);
       return [];
     }
   }
 
   // ============================================================================
-  // 🗄️ 데이터 볼트 관련 메서드 (SupabaseService와 동일)
+  // 🧭 개인화 CUE 임베딩 (벡터 인덱스)
+  // Supabase: pgvector 테이블 + 코사인 검색 RPC
+  //   create table personal_cue_embeddings (
+  //     cue_id uuid references personal_cues(id) on delete cascade,
+  //     user_did text not null,
+  //     model text not null,
+  //     dimensions int not null,
+  //     embedding vector not null,
+  //     content_hash text not null,
+  //     created_at timestamptz default now(),
+  //     primary key (cue_id, model)
+  //   );
+  //   match_personal_cue_embeddings(p_user_did, p_model, p_embedding, p_limit)
+  //     → (cue_id, similarity) - 1 - (embedding <=> p_embedding) 내림차순
+  // Mock: 메모리 배열에서 전수 코사인 비교 (brute-force)
   // ============================================================================
 
-  public async createDataVault(vaultData: any) {
+  public async upsertCueEmbedding(row: {
+    cue_id: string;
+    user_did: string;
+    model: string;
+    embedding: number[];
+    content_hash: string;
+  }) {
+    const record = {
+      ...row,
+      dimensions: row.embedding.length,
+      created_at: new Date().toISOString()
+    };
+
     if (this.mockMode) {
-      const newVault = {
-        id: `vault-${Date.now()}`,
-        ...vaultData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      this.mockData.data_vaults.push(newVault);
-      console.log('🎭 Mock data vault created:', newVault.name);
-      return newVault;
+      const rows = this.mockData.personal_cue_embeddings;
+      const index = rows.findIndex((e: any) => e.cue_id === row.cue_id && e.model === row.model);
+      if (index >= 0) rows[index] = record;
+      else rows.push(record);
+      return record;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('data_vaults')
-        .insert([vaultData])
-        .select()
+        .from('personal_cue_embeddings')
+        .upsert([{ ...record, embedding: JSON.stringify(row.embedding) }], { onConflict: 'cue_id,model' })
+        .select('cue_id, model, dimensions, content_hash')
         .single();
 
       if (error) throw error;
       return data;
     } catch (error) {
-      console.error('Create data vault error:', error);
+      console.error('Upsert cue embedding error:', error);
       throw error;
     }
   }
 
-  public async getDataVaults(did: string) {
+  /** 인덱싱 상태 확인용 - 임베딩 벡터는 제외 */
+  public async getCueEmbeddingStates(did: string, model: string): Promise<CueEmbeddingStateRow[]> {
     if (this.mockMode) {
-      const vaults = this.mockData.data_vaults.filter((v: any) => v.owner_did === did);
-      return vaults;
+      return this.mockData.personal_cue_embeddings
+        .filter((e: any) => e.user_did === did && e.model === model)
+        .map((e: any) => ({ cue_id: e.cue_id, content_hash: e.content_hash }));
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('data_vaults')
-        .select('*')
-        .eq('owner_did', did)
-        .eq('status', 'active')
-        .order('created_at', { ascending: false });
+        .from('personal_cue_embeddings')
+        .select('cue_id, content_hash')
+        .eq('user_did', did)
+        .eq('model', model)
+        .overrideTypes<CueEmbeddingStateRow[], { merge: false }>();
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      console.error('Get data vaults error:', error);
+      console.error('Get cue embedding states error:', error);
       return [];
     }
   }
 
-  // ============================================================================
-  // 💬 채팅 메시지 저장 및 조회 (추가됨 - SupabaseService와 동일)
-  // ============================================================================
-
-  public async saveChatMessage(messageData: any): Promise<void> {
+  /**
+   * 질의 임베딩과 코사인 유사도가 높은 CUE (같은 임베딩 모델끼리만 비교)
+   */
+  public async matchCueEmbeddings(
+    did: string,
+    model: string,
+    embedding: number[],
+    limit = 20
+  ): Promise<MatchedCueEmbeddingRow[]> {
     if (this.mockMode) {
-      const newMessage = {
-        id: messageData.id || `msg-${Date.now()}`,
-        ...messageData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      this.mockData.chat_messages.push(newMessage);
-      console.log('🎭 Mock chat message stored:', newMessage.message_type);
-      return;
+      return this.mockData.personal_cue_embeddings
+        .filter((e: any) => e.user_did === did && e.model === model && e.dimensions === embedding.length)
+        .map((e: any) => ({ cue_id: e.cue_id, similarity: cosineSimilarity(e.embedding, embedding) }))
+        .sort((a: any, b: any) => b.similarity - a.similarity)
+        .slice(0, limit);
     }
 
     try {
-      const { error } = await this.supabase!
-        .from('chat_messages')
-        .insert([messageData]);
+      const { data, error } = await this.supabase!.rpc<
+        'match_personal_cue_embeddings',
+        MatchPersonalCueEmbeddingsFunction
+      >('match_personal_cue_embeddings', {
+        p_user_did: did,
+        p_model: model,
+        p_embedding: JSON.stringify(embedding),
+        p_limit: limit
+      });
 
       if (error) throw error;
+      // similarity는 numeric이라 문자열로 올 수 있음
+      return (data || []).map(row => ({ cue_id: row.cue_id, similarity: Number(row.similarity) }));
     } catch (error) {
-      console.error('Store chat message error:', error);
+      console.error('Match cue embeddings error:', error);
       throw error;
     }
   }
 
-  // 새로 추가됨: recordCueTransaction (SupabaseService와 동일)
-  // (중복 구현 제거됨)
+  // ============================================================================
+  // 🕸️ RAG-DAG 지식 그래프 (볼트 항목/CUE/채팅 턴 노드 + 방향 간선)
+  // rag_dag_nodes (id, user_did, type, source_type, source_id, content, metadata, created_at)
+  //   unique (user_did, source_type, source_id)
+  // rag_dag_edges (id, user_did, from_node_id, to_node_id, type, metadata, created_at)
+  //   unique (from_node_id, to_node_id, type) - 순환 검사는 RagDagService에서
+  // ============================================================================
 
-  // 추가: 타입 안전성이 강화된 CUE 거래 생성
-  public async createCUETransactionTyped(transactionData: {
-    user_did: string;
-    user_id?: string;
-    transaction_type: 'mining' | 'spending' | 'reward' | 'transfer';
-    amount: number;
-    status: 'pending' | 'completed' | 'failed';
-    source?: string;
-    description?: string;
-    metadata?: any;
-  }) {
+  public async createRagDagNode(node: any) {
     if (this.mockMode) {
-      const newTransaction = {
-        id: `cue-tx-${Date.now()}`,
-        ...transactionData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
+      const newNode = {
+        ...node,
+        created_at: node.created_at || new Date().toISOString()
       };
-      this.mockData.cue_transactions.push(newTransaction);
-      console.log('🎭 Mock typed CUE transaction created:', newTransaction.amount);
-      return newTransaction;
+      this.mockData.rag_dag_nodes.push(newNode);
+      return newNode;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('cue_transactions')
-        .insert([{
-          user_did: transactionData.user_did,
-          user_id: transactionData.user_id || null,
-          transaction_type: transactionData.transaction_type,
-          amount: transactionData.amount,
-          status: transactionData.status,
-          source: transactionData.source || null,
-          description: transactionData.description || null,
-          metadata: transactionData.metadata || {},
-          created_at: new Date().toISOString()
-        }])
+        .from('rag_dag_nodes')
+        .insert([node])
         .select()
         .single();
 
       if (error) throw error;
       return data;
     } catch (error) {
-      console.error('Create typed CUE transaction error:', error);
+      console.error('Create RAG-DAG node error:', error);
       throw error;
     }
   }
 
-  public async getChatHistory(did: string, conversationId?: string, limit = 100) {
+  public async findRagDagNodeBySource(did: string, sourceType: string, sourceId: string) {
     if (this.mockMode) {
-      let messages = this.mockData.chat_messages.filter((m: any) => m.user_did === did);
-      if (conversationId) {
-        messages = messages.filter((m: any) => m.conversation_id === conversationId);
-      }
-      return messages.slice(-limit).reverse();
+      return this.mockData.rag_dag_nodes.find((n: any) =>
+        n.user_did === did && n.source_type === sourceType && n.source_id === sourceId
+      ) || null;
     }
 
     try {
-      let query = this.supabase!
-        .from('chat_messages')
+      const { data, error } = await this.supabase!
+        .from('rag_dag_nodes')
         .select('*')
         .eq('user_did', did)
-        .order('created_at', { ascending: false })
-        .limit(limit);
-
-      if (conversationId) {
-        query = query.eq('conversation_id', conversationId);
-      }
-
-      const { data, error } = await query;
+        .eq('source_type', sourceType)
+        .eq('source_id', sourceId)
+        .maybeSingle();
 
       if (error) throw error;
-      return data || [];
+      return data;
     } catch (error) {
-      console.error('Get chat history error:', error);
-      return [];
+      console.error('Find RAG-DAG node error:', error);
+      return null;
     }
   }
 
-  public async getRecentInteractions(did: string, limit = 10) {
+  /** 사용자 그래프의 노드 (오래된 순) */
+  public async getRagDagNodes(did: string, limit = 5000) {
     if (this.mockMode) {
-      const messages = this.mockData.chat_messages
-        .filter((m: any) => m.user_did === did)
-        .slice(-limit);
-      return messages;
+      return this.mockData.rag_dag_nodes
+        .filter((n: any) => n.user_did === did)
+        .slice(0, limit);
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('chat_messages')
-        .select('content, ai_model, created_at, message_type')
+        .from('rag_dag_nodes')
+        .select('*')
         .eq('user_did', did)
-        .order('created_at', { ascending: false })
+        .order('created_at', { ascending: true })
         .limit(limit);
 
       if (error) throw error;
       return data || [];
     } catch (error) {
-      console.error('Get recent interactions error:', error);
+      console.error('Get RAG-DAG nodes error:', error);
       return [];
     }
   }
 
-  // ============================================================================
-  // 🧠 개인화 CUE 저장 및 조회 (기존 유지)
-  // ============================================================================
-
-  public async storePersonalCue(cueData: any) {
+  public async getRagDagEdges(did: string, limit = 20000) {
     if (this.mockMode) {
-      const newCue = {
-        id: `cue-${Date.now()}`,
-        ...cueData,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString()
-      };
-      this.mockData.personal_cues.push(newCue);
-      console.log('🎭 Mock personal CUE stored');
-      return newCue;
+      return this.mockData.rag_dag_edges
+        .filter((e: any) => e.user_did === did)
+        .slice(0, limit);
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('personal_cues')
-        .insert([cueData])
-        .select()
-        .single();
+        .from('rag_dag_edges')
+        .select('*')
+        .eq('user_did', did)
+        .order('created_at', { ascending: true })
+        .limit(limit);
 
       if (error) throw error;
-      return data;
+      return data || [];
     } catch (error) {
-      console.error('Store personal cue error:', error);
+      console.error('Get RAG-DAG edges error:', error);
       throw error;
     }
   }
 
-  public async getPersonalCues(did: string, limit = 50) {
+  public async createRagDagEdge(edge: any) {
     if (this.mockMode) {
-      const cues = this.mockData.personal_cues
-        .filter((c: any) => c.user_did === did)
-        .slice(-limit);
-      return cues;
+      const newEdge = {
+        ...edge,
+        created_at: new Date().toISOString()
+      };
+      this.mockData.rag_dag_edges.push(newEdge);
+      return newEdge;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('personal_cues')
-        .select('*')
-        .eq('user_did', did)
-        .order('importance_score', { ascending: false })
-        .order('created_at', { ascending: false })
-        .limit(limit);
+        .from('rag_dag_edges')
+        .insert([edge])
+        .select()
+        .single();
 
       if (error) throw error;
-      return data || [];
+      return data;
     } catch (error) {
-      console.error('Get personal cues error:', error);
-      return [];
+      console.error('Create RAG-DAG edge error:', error);
+      throw error;
     }
   }
 
-  public async searchPersonalCues(did: string, keywords: string[], limit = 10) {
+  public async deleteRagDagEdge(did: string, id: string): Promise<boolean> {
     if (this.mockMode) {
-      // Mock 키워드 검색
-      const cues = this.mockData.personal_cues
-        .filter((c: any) => c.user_did === did)
-        .slice(-limit);
-      return cues;
+      const before = this.mockData.rag_dag_edges.length;
+      this.mockData.rag_dag_edges = this.mockData.rag_dag_edges.filter(
+        (e: any) => !(e.id === id && e.user_did === did)
+      );
+      return this.mockData.rag_dag_edges.length < before;
     }
 
     try {
       const { data, error } = await this.supabase!
-        .from('personal_cues')
-        .select('*')
+        .from('rag_dag_edges')
+        .delete()
+        .eq('id', id)
         .eq('user_did', did)
-        .overlaps('keywords', keywords)
-        .order('importance_score', { ascending: false })
-        .limit(limit);
+        .select('id');
 
       if (error) throw error;
-      return data || [];
+      return (data || []).length > 0;
     } catch (error) {
-      console.error('Search personal cues error:', error);
-      return [];
+      console.error('Delete RAG-DAG edge error:', error);
+      throw error;
     }
   }
 
@@ -956,21 +3097,43 @@ export class DatabaseService {
 
   public async cleanupExpiredSessions() {
     if (this.mockMode) {
-      console.log('🎭 Mock 만료된 세션 정리');
+      const now = new Date().toISOString();
+      const before = this.mockData.webauthn_challenges.length + this.mockData.auth_sessions.length;
+      this.mockData.webauthn_challenges = this.mockData.webauthn_challenges.filter((c: any) => 
+        c.expires_at >= now
+      );
+      this.mockData.auth_sessions = this.mockData.auth_sessions.filter((s: any) => 
+        s.expires_at >= now
+      );
+      const removed = before - this.mockData.webauthn_challenges.length - this.mockData.auth_sessions.length;
+      if (removed > 0) {
+        console.log(`🎭 Mock 만료된 세션 정리: ${removed}개`);
+      }
       return true;
     }
 
     try {
+      const now = new Date().toISOString();
       const { error } = await this.supabase!
         .from('webauthn_challenges')
         .delete()
-        .lt('expires_at', new Date().toISOString());
+        .lt('expires_at', now);
 
       if (error) {
         console.error('❌ 만료된 세션 정리 실패:', error);
         return false;
       }
 
+      const { error: authSessionError } = await this.supabase!
+        .from('auth_sessions')
+        .delete()
+        .lt('expires_at', now);
+
+      if (authSessionError) {
+        console.error('❌ 만료된 인증 세션 정리 실패:', authSessionError);
+        return false;
+      }
+
       console.log('✅ 만료된 세션 정리 완료');
       return true;
     } catch (error) {
@@ -1106,6 +3269,20 @@ public async getUserByEmail(email: string) {
   }
 }
 
+/** Mock 벡터 검색용 코사인 유사도 (길이가 다르면 0) */
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (!a || !b || a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
 // 단일 인스턴스 생성 및 내보내기
 const databaseService = DatabaseService.getInstance();
 
@@ -103,6 +103,32 @@ export class SupabaseService {
     }
   }
 
+  // DID로 사용자 조회 (DID 문서 해석에 사용)
+  async getUserByDID(did: string): Promise<any | null> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock DID 사용자 조회:', did);
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('users')
+        .select('*')
+        .eq('did', did)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ DID 사용자 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ DID 사용자 조회 오류:', error);
+      return null;
+    }
+  }
+
   // 기존 메서드 유지 (하위 호환성)
   async findUserById(id: string) {
     return this.getUserById(id);
@@ -370,6 +396,305 @@ export class SupabaseService {
     }
   }
 
+  // 자격증명 이름 변경 / 폐기 등 일반 업데이트
+  async updateWebAuthnCredential(credentialId: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 자격증명 업데이트:', credentialId);
+        return { credential_id: credentialId, ...updates };
+      }
+
+      const { data, error } = await this.client
+        .from('webauthn_credentials')
+        .update({ 
+          ...updates, 
+          updated_at: new Date().toISOString() 
+        })
+        .eq('credential_id', credentialId)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ WebAuthn 자격증명 업데이트 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ WebAuthn 자격증명 업데이트 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🔑 인증 세션 관리 메서드 (jti 기준)
+  // ============================================================================
+
+  async createAuthSession(sessionData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 인증 세션 생성:', sessionData.jti);
+        return { ...sessionData, revoked_at: null };
+      }
+
+      const { data, error } = await this.client
+        .from('auth_sessions')
+        .insert([sessionData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 인증 세션 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 인증 세션 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getAuthSession(jti: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('auth_sessions')
+        .select('*')
+        .eq('jti', jti)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 인증 세션 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 인증 세션 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 리프레시 토큰 회전: 세대(generation)가 일치하는 활성 세션만 갱신
+  async rotateAuthSession(jti: string, expectedGeneration: number, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('auth_sessions')
+        .update(updates)
+        .eq('jti', jti)
+        .eq('refresh_generation', expectedGeneration)
+        .is('revoked_at', null)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 인증 세션 회전 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 인증 세션 회전 오류:', error);
+      return null;
+    }
+  }
+
+  async getActiveAuthSessions(userId: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('auth_sessions')
+        .select('*')
+        .eq('user_id', userId)
+        .is('revoked_at', null)
+        .gt('expires_at', new Date().toISOString())
+        .order('last_used_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ 활성 세션 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 활성 세션 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async revokeAuthSession(jti: string, reason: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 인증 세션 폐기:', jti);
+        return true;
+      }
+
+      const { error } = await this.client
+        .from('auth_sessions')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+        .eq('jti', jti)
+        .is('revoked_at', null);
+
+      if (error) {
+        console.error('❌ 인증 세션 폐기 실패:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ 인증 세션 폐기 오류:', error);
+      return false;
+    }
+  }
+
+  async revokeUserAuthSessions(userId: string, reason: string, exceptJti?: string): Promise<number> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 사용자 세션 전체 폐기:', userId);
+        return 0;
+      }
+
+      let query = this.client
+        .from('auth_sessions')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+        .eq('user_id', userId)
+        .is('revoked_at', null);
+
+      if (exceptJti) {
+        query = query.neq('jti', exceptJti);
+      }
+
+      const { data, error } = await query.select('jti');
+
+      if (error) {
+        console.error('❌ 사용자 세션 전체 폐기 실패:', error);
+        return 0;
+      }
+
+      return data?.length || 0;
+    } catch (error) {
+      console.error('❌ 사용자 세션 전체 폐기 오류:', error);
+      return 0;
+    }
+  }
+
+  async revokeCredentialAuthSessions(userId: string, credentialId: string, reason: string): Promise<number> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 패스키 세션 폐기:', credentialId);
+        return 0;
+      }
+
+      const { data, error } = await this.client
+        .from('auth_sessions')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+        .eq('user_id', userId)
+        .eq('credential_id', credentialId)
+        .is('revoked_at', null)
+        .select('jti');
+
+      if (error) {
+        console.error('❌ 패스키 세션 폐기 실패:', error);
+        return 0;
+      }
+
+      return data?.length || 0;
+    } catch (error) {
+      console.error('❌ 패스키 세션 폐기 오류:', error);
+      return 0;
+    }
+  }
+
+  // ============================================================================
+  // 🎫 WebAuthn 챌린지 관리 메서드
+  // ============================================================================
+
+  async createWebAuthnChallenge(challengeData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 챌린지 저장:', challengeData.session_id);
+        return true;
+      }
+
+      const { error } = await this.client
+        .from('webauthn_challenges')
+        .insert([challengeData]);
+
+      if (error) {
+        console.error('❌ WebAuthn 챌린지 저장 실패:', error);
+        return false;
+      }
+
+      return true;
+    } catch (error) {
+      console.error('❌ WebAuthn 챌린지 저장 오류:', error);
+      return false;
+    }
+  }
+
+  // 챌린지 1회성 소비: 만료되지 않은 행을 삭제하면서 반환
+  async consumeWebAuthnChallenge(sessionId: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 챌린지 소비:', sessionId);
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('webauthn_challenges')
+        .delete()
+        .eq('session_id', sessionId)
+        .gt('expires_at', new Date().toISOString())
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ WebAuthn 챌린지 소비 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ WebAuthn 챌린지 소비 오류:', error);
+      return null;
+    }
+  }
+
+  async countActiveWebAuthnChallenges(ipAddress: string): Promise<number> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return 0;
+      }
+
+      const { count, error } = await this.client
+        .from('webauthn_challenges')
+        .select('session_id', { count: 'exact', head: true })
+        .eq('ip_address', ipAddress)
+        .gt('expires_at', new Date().toISOString());
+
+      if (error) {
+        console.error('❌ WebAuthn 챌린지 개수 조회 실패:', error);
+        return 0;
+      }
+
+      return count || 0;
+    } catch (error) {
+      console.error('❌ WebAuthn 챌린지 개수 조회 오류:', error);
+      return 0;
+    }
+  }
+
   // ============================================================================
   // 🎫 AI Passport 관리 메서드 (수정됨)
   // ============================================================================
@@ -458,66 +783,1403 @@ export class SupabaseService {
   }
 
   // ============================================================================
-  // 💎 CUE 토큰 관리 메서드 (수정됨)
+  // 📜 검증 가능한 자격증명 관리 메서드
   // ============================================================================
 
-  async createCUETransaction(transaction: any) {
+  async createVerifiableCredential(credentialData: any) {
     try {
       if (supabaseUrl.includes('dummy')) {
-        console.log('📋 Mock CUE 거래 생성:', transaction.amount);
-        return {
-          id: `cue-tx-${Date.now()}`,
-          ...transaction,
-          created_at: new Date().toISOString(),
-          updated_at: new Date().toISOString()
-        };
+        console.log('📋 Mock 자격증명 저장:', credentialData.id);
+        return { ...credentialData, revoked_at: null, revoked_reason: null };
       }
 
       const { data, error } = await this.client
-        .from('cue_transactions')
-        .insert([{
-          ...transaction,
-          created_at: new Date().toISOString()
-        }])
+        .from('verifiable_credentials')
+        .insert([credentialData])
         .select()
         .single();
 
       if (error) {
-        console.error('❌ CUE 거래 생성 실패:', error);
+        console.error('❌ 자격증명 저장 실패:', error);
         return null;
       }
 
-      console.log('✅ CUE 거래 생성 성공:', data.id);
       return data;
     } catch (error) {
-      console.error('❌ CUE 거래 생성 오류:', error);
+      console.error('❌ 자격증명 저장 오류:', error);
       return null;
     }
   }
 
-  async getCUEBalance(did: string): Promise<number> {
+  async getVerifiableCredentials(holderDid: string) {
     try {
       if (supabaseUrl.includes('dummy')) {
-        console.log('📋 Mock CUE 잔액 조회:', did);
-        return 15428.75;
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('holder_did', holderDid)
+        .order('issued_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ 자격증명 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 자격증명 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async getVerifiableCredentialById(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 자격증명 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 자격증명 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getVerifiableCredentialByStatusIndex(statusListId: string, statusIndex: number) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('verifiable_credentials')
+        .select('*')
+        .eq('status_list_id', statusListId)
+        .eq('status_index', statusIndex)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 상태 인덱스 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 상태 인덱스 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 상태 목록에서 폐기된 인덱스 목록 (StatusList2021 비트열 생성용)
+  async getRevokedStatusIndices(statusListId: string): Promise<number[]> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('verifiable_credentials')
+        .select('status_index')
+        .eq('status_list_id', statusListId)
+        .not('revoked_at', 'is', null);
+
+      if (error) {
+        console.error('❌ 폐기 인덱스 조회 실패:', error);
+        return [];
+      }
+
+      return (data || []).map((row: any) => row.status_index);
+    } catch (error) {
+      console.error('❌ 폐기 인덱스 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async revokeVerifiableCredential(id: string, reason: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 자격증명 폐기:', id);
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('verifiable_credentials')
+        .update({ revoked_at: new Date().toISOString(), revoked_reason: reason })
+        .eq('id', id)
+        .is('revoked_at', null)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 자격증명 폐기 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 자격증명 폐기 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🤝 제시 요청 관리 메서드 (선택적 공개)
+  // ============================================================================
+
+  async createPresentationRequest(requestData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 제시 요청 생성:', requestData.id);
+        return { ...requestData };
+      }
+
+      const { data, error } = await this.client
+        .from('presentation_requests')
+        .insert([requestData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 제시 요청 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 제시 요청 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getPresentationRequest(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('presentation_requests')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 제시 요청 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 제시 요청 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getPendingPresentationRequests(subjectDid: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('presentation_requests')
+        .select('*')
+        .eq('subject_did', subjectDid)
+        .eq('status', 'pending')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        console.error('❌ 대기 중인 제시 요청 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 대기 중인 제시 요청 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 상태가 expectedStatus일 때만 갱신 (승인/거절 중복 처리 방지)
+  async updatePresentationRequest(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('presentation_requests')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 제시 요청 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 제시 요청 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 💎 CUE 토큰 관리 메서드 (수정됨)
+  // ============================================================================
+
+  async createCUETransaction(transaction: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 거래 생성:', transaction.amount);
+        return {
+          id: `cue-tx-${Date.now()}`,
+          ...transaction,
+          created_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transactions')
+        .insert([{
+          ...transaction,
+          created_at: new Date().toISOString()
+        }])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ CUE 거래 생성 실패:', error);
+        return null;
+      }
+
+      console.log('✅ CUE 거래 생성 성공:', data.id);
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 거래 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getCUEBalance(did: string): Promise<number> {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 잔액 조회:', did);
+        return 15428.75;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transactions')
+        .select('amount')
+        .eq('user_did', did)
+        .eq('status', 'completed');
+
+      if (error) {
+        console.error('❌ CUE 잔액 조회 실패:', error);
+        return 0;
+      }
+      
+      const balance = data?.reduce((sum, tx) => sum + parseFloat(tx.amount.toString()), 0) || 0;
+      return Math.round(balance * 100) / 100;
+    } catch (error) {
+      console.error('❌ CUE 잔액 조회 오류:', error);
+      return 0;
+    }
+  }
+
+  // ============================================================================
+  // 📒 CUE 원장 관리 메서드 (복식부기)
+  // ============================================================================
+
+  // 분개와 전기를 함께 기록 - 같은 멱등성 키가 이미 있으면 null
+  async createLedgerEntry(entryData: any, postingsData: any[]) {
+    if (supabaseUrl.includes('dummy')) {
+      console.log('📋 Mock 원장 분개 기록:', entryData.idempotency_key);
+      return {
+        ...entryData,
+        postings: postingsData.map((posting: any, index: number) => ({
+          ...posting,
+          seq: index + 1,
+          created_at: entryData.created_at
+        }))
+      };
+    }
+
+    const { data: entry, error } = await this.client
+      .from('cue_ledger_entries')
+      .insert([entryData])
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') return null;
+      console.error('❌ 원장 분개 기록 실패:', error);
+      throw error;
+    }
+
+    const { data: postings, error: postingsError } = await this.client
+      .from('cue_ledger_postings')
+      .insert(postingsData.map((posting: any) => ({ ...posting, created_at: entry.created_at })))
+      .select();
+
+    if (postingsError) {
+      // 전기 실패 시 분개를 되돌려 한쪽만 남지 않게 함
+      await this.client.from('cue_ledger_entries').delete().eq('id', entry.id);
+      console.error('❌ 원장 전기 기록 실패:', postingsError);
+      throw postingsError;
+    }
+
+    console.log('✅ 원장 분개 기록 성공:', entry.id);
+    return { ...entry, postings: postings || [] };
+  }
+
+  async getLedgerEntryByIdempotencyKey(idempotencyKey: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .eq('idempotency_key', idempotencyKey)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 원장 분개 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 원장 분개 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 계정의 전기 목록 (afterSeq 이후, seq 오름차순)
+  async getLedgerPostings(account: string, afterSeq = 0) {
+    if (supabaseUrl.includes('dummy')) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('cue_ledger_postings')
+      .select('*')
+      .eq('account', account)
+      .gt('seq', afterSeq)
+      .order('seq', { ascending: true });
+
+    if (error) {
+      console.error('❌ 원장 전기 조회 실패:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  // 계정 거래 내역 (전기 + 분개, 최신순)
+  async getLedgerAccountHistory(account: string, limit = 50) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_postings')
+        .select('*, entry:cue_ledger_entries(*)')
+        .eq('account', account)
+        .order('seq', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('❌ 원장 거래 내역 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 원장 거래 내역 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 전체 전기 목록 (정합성 검사용, 1000건 단위 페이지 조회)
+  async getAllLedgerPostings() {
+    if (supabaseUrl.includes('dummy')) {
+      return [];
+    }
+
+    const pageSize = 1000;
+    const postings: any[] = [];
+    for (let from = 0; ; from += pageSize) {
+      const { data, error } = await this.client
+        .from('cue_ledger_postings')
+        .select('entry_id, account, amount, seq')
+        .order('seq', { ascending: true })
+        .range(from, from + pageSize - 1);
+
+      if (error) {
+        console.error('❌ 전체 원장 전기 조회 실패:', error);
+        throw error;
+      }
+      postings.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return postings;
+  }
+
+  // 전체 계정 전기 (afterSeq 이후, before 이전 기록만, seq 오름차순) - 정산 묶음용
+  async getLedgerPostingsAfterSeq(afterSeq: number, before: string, limit = 500) {
+    if (supabaseUrl.includes('dummy')) {
+      return [];
+    }
+
+    const { data, error } = await this.client
+      .from('cue_ledger_postings')
+      .select('entry_id, account, amount, seq, created_at')
+      .gt('seq', afterSeq)
+      .lt('created_at', before)
+      .order('seq', { ascending: true })
+      .limit(limit);
+
+    if (error) {
+      console.error('❌ 정산용 원장 전기 조회 실패:', error);
+      throw error;
+    }
+
+    return data || [];
+  }
+
+  async getLedgerEntryById(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 원장 분개 ID 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 원장 분개 ID 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 기간 내 분개 (전기 포함, created_at → id 오름차순) - 일별 영수증 트리용
+  async getLedgerEntriesBetween(entryTypes: string[], from: string, to: string) {
+    if (supabaseUrl.includes('dummy')) {
+      return [];
+    }
+
+    const pageSize = 1000;
+    const entries: any[] = [];
+    for (let offset = 0; ; offset += pageSize) {
+      const { data, error } = await this.client
+        .from('cue_ledger_entries')
+        .select('*, postings:cue_ledger_postings(*)')
+        .in('entry_type', entryTypes)
+        .gte('created_at', from)
+        .lt('created_at', to)
+        .order('created_at', { ascending: true })
+        .order('id', { ascending: true })
+        .range(offset, offset + pageSize - 1);
+
+      if (error) {
+        console.error('❌ 기간 내 원장 분개 조회 실패:', error);
+        throw error;
+      }
+
+      entries.push(...(data || []));
+      if (!data || data.length < pageSize) break;
+    }
+
+    return entries;
+  }
+
+  async createLedgerSnapshot(snapshotData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return { ...snapshotData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_snapshots')
+        .insert([snapshotData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 잔액 스냅샷 저장 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 잔액 스냅샷 저장 오류:', error);
+      return null;
+    }
+  }
+
+  async getLatestLedgerSnapshot(account: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_snapshots')
+        .select('*')
+        .eq('account', account)
+        .order('last_seq', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ 잔액 스냅샷 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 잔액 스냅샷 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getLedgerSnapshots() {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_ledger_snapshots')
+        .select('*')
+        .order('last_seq', { ascending: true });
+
+      if (error) {
+        console.error('❌ 잔액 스냅샷 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 잔액 스냅샷 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 💸 CUE 송금 관리 메서드
+  // ============================================================================
+
+  async createCueTransfer(transferData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 송금 생성:', transferData.id);
+        return { ...transferData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transfers')
+        .insert([transferData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ CUE 송금 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 송금 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getCueTransfer(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transfers')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 송금 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 송금 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 보낸 송금 + 받은 송금 (최신순)
+  async getCueTransfers(did: string, limit = 50) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transfers')
+        .select('*')
+        .or(`sender_did.eq.${did},recipient_did.eq.${did}`)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('❌ CUE 송금 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ CUE 송금 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 상태가 expectedStatus일 때만 갱신 (에스크로 지급/환불 중복 처리 방지)
+  async updateCueTransfer(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_transfers')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 송금 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 송금 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // ⏱️ CUE 마이닝 한도 상태 메서드
+  // ============================================================================
+
+  async getMiningState(did: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_mining_states')
+        .select('*')
+        .eq('did', did)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 마이닝 상태 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 마이닝 상태 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async upsertMiningState(stateData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 마이닝 상태 저장:', stateData.did);
+        return { ...stateData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_mining_states')
+        .upsert(stateData, { onConflict: 'did' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 마이닝 상태 저장 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 마이닝 상태 저장 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🕵️ CUE 어뷰징 탐지 / 보상 검토 메서드
+  // ============================================================================
+
+  async createAbuseEvent(eventData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return { ...eventData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_abuse_events')
+        .insert([eventData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 어뷰징 이벤트 기록 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 어뷰징 이벤트 기록 오류:', error);
+      return null;
+    }
+  }
+
+  // since 이후 사용자 상호작용 이벤트 (최신순)
+  async getRecentAbuseEvents(did: string, since: string, limit = 100) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_abuse_events')
+        .select('*')
+        .eq('did', did)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('❌ 어뷰징 이벤트 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 어뷰징 이벤트 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async getAbuseEventsByDevice(
+    deviceHash: string,
+    since: string,
+    limit = 100,
+    field: 'device_hash' | 'claimed_device_hash' = 'device_hash'
+  ) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_abuse_events')
+        .select('did, created_at')
+        .eq(field, deviceHash)
+        .gte('created_at', since)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('❌ 기기별 어뷰징 이벤트 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 기기별 어뷰징 이벤트 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async createMiningReview(reviewData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 마이닝 보상 보류:', reviewData.id);
+        return { ...reviewData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_mining_reviews')
+        .insert([reviewData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 마이닝 검토 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 마이닝 검토 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getMiningReview(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_mining_reviews')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 마이닝 검토 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 마이닝 검토 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getMiningReviews(filter: { status?: string; did?: string; limit?: number } = {}) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      let query = this.client
+        .from('cue_mining_reviews')
+        .select('*');
+
+      if (filter.status) query = query.eq('status', filter.status);
+      if (filter.did) query = query.eq('did', filter.did);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(filter.limit || 50);
+
+      if (error) {
+        console.error('❌ 마이닝 검토 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 마이닝 검토 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 상태가 expectedStatus일 때만 갱신 (승인/거절 중복 처리 방지)
+  async updateMiningReview(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_mining_reviews')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 마이닝 검토 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 마이닝 검토 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 📐 CUE 보상 정책 메서드
+  // ============================================================================
+
+  async createRewardPolicy(policyData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 보상 정책 게시:', policyData.version);
+        return { ...policyData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_reward_policies')
+        .insert([policyData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ 보상 정책 게시 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 보상 정책 게시 오류:', error);
+      return null;
+    }
+  }
+
+  async getRewardPolicies() {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      const { data, error } = await this.client
+        .from('cue_reward_policies')
+        .select('*')
+        .order('effective_from', { ascending: true });
+
+      if (error) {
+        console.error('❌ 보상 정책 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 보상 정책 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // ============================================================================
+  // 🔒 CUE 소비 예약 메서드
+  // ============================================================================
+
+  async createSpendHold(holdData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 예약:', holdData.id);
+        return { ...holdData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_spend_holds')
+        .insert([holdData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ CUE 예약 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 예약 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getSpendHold(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
       }
 
       const { data, error } = await this.client
-        .from('cue_transactions')
-        .select('amount')
-        .eq('user_did', did)
-        .eq('status', 'completed');
+        .from('cue_spend_holds')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 예약 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 예약 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getSpendHolds(filter: { did: string; status?: string; limit?: number }) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      let query = this.client
+        .from('cue_spend_holds')
+        .select('*')
+        .eq('did', filter.did);
+
+      if (filter.status) query = query.eq('status', filter.status);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(filter.limit || 50);
 
       if (error) {
-        console.error('❌ CUE 잔액 조회 실패:', error);
-        return 0;
+        console.error('❌ CUE 예약 목록 조회 실패:', error);
+        return [];
       }
-      
-      const balance = data?.reduce((sum, tx) => sum + parseFloat(tx.amount.toString()), 0) || 0;
-      return Math.round(balance * 100) / 100;
+
+      return data || [];
     } catch (error) {
-      console.error('❌ CUE 잔액 조회 오류:', error);
-      return 0;
+      console.error('❌ CUE 예약 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 상태가 expectedStatus일 때만 갱신 (정산/환불 중복 처리 방지)
+  async updateSpendHold(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_spend_holds')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 예약 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 예약 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🌉 CUE 온체인 정산 메서드
+  // ============================================================================
+
+  // 같은 묶음 번호가 이미 있으면 null
+  async createSettlementBatch(batchData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock 정산 묶음 생성:', batchData.batch_number);
+        return { ...batchData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_settlement_batches')
+        .insert([batchData])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code !== '23505') console.error('❌ 정산 묶음 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 정산 묶음 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getLatestSettlementBatch() {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_settlement_batches')
+        .select('*')
+        .order('batch_number', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('❌ 최신 정산 묶음 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 최신 정산 묶음 조회 오류:', error);
+      return null;
+    }
+  }
+
+  // 묶음 목록 (최신순) - fromSeq/toSeq가 있으면 그 범위와 겹치는 묶음만
+  async getSettlementBatches(filter: { statuses?: string[]; fromSeq?: number; toSeq?: number; limit?: number } = {}) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      let query = this.client
+        .from('cue_settlement_batches')
+        .select('*');
+
+      if (filter.statuses) query = query.in('status', filter.statuses);
+      if (filter.fromSeq !== undefined) query = query.gte('last_seq', filter.fromSeq);
+      if (filter.toSeq !== undefined) query = query.lte('first_seq', filter.toSeq);
+
+      const { data, error } = await query
+        .order('batch_number', { ascending: false })
+        .limit(filter.limit || 20);
+
+      if (error) {
+        console.error('❌ 정산 묶음 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ 정산 묶음 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  // 상태가 expectedStatus일 때만 갱신 (정산 주기 중복 처리 방지)
+  async updateSettlementBatch(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_settlement_batches')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ 정산 묶음 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ 정산 묶음 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  async createCueWithdrawal(withdrawalData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 출금 생성:', withdrawalData.id);
+        return { ...withdrawalData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_withdrawals')
+        .insert([withdrawalData])
+        .select()
+        .single();
+
+      if (error) {
+        console.error('❌ CUE 출금 생성 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 출금 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getCueWithdrawal(id: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_withdrawals')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 출금 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 출금 조회 오류:', error);
+      return null;
+    }
+  }
+
+  async getCueWithdrawals(filter: { did?: string; statuses?: string[]; limit?: number } = {}) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return [];
+      }
+
+      let query = this.client
+        .from('cue_withdrawals')
+        .select('*');
+
+      if (filter.did) query = query.eq('did', filter.did);
+      if (filter.statuses) query = query.in('status', filter.statuses);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(filter.limit || 50);
+
+      if (error) {
+        console.error('❌ CUE 출금 목록 조회 실패:', error);
+        return [];
+      }
+
+      return data || [];
+    } catch (error) {
+      console.error('❌ CUE 출금 목록 조회 오류:', error);
+      return [];
+    }
+  }
+
+  async updateCueWithdrawal(id: string, expectedStatus: string, updates: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_withdrawals')
+        .update(updates)
+        .eq('id', id)
+        .eq('status', expectedStatus)
+        .select()
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 출금 갱신 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 출금 갱신 오류:', error);
+      return null;
+    }
+  }
+
+  // ============================================================================
+  // 🧾 CUE 영수증 일별 루트 관리 메서드
+  // ============================================================================
+
+  // 같은 날짜 루트가 이미 있으면 null
+  async createCueReceiptRoot(rootData: any) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        console.log('📋 Mock CUE 영수증 루트 생성:', rootData.date);
+        return { ...rootData };
+      }
+
+      const { data, error } = await this.client
+        .from('cue_receipt_roots')
+        .insert([rootData])
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code !== '23505') {
+          console.error('❌ CUE 영수증 루트 생성 실패:', error);
+        }
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 영수증 루트 생성 오류:', error);
+      return null;
+    }
+  }
+
+  async getCueReceiptRoot(date: string) {
+    try {
+      if (supabaseUrl.includes('dummy')) {
+        return null;
+      }
+
+      const { data, error } = await this.client
+        .from('cue_receipt_roots')
+        .select('*')
+        .eq('date', date)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('❌ CUE 영수증 루트 조회 실패:', error);
+        return null;
+      }
+
+      return data;
+    } catch (error) {
+      console.error('❌ CUE 영수증 루트 조회 오류:', error);
+      return null;
     }
   }
 
@@ -605,16 +2267,27 @@ export class SupabaseService {
         return true;
       }
 
+      const now = new Date().toISOString();
       const { error } = await this.client
         .from('webauthn_challenges')
         .delete()
-        .lt('expires_at', new Date().toISOString());
+        .lt('expires_at', now);
 
       if (error) {
         console.error('❌ 만료된 세션 정리 실패:', error);
         return false;
       }
 
+      const { error: authSessionError } = await this.client
+        .from('auth_sessions')
+        .delete()
+        .lt('expires_at', now);
+
+      if (authSessionError) {
+        console.error('❌ 만료된 인증 세션 정리 실패:', authSessionError);
+        return false;
+      }
+
       console.log('✅ 만료된 세션 정리 완료');
       return true;
     } catch (error) {
@@ -0,0 +1,245 @@
+// ============================================================================
+// 🧩 DID 메서드 드라이버
+// 경로: backend/src/services/did/DIDMethodDrivers.ts
+// 용도: did:final0626 (사용자 DB), did:key (multibase 공개키), did:web (HTTPS) 해석
+// ============================================================================
+
+import crypto from 'crypto';
+import { WebAuthnService, COSE_ALG_ES256, COSE_ALG_RS256 } from '../auth/WebAuthnService';
+import {
+  DID_CONTEXT,
+  FINAL0626_DID_METHOD,
+  DIDDocument,
+  DIDMethodDriver,
+  ParsedDID,
+  DIDResolutionResult,
+  VerificationMethod,
+  resolutionResult,
+  resolutionError
+} from './DIDResolver';
+import {
+  base58btcDecode,
+  MULTICODEC_ED25519_PUB,
+  MULTICODEC_SECP256K1_PUB,
+  MULTICODEC_P256_PUB
+} from './multibase';
+
+const JWS_2020_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+const SECP256K1_RECOVERY_CONTEXT = 'https://w3id.org/security/suites/secp256k1recovery-2020/v2';
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+
+// ============================================================================
+// 🏠 did:final0626 - AI Passport 사용자
+// ============================================================================
+
+export interface Final0626DriverOptions {
+  /** 서비스 엔드포인트의 기준 URL (예: https://api.example.com) */
+  baseUrl: string;
+  /** 지갑 주소의 CAIP-10 체인 ID (eip155) */
+  chainId: number;
+}
+
+export class Final0626DIDDriver implements DIDMethodDriver {
+  readonly method = FINAL0626_DID_METHOD;
+
+  constructor(private db: any, private options: Final0626DriverOptions) {}
+
+  async resolve(parsed: ParsedDID): Promise<DIDResolutionResult> {
+    const { did } = parsed;
+    const user = await this.db.getUserByDID(did);
+    if (!user) {
+      return resolutionError('notFound', 'No AI Passport is registered for this DID');
+    }
+
+    const verificationMethod: VerificationMethod[] = [];
+    const authentication: string[] = [];
+    const assertionMethod: string[] = [];
+
+    // 활성 패스키 공개키 → JsonWebKey2020 검증 수단
+    const credentials = await this.db.getWebAuthnCredentials(user.id);
+    for (const credential of credentials) {
+      const method = this.passkeyVerificationMethod(did, credential);
+      if (!method) continue;
+      verificationMethod.push(method);
+      authentication.push(method.id);
+      assertionMethod.push(method.id);
+    }
+
+    // 지갑 주소 → CAIP-10 blockchainAccountId
+    if (typeof user.wallet_address === 'string' && /^0x[0-9a-fA-F]{40}$/.test(user.wallet_address)) {
+      const walletId = `${did}#wallet`;
+      verificationMethod.push({
+        id: walletId,
+        type: 'EcdsaSecp256k1RecoveryMethod2020',
+        controller: did,
+        blockchainAccountId: `eip155:${this.options.chainId}:${user.wallet_address}`
+      });
+      assertionMethod.push(walletId);
+    }
+
+    const baseUrl = this.options.baseUrl.replace(/\/$/, '');
+
+    const didDocument: DIDDocument = {
+      '@context': [DID_CONTEXT, JWS_2020_CONTEXT, SECP256K1_RECOVERY_CONTEXT],
+      id: did,
+      verificationMethod,
+      authentication,
+      assertionMethod,
+      service: [
+        {
+          id: `${did}#passport`,
+          type: 'AIPassportService',
+          serviceEndpoint: `${baseUrl}/api/passport/${did}`
+        },
+        {
+          id: `${did}#cue`,
+          type: 'CueTokenService',
+          serviceEndpoint: `${baseUrl}/api/cue/${did}/balance`
+        }
+      ]
+    };
+
+    return resolutionResult(didDocument, {
+      created: user.created_at,
+      updated: user.updated_at || user.created_at,
+      deactivated: user.is_active === false
+    });
+  }
+
+  private passkeyVerificationMethod(did: string, credential: any): VerificationMethod | null {
+    try {
+      const { jwk, alg } = WebAuthnService.credentialPublicKeyToJwk(credential.public_key);
+      const fragment = crypto.createHash('sha256').update(credential.credential_id).digest('hex').substring(0, 16);
+
+      return {
+        id: `${did}#passkey-${fragment}`,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: {
+          ...jwk,
+          ...(alg === COSE_ALG_ES256 ? { alg: 'ES256' } : alg === COSE_ALG_RS256 ? { alg: 'RS256' } : {})
+        }
+      };
+    } catch (error) {
+      // 검증되지 않은 레거시 자격증명(더미 공개키)은 문서에서 제외
+      console.warn(`⚠️ DID 문서에서 패스키 제외 (${credential.credential_id}):`, (error as Error).message);
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// 🔑 did:key - multibase(base58btc) + multicodec 공개키
+// ============================================================================
+
+// multicodec 접두사(varint) → 키 종류
+const MULTICODEC_KEYS: Array<{ prefix: number[]; name: string; length: number }> = [
+  { prefix: MULTICODEC_ED25519_PUB, name: 'Ed25519', length: 32 },
+  { prefix: MULTICODEC_SECP256K1_PUB, name: 'secp256k1', length: 33 },
+  { prefix: MULTICODEC_P256_PUB, name: 'P-256', length: 33 }
+];
+
+export class KeyDIDDriver implements DIDMethodDriver {
+  readonly method = 'key';
+
+  async resolve(parsed: ParsedDID): Promise<DIDResolutionResult> {
+    const multibaseValue = parsed.id;
+    if (!multibaseValue.startsWith('z')) {
+      return resolutionError('invalidDid', 'did:key must use base58btc multibase encoding');
+    }
+
+    let bytes: Buffer;
+    try {
+      bytes = base58btcDecode(multibaseValue.substring(1));
+    } catch (error) {
+      return resolutionError('invalidDid', (error as Error).message);
+    }
+
+    const keyType = MULTICODEC_KEYS.find(candidate =>
+      candidate.prefix.every((byte, index) => bytes[index] === byte)
+    );
+    const keyLength = bytes.length - (keyType?.prefix.length ?? 0);
+
+    if (!keyType || keyLength !== keyType.length) {
+      return resolutionError('invalidDid', 'Unsupported or malformed did:key public key');
+    }
+
+    const did = parsed.did;
+    const keyId = `${did}#${multibaseValue}`;
+
+    return resolutionResult({
+      '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+      id: did,
+      verificationMethod: [{
+        id: keyId,
+        type: 'Multikey',
+        controller: did,
+        publicKeyMultibase: multibaseValue
+      }],
+      authentication: [keyId],
+      assertionMethod: [keyId],
+      capabilityInvocation: [keyId],
+      capabilityDelegation: [keyId]
+    });
+  }
+}
+
+// ============================================================================
+// 🌐 did:web - https://<domain>/.well-known/did.json
+// ============================================================================
+
+export interface WebDriverOptions {
+  /** localhost 도메인은 http로 조회 허용 (개발용) */
+  allowInsecureLocalhost?: boolean;
+  timeoutMs?: number;
+}
+
+export class WebDIDDriver implements DIDMethodDriver {
+  readonly method = 'web';
+
+  constructor(private options: WebDriverOptions = {}) {}
+
+  /**
+   * did:web 식별자 → did.json URL (did:web 명세의 변환 규칙)
+   */
+  toDocumentUrl(methodSpecificId: string): string {
+    const [domainPart, ...pathParts] = methodSpecificId.split(':');
+    const domain = decodeURIComponent(domainPart);
+    const isLocalhost = /^(localhost|127\.0\.0\.1)(:\d+)?$/.test(domain);
+    const scheme = isLocalhost && this.options.allowInsecureLocalhost ? 'http' : 'https';
+    const path = pathParts.length > 0
+      ? `/${pathParts.map(decodeURIComponent).join('/')}/did.json`
+      : '/.well-known/did.json';
+
+    return `${scheme}://${domain}${path}`;
+  }
+
+  async resolve(parsed: ParsedDID): Promise<DIDResolutionResult> {
+    let url: string;
+    try {
+      url = this.toDocumentUrl(parsed.id);
+      new URL(url);
+    } catch (error) {
+      return resolutionError('invalidDid', 'Invalid did:web domain');
+    }
+
+    const response = await fetch(url, {
+      headers: { Accept: 'application/did+json, application/json' },
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? 5000)
+    });
+
+    if (response.status === 404) {
+      return resolutionError('notFound', `No DID document at ${url}`);
+    }
+    if (!response.ok) {
+      return resolutionError('internalError', `Fetching ${url} failed with HTTP ${response.status}`);
+    }
+
+    const didDocument = await response.json() as DIDDocument;
+    if (didDocument?.id !== parsed.did) {
+      return resolutionError('invalidDid', 'DID document id does not match the requested DID');
+    }
+
+    return resolutionResult(didDocument);
+  }
+}
@@ -0,0 +1,189 @@
+// ============================================================================
+// 🪪 DID 해석기 (W3C DID Core / DID Resolution)
+// 경로: backend/src/services/did/DIDResolver.ts
+// 용도: DID → DID 문서 해석, 메서드별 드라이버를 등록하는 레지스트리
+// 지원 메서드: did:final0626 (자체), did:key, did:web
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { Final0626DIDDriver, KeyDIDDriver, WebDIDDriver } from './DIDMethodDrivers';
+
+export const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+export const DID_RESOLUTION_CONTEXT = 'https://w3id.org/did-resolution/v1';
+export const FINAL0626_DID_METHOD = 'final0626';
+
+export interface VerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyJwk?: Record<string, any>;
+  publicKeyMultibase?: string;
+  blockchainAccountId?: string;
+}
+
+export interface ServiceEndpoint {
+  id: string;
+  type: string;
+  serviceEndpoint: string;
+}
+
+export interface DIDDocument {
+  '@context': string | string[];
+  id: string;
+  controller?: string;
+  alsoKnownAs?: string[];
+  verificationMethod?: VerificationMethod[];
+  authentication?: string[];
+  assertionMethod?: string[];
+  keyAgreement?: string[];
+  capabilityInvocation?: string[];
+  capabilityDelegation?: string[];
+  service?: ServiceEndpoint[];
+}
+
+export type DIDResolutionError =
+  | 'invalidDid'
+  | 'notFound'
+  | 'methodNotSupported'
+  | 'representationNotSupported'
+  | 'internalError';
+
+export interface DIDResolutionResult {
+  '@context': string;
+  didDocument: DIDDocument | null;
+  didResolutionMetadata: {
+    contentType?: string;
+    error?: DIDResolutionError;
+    message?: string;
+  };
+  didDocumentMetadata: {
+    created?: string;
+    updated?: string;
+    deactivated?: boolean;
+  };
+}
+
+export interface ParsedDID {
+  did: string;
+  method: string;
+  id: string;
+}
+
+/**
+ * 메서드 드라이버 - 새 DID 메서드는 이 인터페이스를 구현해 레지스트리에 등록
+ */
+export interface DIDMethodDriver {
+  readonly method: string;
+  resolve(parsed: ParsedDID): Promise<DIDResolutionResult>;
+}
+
+// did = "did:" method-name ":" method-specific-id (쿼리/프래그먼트 제외)
+const DID_PATTERN = /^did:([a-z0-9]+):((?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2}|:)*(?:[A-Za-z0-9._-]|%[0-9A-Fa-f]{2}))$/;
+
+export function parseDID(did: string): ParsedDID | null {
+  const match = typeof did === 'string' ? DID_PATTERN.exec(did) : null;
+  if (!match) return null;
+  return { did, method: match[1], id: match[2] };
+}
+
+/**
+ * 패스키 credential ID로부터 did:final0626 식별자 도출
+ * (프론트엔드 lib/webauthn-utils.ts의 generateDIDFromCredential과 동일한 규칙)
+ */
+export function deriveFinal0626DID(credentialId: string): string {
+  const digest = crypto.createHash('sha256').update(credentialId, 'utf8').digest('hex');
+  return `did:${FINAL0626_DID_METHOD}:${digest.substring(0, 32)}`;
+}
+
+export function resolutionResult(
+  didDocument: DIDDocument | null,
+  documentMetadata: DIDResolutionResult['didDocumentMetadata'] = {}
+): DIDResolutionResult {
+  return {
+    '@context': DID_RESOLUTION_CONTEXT,
+    didDocument,
+    didResolutionMetadata: { contentType: 'application/did+ld+json' },
+    didDocumentMetadata: documentMetadata
+  };
+}
+
+export function resolutionError(error: DIDResolutionError, message?: string): DIDResolutionResult {
+  return {
+    '@context': DID_RESOLUTION_CONTEXT,
+    didDocument: null,
+    didResolutionMetadata: { error, ...(message ? { message } : {}) },
+    didDocumentMetadata: {}
+  };
+}
+
+// ============================================================================
+// 🗂️ 해석기 레지스트리
+// ============================================================================
+
+export class DIDResolverRegistry {
+  private drivers = new Map<string, DIDMethodDriver>();
+
+  register(driver: DIDMethodDriver): this {
+    this.drivers.set(driver.method, driver);
+    return this;
+  }
+
+  unregister(method: string): boolean {
+    return this.drivers.delete(method);
+  }
+
+  supports(method: string): boolean {
+    return this.drivers.has(method);
+  }
+
+  get methods(): string[] {
+    return Array.from(this.drivers.keys());
+  }
+
+  async resolve(did: string): Promise<DIDResolutionResult> {
+    const parsed = parseDID(did);
+    if (!parsed) {
+      return resolutionError('invalidDid', 'Malformed DID');
+    }
+
+    const driver = this.drivers.get(parsed.method);
+    if (!driver) {
+      return resolutionError('methodNotSupported', `did:${parsed.method} is not supported`);
+    }
+
+    try {
+      return await driver.resolve(parsed);
+    } catch (error: any) {
+      console.error(`❌ DID 해석 오류 (${did}):`, error);
+      return resolutionError('internalError', error.message);
+    }
+  }
+}
+
+// 라우트와 다른 서비스(VC 검증 등)가 같은 레지스트리를 공유하도록 단일 인스턴스 제공
+let sharedRegistry: DIDResolverRegistry | null = null;
+
+export function getDIDResolver(): DIDResolverRegistry {
+  if (!sharedRegistry) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedRegistry = new DIDResolverRegistry()
+      .register(new Final0626DIDDriver(db, {
+        baseUrl: process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}`,
+        chainId: Number(process.env.CUE_CHAIN_ID) || 1
+      }))
+      .register(new KeyDIDDriver())
+      .register(new WebDIDDriver({
+        allowInsecureLocalhost: process.env.NODE_ENV !== 'production'
+      }));
+
+    console.log(`🪪 DID 해석기 초기화: ${sharedRegistry.methods.map(m => `did:${m}`).join(', ')}`);
+  }
+  return sharedRegistry;
+}
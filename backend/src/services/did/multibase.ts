@@ -0,0 +1,63 @@
+// ============================================================================
+// 🔤 multibase(base58btc) / multicodec 유틸리티
+// 경로: backend/src/services/did/multibase.ts
+// 용도: did:key 식별자와 Multikey 공개키 인코딩/디코딩
+// ============================================================================
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+// multicodec 접두사(varint)
+export const MULTICODEC_ED25519_PUB = [0xed, 0x01];
+export const MULTICODEC_SECP256K1_PUB = [0xe7, 0x01];
+export const MULTICODEC_P256_PUB = [0x80, 0x24];
+
+export function base58btcEncode(bytes: Uint8Array): string {
+  let value = BigInt(0);
+  for (const byte of bytes) {
+    value = value * BigInt(256) + BigInt(byte);
+  }
+
+  let encoded = '';
+  while (value > BigInt(0)) {
+    encoded = BASE58_ALPHABET[Number(value % BigInt(58))] + encoded;
+    value /= BigInt(58);
+  }
+
+  // 앞쪽 0x00 바이트는 '1'
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = '1' + encoded;
+  }
+
+  return encoded;
+}
+
+export function base58btcDecode(input: string): Buffer {
+  let value = BigInt(0);
+  for (const char of input) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) throw new Error(`Invalid base58 character: ${char}`);
+    value = value * BigInt(58) + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > BigInt(0)) {
+    bytes.unshift(Number(value % BigInt(256)));
+    value /= BigInt(256);
+  }
+
+  // 앞쪽 '1'은 0x00 바이트
+  for (const char of input) {
+    if (char !== '1') break;
+    bytes.unshift(0);
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * 공개키 → multibase 문자열 (z + base58btc(multicodec 접두사 + 키))
+ */
+export function encodeMultikey(prefix: number[], publicKey: Uint8Array): string {
+  return `z${base58btcEncode(Buffer.concat([Buffer.from(prefix), Buffer.from(publicKey)]))}`;
+}
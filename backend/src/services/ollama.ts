@@ -20,6 +20,10 @@ interface OllamaResponse {
     content: string;
   };
   done: boolean;
+  /** stream 마지막 줄에만 포함 */
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
 }
 
 class OllamaService {
@@ -80,6 +84,117 @@ class OllamaService {
     }
   }
 
+  /**
+   * stream: false 채팅 - 토큰 사용량(prompt_eval_count/eval_count)까지 포함한 응답
+   */
+  async chatDetailed(
+    model: string,
+    messages: OllamaMessage[],
+    options: { signal?: AbortSignal; maxTokens?: number; temperature?: number } = {}
+  ): Promise<OllamaResponse> {
+    try {
+      const response = await axios.post(`${this.baseURL}/api/chat`, {
+        model,
+        messages,
+        stream: false,
+        options: {
+          num_predict: options.maxTokens,
+          temperature: options.temperature
+        }
+      }, {
+        timeout: this.timeout,
+        signal: options.signal,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      return response.data;
+    } catch (error: any) {
+      console.error('❌ Ollama 채팅 에러:', error.message);
+
+      if (error.code === 'ECONNREFUSED') {
+        throw new Error('Ollama 서버가 실행되지 않았습니다');
+      }
+
+      throw new Error(`Ollama API 에러: ${error.message}`);
+    }
+  }
+
+  /**
+   * 임베딩 (/api/embed, 여러 입력 한 번에)
+   */
+  async embed(model: string, input: string[]): Promise<number[][]> {
+    try {
+      const response = await axios.post(`${this.baseURL}/api/embed`, { model, input }, {
+        timeout: this.timeout,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+      return response.data.embeddings || [];
+    } catch (error: any) {
+      console.error('❌ Ollama 임베딩 에러:', error.message);
+      throw new Error(`Ollama API 에러: ${error.message}`);
+    }
+  }
+
+  /**
+   * stream: true 채팅 - 연결이 열리면 NDJSON 줄 단위 응답을 순서대로 돌려줌
+   */
+  async chatStream(
+    model: string,
+    messages: OllamaMessage[],
+    signal?: AbortSignal,
+    options: { maxTokens?: number; temperature?: number } = {}
+  ): Promise<AsyncIterable<OllamaResponse>> {
+    try {
+      console.log(`🦙 Ollama 스트리밍 요청: ${model}`);
+
+      const response = await axios.post(`${this.baseURL}/api/chat`, {
+        model,
+        messages,
+        stream: true,
+        options: {
+          num_predict: options.maxTokens,
+          temperature: options.temperature
+        }
+      }, {
+        timeout: this.timeout,
+        responseType: 'stream',
+        signal,
+        headers: {
+          'Content-Type': 'application/json'
+        }
+      });
+
+      return this.readLines(response.data);
+    } catch (error: any) {
+      console.error('❌ Ollama 스트리밍 에러:', error.message);
+
+      if (error.code === 'ECONNREFUSED') {
+        throw new Error('Ollama 서버가 실행되지 않았습니다');
+      }
+
+      throw new Error(`Ollama API 에러: ${error.message}`);
+    }
+  }
+
+  private async *readLines(stream: AsyncIterable<Buffer>): AsyncGenerator<OllamaResponse> {
+    let buffer = '';
+    for await (const data of stream) {
+      buffer += data.toString();
+      let newline = buffer.indexOf('\n');
+      while (newline >= 0) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) yield JSON.parse(line);
+        newline = buffer.indexOf('\n');
+      }
+    }
+    if (buffer.trim()) yield JSON.parse(buffer);
+  }
+
   async getModels(): Promise<string[]> {
     try {
       const response = await axios.get(`${this.baseURL}/api/tags`);
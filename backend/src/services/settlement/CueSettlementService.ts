@@ -0,0 +1,650 @@
+// ============================================================================
+// 🌉 CUE 온체인 정산 브리지 (선택 기능)
+// 경로: backend/src/services/settlement/CueSettlementService.ts
+// 용도: 완료된 원장 전기를 묶어 Merkle 루트를 컨트랙트에 기록, 오프체인 잔액을 패스포트 지갑으로 출금
+// 흐름: 묶음   pending → submitted (tx 전송) → confirmed (확인 블록 수 도달)
+//       출금   원장 user:<did> → system:bridge → mintWithdrawal → confirmed | failed (원장 환불)
+// 리오그: 영수증이 사라지면 멤풀 확인 후 재전송, 블록 해시가 바뀌면 확인 수를 다시 셈
+// 설정: CUE_CHAIN_RPC_URL + CUE_TOKEN_ADDRESS + CUE_SETTLEMENT_SIGNER 가 모두 있어야 활성화
+// ============================================================================
+
+import crypto from 'crypto';
+import { parseUnits } from 'ethers';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { CueLedger, getCueLedger, LEDGER_ACCOUNTS, toUnits, userAccount } from '../cue/CueLedger';
+import { buildMerkleTree, ledgerPostingLeaf } from './merkle';
+import { EvmSettlementChain, SettlementChain } from './SettlementChain';
+
+export const SETTLEMENT_DEFAULTS = {
+  /** 이 블록 수만큼 쌓여야 확정 (로컬 Anvil은 다음 트랜잭션마다 블록 생성) */
+  confirmations: 3,
+  intervalMs: 60 * 1000,
+  maxBatchSize: 500,
+  /** seq 발급 순서와 커밋 순서가 어긋날 수 있어 최근 전기는 다음 묶음으로 미룸 */
+  settleLagMs: 30 * 1000,
+  minWithdrawal: 1,
+  tokenDecimals: 18
+};
+
+export interface SettlementConfig {
+  rpcUrl: string;
+  tokenAddress: string;
+  signerPrivateKeyHex: string;
+  chainId: number;
+  confirmations: number;
+  intervalMs: number;
+  maxBatchSize: number;
+}
+
+export interface SettlementOptions {
+  confirmations: number;
+  maxBatchSize: number;
+  settleLagMs: number;
+}
+
+export type SettlementStatus = 'pending' | 'submitted' | 'confirmed' | 'failed';
+
+export enum SettlementErrorCode {
+  SETTLEMENT_DISABLED = 'SETTLEMENT_DISABLED',
+  INVALID_WITHDRAWAL = 'INVALID_WITHDRAWAL',
+  WALLET_REQUIRED = 'WALLET_REQUIRED'
+}
+
+export class SettlementError extends Error {
+  constructor(public code: SettlementErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'SettlementError';
+  }
+}
+
+export interface ChainTxView {
+  status: SettlementStatus;
+  txHash: string | null;
+  blockNumber: number | null;
+  blockHash: string | null;
+  confirmations: number;
+  reorgCount: number;
+  lastError: string | null;
+}
+
+export interface SettlementBatchView extends ChainTxView {
+  id: string;
+  batchNumber: number;
+  firstSeq: number;
+  lastSeq: number;
+  leafCount: number;
+  root: string;
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface WithdrawalView extends ChainTxView {
+  id: string;
+  userDid: string;
+  address: string;
+  amount: number;
+  entryId: string | null;
+  createdAt: string;
+  confirmedAt: string | null;
+}
+
+export interface SettlementCycleResult {
+  batch: SettlementBatchView | null;
+  submitted: number;
+  confirmed: number;
+  reorged: number;
+  failed: number;
+}
+
+/**
+ * 환경 변수 → 정산 설정 (필수 값이 없으면 null = 비활성)
+ */
+export function settlementConfigFromEnv(): SettlementConfig | null {
+  const rpcUrl = process.env.CUE_CHAIN_RPC_URL;
+  const tokenAddress = process.env.CUE_TOKEN_ADDRESS;
+  const signerPrivateKeyHex = process.env.CUE_SETTLEMENT_SIGNER;
+  if (!rpcUrl || !tokenAddress || !signerPrivateKeyHex) return null;
+
+  const confirmations = Number(process.env.CUE_CHAIN_CONFIRMATIONS);
+  return {
+    rpcUrl,
+    tokenAddress,
+    signerPrivateKeyHex,
+    chainId: Number(process.env.CUE_CHAIN_ID) || 31337,
+    confirmations: Number.isInteger(confirmations) && confirmations >= 1 ? confirmations : SETTLEMENT_DEFAULTS.confirmations,
+    intervalMs: Number(process.env.CUE_SETTLEMENT_INTERVAL_MS) || SETTLEMENT_DEFAULTS.intervalMs,
+    maxBatchSize: Number(process.env.CUE_SETTLEMENT_BATCH_SIZE) || SETTLEMENT_DEFAULTS.maxBatchSize
+  };
+}
+
+function toChainTxView(row: any): ChainTxView {
+  return {
+    status: row.status,
+    txHash: row.tx_hash || null,
+    blockNumber: row.block_number === null || row.block_number === undefined ? null : Number(row.block_number),
+    blockHash: row.block_hash || null,
+    confirmations: Number(row.confirmations || 0),
+    reorgCount: Number(row.reorg_count || 0),
+    lastError: row.last_error || null
+  };
+}
+
+function toBatchView(row: any): SettlementBatchView {
+  return {
+    id: row.id,
+    batchNumber: Number(row.batch_number),
+    firstSeq: Number(row.first_seq),
+    lastSeq: Number(row.last_seq),
+    leafCount: Number(row.leaf_count),
+    root: row.root,
+    ...toChainTxView(row),
+    createdAt: row.created_at,
+    confirmedAt: row.confirmed_at || null
+  };
+}
+
+function toWithdrawalView(row: any): WithdrawalView {
+  return {
+    id: row.id,
+    userDid: row.did,
+    address: row.address,
+    amount: Number(row.amount),
+    entryId: row.entry_id || null,
+    ...toChainTxView(row),
+    createdAt: row.created_at,
+    confirmedAt: row.confirmed_at || null
+  };
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+type ChainRowKind = 'batch' | 'withdrawal';
+
+export class CueSettlementService {
+  private timer: NodeJS.Timeout | null = null;
+  private cycle: Promise<SettlementCycleResult> | null = null;
+
+  constructor(
+    private db: any,
+    private chain: SettlementChain | null,
+    private options: SettlementOptions = {
+      confirmations: SETTLEMENT_DEFAULTS.confirmations,
+      maxBatchSize: SETTLEMENT_DEFAULTS.maxBatchSize,
+      settleLagMs: SETTLEMENT_DEFAULTS.settleLagMs
+    },
+    private ledger: CueLedger = getCueLedger()
+  ) {}
+
+  isEnabled(): boolean {
+    return this.chain !== null;
+  }
+
+  async getStatus() {
+    const [latest, openWithdrawals] = await Promise.all([
+      this.db.getLatestSettlementBatch(),
+      this.db.getCueWithdrawals({ statuses: ['pending', 'submitted'], limit: 100 })
+    ]);
+
+    return {
+      enabled: this.isEnabled(),
+      chainId: this.chain?.chainId ?? null,
+      confirmations: this.options.confirmations,
+      latestBatch: latest ? toBatchView(latest) : null,
+      openWithdrawals: openWithdrawals.length,
+      bridgedSupply: await this.ledger.getAccountBalance(LEDGER_ACCOUNTS.BRIDGE)
+    };
+  }
+
+  async listBatches(limit = 20): Promise<SettlementBatchView[]> {
+    const rows = await this.db.getSettlementBatches({ limit });
+    return rows.map(toBatchView);
+  }
+
+  async listWithdrawals(userDid: string, limit = 50): Promise<WithdrawalView[]> {
+    const rows = await this.db.getCueWithdrawals({ did: userDid, limit });
+    return rows.map(toWithdrawalView);
+  }
+
+  // ============================================================================
+  // 🌳 원장 묶음
+  // ============================================================================
+
+  /**
+   * 마지막 묶음 이후의 전기로 새 묶음 생성 (전송은 runCycle에서)
+   */
+  async createBatch(): Promise<SettlementBatchView | null> {
+    const latest = await this.db.getLatestSettlementBatch();
+    const afterSeq = latest ? Number(latest.last_seq) : 0;
+    const before = new Date(Date.now() - this.options.settleLagMs).toISOString();
+
+    const postings = await this.db.getLedgerPostingsAfterSeq(afterSeq, before, this.options.maxBatchSize);
+    if (postings.length === 0) return null;
+
+    const tree = buildMerkleTree(postings.map((p: any) => ledgerPostingLeaf({
+      seq: Number(p.seq),
+      entryId: p.entry_id,
+      account: p.account,
+      units: toUnits(p.amount)
+    })));
+
+    const row = {
+      id: crypto.randomUUID(),
+      batch_number: (latest ? Number(latest.batch_number) : 0) + 1,
+      first_seq: Number(postings[0].seq),
+      last_seq: Number(postings[postings.length - 1].seq),
+      leaf_count: postings.length,
+      root: tree.root,
+      status: 'pending',
+      tx_hash: null,
+      block_number: null,
+      block_hash: null,
+      confirmations: 0,
+      reorg_count: 0,
+      last_error: null,
+      created_at: new Date().toISOString(),
+      confirmed_at: null
+    };
+
+    const saved = await this.db.createSettlementBatch(row);
+    if (!saved) {
+      // 다른 인스턴스가 같은 번호의 묶음을 먼저 만듦
+      return null;
+    }
+
+    console.log(`🌳 CUE 정산 묶음 #${row.batch_number}: 전기 ${row.leaf_count}건 (seq ${row.first_seq}-${row.last_seq}) 루트 ${row.root}`);
+    return toBatchView(saved);
+  }
+
+  // ============================================================================
+  // 🏧 출금
+  // ============================================================================
+
+  /**
+   * 출금 요청 - 원장에서 먼저 차감(system:bridge)하고 pending으로 기록, 발행 트랜잭션은 정산 주기에서 전송
+   */
+  async requestWithdrawal(params: {
+    userDid: string;
+    address: string | null;
+    amount: number;
+    idempotencyKey?: string;
+  }): Promise<{ withdrawal: WithdrawalView; replayed: boolean }> {
+    const chain = this.requireChain();
+    const { userDid, address } = params;
+    const amount = Number(params.amount);
+
+    if (!Number.isFinite(amount) || amount < SETTLEMENT_DEFAULTS.minWithdrawal || Math.abs(toUnits(amount) / 100 - amount) > 1e-9) {
+      throw new SettlementError(
+        SettlementErrorCode.INVALID_WITHDRAWAL,
+        `amount must be at least ${SETTLEMENT_DEFAULTS.minWithdrawal} CUE with at most 2 decimal places`
+      );
+    }
+    if (!address) {
+      throw new SettlementError(SettlementErrorCode.WALLET_REQUIRED, 'Passport has no wallet address to withdraw to', 409);
+    }
+
+    const ledgerKey = `withdraw:${userDid}:${params.idempotencyKey || crypto.randomUUID()}`;
+    const existing = await this.ledger.getEntry(ledgerKey);
+    if (existing?.metadata?.withdrawalId) {
+      const row = await this.db.getCueWithdrawal(existing.metadata.withdrawalId);
+      if (row) return { withdrawal: toWithdrawalView(row), replayed: true };
+    }
+
+    const withdrawalId = crypto.randomUUID();
+    const { entry } = await this.ledger.postEntry({
+      idempotencyKey: ledgerKey,
+      type: 'transfer',
+      source: 'withdrawal',
+      description: `CUE withdrawn to ${address} (chain ${chain.chainId})`,
+      metadata: { withdrawalId, address, chainId: chain.chainId },
+      postings: [
+        { account: userAccount(userDid), amount: -amount },
+        { account: LEDGER_ACCOUNTS.BRIDGE, amount }
+      ]
+    });
+
+    const row = {
+      id: withdrawalId,
+      did: userDid,
+      address,
+      amount,
+      entry_id: entry.id,
+      status: 'pending',
+      tx_hash: null,
+      block_number: null,
+      block_hash: null,
+      confirmations: 0,
+      reorg_count: 0,
+      last_error: null,
+      created_at: new Date().toISOString(),
+      confirmed_at: null
+    };
+    const saved = await this.db.createCueWithdrawal(row);
+    console.log(`🏧 CUE 출금 요청: ${userDid} ${amount} CUE → ${address}`);
+
+    // 전송은 정산 주기에서만 (nonce 순서 보장, 같은 행의 중복 민팅 방지) - 요청은 pending으로 응답
+    this.queueCycle();
+    return { withdrawal: toWithdrawalView(saved || row), replayed: false };
+  }
+
+  // ============================================================================
+  // 🔁 정산 주기 (묶음 생성 → 전송 → 확인 블록 수 추적)
+  // ============================================================================
+
+  /**
+   * 한 번에 하나의 주기만 실행 (동시 전송 시 nonce 충돌 방지)
+   */
+  async runCycle(): Promise<SettlementCycleResult> {
+    this.requireChain();
+    if (!this.cycle) {
+      this.cycle = this.executeCycle().finally(() => {
+        this.cycle = null;
+      });
+    }
+    return this.cycle;
+  }
+
+  /**
+   * 주기 실행 예약 - 진행 중인 주기가 이미 행 목록을 읽었을 수 있으므로 끝난 뒤 한 번 더 실행
+   */
+  private queueCycle(): void {
+    const running = this.cycle ? this.cycle.catch(() => null) : Promise.resolve(null);
+    running
+      .then(() => this.runCycle())
+      .catch(error => console.error('❌ CUE 정산 주기 오류:', error));
+  }
+
+  start(intervalMs: number): void {
+    if (this.timer || !this.isEnabled()) return;
+    this.timer = setInterval(() => {
+      this.runCycle().catch(error => console.error('❌ CUE 정산 주기 오류:', error));
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async executeCycle(): Promise<SettlementCycleResult> {
+    const result: SettlementCycleResult = { batch: null, submitted: 0, confirmed: 0, reorged: 0, failed: 0 };
+
+    result.batch = await this.createBatch();
+
+    const kinds: Array<[ChainRowKind, any[]]> = [
+      ['batch', await this.db.getSettlementBatches({ statuses: ['pending', 'submitted'], limit: 100 })],
+      ['withdrawal', await this.db.getCueWithdrawals({ statuses: ['pending', 'submitted'], limit: 100 })]
+    ];
+
+    for (const [kind, rows] of kinds) {
+      // 오래된 것부터 전송해 묶음 번호 순서 유지
+      for (const row of rows.slice().reverse()) {
+        if (row.status === 'pending') {
+          const submitted = await this.submit(kind, row);
+          if (submitted) result.submitted++;
+          continue;
+        }
+
+        const synced = await this.sync(kind, row);
+        if (synced === 'confirmed') result.confirmed++;
+        else if (synced === 'reorged') result.reorged++;
+        else if (synced === 'failed') result.failed++;
+      }
+    }
+
+    if (result.batch || result.submitted || result.confirmed || result.reorged || result.failed) {
+      console.log(`🔁 CUE 정산 주기: 전송 ${result.submitted}, 확정 ${result.confirmed}, 리오그 ${result.reorged}, 실패 ${result.failed}`);
+    }
+    return result;
+  }
+
+  private async submit(kind: ChainRowKind, row: any): Promise<any | null> {
+    const chain = this.requireChain();
+
+    let txHash: string;
+    try {
+      txHash = kind === 'batch'
+        ? await chain.commitLedgerRoot(Number(row.batch_number), row.root, Number(row.leaf_count))
+        : await chain.mintWithdrawal(row.id, row.address, parseUnits(Number(row.amount).toFixed(2), SETTLEMENT_DEFAULTS.tokenDecimals));
+    } catch (error) {
+      console.error(`❌ 정산 트랜잭션 전송 실패 (${kind} ${row.id}):`, error);
+      await this.updateRow(kind, row.id, 'pending', { last_error: errorMessage(error) });
+      return null;
+    }
+
+    console.log(`📤 정산 트랜잭션 전송 (${kind} ${row.id}): ${txHash}`);
+    return this.updateRow(kind, row.id, 'pending', {
+      status: 'submitted',
+      tx_hash: txHash,
+      block_number: null,
+      block_hash: null,
+      confirmations: 0,
+      last_error: null
+    });
+  }
+
+  /**
+   * 전송된 트랜잭션의 현재 상태 반영 - 확인 블록 수, 리오그, revert
+   */
+  private async sync(kind: ChainRowKind, row: any): Promise<'waiting' | 'confirmed' | 'reorged' | 'failed'> {
+    const chain = this.requireChain();
+
+    try {
+      const receipt = await chain.getReceipt(row.tx_hash);
+
+      if (!receipt) {
+        const wasMined = row.block_number !== null && row.block_number !== undefined;
+
+        if (await chain.isPending(row.tx_hash)) {
+          // 포함됐던 블록이 리오그로 빠지고 멤풀로 돌아옴 - 다시 포함되길 기다림
+          if (wasMined) {
+            console.warn(`⚠️ 정산 트랜잭션 리오그 (${kind} ${row.id}): 블록 ${row.block_number} 제외, 재포함 대기`);
+            await this.updateRow(kind, row.id, 'submitted', {
+              block_number: null,
+              block_hash: null,
+              confirmations: 0,
+              reorg_count: Number(row.reorg_count || 0) + 1
+            });
+            return 'reorged';
+          }
+          return 'waiting';
+        }
+
+        // 재전송 중 먼저 보낸 발행이 포함됐으면 그 트랜잭션을 추적
+        if (kind === 'withdrawal' && await this.adoptIncludedWithdrawal(row)) {
+          return 'reorged';
+        }
+
+        console.warn(`⚠️ 정산 트랜잭션 유실 (${kind} ${row.id}): ${row.tx_hash} - 재전송 예정`);
+        await this.updateRow(kind, row.id, 'submitted', {
+          status: 'pending',
+          tx_hash: null,
+          block_number: null,
+          block_hash: null,
+          confirmations: 0,
+          reorg_count: Number(row.reorg_count || 0) + (wasMined ? 1 : 0)
+        });
+        return 'reorged';
+      }
+
+      const head = await chain.getBlockNumber();
+      const confirmations = Math.max(0, head - receipt.blockNumber + 1);
+      const blockChanged = !!row.block_hash && row.block_hash !== receipt.blockHash;
+      if (blockChanged) {
+        console.warn(`⚠️ 정산 트랜잭션 리오그 (${kind} ${row.id}): 블록 ${row.block_number} → ${receipt.blockNumber}`);
+      }
+
+      const blockUpdates = {
+        block_number: receipt.blockNumber,
+        block_hash: receipt.blockHash,
+        confirmations,
+        reorg_count: Number(row.reorg_count || 0) + (blockChanged ? 1 : 0)
+      };
+
+      if (confirmations < this.options.confirmations) {
+        await this.updateRow(kind, row.id, 'submitted', blockUpdates);
+        return blockChanged ? 'reorged' : 'waiting';
+      }
+
+      if (receipt.status === 1) {
+        await this.updateRow(kind, row.id, 'submitted', {
+          ...blockUpdates,
+          status: 'confirmed',
+          confirmed_at: new Date().toISOString()
+        });
+        console.log(`✅ 정산 트랜잭션 확정 (${kind} ${row.id}): 블록 ${receipt.blockNumber}, 확인 ${confirmations}`);
+        return 'confirmed';
+      }
+
+      if (kind === 'withdrawal' && await this.adoptIncludedWithdrawal(row)) {
+        return 'reorged';
+      }
+
+      await this.updateRow(kind, row.id, 'submitted', {
+        ...blockUpdates,
+        status: 'failed',
+        last_error: 'Transaction reverted'
+      });
+      if (kind === 'withdrawal') {
+        await this.refundWithdrawal(row);
+      }
+      console.error(`❌ 정산 트랜잭션 revert (${kind} ${row.id}): ${row.tx_hash}`);
+      return 'failed';
+    } catch (error) {
+      console.error(`❌ 정산 트랜잭션 확인 실패 (${kind} ${row.id}):`, error);
+      await this.updateRow(kind, row.id, 'submitted', { last_error: errorMessage(error) });
+      return 'waiting';
+    }
+  }
+
+  /**
+   * 같은 출금 ID로 이미 발행된 다른 트랜잭션이 있으면 그것으로 교체 (이중 발행은 컨트랙트가 막음)
+   */
+  private async adoptIncludedWithdrawal(row: any): Promise<boolean> {
+    const includedTx = await this.requireChain().findWithdrawalTx(row.id);
+    if (!includedTx || includedTx === row.tx_hash) return false;
+
+    console.log(`🔗 출금 ${row.id}: 먼저 포함된 트랜잭션 ${includedTx} 추적`);
+    await this.updateRow('withdrawal', row.id, 'submitted', {
+      tx_hash: includedTx,
+      block_number: null,
+      block_hash: null,
+      confirmations: 0
+    });
+    return true;
+  }
+
+  private async refundWithdrawal(row: any): Promise<void> {
+    await this.ledger.postEntry({
+      idempotencyKey: `withdraw:${row.id}:refund`,
+      type: 'transfer',
+      source: 'withdrawal',
+      description: 'CUE withdrawal reverted on chain - refunded',
+      metadata: { withdrawalId: row.id, txHash: row.tx_hash },
+      postings: [
+        { account: LEDGER_ACCOUNTS.BRIDGE, amount: -Number(row.amount) },
+        { account: userAccount(row.did), amount: Number(row.amount) }
+      ]
+    });
+    console.log(`↩️ CUE 출금 환불: ${row.did} ${row.amount} CUE`);
+  }
+
+  // ============================================================================
+  // 🧾 거래 내역 표시용
+  // ============================================================================
+
+  /**
+   * 거래 내역에 블록 번호/트랜잭션 해시 추가 - 출금은 발행 트랜잭션, 나머지는 포함된 묶음의 루트 기록 트랜잭션
+   */
+  async annotateTransactions(rows: any[]): Promise<any[]> {
+    const seqs = rows.map(row => Number(row.seq)).filter(seq => Number.isFinite(seq));
+    const withdrawalIds = Array.from(new Set(
+      rows.map(row => row.metadata?.withdrawalId).filter((id: any) => typeof id === 'string')
+    ));
+    if (seqs.length === 0 && withdrawalIds.length === 0) return rows;
+
+    const [batches, withdrawals] = await Promise.all([
+      seqs.length > 0
+        ? this.db.getSettlementBatches({
+            statuses: ['submitted', 'confirmed'],
+            fromSeq: Math.min(...seqs),
+            toSeq: Math.max(...seqs),
+            limit: 100
+          })
+        : Promise.resolve([]),
+      Promise.all(withdrawalIds.map(id => this.db.getCueWithdrawal(id)))
+    ]);
+    const withdrawalMap = new Map<string, any>(withdrawals.filter(Boolean).map((w: any) => [w.id, w]));
+
+    return rows.map(row => {
+      const withdrawal = withdrawalMap.get(row.metadata?.withdrawalId);
+      const source = withdrawal?.tx_hash
+        ? withdrawal
+        : batches.find((b: any) => Number(b.first_seq) <= Number(row.seq) && Number(row.seq) <= Number(b.last_seq));
+      if (!source || source.block_number === null || source.block_number === undefined) return row;
+
+      return {
+        ...row,
+        block_number: Number(source.block_number),
+        tx_hash: source.tx_hash,
+        settlement_status: source.status,
+        confirmations: Number(source.confirmations || 0)
+      };
+    });
+  }
+
+  // ============================================================================
+  // 🔧 내부 유틸리티
+  // ============================================================================
+
+  private requireChain(): SettlementChain {
+    if (!this.chain) {
+      throw new SettlementError(
+        SettlementErrorCode.SETTLEMENT_DISABLED,
+        'On-chain settlement is not configured',
+        503
+      );
+    }
+    return this.chain;
+  }
+
+  private updateRow(kind: ChainRowKind, id: string, expectedStatus: SettlementStatus, updates: any): Promise<any> {
+    return kind === 'batch'
+      ? this.db.updateSettlementBatch(id, expectedStatus, updates)
+      : this.db.updateCueWithdrawal(id, expectedStatus, updates);
+  }
+}
+
+let sharedSettlement: CueSettlementService | null = null;
+
+export function getCueSettlementService(): CueSettlementService {
+  if (!sharedSettlement) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    const config = settlementConfigFromEnv();
+    const chain = config
+      ? new EvmSettlementChain(config.rpcUrl, config.tokenAddress, config.signerPrivateKeyHex, config.chainId)
+      : null;
+
+    sharedSettlement = new CueSettlementService(db, chain, {
+      confirmations: config?.confirmations ?? SETTLEMENT_DEFAULTS.confirmations,
+      maxBatchSize: config?.maxBatchSize ?? SETTLEMENT_DEFAULTS.maxBatchSize,
+      settleLagMs: SETTLEMENT_DEFAULTS.settleLagMs
+    });
+
+    if (config) {
+      sharedSettlement.start(config.intervalMs);
+      console.log(`🌉 CUE 온체인 정산 활성화: chain ${config.chainId}, 확인 ${config.confirmations}블록`);
+    }
+  }
+  return sharedSettlement;
+}
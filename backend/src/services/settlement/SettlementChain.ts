@@ -0,0 +1,96 @@
+// ============================================================================
+// ⛓️ 정산 체인 어댑터 (EVM JSON-RPC / ethers)
+// 경로: backend/src/services/settlement/SettlementChain.ts
+// 용도: CueSettlementToken 컨트랙트 호출 (루트 기록, 출금 발행)과 영수증/블록 높이 조회
+// 로컬 테스트: Anvil/Hardhat 노드 (기본 http://127.0.0.1:8545, chainId 31337)
+// ============================================================================
+
+import { Contract, JsonRpcProvider, Wallet, id as keccakId } from 'ethers';
+
+export const CUE_SETTLEMENT_ABI = [
+  'function commitLedgerRoot(uint256 batchNumber, bytes32 root, uint256 leafCount)',
+  'function mintWithdrawal(bytes32 withdrawalId, address to, uint256 amount)',
+  'function ledgerRoots(uint256 batchNumber) view returns (bytes32)',
+  'function processedWithdrawals(bytes32 withdrawalId) view returns (bool)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'event LedgerRootCommitted(uint256 indexed batchNumber, bytes32 root, uint256 leafCount)',
+  'event Withdrawal(bytes32 indexed withdrawalId, address indexed to, uint256 amount)'
+];
+
+export interface ChainReceipt {
+  blockNumber: number;
+  blockHash: string;
+  /** 1 = 성공, 0 = revert */
+  status: number;
+}
+
+export interface SettlementChain {
+  readonly chainId: number;
+  /** 트랜잭션 전송 후 해시 반환 (채굴을 기다리지 않음) */
+  commitLedgerRoot(batchNumber: number, root: string, leafCount: number): Promise<string>;
+  mintWithdrawal(withdrawalId: string, to: string, amountWei: bigint): Promise<string>;
+  getBlockNumber(): Promise<number>;
+  /** 현재 정규 체인 기준 영수증 (리오그로 빠졌으면 null) */
+  getReceipt(txHash: string): Promise<ChainReceipt | null>;
+  /** 멤풀에 아직 남아 있는지 */
+  isPending(txHash: string): Promise<boolean>;
+  /** 출금 ID로 발행된 트랜잭션 검색 (재전송 중 먼저 포함된 트랜잭션 찾기) */
+  findWithdrawalTx(withdrawalId: string): Promise<string | null>;
+}
+
+/**
+ * 출금 UUID → 컨트랙트 bytes32 ID
+ */
+export function withdrawalChainId(withdrawalId: string): string {
+  return keccakId(`cue-withdrawal:${withdrawalId}`);
+}
+
+export class EvmSettlementChain implements SettlementChain {
+  private provider: JsonRpcProvider;
+  private contract: Contract;
+
+  constructor(
+    rpcUrl: string,
+    tokenAddress: string,
+    signerPrivateKeyHex: string,
+    public readonly chainId: number
+  ) {
+    this.provider = new JsonRpcProvider(rpcUrl, chainId, { staticNetwork: true });
+    const signer = new Wallet(signerPrivateKeyHex, this.provider);
+    this.contract = new Contract(tokenAddress, CUE_SETTLEMENT_ABI, signer);
+  }
+
+  async commitLedgerRoot(batchNumber: number, root: string, leafCount: number): Promise<string> {
+    const tx = await this.contract.commitLedgerRoot(batchNumber, root, leafCount);
+    return tx.hash;
+  }
+
+  async mintWithdrawal(withdrawalId: string, to: string, amountWei: bigint): Promise<string> {
+    const tx = await this.contract.mintWithdrawal(withdrawalChainId(withdrawalId), to, amountWei);
+    return tx.hash;
+  }
+
+  async getBlockNumber(): Promise<number> {
+    return this.provider.getBlockNumber();
+  }
+
+  async getReceipt(txHash: string): Promise<ChainReceipt | null> {
+    const receipt = await this.provider.getTransactionReceipt(txHash);
+    if (!receipt) return null;
+    return {
+      blockNumber: receipt.blockNumber,
+      blockHash: receipt.blockHash,
+      status: receipt.status ?? 0
+    };
+  }
+
+  async isPending(txHash: string): Promise<boolean> {
+    const tx = await this.provider.getTransaction(txHash);
+    return !!tx && tx.blockNumber === null;
+  }
+
+  async findWithdrawalTx(withdrawalId: string): Promise<string | null> {
+    const logs = await this.contract.queryFilter(this.contract.filters.Withdrawal(withdrawalChainId(withdrawalId)), 0);
+    return logs.length > 0 ? logs[logs.length - 1].transactionHash : null;
+  }
+}
@@ -0,0 +1,123 @@
+// ============================================================================
+// 🌳 Merkle 트리 (keccak256, 정렬 쌍 해시 - OpenZeppelin MerkleProof 호환)
+// 경로: backend/src/services/settlement/merkle.ts
+// 용도: 원장 전기 묶음의 루트 계산과 포함 증명, 마이닝 영수증 일별 트리
+// 규칙: 리프 = keccak256(keccak256(abi.encode(...))) (이중 해시로 2차 원상 공격 방지)
+//       부모 = keccak256(min(a,b) || max(a,b)), 홀수 노드는 그대로 위로 올림
+// 영수증: 브라우저 WebCrypto로 검증할 수 있게 SHA-256 사용
+//       리프 = sha256(0x00 || JSON 배열), 부모 = sha256(0x01 || min(a,b) || max(a,b))
+// ============================================================================
+
+import crypto from 'crypto';
+import { AbiCoder, concat, getBytes, hexlify, keccak256 } from 'ethers';
+
+const abi = AbiCoder.defaultAbiCoder();
+
+export interface MerkleTree {
+  root: string;
+  /** layers[0] = 리프, 마지막 = [root] */
+  layers: string[][];
+}
+
+/**
+ * 원장 전기 리프 - (seq, 분개 ID, 계정, 금액 단위(0.01 CUE))
+ */
+export function ledgerPostingLeaf(posting: { seq: number; entryId: string; account: string; units: number }): string {
+  const encoded = abi.encode(
+    ['uint256', 'string', 'string', 'int256'],
+    [posting.seq, posting.entryId, posting.account, posting.units]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+export function hashPair(a: string, b: string): string {
+  return a.toLowerCase() < b.toLowerCase() ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+export type PairHasher = (a: string, b: string) => string;
+
+export const RECEIPT_LEAF_VERSION = 'cue-receipt-v1';
+
+export interface CueReceiptLeafInput {
+  entryId: string;
+  did: string;
+  amount: number;
+  type: string;
+  source: string | null;
+  createdAt: string;
+}
+
+/**
+ * 영수증 리프 원문 - 프론트엔드 검증기와 같은 순서/형식이어야 함
+ */
+export function cueReceiptPreimage(leaf: CueReceiptLeafInput): string {
+  return JSON.stringify([
+    RECEIPT_LEAF_VERSION,
+    leaf.entryId,
+    leaf.did,
+    leaf.amount.toFixed(2),
+    leaf.type,
+    leaf.source || '',
+    new Date(leaf.createdAt).toISOString()
+  ]);
+}
+
+/**
+ * 마이닝 분개의 cue_hash (영수증 리프)
+ */
+export function cueReceiptLeaf(leaf: CueReceiptLeafInput): string {
+  return sha256Hex(concat([new Uint8Array([0]), new TextEncoder().encode(cueReceiptPreimage(leaf))]));
+}
+
+export function sha256Pair(a: string, b: string): string {
+  const [low, high] = a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a];
+  return sha256Hex(concat([new Uint8Array([1]), low, high]));
+}
+
+function sha256Hex(data: string): string {
+  return hexlify(crypto.createHash('sha256').update(getBytes(data)).digest());
+}
+
+export function buildMerkleTree(leaves: string[], pair: PairHasher = hashPair): MerkleTree {
+  if (leaves.length === 0) {
+    throw new Error('Cannot build a Merkle tree without leaves');
+  }
+
+  const layers: string[][] = [leaves.slice()];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? pair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], layers };
+}
+
+/**
+ * index번째 리프의 포함 증명 (형제 해시 목록, 아래에서 위로)
+ */
+export function getMerkleProof(tree: MerkleTree, index: number): string[] {
+  if (index < 0 || index >= tree.layers[0].length) {
+    throw new Error(`Leaf index ${index} is out of range`);
+  }
+
+  const proof: string[] = [];
+  let position = index;
+  for (let depth = 0; depth < tree.layers.length - 1; depth++) {
+    const level = tree.layers[depth];
+    const sibling = position % 2 === 0 ? position + 1 : position - 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    position = Math.floor(position / 2);
+  }
+  return proof;
+}
+
+export function verifyMerkleProof(leaf: string, proof: string[], root: string, pair: PairHasher = hashPair): boolean {
+  const computed = proof.reduce((hash, sibling) => pair(hash, sibling), leaf);
+  return computed.toLowerCase() === root.toLowerCase();
+}
@@ -7,14 +7,23 @@
 
 // ============================================================================
 
+import http from 'http';
 import { Server } from 'socket.io';
-import jwt from 'jsonwebtoken';
 import { DatabaseService } from '../database/DatabaseService';
+import { resolveAuthUser } from '../../middleware/authMiddleware';
+import { RewardCalculation, getRewardPolicyEngine } from '../cue/RewardPolicyEngine';
+import { ChatStreamChunk, getChatStreamService } from '../ai/ChatStreamService';
+import { CueLedgerError } from '../cue/CueLedger';
+import { ConversationError } from '../ai/ConversationService';
+
+/** 사용자별 방 - 인증된 소켓은 연결 즉시 자신의 DID 방에 참여 (기기 여러 대 동시 수신) */
+function userRoom(userDid: string): string {
+  return `did:${userDid}`;
+}
 
 export class SocketService {
   private io: Server;
   private db: DatabaseService;
-  private connectedUsers: Map<string, { socketId: string; userDid: string; username: string }> = new Map();
 
   constructor(io: Server) {
     this.io = io;
@@ -28,7 +37,10 @@ export class SocketService {
     this.io.on('connection', (socket) => {
       console.log(`🔌 Socket connected: ${socket.id}`);
 
-      // 사용자 연결 등록
+      // 핸드셰이크에서 인증된 DID로 바로 등록 (user:register 없이도 알림 수신)
+      socket.join(userRoom((socket as any).userDid));
+
+      // 사용자 연결 확인
       socket.on('user:register', (data) => {
         this.registerUser(socket, data);
       });
@@ -43,6 +55,15 @@ export class SocketService {
         this.handleTypingStatus(socket, data);
       });
 
+      // AI 채팅 스트리밍 (chat:start → chat:chunk* → chat:done | chat:error)
+      socket.on('chat:send', (data) => {
+        this.handleChatStream(socket, data);
+      });
+
+      socket.on('chat:cancel', (data) => {
+        this.handleChatCancel(socket, data);
+      });
+
       // 데이터 추출 진행상황 실시간 전송
       socket.on('extraction:progress', (data) => {
         this.handleExtractionProgress(socket, data);
@@ -63,10 +84,13 @@ export class SocketService {
         return next(new Error('Authentication error'));
       }
 
-      const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
-      socket.userId = decoded.userId;
-      socket.userDid = decoded.did;
-      socket.username = decoded.username;
+      // HTTP 라우터와 같은 인증 경로 사용 (폐기된 세션의 토큰으로는 연결 불가)
+      const user = await resolveAuthUser(token);
+
+      socket.userId = user.id;
+      socket.userDid = user.did;
+      socket.username = user.username;
+      socket.sessionId = user.sessionId;
 
       next();
     } catch (error) {
@@ -76,19 +100,11 @@ export class SocketService {
   }
 
   private registerUser(socket: any, data: any): void {
-    const userInfo = {
-      socketId: socket.id,
-      userDid: socket.userDid,
-      username: socket.username
-    };
-
-    this.connectedUsers.set(socket.userDid, userInfo);
-    
     // 사용자에게 연결 확인 전송
     socket.emit('connection:confirmed', {
       success: true,
       userDid: socket.userDid,
-      connectedUsers: this.connectedUsers.size
+      connectedUsers: this.io.of('/').sockets.size
     });
 
     console.log(`✅ User registered: ${socket.username} (${socket.userDid})`);
@@ -139,6 +155,60 @@ export class SocketService {
     });
   }
 
+  private async handleChatStream(socket: any, data: any): Promise<void> {
+    const message = typeof data?.message === 'string' ? data.message : '';
+    const model = data?.model || 'personalized-agent';
+    const requestId = data?.requestId || null;
+    const editOf = typeof data?.editOf === 'string' ? data.editOf : undefined;
+    const regenerate = typeof data?.regenerate === 'string' ? data.regenerate : undefined;
+
+    if (!regenerate && !message.trim()) {
+      socket.emit('chat:error', { requestId, error: 'Message is required' });
+      return;
+    }
+
+    // 소켓이 끊기면 진행 중인 스트림 취소
+    const disconnect = new AbortController();
+    const onDisconnect = () => disconnect.abort();
+    socket.once('disconnect', onDisconnect);
+
+    try {
+      const result = await getChatStreamService().run({
+        userDid: socket.userDid,
+        message,
+        model,
+        conversationId: data?.conversationId,
+        editOf,
+        regenerate,
+        client: {
+          ipAddress: socket.handshake.address || null,
+          userAgent: socket.handshake.headers['user-agent'] || null,
+          deviceId: socket.handshake.headers['x-device-id'] || null
+        },
+        signal: disconnect.signal
+      }, {
+        onStart: (start) => socket.emit('chat:start', { requestId, ...start }),
+        onChunk: (chunk) => this.streamAIResponse(socket, chunk)
+      });
+
+      socket.emit(result.status === 'failed' ? 'chat:error' : 'chat:done', { requestId, ...result });
+    } catch (error) {
+      if (error instanceof CueLedgerError || error instanceof ConversationError) {
+        socket.emit('chat:error', { requestId, error: error.message, code: error.code });
+        return;
+      }
+      console.error('Socket chat stream error:', error);
+      socket.emit('chat:error', { requestId, error: 'Failed to stream AI chat' });
+    } finally {
+      socket.off('disconnect', onDisconnect);
+    }
+  }
+
+  private handleChatCancel(socket: any, data: any): void {
+    const cancelled = !!data?.streamId && getChatStreamService().cancel(data.streamId, socket.userDid);
+    socket.emit('chat:cancel:ack', { streamId: data?.streamId, cancelled });
+  }
+
   private handleExtractionProgress(socket: any, data: any): void {
     // 데이터 추출 진행상황 실시간 업데이트
     socket.emit('extraction:progress:update', {
@@ -151,17 +221,13 @@ export class SocketService {
 
   private handleDisconnect(socket: any): void {
     if (socket.userDid) {
-      this.connectedUsers.delete(socket.userDid);
       console.log(`❌ User disconnected: ${socket.username} (${socket.userDid})`);
     }
   }
 
   // 특정 사용자에게 메시지 전송
   public sendToUser(userDid: string, event: string, data: any): void {
-    const userInfo = this.connectedUsers.get(userDid);
-    if (userInfo) {
-      this.io.to(userInfo.socketId).emit(event, data);
-    }
+    this.io.to(userRoom(userDid)).emit(event, data);
   }
 
   // 모든 연결된 사용자에게 브로드캐스트
@@ -178,15 +244,38 @@ export class SocketService {
     });
   }
 
-  // AI 응답 실시간 스트리밍 (추후 구현)
-  public streamAIResponse(userDid: string, chunk: string): void {
-    this.sendToUser(userDid, 'ai:response:chunk', {
-      chunk,
+  // AI 응답 실시간 스트리밍 (토큰 조각 단위)
+  public streamAIResponse(socket: any, chunk: ChatStreamChunk): void {
+    socket.emit('chat:chunk', {
+      ...chunk,
       timestamp: new Date().toISOString()
     });
   }
 }
 
+let sharedSocketService: SocketService | null = null;
+
+/**
+ * HTTP 서버에 Socket.IO를 연결하고 공용 SocketService 생성
+ */
+export function attachSocketService(server: http.Server, allowedOrigins: string[]): SocketService {
+  if (!sharedSocketService) {
+    const io = new Server(server, {
+      cors: { origin: allowedOrigins, credentials: true }
+    });
+    sharedSocketService = new SocketService(io);
+    console.log('📡 Socket.IO 연결됨');
+  }
+  return sharedSocketService;
+}
+
+/**
+ * 공용 SocketService (서버 시작 전이면 null - 실시간 알림만 생략됨)
+ */
+export function getSocketService(): SocketService | null {
+  return sharedSocketService;
+}
+
 // ============================================================================
 // 🔧 src/services/ai/SemanticCompressionService.ts - 완전한 구현
 // ============================================================================
@@ -273,15 +362,16 @@ export class SemanticCompressionService {
       // 중요도 계산
       const importance = this.calculateImportance(userMessage, aiResponse);
       
-      // CUE 값 계산
-      const cueValue = this.calculateCUEValue(compressionResult, importance);
+      // CUE 값 계산 (보상 정책 'semantic_value' 공식)
+      const cueReward = await this.calculateCUEValue(compressionResult, importance);
 
       return {
         shouldStore: true,
         ...compressionResult,
         sentiment,
         importance,
-        cueValue
+        cueValue: cueReward.amount,
+        rewardPolicyVersion: cueReward.policyVersion
       };
 
     } catch (error) {
@@ -536,25 +626,16 @@ export class SemanticCompressionService {
   /**
    * CUE 값을 계산합니다
    */
-  private calculateCUEValue(compressionResult: any, importance: number): number {
-    // 압축 효율성
-    const compressionEfficiency = 1 - compressionResult.compressionRatio;
-    
-    // 의미 보존 품질
-    const semanticQuality = compressionResult.semanticPreservation;
-    
-    // 키워드 풍부도
-    const keywordRichness = Math.min(compressionResult.keywords.length / 10, 1);
-    
-    // 최종 CUE 값 계산
-    const cueValue = (
-      compressionEfficiency * 0.4 +
-      semanticQuality * 0.4 +
-      importance * 0.1 +
-      keywordRichness * 0.1
-    ) * 10; // 0-10 범위로 스케일링
-    
-    return Math.round(cueValue * 100) / 100;
+  private calculateCUEValue(compressionResult: any, importance: number): Promise<RewardCalculation> {
+    return getRewardPolicyEngine().calculate('semantic_value', {
+      // 압축 효율성
+      compressionEfficiency: 1 - compressionResult.compressionRatio,
+      // 의미 보존 품질
+      semanticPreservation: compressionResult.semanticPreservation,
+      importance,
+      // 키워드 풍부도
+      keywordCount: compressionResult.keywords.length
+    });
   }
 
   /**
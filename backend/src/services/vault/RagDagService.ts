@@ -0,0 +1,585 @@
+// ============================================================================
+// 🕸️ RAG-DAG 지식 그래프 (데이터 볼트)
+// 경로: backend/src/services/vault/RagDagService.ts
+// 노드: prompt(사용자 메시지) / response(AI 응답) / context(개인화 CUE, 볼트 추출) / reference(플랫폼 가져오기)
+// 간선 (from → to): derived_from - from이 to에서 파생 / references - from이 to를 참조
+//                   contradicts - from이 to와 모순 / supersedes - from이 to를 대체
+// 모든 간선 종류를 합쳐 방향 비순환 그래프 - 순환이 생기는 간선은 CYCLE_DETECTED로 거부
+// 자동 기록: 볼트 추출(가져오기 → CUE), 채팅 턴(응답 → 사용자 메시지, 응답 → 프롬프트에 쓴 CUE,
+//           편집/재생성 → 이전 버전 대체), 대화에서 학습한 CUE → 응답
+// 조회: 조상/자손 탐색, 플랫폼 가져오기에서 파생된 전체, 검색된 CUE의 이웃 (CueRetrievalService)
+// 그래프는 사용자 단위로 한 번에 읽어 메모리에서 탐색 (RAG_DAG_LIMITS.maxGraphNodes)
+// ============================================================================
+
+import { v4 as uuidv4 } from 'uuid';
+import { DatabaseService } from '../database/DatabaseService';
+
+export const RAG_DAG_LIMITS = {
+  /** 노드에 저장하는 내용 미리보기 길이 */
+  contentPreviewChars: 500,
+  maxGraphNodes: 5000,
+  maxGraphEdges: 20000,
+  defaultTraversalDepth: 5,
+  maxTraversalDepth: 20,
+  /** 채팅 검색에서 따라가는 이웃 거리 */
+  neighborhoodDepth: 2
+};
+
+export type RagDagNodeType = 'prompt' | 'response' | 'context' | 'reference';
+
+export type RagDagEdgeType = 'derived_from' | 'references' | 'contradicts' | 'supersedes';
+
+export type RagDagSourceType = 'chat_message' | 'personal_cue' | 'platform_import';
+
+export const RAG_DAG_EDGE_TYPES: RagDagEdgeType[] = ['derived_from', 'references', 'contradicts', 'supersedes'];
+
+/** 계보(조상/자손) 탐색 기본 간선 */
+export const LINEAGE_EDGE_TYPES: RagDagEdgeType[] = ['derived_from', 'references'];
+
+export enum RagDagErrorCode {
+  NODE_NOT_FOUND = 'NODE_NOT_FOUND',
+  EDGE_NOT_FOUND = 'EDGE_NOT_FOUND',
+  INVALID_EDGE = 'INVALID_EDGE',
+  DUPLICATE_EDGE = 'DUPLICATE_EDGE',
+  /** 간선을 추가하면 순환이 생김 (자기 자신으로의 간선 포함) */
+  CYCLE_DETECTED = 'CYCLE_DETECTED'
+}
+
+export class RagDagError extends Error {
+  constructor(public code: RagDagErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'RagDagError';
+  }
+}
+
+export interface RagDagNodeView {
+  id: string;
+  type: RagDagNodeType;
+  source: {
+    type: RagDagSourceType;
+    id: string;
+  };
+  content: string;
+  /** 나가는 간선의 대상 노드 */
+  connections: string[];
+  metadata: any;
+  createdAt: string;
+}
+
+export interface RagDagEdgeView {
+  id: string;
+  from: string;
+  to: string;
+  type: RagDagEdgeType;
+  metadata: any;
+  createdAt: string;
+}
+
+export interface RagDagTraversal {
+  root: RagDagNodeView;
+  direction: 'ancestors' | 'descendants';
+  edgeTypes: RagDagEdgeType[];
+  /** 시작 노드에서 가까운 순 (depth: 간선 수) */
+  nodes: Array<RagDagNodeView & { depth: number }>;
+  /** 탐색에 쓰인 간선 */
+  edges: RagDagEdgeView[];
+}
+
+export interface TraversalOptions {
+  depth?: number;
+  edgeTypes?: RagDagEdgeType[];
+}
+
+/** 검색된 CUE 하나의 그래프 주변 (CueRetrievalService가 순위에 반영) */
+export interface CueNeighborhood {
+  /** 계보 간선으로 연결된 다른 CUE (hops: 거리) */
+  neighbors: Array<{ cueId: string; hops: number }>;
+  /** 이 CUE를 대체한 CUE */
+  supersededBy: string[];
+  /** 모순 관계인 CUE (방향 무관) */
+  contradicts: string[];
+  /** 이 CUE가 파생된 플랫폼 가져오기 */
+  imports: string[];
+}
+
+/** 채팅 한 턴 기록 입력 (ConversationService.ChatTurn 일부 + 저장된 응답) */
+export interface ChatTurnRecord {
+  conversationId: string;
+  userMessageId: string;
+  message: string;
+  editOf: string | null;
+  regenerateOf: string | null;
+  responseMessageId: string;
+  response: string;
+  model: string;
+  /** 프롬프트에 들어간 CUE/볼트 스니펫 행 */
+  contextCues: any[];
+}
+
+function toNodeView(row: any, connections: string[] = []): RagDagNodeView {
+  return {
+    id: row.id,
+    type: row.type,
+    source: { type: row.source_type, id: row.source_id },
+    content: row.content || '',
+    connections,
+    metadata: row.metadata || {},
+    createdAt: row.created_at
+  };
+}
+
+function toEdgeView(row: any): RagDagEdgeView {
+  return {
+    id: row.id,
+    from: row.from_node_id,
+    to: row.to_node_id,
+    type: row.type,
+    metadata: row.metadata || {},
+    createdAt: row.created_at
+  };
+}
+
+function preview(text: unknown): string {
+  const flat = typeof text === 'string' ? text.replace(/\s+/g, ' ').trim() : '';
+  return flat.length > RAG_DAG_LIMITS.contentPreviewChars
+    ? `${flat.slice(0, RAG_DAG_LIMITS.contentPreviewChars)}…`
+    : flat;
+}
+
+/**
+ * 메모리 그래프 - 노드/간선 행과 양방향 인접 목록
+ */
+class Graph {
+  readonly nodes: Map<string, any> = new Map();
+  readonly outgoing: Map<string, any[]> = new Map();
+  readonly incoming: Map<string, any[]> = new Map();
+
+  constructor(nodes: any[], readonly edges: any[]) {
+    nodes.forEach(node => this.nodes.set(node.id, node));
+    edges.forEach(edge => {
+      if (!this.outgoing.has(edge.from_node_id)) this.outgoing.set(edge.from_node_id, []);
+      if (!this.incoming.has(edge.to_node_id)) this.incoming.set(edge.to_node_id, []);
+      this.outgoing.get(edge.from_node_id)!.push(edge);
+      this.incoming.get(edge.to_node_id)!.push(edge);
+    });
+  }
+
+  view(id: string): RagDagNodeView {
+    return toNodeView(this.nodes.get(id), (this.outgoing.get(id) || []).map(edge => edge.to_node_id));
+  }
+
+  /**
+   * 너비 우선 탐색 - 도달한 노드와 거리, 지나간 간선 (시작 노드 제외)
+   */
+  walk(start: string, direction: 'out' | 'in', edgeTypes: RagDagEdgeType[], maxDepth: number) {
+    const depths = new Map<string, number>([[start, 0]]);
+    const used: any[] = [];
+    let frontier = [start];
+
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        const edges = (direction === 'out' ? this.outgoing : this.incoming).get(id) || [];
+        for (const edge of edges) {
+          if (!edgeTypes.includes(edge.type)) continue;
+          const neighbor = direction === 'out' ? edge.to_node_id : edge.from_node_id;
+          used.push(edge);
+          if (depths.has(neighbor)) continue;
+          depths.set(neighbor, depth);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    depths.delete(start);
+    return { depths, edges: used };
+  }
+
+  /** from → to 간선을 더하면 순환이 생기는지 (to에서 from으로 가는 경로가 이미 있음) */
+  wouldCycle(from: string, to: string): boolean {
+    if (from === to) return true;
+    const seen = new Set<string>([to]);
+    const stack = [to];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      for (const edge of this.outgoing.get(id) || []) {
+        if (edge.to_node_id === from) return true;
+        if (!seen.has(edge.to_node_id)) {
+          seen.add(edge.to_node_id);
+          stack.push(edge.to_node_id);
+        }
+      }
+    }
+    return false;
+  }
+}
+
+export class RagDagService {
+  constructor(private db: DatabaseService) {}
+
+  // ==========================================================================
+  // ✍️ 간선 추가/삭제
+  // ==========================================================================
+
+  /**
+   * 간선 추가 - 노드는 같은 사용자 그래프에 있어야 하고, 순환/중복은 거부
+   */
+  async addEdge(userDid: string, from: string, to: string, type: RagDagEdgeType, metadata: any = {}): Promise<RagDagEdgeView> {
+    if (!RAG_DAG_EDGE_TYPES.includes(type)) {
+      throw new RagDagError(
+        RagDagErrorCode.INVALID_EDGE,
+        `type must be one of ${RAG_DAG_EDGE_TYPES.join(', ')}`
+      );
+    }
+
+    const graph = await this.load(userDid);
+    for (const id of [from, to]) {
+      if (!graph.nodes.has(id)) {
+        throw new RagDagError(RagDagErrorCode.NODE_NOT_FOUND, `Graph node ${id} not found`, 404);
+      }
+    }
+    if ((graph.outgoing.get(from) || []).some(edge => edge.to_node_id === to && edge.type === type)) {
+      throw new RagDagError(RagDagErrorCode.DUPLICATE_EDGE, `${from} already ${type} ${to}`, 409);
+    }
+    if (graph.wouldCycle(from, to)) {
+      throw new RagDagError(
+        RagDagErrorCode.CYCLE_DETECTED,
+        `Adding ${from} -${type}-> ${to} would create a cycle`,
+        409
+      );
+    }
+
+    const edge = await this.db.createRagDagEdge({
+      id: uuidv4(),
+      user_did: userDid,
+      from_node_id: from,
+      to_node_id: to,
+      type,
+      metadata
+    });
+    return toEdgeView(edge);
+  }
+
+  async removeEdge(userDid: string, edgeId: string): Promise<void> {
+    const deleted = await this.db.deleteRagDagEdge(userDid, edgeId);
+    if (!deleted) {
+      throw new RagDagError(RagDagErrorCode.EDGE_NOT_FOUND, 'Graph edge not found', 404);
+    }
+  }
+
+  // ==========================================================================
+  // 📥 자동 기록 (볼트 추출, 채팅 턴, 학습한 CUE)
+  // ==========================================================================
+
+  /**
+   * 볼트 추출 - 플랫폼이 있으면 가져오기 노드를 만들고 CUE가 그 가져오기에서 파생
+   */
+  async recordVaultExtraction(userDid: string, cue: any, platform?: string | null): Promise<RagDagNodeView> {
+    const cueNode = await this.ensureCueNode(userDid, cue);
+    if (platform) {
+      const importNode = await this.db.createRagDagNode({
+        id: uuidv4(),
+        user_did: userDid,
+        type: 'reference',
+        source_type: 'platform_import',
+        source_id: uuidv4(),
+        content: preview(`${platform} import: ${cue.original_content || ''}`),
+        metadata: { platform }
+      });
+      await this.link(userDid, cueNode.id, importNode.id, 'derived_from');
+    }
+    return toNodeView(cueNode);
+  }
+
+  /**
+   * 채팅 턴 - 응답은 사용자 메시지에서 파생되고 프롬프트에 쓴 CUE를 참조
+   * 편집한 메시지는 원래 메시지를, 다시 생성한 응답은 이전 응답을 대체
+   */
+  async recordChatTurn(userDid: string, record: ChatTurnRecord): Promise<{ promptNodeId: string; responseNodeId: string }> {
+    const prompt = await this.ensureNode(userDid, 'chat_message', record.userMessageId, {
+      type: 'prompt',
+      content: preview(record.message),
+      metadata: { conversationId: record.conversationId }
+    });
+    const response = await this.ensureNode(userDid, 'chat_message', record.responseMessageId, {
+      type: 'response',
+      content: preview(record.response),
+      metadata: { conversationId: record.conversationId, model: record.model }
+    });
+
+    await this.link(userDid, response.id, prompt.id, 'derived_from');
+    for (const cue of record.contextCues) {
+      const cueNode = await this.ensureCueNode(userDid, cue);
+      await this.link(userDid, response.id, cueNode.id, 'references');
+    }
+
+    const previous = record.editOf || record.regenerateOf;
+    const replaced = previous ? await this.db.findRagDagNodeBySource(userDid, 'chat_message', previous) : null;
+    if (replaced) {
+      await this.link(userDid, record.editOf ? prompt.id : response.id, replaced.id, 'supersedes');
+    }
+
+    return { promptNodeId: prompt.id, responseNodeId: response.id };
+  }
+
+  /**
+   * 대화에서 학습한 CUE - 응답 메시지에서 파생
+   */
+  async recordLearnedCue(userDid: string, cue: any, responseMessageId?: string): Promise<RagDagNodeView> {
+    const cueNode = await this.ensureCueNode(userDid, cue);
+    const response = responseMessageId
+      ? await this.db.findRagDagNodeBySource(userDid, 'chat_message', responseMessageId)
+      : null;
+    if (response) {
+      await this.link(userDid, cueNode.id, response.id, 'derived_from');
+    }
+    return toNodeView(cueNode);
+  }
+
+  // ==========================================================================
+  // 🔍 조회 / 탐색
+  // ==========================================================================
+
+  /** 그래프 요약 + 노드 목록 (최근 순) */
+  async overview(userDid: string, options: { type?: RagDagNodeType; limit?: number } = {}) {
+    const graph = await this.load(userDid);
+    const all = Array.from(graph.nodes.values());
+    const nodeCounts: Record<string, number> = {};
+    const edgeCounts: Record<string, number> = {};
+    all.forEach(node => { nodeCounts[node.type] = (nodeCounts[node.type] || 0) + 1; });
+    graph.edges.forEach(edge => { edgeCounts[edge.type] = (edgeCounts[edge.type] || 0) + 1; });
+
+    const nodes = all
+      .filter(node => !options.type || node.type === options.type)
+      .reverse()
+      .slice(0, Math.min(options.limit || 100, 500))
+      .map(node => graph.view(node.id));
+
+    return {
+      stats: {
+        nodes: all.length,
+        edges: graph.edges.length,
+        nodesByType: nodeCounts,
+        edgesByType: edgeCounts
+      },
+      nodes
+    };
+  }
+
+  /** 노드 + 들어오는/나가는 간선 */
+  async getNode(userDid: string, nodeId: string) {
+    const graph = await this.load(userDid);
+    this.requireNode(graph, nodeId);
+    return {
+      node: graph.view(nodeId),
+      outgoing: (graph.outgoing.get(nodeId) || []).map(toEdgeView),
+      incoming: (graph.incoming.get(nodeId) || []).map(toEdgeView)
+    };
+  }
+
+  /**
+   * 조상 - 나가는 간선을 따라감 (기본: 파생/참조, 어떤 사실이 무엇에서 왔는지)
+   */
+  async ancestors(userDid: string, nodeId: string, options: TraversalOptions = {}): Promise<RagDagTraversal> {
+    return this.traverse(userDid, nodeId, 'ancestors', options);
+  }
+
+  /**
+   * 자손 - 들어오는 간선을 따라감 (이 노드에서 파생/참조된 모든 것)
+   */
+  async descendants(userDid: string, nodeId: string, options: TraversalOptions = {}): Promise<RagDagTraversal> {
+    return this.traverse(userDid, nodeId, 'descendants', options);
+  }
+
+  /**
+   * 플랫폼 가져오기에서 파생된 모든 노드 (platform 생략 시 전체 가져오기)
+   */
+  async derivedFromImports(userDid: string, platform?: string, options: TraversalOptions = {}) {
+    const graph = await this.load(userDid);
+    const { depth, edgeTypes } = this.traversalOptions(options);
+    const imports = Array.from(graph.nodes.values()).filter(node =>
+      node.source_type === 'platform_import' && (!platform || node.metadata?.platform === platform)
+    );
+
+    const derived = new Map<string, number>();
+    const edges = new Map<string, any>();
+    for (const node of imports) {
+      const walked = graph.walk(node.id, 'in', edgeTypes, depth);
+      walked.depths.forEach((hops, id) => {
+        if (!derived.has(id) || derived.get(id)! > hops) derived.set(id, hops);
+      });
+      walked.edges.forEach(edge => edges.set(edge.id, edge));
+    }
+
+    return {
+      platform: platform || null,
+      imports: imports.map(node => graph.view(node.id)),
+      nodes: Array.from(derived.entries())
+        .sort((a, b) => a[1] - b[1])
+        .map(([id, hops]) => ({ ...graph.view(id), depth: hops })),
+      edges: Array.from(edges.values()).map(toEdgeView)
+    };
+  }
+
+  /**
+   * 검색된 CUE들의 그래프 주변 - CUE 노드가 없으면 항목 없음
+   */
+  async cueNeighborhoods(userDid: string, cueIds: string[]): Promise<Map<string, CueNeighborhood>> {
+    const result = new Map<string, CueNeighborhood>();
+    if (cueIds.length === 0) return result;
+
+    const graph = await this.load(userDid);
+    const cueOf = (nodeId: string) => {
+      const node = graph.nodes.get(nodeId);
+      return node?.source_type === 'personal_cue' ? node.source_id as string : null;
+    };
+    const nodeOfCue = new Map<string, string>();
+    graph.nodes.forEach(node => {
+      if (node.source_type === 'personal_cue') nodeOfCue.set(node.source_id, node.id);
+    });
+
+    for (const cueId of cueIds) {
+      const nodeId = nodeOfCue.get(cueId);
+      if (!nodeId) continue;
+
+      // 계보 이웃 - 위(출처)와 아래(파생) 양방향
+      const hopsByCue = new Map<string, number>();
+      const imports = new Set<string>();
+      for (const direction of ['out', 'in'] as const) {
+        graph.walk(nodeId, direction, LINEAGE_EDGE_TYPES, RAG_DAG_LIMITS.neighborhoodDepth).depths.forEach((hops, id) => {
+          const neighborCue = cueOf(id);
+          if (neighborCue && neighborCue !== cueId) {
+            hopsByCue.set(neighborCue, Math.min(hops, hopsByCue.get(neighborCue) ?? hops));
+          }
+          const node = graph.nodes.get(id);
+          if (direction === 'out' && node?.source_type === 'platform_import' && node.metadata?.platform) {
+            imports.add(node.metadata.platform);
+          }
+        });
+      }
+
+      const incoming = graph.incoming.get(nodeId) || [];
+      const outgoing = graph.outgoing.get(nodeId) || [];
+      result.set(cueId, {
+        neighbors: Array.from(hopsByCue.entries()).map(([id, hops]) => ({ cueId: id, hops })),
+        supersededBy: incoming
+          .filter(edge => edge.type === 'supersedes')
+          .map(edge => cueOf(edge.from_node_id))
+          .filter((id): id is string => !!id),
+        contradicts: [
+          ...incoming.filter(edge => edge.type === 'contradicts').map(edge => cueOf(edge.from_node_id)),
+          ...outgoing.filter(edge => edge.type === 'contradicts').map(edge => cueOf(edge.to_node_id))
+        ].filter((id): id is string => !!id),
+        imports: Array.from(imports)
+      });
+    }
+
+    return result;
+  }
+
+  // ==========================================================================
+  // 🔧 내부
+  // ==========================================================================
+
+  private async load(userDid: string): Promise<Graph> {
+    const [nodes, edges] = await Promise.all([
+      this.db.getRagDagNodes(userDid, RAG_DAG_LIMITS.maxGraphNodes),
+      this.db.getRagDagEdges(userDid, RAG_DAG_LIMITS.maxGraphEdges)
+    ]);
+    return new Graph(nodes, edges);
+  }
+
+  private requireNode(graph: Graph, nodeId: string): void {
+    if (!graph.nodes.has(nodeId)) {
+      throw new RagDagError(RagDagErrorCode.NODE_NOT_FOUND, 'Graph node not found', 404);
+    }
+  }
+
+  private traversalOptions(options: TraversalOptions) {
+    const edgeTypes = options.edgeTypes && options.edgeTypes.length > 0 ? options.edgeTypes : LINEAGE_EDGE_TYPES;
+    const invalid = edgeTypes.filter(type => !RAG_DAG_EDGE_TYPES.includes(type));
+    if (invalid.length > 0) {
+      throw new RagDagError(RagDagErrorCode.INVALID_EDGE, `Unknown edge type: ${invalid.join(', ')}`);
+    }
+    const depth = Math.max(1, Math.min(options.depth || RAG_DAG_LIMITS.defaultTraversalDepth, RAG_DAG_LIMITS.maxTraversalDepth));
+    return { depth, edgeTypes };
+  }
+
+  private async traverse(
+    userDid: string,
+    nodeId: string,
+    direction: 'ancestors' | 'descendants',
+    options: TraversalOptions
+  ): Promise<RagDagTraversal> {
+    const { depth, edgeTypes } = this.traversalOptions(options);
+    const graph = await this.load(userDid);
+    this.requireNode(graph, nodeId);
+
+    const walked = graph.walk(nodeId, direction === 'ancestors' ? 'out' : 'in', edgeTypes, depth);
+    return {
+      root: graph.view(nodeId),
+      direction,
+      edgeTypes,
+      nodes: Array.from(walked.depths.entries())
+        .sort((a, b) => a[1] - b[1])
+        .map(([id, hops]) => ({ ...graph.view(id), depth: hops })),
+      edges: walked.edges.map(toEdgeView)
+    };
+  }
+
+  /** 원본(메시지/CUE/가져오기)당 노드 하나 */
+  private async ensureNode(
+    userDid: string,
+    sourceType: RagDagSourceType,
+    sourceId: string,
+    fields: { type: RagDagNodeType; content: string; metadata: any }
+  ) {
+    const existing = await this.db.findRagDagNodeBySource(userDid, sourceType, sourceId);
+    if (existing) return existing;
+
+    return this.db.createRagDagNode({
+      id: uuidv4(),
+      user_did: userDid,
+      source_type: sourceType,
+      source_id: sourceId,
+      ...fields
+    });
+  }
+
+  private ensureCueNode(userDid: string, cue: any) {
+    return this.ensureNode(userDid, 'personal_cue', cue.id, {
+      type: 'context',
+      content: preview(cue.compressed_content || cue.original_content),
+      metadata: {
+        contentType: cue.content_type || null,
+        platform: cue.source_platform || null
+      }
+    });
+  }
+
+  /**
+   * 자동 기록용 간선 - 중복/순환은 경고만 남기고 건너뜀
+   */
+  private async link(userDid: string, from: string, to: string, type: RagDagEdgeType): Promise<void> {
+    try {
+      await this.addEdge(userDid, from, to, type);
+    } catch (error) {
+      if (error instanceof RagDagError && error.code === RagDagErrorCode.DUPLICATE_EDGE) return;
+      if (error instanceof RagDagError) {
+        console.warn(`⚠️ RAG-DAG 간선 건너뜀 (${error.code}): ${from} -${type}-> ${to}`);
+        return;
+      }
+      throw error;
+    }
+  }
+}
+
+let sharedRagDagService: RagDagService | null = null;
+
+export function getRagDagService(): RagDagService {
+  if (!sharedRagDagService) {
+    sharedRagDagService = new RagDagService(DatabaseService.getInstance());
+  }
+  return sharedRagDagService;
+}
@@ -0,0 +1,426 @@
+// ============================================================================
+// 📜 검증 가능한 자격증명 서비스 (W3C VC Data Model / JWT-VC)
+// 경로: backend/src/services/vc/CredentialService.ts
+// 용도: AI Passport 속성(레벨, 신뢰 점수, 인증 여부)을 서버 발급자 DID로 서명한 VC 발급,
+//       StatusList2021 기반 폐기, 제시된 VC 검증
+// 발급자: did:key (Ed25519) - DID 자체에 공개키가 담겨 있어 제3자가 오프라인으로 검증 가능
+// ============================================================================
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { getDIDResolver } from '../did/DIDResolver';
+import { encodeMultikey, MULTICODEC_ED25519_PUB } from '../did/multibase';
+import { base64urlJson, decodeJwt, DecodedJwt, verificationMethodToKey, verifyJwsSignature } from './jws';
+
+export const VC_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const STATUS_LIST_2021_CONTEXT = 'https://w3id.org/vc/status-list/2021/v1';
+export const AI_PASSPORT_CREDENTIAL_TYPE = 'AIPassportCredential';
+
+// 16KB 비트열 (명세 권장 최소 크기) - 인덱스를 무작위로 배정해 발급 순서로 사용자를 추적할 수 없게 함
+export const STATUS_LIST_SIZE = 131072;
+export const DEFAULT_STATUS_LIST_ID = '1';
+
+// ai_passports 컬럼 → credentialSubject 속성
+export const PASSPORT_CLAIMS: Record<string, string> = {
+  passportLevel: 'passport_level',
+  trustScore: 'trust_score',
+  biometricVerified: 'biometric_verified',
+  emailVerified: 'email_verified',
+  kycVerified: 'kyc_verified'
+};
+
+const DEVELOPMENT_ISSUER_SEED = crypto.createHash('sha256').update('final0626-development-vc-issuer').digest('hex');
+
+// Ed25519 개인키 시드(32바이트)를 PKCS#8 DER로 감싸기 위한 고정 접두사
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+export enum CredentialErrorCode {
+  INVALID_CLAIMS = 'INVALID_CLAIMS',
+  PASSPORT_NOT_FOUND = 'PASSPORT_NOT_FOUND',
+  CREDENTIAL_NOT_FOUND = 'CREDENTIAL_NOT_FOUND',
+  ALREADY_REVOKED = 'ALREADY_REVOKED',
+  STATUS_LIST_FULL = 'STATUS_LIST_FULL'
+}
+
+export class CredentialError extends Error {
+  constructor(public code: CredentialErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'CredentialError';
+  }
+}
+
+export interface CredentialSummary {
+  id: string;
+  types: string[];
+  claims: Record<string, any>;
+  issuedAt: string;
+  expiresAt: string | null;
+  status: 'active' | 'revoked' | 'expired';
+  revokedAt: string | null;
+  credential: string;
+}
+
+export interface CredentialVerificationResult {
+  valid: boolean;
+  checks: {
+    signature: boolean;
+    validityPeriod: boolean;
+    status: 'active' | 'revoked' | 'unchecked';
+  };
+  issuer?: string;
+  subject?: string;
+  credential?: any;
+  errors: string[];
+}
+
+function isExpired(record: any, now = new Date().toISOString()): boolean {
+  return !!record.expires_at && record.expires_at <= now;
+}
+
+export class CredentialService {
+  readonly issuerDid: string;
+  readonly issuerKeyId: string;
+  private privateKey: crypto.KeyObject;
+
+  constructor(private db: any, issuerSeedHex: string, private baseUrl: string) {
+    const seed = Buffer.from(issuerSeedHex.replace(/^0x/, ''), 'hex');
+    if (seed.length !== 32) {
+      throw new Error('VC_ISSUER_SEED must be 32 bytes of hex');
+    }
+
+    this.privateKey = crypto.createPrivateKey({
+      key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+
+    const jwk = crypto.createPublicKey(this.privateKey).export({ format: 'jwk' });
+    const multikey = encodeMultikey(MULTICODEC_ED25519_PUB, Buffer.from(jwk.x as string, 'base64url'));
+    this.issuerDid = `did:key:${multikey}`;
+    this.issuerKeyId = `${this.issuerDid}#${multikey}`;
+    this.baseUrl = baseUrl.replace(/\/$/, '');
+  }
+
+  statusListUrl(statusListId: string = DEFAULT_STATUS_LIST_ID): string {
+    return `${this.baseUrl}/api/vc/status/${statusListId}`;
+  }
+
+  /**
+   * 발급자 키로 JWS 서명 (typ: JWT-VC는 'JWT', SD-JWT는 'vc+sd-jwt')
+   */
+  signJwt(payload: any, typ = 'JWT'): string {
+    const signingInput = `${base64urlJson({ alg: 'EdDSA', typ, kid: this.issuerKeyId })}.${base64urlJson(payload)}`;
+    const signature = crypto.sign(null, Buffer.from(signingInput), this.privateKey);
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  // ============================================================================
+  // 🏷️ 발급
+  // ============================================================================
+
+  /**
+   * AI Passport 속성 VC 발급 (claimNames 미지정 시 전체 속성)
+   */
+  async issuePassportCredential(
+    user: { id: string; did: string; profile?: any },
+    claimNames: string[] = Object.keys(PASSPORT_CLAIMS),
+    expiresInDays?: number
+  ): Promise<CredentialSummary> {
+    const unknown = claimNames.filter(name => !PASSPORT_CLAIMS[name]);
+    if (claimNames.length === 0 || unknown.length > 0) {
+      throw new CredentialError(
+        CredentialErrorCode.INVALID_CLAIMS,
+        `Unknown claims: ${unknown.join(', ') || '(none requested)'}; supported: ${Object.keys(PASSPORT_CLAIMS).join(', ')}`
+      );
+    }
+
+    // ai_passports 행이 없으면 users 행의 패스포트 속성 사용 (패스키 가입 직후)
+    const source = await this.db.getPassport(user.did) || user.profile;
+    if (!source) {
+      throw new CredentialError(CredentialErrorCode.PASSPORT_NOT_FOUND, 'No AI Passport found for this DID', 404);
+    }
+
+    const claims: Record<string, any> = {};
+    for (const name of claimNames) {
+      const value = source[PASSPORT_CLAIMS[name]];
+      claims[name] = value ?? null;
+    }
+
+    const id = crypto.randomUUID();
+    const statusIndex = await this.allocateStatusIndex(DEFAULT_STATUS_LIST_ID);
+    const issuedAt = new Date();
+    const expiresAt = expiresInDays ? new Date(issuedAt.getTime() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+    const statusListCredential = this.statusListUrl(DEFAULT_STATUS_LIST_ID);
+    const types = ['VerifiableCredential', AI_PASSPORT_CREDENTIAL_TYPE];
+
+    const jwt = this.signJwt({
+      iss: this.issuerDid,
+      sub: user.did,
+      jti: `urn:uuid:${id}`,
+      nbf: Math.floor(issuedAt.getTime() / 1000),
+      iat: Math.floor(issuedAt.getTime() / 1000),
+      ...(expiresAt ? { exp: Math.floor(expiresAt.getTime() / 1000) } : {}),
+      vc: {
+        '@context': [VC_CONTEXT, STATUS_LIST_2021_CONTEXT],
+        type: types,
+        issuanceDate: issuedAt.toISOString(),
+        ...(expiresAt ? { expirationDate: expiresAt.toISOString() } : {}),
+        credentialSubject: { id: user.did, ...claims },
+        credentialStatus: {
+          id: `${statusListCredential}#${statusIndex}`,
+          type: 'StatusList2021Entry',
+          statusPurpose: 'revocation',
+          statusListIndex: String(statusIndex),
+          statusListCredential
+        }
+      }
+    });
+
+    const record = await this.db.createVerifiableCredential({
+      id,
+      user_id: user.id,
+      holder_did: user.did,
+      types,
+      claims,
+      jwt,
+      status_list_id: DEFAULT_STATUS_LIST_ID,
+      status_index: statusIndex,
+      issued_at: issuedAt.toISOString(),
+      expires_at: expiresAt ? expiresAt.toISOString() : null
+    });
+
+    if (!record) {
+      throw new Error('Failed to store verifiable credential');
+    }
+
+    console.log(`📜 VC 발급: ${id} → ${user.did} (${claimNames.join(', ')})`);
+    return this.toSummary(record);
+  }
+
+  private async allocateStatusIndex(statusListId: string): Promise<number> {
+    for (let attempt = 0; attempt < 16; attempt++) {
+      const index = crypto.randomInt(STATUS_LIST_SIZE);
+      if (!await this.db.getVerifiableCredentialByStatusIndex(statusListId, index)) {
+        return index;
+      }
+    }
+    throw new CredentialError(CredentialErrorCode.STATUS_LIST_FULL, 'Could not allocate a status list index', 503);
+  }
+
+  // ============================================================================
+  // 📋 조회 / 폐기
+  // ============================================================================
+
+  async listCredentials(holderDid: string): Promise<CredentialSummary[]> {
+    const records = await this.db.getVerifiableCredentials(holderDid);
+    return records.map((record: any) => this.toSummary(record));
+  }
+
+  async revokeCredential(holderDid: string, credentialId: string, reason = 'holder_request'): Promise<CredentialSummary> {
+    const record = await this.db.getVerifiableCredentialById(credentialId);
+    if (!record || record.holder_did !== holderDid) {
+      throw new CredentialError(CredentialErrorCode.CREDENTIAL_NOT_FOUND, 'Credential not found', 404);
+    }
+    if (record.revoked_at) {
+      throw new CredentialError(CredentialErrorCode.ALREADY_REVOKED, 'Credential is already revoked', 409);
+    }
+
+    const revoked = await this.db.revokeVerifiableCredential(credentialId, reason);
+    if (!revoked) {
+      throw new CredentialError(CredentialErrorCode.ALREADY_REVOKED, 'Credential is already revoked', 409);
+    }
+
+    console.log(`🚫 VC 폐기: ${credentialId} (사유: ${reason})`);
+    return this.toSummary(revoked);
+  }
+
+  private toSummary(record: any): CredentialSummary {
+    return {
+      id: record.id,
+      types: record.types,
+      claims: record.claims,
+      issuedAt: record.issued_at,
+      expiresAt: record.expires_at || null,
+      status: record.revoked_at ? 'revoked' : isExpired(record) ? 'expired' : 'active',
+      revokedAt: record.revoked_at || null,
+      credential: record.jwt
+    };
+  }
+
+  // ============================================================================
+  // 🧾 상태 목록 (StatusList2021)
+  // ============================================================================
+
+  /**
+   * 폐기 비트열 (GZIP 압축 전) - 인덱스 0은 첫 바이트의 최상위 비트
+   */
+  private async buildStatusBitstring(statusListId: string): Promise<Buffer> {
+    const bits = Buffer.alloc(STATUS_LIST_SIZE / 8);
+    for (const index of await this.db.getRevokedStatusIndices(statusListId)) {
+      bits[index >> 3] |= 0x80 >> (index & 7);
+    }
+    return bits;
+  }
+
+  /**
+   * 서명된 StatusList2021Credential (JWT)
+   */
+  async getStatusListCredential(statusListId: string = DEFAULT_STATUS_LIST_ID): Promise<string> {
+    const url = this.statusListUrl(statusListId);
+    const encodedList = zlib.gzipSync(await this.buildStatusBitstring(statusListId)).toString('base64url');
+    const now = new Date();
+
+    return this.signJwt({
+      iss: this.issuerDid,
+      sub: `${url}#list`,
+      jti: url,
+      nbf: Math.floor(now.getTime() / 1000),
+      iat: Math.floor(now.getTime() / 1000),
+      vc: {
+        '@context': [VC_CONTEXT, STATUS_LIST_2021_CONTEXT],
+        id: url,
+        type: ['VerifiableCredential', 'StatusList2021Credential'],
+        issuer: this.issuerDid,
+        issuanceDate: now.toISOString(),
+        credentialSubject: {
+          id: `${url}#list`,
+          type: 'StatusList2021',
+          statusPurpose: 'revocation',
+          encodedList
+        }
+      }
+    });
+  }
+
+  // ============================================================================
+  // ✅ 검증
+  // ============================================================================
+
+  /**
+   * 제시된 JWT-VC 검증: 발급자 DID 해석 → 서명 → 유효 기간 → 폐기 상태
+   */
+  async verifyCredential(jwt: string): Promise<CredentialVerificationResult> {
+    const errors: string[] = [];
+    const checks: CredentialVerificationResult['checks'] = { signature: false, validityPeriod: false, status: 'unchecked' };
+
+    let decoded: DecodedJwt;
+    try {
+      decoded = decodeJwt(jwt);
+    } catch (error) {
+      return { valid: false, checks, errors: [(error as Error).message] };
+    }
+
+    const { header, payload, signingInput, signature } = decoded;
+    const vc = payload.vc;
+    if (!vc || !Array.isArray(vc.type) || !vc.type.includes('VerifiableCredential')) {
+      return { valid: false, checks, errors: ['Payload is not a JWT-VC (missing vc.type VerifiableCredential)'] };
+    }
+
+    // 1. 서명 - kid의 DID가 iss와 같고, assertionMethod에 등록된 키여야 함
+    try {
+      checks.signature = await this.verifyIssuerSignature(header, payload.iss, signingInput, signature);
+      if (!checks.signature) errors.push('Signature does not match the issuer key');
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    // 2. 유효 기간
+    const nowSec = Math.floor(Date.now() / 1000);
+    checks.validityPeriod = (payload.nbf === undefined || payload.nbf <= nowSec + 60) &&
+                            (payload.exp === undefined || payload.exp > nowSec);
+    if (!checks.validityPeriod) errors.push('Credential is not yet valid or has expired');
+
+    // 3. 폐기 상태 - 이 서버가 발급한 상태 목록만 확인 가능
+    const status = vc.credentialStatus;
+    if (status?.type === 'StatusList2021Entry' && payload.iss === this.issuerDid) {
+      const listPrefix = this.statusListUrl('');
+      const statusListId = typeof status.statusListCredential === 'string' && status.statusListCredential.startsWith(listPrefix)
+        ? status.statusListCredential.substring(listPrefix.length)
+        : null;
+      const index = Number(status.statusListIndex);
+
+      if (statusListId && Number.isInteger(index) && index >= 0 && index < STATUS_LIST_SIZE) {
+        const bits = await this.buildStatusBitstring(statusListId);
+        checks.status = bits[index >> 3] & (0x80 >> (index & 7)) ? 'revoked' : 'active';
+        if (checks.status === 'revoked') errors.push('Credential has been revoked');
+      } else {
+        errors.push('Malformed credentialStatus');
+      }
+    }
+
+    return {
+      valid: checks.signature && checks.validityPeriod && checks.status !== 'revoked' && errors.length === 0,
+      checks,
+      issuer: payload.iss,
+      subject: payload.sub,
+      credential: vc,
+      errors
+    };
+  }
+
+  /**
+   * 이 서버 발급자가 서명한 JWS인지 검증 후 디코딩 결과 반환 (SD-JWT 발급자 부분 검증용)
+   */
+  async verifyIssuerJwt(jwt: string): Promise<DecodedJwt> {
+    const decoded = decodeJwt(jwt);
+    if (decoded.payload.iss !== this.issuerDid) {
+      throw new Error('JWS was not issued by this server');
+    }
+    if (!await this.verifyIssuerSignature(decoded.header, decoded.payload.iss, decoded.signingInput, decoded.signature)) {
+      throw new Error('Signature does not match the issuer key');
+    }
+    return decoded;
+  }
+
+  private async verifyIssuerSignature(header: any, issuer: string, signingInput: string, signature: Buffer): Promise<boolean> {
+    const kid: string | undefined = header.kid;
+    if (typeof issuer !== 'string' || !kid || kid.split('#')[0] !== issuer) {
+      throw new Error('JWS kid must reference a key of the issuer DID');
+    }
+
+    const resolution = await getDIDResolver().resolve(issuer);
+    const didDocument = resolution.didDocument;
+    if (!didDocument) {
+      throw new Error(`Issuer DID could not be resolved: ${resolution.didResolutionMetadata.error}`);
+    }
+
+    const method = didDocument.verificationMethod?.find(candidate => candidate.id === kid);
+    if (!method || !didDocument.assertionMethod?.includes(kid)) {
+      throw new Error('Issuer key is not authorized for assertionMethod');
+    }
+
+    return verifyJwsSignature(header.alg, signingInput, signature, verificationMethodToKey(method));
+  }
+}
+
+// 라우트가 같은 발급자 키를 공유하도록 단일 인스턴스 제공
+let sharedService: CredentialService | null = null;
+
+export function getCredentialService(): CredentialService {
+  if (!sharedService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    let seed = process.env.VC_ISSUER_SEED;
+    if (!seed) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('VC_ISSUER_SEED is required in production');
+      }
+      console.warn('⚠️ VC_ISSUER_SEED 미설정 - 개발용 고정 발급자 키 사용 (운영 환경 사용 금지)');
+      seed = DEVELOPMENT_ISSUER_SEED;
+    }
+
+    sharedService = new CredentialService(
+      db,
+      seed,
+      process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3001}`
+    );
+    console.log(`📜 VC 발급자 초기화: ${sharedService.issuerDid}`);
+  }
+  return sharedService;
+}
@@ -0,0 +1,467 @@
+// ============================================================================
+// 🤝 선택적 공개 제시 서비스 (SD-JWT + Key Binding JWT)
+// 경로: backend/src/services/vc/PresentationService.ts
+// 용도: 파트너 앱(검증자)의 제시 요청 → 사용자 승인 → 선택한 속성만 공개하는 SD-JWT 제시,
+//       제시 검증 (발급자 서명, 공개 항목 다이제스트, 홀더 바인딩, aud/nonce)
+// 형식: <발급자 SD-JWT>~<공개 항목>~...~<KB-JWT>  (IETF SD-JWT)
+// 홀더 키: 사용자 지갑 secp256k1 키 (cnf.jwk, ES256K)
+// ============================================================================
+
+import crypto from 'crypto';
+import { DatabaseService } from '../database/DatabaseService';
+import { supabaseService } from '../database/SupabaseService';
+import { CredentialService, getCredentialService, AI_PASSPORT_CREDENTIAL_TYPE } from './CredentialService';
+import { WalletService, getWalletService } from '../wallet/WalletService';
+import { decodeJwt, verifyJwsSignature } from './jws';
+
+export const SD_JWT_TYP = 'vc+sd-jwt';
+export const KB_JWT_TYP = 'kb+jwt';
+
+const PERSONALITY_FIELDS = [
+  'type',
+  'communicationStyle',
+  'learningPattern',
+  'workingStyle',
+  'responsePreference',
+  'decisionMaking'
+];
+
+// 공개 가능한 속성 (점 표기: personalityProfile.<필드>)
+export const DISCLOSABLE_CLAIMS = [
+  'passportLevel',
+  'trustScore',
+  ...PERSONALITY_FIELDS.map(field => `personalityProfile.${field}`)
+];
+
+const REQUEST_TTL_MS = 10 * 60 * 1000;
+const SD_JWT_TTL_SEC = 10 * 60;
+const KB_JWT_MAX_AGE_SEC = 5 * 60;
+const MAX_PENDING_PER_SUBJECT = 20;
+
+export enum PresentationErrorCode {
+  INVALID_REQUEST = 'INVALID_REQUEST',
+  SUBJECT_NOT_FOUND = 'SUBJECT_NOT_FOUND',
+  REQUEST_NOT_FOUND = 'REQUEST_NOT_FOUND',
+  REQUEST_NOT_PENDING = 'REQUEST_NOT_PENDING',
+  REQUEST_EXPIRED = 'REQUEST_EXPIRED',
+  TOO_MANY_REQUESTS = 'TOO_MANY_REQUESTS'
+}
+
+export class PresentationError extends Error {
+  constructor(public code: PresentationErrorCode, message: string, public statusCode = 400) {
+    super(message);
+    this.name = 'PresentationError';
+  }
+}
+
+export interface PresentationRequestInput {
+  subjectDid: string;
+  audience: string;
+  claims: string[];
+  nonce?: string;
+  purpose?: string;
+}
+
+export interface PresentationRequestView {
+  id: string;
+  subjectDid: string;
+  audience: string;
+  nonce: string;
+  purpose: string | null;
+  requestedClaims: string[];
+  disclosedClaims: string[] | null;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+  respondedAt: string | null;
+}
+
+export interface PresentationVerificationResult {
+  valid: boolean;
+  checks: {
+    issuerSignature: boolean;
+    disclosures: boolean;
+    keyBinding: boolean;
+    audience: boolean;
+    nonce: boolean;
+    freshness: boolean;
+  };
+  issuer?: string;
+  subject?: string;
+  claims?: Record<string, any>;
+  errors: string[];
+}
+
+function digestOf(disclosure: string): string {
+  return crypto.createHash('sha256').update(disclosure, 'ascii').digest('base64url');
+}
+
+function createDisclosure(name: string, value: any): { disclosure: string; digest: string } {
+  const salt = crypto.randomBytes(16).toString('base64url');
+  const disclosure = Buffer.from(JSON.stringify([salt, name, value])).toString('base64url');
+  return { disclosure, digest: digestOf(disclosure) };
+}
+
+/**
+ * _sd 배열을 공개 항목으로 치환 (재귀) - 사용된 다이제스트를 usedDigests에 기록
+ */
+function applyDisclosures(value: any, disclosures: Map<string, [string, any]>, usedDigests: Set<string>): any {
+  if (Array.isArray(value)) {
+    return value.map(item => applyDisclosures(item, disclosures, usedDigests));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === '_sd' || key === '_sd_alg') continue;
+    result[key] = applyDisclosures(child, disclosures, usedDigests);
+  }
+
+  for (const digest of Array.isArray(value._sd) ? value._sd : []) {
+    const disclosed = disclosures.get(digest);
+    if (!disclosed) continue;
+    const [name, claimValue] = disclosed;
+    if (name in result) {
+      throw new Error(`Disclosure overwrites an existing claim: ${name}`);
+    }
+    usedDigests.add(digest);
+    result[name] = applyDisclosures(claimValue, disclosures, usedDigests);
+  }
+
+  return result;
+}
+
+function toView(record: any): PresentationRequestView {
+  const expired = record.status === 'pending' && record.expires_at <= new Date().toISOString();
+  return {
+    id: record.id,
+    subjectDid: record.subject_did,
+    audience: record.audience,
+    nonce: record.nonce,
+    purpose: record.purpose || null,
+    requestedClaims: record.requested_claims,
+    disclosedClaims: record.disclosed_claims || null,
+    status: expired ? 'expired' : record.status,
+    createdAt: record.created_at,
+    expiresAt: record.expires_at,
+    respondedAt: record.responded_at || null
+  };
+}
+
+export class PresentationService {
+  constructor(
+    private db: any,
+    private credentials: CredentialService,
+    private wallets: WalletService
+  ) {}
+
+  // ============================================================================
+  // 📨 제시 요청 (검증자 → 사용자)
+  // ============================================================================
+
+  async createRequest(input: PresentationRequestInput): Promise<PresentationRequestView> {
+    const { subjectDid, audience, claims, purpose } = input;
+
+    if (typeof audience !== 'string' || audience.length === 0 || audience.length > 200) {
+      throw new PresentationError(PresentationErrorCode.INVALID_REQUEST, 'audience must be 1-200 characters');
+    }
+    if (!Array.isArray(claims) || claims.length === 0 || !claims.every(claim => DISCLOSABLE_CLAIMS.includes(claim))) {
+      throw new PresentationError(
+        PresentationErrorCode.INVALID_REQUEST,
+        `claims must be a non-empty subset of: ${DISCLOSABLE_CLAIMS.join(', ')}`
+      );
+    }
+    if (input.nonce !== undefined && (typeof input.nonce !== 'string' || !/^[A-Za-z0-9_-]{8,128}$/.test(input.nonce))) {
+      throw new PresentationError(PresentationErrorCode.INVALID_REQUEST, 'nonce must be 8-128 URL-safe characters');
+    }
+
+    if (!await this.db.getUserByDID(subjectDid)) {
+      throw new PresentationError(PresentationErrorCode.SUBJECT_NOT_FOUND, 'No AI Passport is registered for this DID', 404);
+    }
+
+    const pending = await this.db.getPendingPresentationRequests(subjectDid);
+    if (pending.length >= MAX_PENDING_PER_SUBJECT) {
+      throw new PresentationError(PresentationErrorCode.TOO_MANY_REQUESTS, 'Too many pending requests for this DID', 429);
+    }
+
+    const now = new Date();
+    const record = await this.db.createPresentationRequest({
+      id: crypto.randomUUID(),
+      subject_did: subjectDid,
+      audience,
+      nonce: input.nonce || crypto.randomBytes(16).toString('base64url'),
+      purpose: typeof purpose === 'string' ? purpose.substring(0, 200) : null,
+      requested_claims: Array.from(new Set(claims)),
+      disclosed_claims: null,
+      status: 'pending',
+      presentation: null,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + REQUEST_TTL_MS).toISOString(),
+      responded_at: null
+    });
+
+    if (!record) {
+      throw new Error('Failed to store presentation request');
+    }
+
+    console.log(`📨 제시 요청 생성: ${record.id} (${audience} → ${subjectDid})`);
+    return toView(record);
+  }
+
+  async listPendingRequests(subjectDid: string): Promise<PresentationRequestView[]> {
+    const records = await this.db.getPendingPresentationRequests(subjectDid);
+    return records.map(toView);
+  }
+
+  /**
+   * 검증자 폴링용 - 승인되면 제시(SD-JWT) 포함
+   */
+  async getRequestResult(id: string): Promise<PresentationRequestView & { presentation: string | null }> {
+    const record = await this.db.getPresentationRequest(id);
+    if (!record) {
+      throw new PresentationError(PresentationErrorCode.REQUEST_NOT_FOUND, 'Presentation request not found', 404);
+    }
+    return { ...toView(record), presentation: record.status === 'approved' ? record.presentation : null };
+  }
+
+  // ============================================================================
+  // ✅ 사용자 승인 / 거절
+  // ============================================================================
+
+  private async getOwnPendingRequest(subjectDid: string, id: string): Promise<any> {
+    const record = await this.db.getPresentationRequest(id);
+    if (!record || record.subject_did !== subjectDid) {
+      throw new PresentationError(PresentationErrorCode.REQUEST_NOT_FOUND, 'Presentation request not found', 404);
+    }
+    if (record.status !== 'pending') {
+      throw new PresentationError(PresentationErrorCode.REQUEST_NOT_PENDING, `Request is already ${record.status}`, 409);
+    }
+    if (record.expires_at <= new Date().toISOString()) {
+      throw new PresentationError(PresentationErrorCode.REQUEST_EXPIRED, 'Request has expired', 410);
+    }
+    return record;
+  }
+
+  /**
+   * 승인 - 요청된 속성 중 사용자가 고른 것만 공개하는 SD-JWT 제시 생성
+   */
+  async approveRequest(
+    user: { id: string; did: string; profile?: any },
+    id: string,
+    selectedClaims: string[]
+  ): Promise<{ request: PresentationRequestView; presentation: string }> {
+    const record = await this.getOwnPendingRequest(user.did, id);
+
+    if (!Array.isArray(selectedClaims) || selectedClaims.length === 0 ||
+        !selectedClaims.every(claim => record.requested_claims.includes(claim))) {
+      throw new PresentationError(PresentationErrorCode.INVALID_REQUEST, 'Selected claims must be a non-empty subset of the requested claims');
+    }
+
+    const presentation = await this.buildPresentation(user, Array.from(new Set(selectedClaims)), record.audience, record.nonce);
+
+    const updated = await this.db.updatePresentationRequest(id, 'pending', {
+      status: 'approved',
+      disclosed_claims: Array.from(new Set(selectedClaims)),
+      presentation,
+      responded_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new PresentationError(PresentationErrorCode.REQUEST_NOT_PENDING, 'Request was already answered', 409);
+    }
+
+    console.log(`✅ 제시 승인: ${id} (${selectedClaims.join(', ')})`);
+    return { request: toView(updated), presentation };
+  }
+
+  async rejectRequest(subjectDid: string, id: string): Promise<PresentationRequestView> {
+    await this.getOwnPendingRequest(subjectDid, id);
+
+    const updated = await this.db.updatePresentationRequest(id, 'pending', {
+      status: 'rejected',
+      responded_at: new Date().toISOString()
+    });
+    if (!updated) {
+      throw new PresentationError(PresentationErrorCode.REQUEST_NOT_PENDING, 'Request was already answered', 409);
+    }
+
+    console.log(`🚫 제시 거절: ${id}`);
+    return toView(updated);
+  }
+
+  // ============================================================================
+  // 🧩 SD-JWT 생성
+  // ============================================================================
+
+  private async buildPresentation(
+    user: { id: string; did: string; profile?: any },
+    selectedClaims: string[],
+    audience: string,
+    nonce: string
+  ): Promise<string> {
+    const source = await this.db.getPassport(user.did) || user.profile || {};
+    const profile = source.personality_profile || {};
+
+    // 모든 속성을 다이제스트로만 서명하고, 선택된 속성의 공개 항목만 제시에 포함
+    const topLevel: Record<string, any> = {
+      passportLevel: source.passport_level ?? null,
+      trustScore: source.trust_score ?? null
+    };
+    const disclosures = new Map<string, string>();
+
+    const topDigests: string[] = [];
+    for (const [name, value] of Object.entries(topLevel)) {
+      const { disclosure, digest } = createDisclosure(name, value);
+      topDigests.push(digest);
+      disclosures.set(name, disclosure);
+    }
+
+    const profileDigests: string[] = [];
+    for (const field of PERSONALITY_FIELDS) {
+      const { disclosure, digest } = createDisclosure(field, profile[field] ?? null);
+      profileDigests.push(digest);
+      disclosures.set(`personalityProfile.${field}`, disclosure);
+    }
+
+    const iat = Math.floor(Date.now() / 1000);
+    const issuerJwt = this.credentials.signJwt({
+      iss: this.credentials.issuerDid,
+      sub: user.did,
+      iat,
+      exp: iat + SD_JWT_TTL_SEC,
+      vct: AI_PASSPORT_CREDENTIAL_TYPE,
+      cnf: { jwk: this.wallets.getPublicJwk(user.id) },
+      _sd_alg: 'sha-256',
+      // 다이제스트는 정렬해서 속성 순서가 드러나지 않게 함
+      _sd: topDigests.sort(),
+      personalityProfile: { _sd: profileDigests.sort() }
+    }, SD_JWT_TYP);
+
+    const sdJwt = `${issuerJwt}~${selectedClaims.map(claim => `${disclosures.get(claim)}~`).join('')}`;
+
+    const kbJwt = this.wallets.signJws(user.id, {
+      iat,
+      aud: audience,
+      nonce,
+      sd_hash: digestOf(sdJwt)
+    }, KB_JWT_TYP);
+
+    return `${sdJwt}${kbJwt}`;
+  }
+
+  // ============================================================================
+  // 🔍 제시 검증 (검증자용, 공개)
+  // ============================================================================
+
+  async verifyPresentation(presentation: string, expected: { audience: string; nonce: string }): Promise<PresentationVerificationResult> {
+    const errors: string[] = [];
+    const checks: PresentationVerificationResult['checks'] = {
+      issuerSignature: false,
+      disclosures: false,
+      keyBinding: false,
+      audience: false,
+      nonce: false,
+      freshness: false
+    };
+
+    const parts = typeof presentation === 'string' ? presentation.split('~') : [];
+    if (parts.length < 2 || !parts[parts.length - 1]) {
+      return { valid: false, checks, errors: ['Presentation must be <SD-JWT>~<disclosures>~<KB-JWT>'] };
+    }
+
+    const issuerJwt = parts[0];
+    const disclosureStrings = parts.slice(1, -1);
+    const kbJwt = parts[parts.length - 1];
+
+    // 1. 발급자 서명
+    let payload: any;
+    try {
+      const decoded = await this.credentials.verifyIssuerJwt(issuerJwt);
+      if (decoded.header.typ !== SD_JWT_TYP) throw new Error(`Issuer JWT typ must be ${SD_JWT_TYP}`);
+      if (decoded.payload._sd_alg !== 'sha-256') throw new Error('Unsupported _sd_alg');
+      payload = decoded.payload;
+      checks.issuerSignature = true;
+    } catch (error) {
+      return { valid: false, checks, errors: [(error as Error).message] };
+    }
+
+    // 2. 공개 항목 - 모두 서명된 다이제스트에 포함되어야 함
+    let claims: Record<string, any> = {};
+    try {
+      const disclosures = new Map<string, [string, any]>();
+      for (const disclosure of disclosureStrings) {
+        const decoded = JSON.parse(Buffer.from(disclosure, 'base64url').toString('utf8'));
+        if (!Array.isArray(decoded) || decoded.length !== 3 || typeof decoded[1] !== 'string') {
+          throw new Error('Malformed disclosure');
+        }
+        const digest = digestOf(disclosure);
+        if (disclosures.has(digest)) throw new Error('Duplicate disclosure');
+        disclosures.set(digest, [decoded[1], decoded[2]]);
+      }
+
+      const usedDigests = new Set<string>();
+      claims = applyDisclosures(payload, disclosures, usedDigests);
+      delete claims.cnf;
+
+      checks.disclosures = usedDigests.size === disclosures.size;
+      if (!checks.disclosures) errors.push('Some disclosures are not covered by the issuer signature');
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    // 3. 홀더 바인딩 (KB-JWT)
+    try {
+      const kb = decodeJwt(kbJwt);
+      if (kb.header.typ !== KB_JWT_TYP) throw new Error(`KB-JWT typ must be ${KB_JWT_TYP}`);
+      if (!payload.cnf?.jwk) throw new Error('Issuer JWT has no cnf.jwk holder key');
+
+      const holderKey = crypto.createPublicKey({ key: payload.cnf.jwk, format: 'jwk' });
+      const sdHash = digestOf(`${issuerJwt}~${disclosureStrings.map(d => `${d}~`).join('')}`);
+      checks.keyBinding = verifyJwsSignature(kb.header.alg, kb.signingInput, kb.signature, holderKey) &&
+                          kb.payload.sd_hash === sdHash;
+      if (!checks.keyBinding) errors.push('Key binding signature or sd_hash mismatch');
+
+      checks.audience = kb.payload.aud === expected.audience;
+      if (!checks.audience) errors.push('Audience mismatch');
+
+      checks.nonce = kb.payload.nonce === expected.nonce;
+      if (!checks.nonce) errors.push('Nonce mismatch');
+
+      const nowSec = Math.floor(Date.now() / 1000);
+      checks.freshness = typeof kb.payload.iat === 'number' &&
+                         kb.payload.iat <= nowSec + 60 &&
+                         nowSec - kb.payload.iat <= KB_JWT_MAX_AGE_SEC &&
+                         (payload.exp === undefined || payload.exp > nowSec);
+      if (!checks.freshness) errors.push('Presentation is expired or not yet valid');
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+
+    const valid = Object.values(checks).every(Boolean) && errors.length === 0;
+    return {
+      valid,
+      checks,
+      issuer: payload.iss,
+      subject: payload.sub,
+      claims: valid ? claims : undefined,
+      errors
+    };
+  }
+}
+
+// 라우트가 같은 발급자/지갑 서비스를 공유하도록 단일 인스턴스 제공
+let sharedService: PresentationService | null = null;
+
+export function getPresentationService(): PresentationService {
+  if (!sharedService) {
+    const db = process.env.USE_MOCK_DATABASE === 'true' ||
+              !process.env.SUPABASE_URL ||
+              process.env.SUPABASE_URL.includes('dummy')
+      ? DatabaseService.getInstance()
+      : supabaseService;
+
+    sharedService = new PresentationService(db, getCredentialService(), getWalletService());
+  }
+  return sharedService;
+}
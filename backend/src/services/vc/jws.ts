@@ -0,0 +1,73 @@
+// ============================================================================
+// 🔏 JWS 유틸리티 (compact serialization)
+// 경로: backend/src/services/vc/jws.ts
+// 용도: JWT-VC / SD-JWT / KB-JWT 공통 디코딩과 서명 검증
+// 지원 알고리즘: EdDSA (Ed25519), ES256 (P-256), ES256K (secp256k1)
+// ============================================================================
+
+import crypto from 'crypto';
+import { VerificationMethod } from '../did/DIDResolver';
+import { base58btcDecode, MULTICODEC_ED25519_PUB } from '../did/multibase';
+
+export interface DecodedJwt {
+  header: any;
+  payload: any;
+  signingInput: string;
+  signature: Buffer;
+}
+
+export function base64urlJson(value: any): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+export function decodeJwt(jwt: string): DecodedJwt {
+  const parts = typeof jwt === 'string' ? jwt.split('.') : [];
+  if (parts.length !== 3) {
+    throw new Error('Credential must be a compact JWS (header.payload.signature)');
+  }
+
+  try {
+    return {
+      header: JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8')),
+      payload: JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8')),
+      signingInput: `${parts[0]}.${parts[1]}`,
+      signature: Buffer.from(parts[2], 'base64url')
+    };
+  } catch {
+    throw new Error('JWS header or payload is not valid base64url JSON');
+  }
+}
+
+/**
+ * 검증 수단(Multikey / JsonWebKey2020) → Node 공개키 객체
+ */
+export function verificationMethodToKey(method: VerificationMethod): crypto.KeyObject {
+  if (method.publicKeyJwk) {
+    return crypto.createPublicKey({ key: method.publicKeyJwk as crypto.JsonWebKey, format: 'jwk' });
+  }
+
+  if (method.publicKeyMultibase?.startsWith('z')) {
+    const bytes = base58btcDecode(method.publicKeyMultibase.substring(1));
+    if (bytes[0] === MULTICODEC_ED25519_PUB[0] && bytes[1] === MULTICODEC_ED25519_PUB[1]) {
+      return crypto.createPublicKey({
+        key: { kty: 'OKP', crv: 'Ed25519', x: bytes.subarray(2).toString('base64url') },
+        format: 'jwk'
+      });
+    }
+  }
+
+  throw new Error(`Unsupported verification method: ${method.id}`);
+}
+
+export function verifyJwsSignature(alg: string, signingInput: string, signature: Buffer, key: crypto.KeyObject): boolean {
+  const data = Buffer.from(signingInput);
+  switch (alg) {
+    case 'EdDSA':
+      return crypto.verify(null, data, key, signature);
+    case 'ES256':
+    case 'ES256K':
+      return crypto.verify('sha256', data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    default:
+      throw new Error(`Unsupported JWS algorithm: ${alg}`);
+  }
+}
@@ -0,0 +1,173 @@
+// ============================================================================
+// 👛 사용자 지갑 서비스 (secp256k1 / EIP-55 / EIP-191)
+// 경로: backend/src/services/wallet/WalletService.ts
+// 용도: 서버 마스터 시드 + 사용자별 BIP-32 경로로 결정적 지갑 도출, personal_sign 서명/검증
+// 개인키는 저장하지 않음 - 필요할 때마다 시드에서 다시 도출
+// ============================================================================
+
+import crypto from 'crypto';
+import { HDNodeWallet, getAddress, verifyMessage } from 'ethers';
+
+// BIP-44 이더리움 코인 타입 아래에 사용자별 하드닝 세그먼트 4개 (124비트, 충돌 방지)
+const PATH_PREFIX = "m/44'/60'";
+const PATH_SEGMENTS = 4;
+
+const DEVELOPMENT_SEED = crypto.createHash('sha512').update('final0626-development-wallet-seed').digest('hex');
+
+export interface SignedMessage {
+  address: string;
+  message: string;
+  signature: string;
+}
+
+export interface OwnershipProof extends SignedMessage {
+  did: string;
+  nonce: string;
+  issuedAt: string;
+}
+
+/**
+ * 사용자 ID → 결정적 파생 경로 (예: m/44'/60'/123'/456'/789'/1011')
+ */
+export function walletDerivationPath(userId: string): string {
+  const digest = crypto.createHash('sha256').update(`cue-wallet:${userId}`, 'utf8').digest();
+  const segments: string[] = [];
+  for (let i = 0; i < PATH_SEGMENTS; i++) {
+    segments.push(`${digest.readUInt32BE(i * 4) & 0x7fffffff}'`);
+  }
+  return `${PATH_PREFIX}/${segments.join('/')}`;
+}
+
+/**
+ * 패스포트 소유 증명에 서명하는 표준 메시지
+ */
+export function ownershipProofMessage(did: string, address: string, nonce: string, issuedAt: string): string {
+  return [
+    'AI Passport wallet ownership',
+    `DID: ${did}`,
+    `Address: ${address}`,
+    `Nonce: ${nonce}`,
+    `Issued At: ${issuedAt}`
+  ].join('\n');
+}
+
+export class WalletService {
+  private root: HDNodeWallet;
+
+  constructor(masterSeedHex: string) {
+    const seed = Buffer.from(masterSeedHex.replace(/^0x/, ''), 'hex');
+    if (seed.length < 16 || seed.length > 64) {
+      throw new Error('WALLET_MASTER_SEED must be 16-64 bytes of hex');
+    }
+    this.root = HDNodeWallet.fromSeed(seed);
+  }
+
+  private deriveWallet(userId: string): HDNodeWallet {
+    return this.root.derivePath(walletDerivationPath(userId));
+  }
+
+  /**
+   * 사용자 지갑 주소 (EIP-55 체크섬)
+   */
+  getAddress(userId: string): string {
+    return this.deriveWallet(userId).address;
+  }
+
+  /**
+   * EIP-191 personal_sign 서명
+   */
+  async signMessage(userId: string, message: string): Promise<SignedMessage> {
+    const wallet = this.deriveWallet(userId);
+    const signature = await wallet.signMessage(message);
+    return { address: wallet.address, message, signature };
+  }
+
+  /**
+   * 지갑 공개키 JWK (secp256k1) - SD-JWT 홀더 바인딩(cnf)에 사용
+   */
+  getPublicJwk(userId: string): { kty: 'EC'; crv: 'secp256k1'; x: string; y: string } {
+    const publicKey = Buffer.from(this.deriveWallet(userId).signingKey.publicKey.substring(2), 'hex');
+    return {
+      kty: 'EC',
+      crv: 'secp256k1',
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url')
+    };
+  }
+
+  /**
+   * 지갑 키로 compact JWS 서명 (ES256K)
+   */
+  signJws(userId: string, payload: any, typ = 'JWT'): string {
+    const encode = (value: any) => Buffer.from(JSON.stringify(value)).toString('base64url');
+    const signingInput = `${encode({ alg: 'ES256K', typ })}.${encode(payload)}`;
+    const digest = crypto.createHash('sha256').update(signingInput).digest();
+    const signature = this.deriveWallet(userId).signingKey.sign(digest);
+    const rs = Buffer.concat([Buffer.from(signature.r.substring(2), 'hex'), Buffer.from(signature.s.substring(2), 'hex')]);
+    return `${signingInput}.${rs.toString('base64url')}`;
+  }
+
+  /**
+   * DID ↔ 지갑 주소 소유 증명 생성
+   */
+  async createOwnershipProof(userId: string, did: string, nonce: string = crypto.randomBytes(16).toString('hex')): Promise<OwnershipProof> {
+    const address = this.getAddress(userId);
+    const issuedAt = new Date().toISOString();
+    const signed = await this.signMessage(userId, ownershipProofMessage(did, address, nonce, issuedAt));
+    return { ...signed, did, nonce, issuedAt };
+  }
+
+  /**
+   * 저장된 주소가 도출 주소와 다르면 (레거시 랜덤 주소) 도출 주소로 교체
+   */
+  async ensureUserWallet(db: any, user: any): Promise<string> {
+    const address = this.getAddress(user.id);
+    if (user.wallet_address !== address) {
+      console.log(`👛 지갑 주소 갱신: ${user.wallet_address || '(없음)'} → ${address}`);
+      await db.updateUser(user.id, { wallet_address: address });
+      user.wallet_address = address;
+    }
+    return address;
+  }
+
+  /**
+   * personal_sign 서명 검증 - 복원한 주소가 기대 주소와 같은지 확인
+   */
+  static verifyMessage(address: string, message: string, signature: string): boolean {
+    try {
+      return verifyMessage(message, signature) === getAddress(address);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * EIP-55 체크섬 주소로 정규화 (잘못된 주소/체크섬이면 null)
+   */
+  static toChecksumAddress(address: string): string | null {
+    try {
+      return getAddress(address);
+    } catch {
+      return null;
+    }
+  }
+}
+
+// 라우트와 등록 플로우가 같은 시드를 공유하도록 단일 인스턴스 제공
+let sharedService: WalletService | null = null;
+
+export function getWalletService(): WalletService {
+  if (!sharedService) {
+    let seed = process.env.WALLET_MASTER_SEED;
+    if (!seed) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error('WALLET_MASTER_SEED is required in production');
+      }
+      console.warn('⚠️ WALLET_MASTER_SEED 미설정 - 개발용 고정 시드 사용 (운영 환경 사용 금지)');
+      seed = DEVELOPMENT_SEED;
+    }
+    sharedService = new WalletService(seed);
+    console.log('👛 지갑 서비스 초기화 완료');
+  }
+  return sharedService;
+}
@@ -131,3 +131,27 @@ export interface Database {
     };
   };
 }
+
+/** personal_cue_embeddings 인덱싱 상태 조회 행 (임베딩 벡터 제외) */
+export interface CueEmbeddingStateRow {
+  cue_id: string;
+  content_hash: string;
+}
+
+/** match_personal_cue_embeddings RPC 결과 행 (pgvector 코사인 유사도) */
+export interface MatchedCueEmbeddingRow {
+  cue_id: string;
+  similarity: number;
+}
+
+/** match_personal_cue_embeddings(p_user_did, p_model, p_embedding, p_limit) */
+export interface MatchPersonalCueEmbeddingsFunction {
+  Args: {
+    p_user_did: string;
+    p_model: string;
+    /** JSON 배열 문자열 (vector 입력 형식) */
+    p_embedding: string;
+    p_limit: number;
+  };
+  Returns: MatchedCueEmbeddingRow[];
+}
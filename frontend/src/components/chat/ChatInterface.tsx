@@ -10,14 +10,14 @@
 
 'use client';
 
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { Send, Bot, User, Zap } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { StatusBadge } from '../ui/StatusBadge';
 import { MessageList } from '../chat/MessageList';
 import { ModelSelector } from '../chat/ModelSelector';
-import type { Message } from '../../types/chat.types';
+import type { AIModelInfo, Message } from '../../types/chat.types';
 import type { UnifiedAIPassport } from '../../types/passport.types';
 
 interface ChatInterfaceProps {
@@ -26,6 +26,14 @@ interface ChatInterfaceProps {
   onSendMessage?: (message: string, model: string) => Promise<any>;
   messages?: Message[];
   isLoading?: boolean;
+  onCancelStream?: () => void;
+  /** 백엔드 모델 레지스트리 (useChat availableModels) */
+  models?: AIModelInfo[];
+  modelPrices?: Record<string, number>;
+  /** 편집/재생성은 현재 선택된 모델로 요청 (useChat editMessage/regenerateMessage/switchBranch) */
+  onEditMessage?: (messageId: string, content: string, model: string) => Promise<any>;
+  onRegenerateMessage?: (messageId: string, model: string) => Promise<any>;
+  onSwitchBranch?: (messageId: string) => Promise<any>;
 }
 
 export const ChatInterface: React.FC<ChatInterfaceProps> = ({
@@ -33,17 +41,32 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   backendConnected,
   onSendMessage,
   messages = [],
-  isLoading = false
+  isLoading = false,
+  onCancelStream,
+  models,
+  modelPrices,
+  onEditMessage,
+  onRegenerateMessage,
+  onSwitchBranch
 }) => {
   const [input, setInput] = useState('');
-  const [selectedModel, setSelectedModel] = useState('gpt-4');
+  const [selectedModel, setSelectedModel] = useState('personalized-agent');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isStreaming = messages.some(m => m.streaming);
 
   // 자동 스크롤
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
 
+  const handleEdit = useCallback((messageId: string, content: string) => {
+    onEditMessage?.(messageId, content, selectedModel);
+  }, [onEditMessage, selectedModel]);
+
+  const handleRegenerate = useCallback((messageId: string) => {
+    onRegenerateMessage?.(messageId, selectedModel);
+  }, [onRegenerateMessage, selectedModel]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || isLoading) return;
@@ -96,10 +119,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           messages={messages}
           passport={passport}
           backendConnected={backendConnected}
+          onCancelStream={onCancelStream}
+          onEditMessage={onEditMessage && !isLoading ? handleEdit : undefined}
+          onRegenerateMessage={onRegenerateMessage && !isLoading ? handleRegenerate : undefined}
+          onSwitchBranch={isLoading ? undefined : onSwitchBranch}
         />
         
-        {/* 로딩 인디케이터 */}
-        {isLoading && (
+        {/* 로딩 인디케이터 (스트리밍 중에는 메시지 커서로 대신함) */}
+        {isLoading && !isStreaming && (
           <div className="p-4">
             <div className="flex items-center space-x-3">
               <div className="w-8 h-8 bg-gray-100 rounded-full flex items-center justify-center">
@@ -129,6 +156,8 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             selectedModel={selectedModel}
             onModelChange={setSelectedModel}
             backendConnected={backendConnected}
+            models={models}
+            prices={modelPrices}
           />
         </div>
 
@@ -9,8 +9,8 @@
 
 'use client';
 
-import React from 'react';
-import { User, Bot, Zap, Shield, Clock } from 'lucide-react';
+import React, { useState } from 'react';
+import { User, Bot, Zap, Shield, Clock, ChevronLeft, ChevronRight, Pencil, RotateCcw } from 'lucide-react';
 import { StatusBadge } from '../ui/StatusBadge';
 import type { Message } from '../../types/chat.types';
 import type { UnifiedAIPassport } from '../../types/passport.types';
@@ -19,14 +19,33 @@ interface MessageBubbleProps {
   message: Message;
   passport?: UnifiedAIPassport;
   backendConnected: boolean;
+  /** 사용자 메시지 편집 (있을 때만 편집 버튼 표시) */
+  onEdit?: (messageId: string, content: string) => void;
+  /** AI 응답 다시 생성 (있을 때만 버튼 표시) */
+  onRegenerate?: (messageId: string) => void;
+  /** 형제 가지로 전환 (가지가 둘 이상일 때 ‹ 2/3 › 표시) */
+  onSwitchBranch?: (messageId: string) => void;
 }
 
 export const MessageBubble: React.FC<MessageBubbleProps> = ({
   message,
   passport,
-  backendConnected
+  backendConnected,
+  onEdit,
+  onRegenerate,
+  onSwitchBranch
 }) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
   const isUser = message.type === 'user';
+  const branch = message.branch;
+
+  const submitEdit = () => {
+    setEditing(false);
+    if (onEdit && draft.trim() && draft.trim() !== message.content) {
+      onEdit(message.id, draft.trim());
+    }
+  };
   const timestamp = new Date(message.timestamp).toLocaleTimeString('ko-KR', {
     hour: '2-digit',
     minute: '2-digit'
@@ -58,16 +77,39 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
           `}>
             {/* AI 메시지의 경우 마크다운 스타일 적용 */}
             {!isUser ? (
-              <div 
-                className="prose prose-sm max-w-none"
-                dangerouslySetInnerHTML={{
-                  __html: message.content
-                    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-                    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-                    .replace(/`(.*?)`/g, '<code class="bg-gray-200 px-1 rounded text-sm">$1</code>')
-                    .replace(/\n/g, '<br>')
-                }}
-              />
+              <>
+                <div 
+                  className="prose prose-sm max-w-none"
+                  dangerouslySetInnerHTML={{
+                    __html: message.content
+                      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+                      .replace(/\*(.*?)\*/g, '<em>$1</em>')
+                      .replace(/`(.*?)`/g, '<code class="bg-gray-200 px-1 rounded text-sm">$1</code>')
+                      .replace(/\n/g, '<br>')
+                  }}
+                />
+                {/* 스트리밍 중 커서 */}
+                {message.streaming && (
+                  <span className="inline-block w-2 h-4 align-text-bottom bg-gray-500 animate-pulse" />
+                )}
+              </>
+            ) : editing ? (
+              <div className="flex flex-col space-y-2">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  rows={3}
+                  className="text-sm text-gray-900 rounded p-2 min-w-[16rem]"
+                />
+                <div className="flex justify-end space-x-2 text-xs">
+                  <button type="button" onClick={() => setEditing(false)} className="px-2 py-1 rounded hover:bg-blue-500">
+                    취소
+                  </button>
+                  <button type="button" onClick={submitEdit} className="px-2 py-1 rounded bg-white text-blue-600">
+                    다시 보내기
+                  </button>
+                </div>
+              </div>
             ) : (
               <p className="text-sm">{message.content}</p>
             )}
@@ -80,6 +122,51 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
               {timestamp}
             </span>
 
+            {/* 편집/재생성으로 생긴 가지 이동 */}
+            {branch && branch.count > 1 && onSwitchBranch && (
+              <span className="text-xs text-gray-500 flex items-center">
+                <button
+                  type="button"
+                  disabled={branch.index === 0}
+                  onClick={() => onSwitchBranch(branch.siblingIds[branch.index - 1])}
+                  className="disabled:opacity-30"
+                >
+                  <ChevronLeft className="w-3 h-3" />
+                </button>
+                {branch.index + 1}/{branch.count}
+                <button
+                  type="button"
+                  disabled={branch.index === branch.count - 1}
+                  onClick={() => onSwitchBranch(branch.siblingIds[branch.index + 1])}
+                  className="disabled:opacity-30"
+                >
+                  <ChevronRight className="w-3 h-3" />
+                </button>
+              </span>
+            )}
+
+            {isUser && onEdit && !editing && (
+              <button
+                type="button"
+                title="편집"
+                onClick={() => { setDraft(message.content); setEditing(true); }}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <Pencil className="w-3 h-3" />
+              </button>
+            )}
+
+            {!isUser && onRegenerate && !message.streaming && (
+              <button
+                type="button"
+                title="다시 생성"
+                onClick={() => onRegenerate(message.id)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            )}
+
             {/* AI 메시지 추가 정보 */}
             {!isUser && (
               <>
@@ -90,6 +177,41 @@ export const MessageBubble: React.FC<MessageBubbleProps> = ({
                   </StatusBadge>
                 )}
 
+                {message.streamStatus === 'cancelled' && (
+                  <StatusBadge variant="neutral" size="sm">
+                    중단됨
+                  </StatusBadge>
+                )}
+
+                {message.streamStatus === 'failed' && (
+                  <StatusBadge variant="warning" size="sm">
+                    일부 응답
+                  </StatusBadge>
+                )}
+
+                {message.routing?.fallback && (
+                  <span
+                    title={message.routing.attempts.map(a => `${a.model}: ${a.outcome}`).join(' → ')}
+                  >
+                    <StatusBadge variant="warning" size="sm">
+                      {message.routing.answeredBy
+                        ? `대체 응답: ${message.routing.answeredBy}`
+                        : '시뮬레이션 응답'}
+                    </StatusBadge>
+                  </span>
+                )}
+
+                {message.context && message.context.history.total > 0 && (
+                  <span
+                    title={`입력 ${message.context.inputTokens}/${message.context.budget} 토큰 · CUE ${message.context.cues.includedIds.length}개 · 볼트 ${message.context.vault.includedIds.length}개`}
+                  >
+                    <StatusBadge variant="neutral" size="sm">
+                      이전 대화 {message.context.history.included}개
+                      {message.context.history.summarized > 0 && ` + 요약 ${message.context.history.summarized}개`}
+                    </StatusBadge>
+                  </span>
+                )}
+
                 {message.verification?.biometric && (
                   <StatusBadge variant="info" size="sm">
                     <Shield className="w-3 h-3 mr-1" />
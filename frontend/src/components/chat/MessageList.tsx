@@ -10,6 +10,7 @@
 'use client';
 
 import React from 'react';
+import { Square } from 'lucide-react';
 import { MessageBubble } from '../chat/MessageBubble';
 import type { Message } from '../../types/chat.types';
 import type { UnifiedAIPassport } from '../../types/passport.types';
@@ -18,13 +19,28 @@ interface MessageListProps {
   messages: Message[];
   passport?: UnifiedAIPassport;
   backendConnected: boolean;
+  /** 스트리밍 중인 응답 중단 (있을 때만 버튼 표시) */
+  onCancelStream?: () => void;
+  /** 편집/재생성/가지 전환 - 스트리밍 중에는 숨김 */
+  onEditMessage?: (messageId: string, content: string) => void;
+  onRegenerateMessage?: (messageId: string) => void;
+  onSwitchBranch?: (messageId: string) => void;
 }
 
+// 스트리밍 중에는 마지막 메시지만 바뀌므로 나머지 버블은 다시 그리지 않음
+const MemoizedMessageBubble = React.memo(MessageBubble);
+
 export const MessageList: React.FC<MessageListProps> = ({
   messages,
   passport,
-  backendConnected
+  backendConnected,
+  onCancelStream,
+  onEditMessage,
+  onRegenerateMessage,
+  onSwitchBranch
 }) => {
+  const isStreaming = messages.some(m => m.streaming);
+
   if (messages.length === 0) {
     return (
       <div className="flex-1 flex items-center justify-center p-8">
@@ -56,13 +72,29 @@ export const MessageList: React.FC<MessageListProps> = ({
   return (
     <div className="flex-1 p-4 space-y-4">
       {messages.map((message) => (
-        <MessageBubble
+        <MemoizedMessageBubble
           key={message.id}
           message={message}
           passport={passport}
           backendConnected={backendConnected}
+          onEdit={isStreaming ? undefined : onEditMessage}
+          onRegenerate={isStreaming ? undefined : onRegenerateMessage}
+          onSwitchBranch={isStreaming ? undefined : onSwitchBranch}
         />
       ))}
+
+      {isStreaming && onCancelStream && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={onCancelStream}
+            className="flex items-center px-3 py-1 text-xs text-gray-600 border border-gray-300 rounded-full hover:bg-gray-100"
+          >
+            <Square className="w-3 h-3 mr-1" />
+            응답 중단
+          </button>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -26,59 +26,87 @@
 'use client';
 
 import React from 'react';
-import { ChevronDown, Cpu, Zap, Brain } from 'lucide-react';
+import { ChevronDown, Cpu, Zap, Brain, Server, Sparkles } from 'lucide-react';
+import type { AIModelInfo, AIProviderId } from '../../types/chat.types';
 
 interface ModelSelectorProps {
   selectedModel: string;
   onModelChange: (model: string) => void;
   backendConnected: boolean;
+  /** 백엔드 모델 레지스트리 (/api/ai/models) - 없으면 기본 목록 */
+  models?: AIModelInfo[];
+  /** 모델별 1K 토큰당 CUE (백엔드 /api/cue/pricing 가격표) */
+  prices?: Record<string, number>;
 }
 
+const PROVIDER_LABELS: Record<AIProviderId, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  gemini: 'Google',
+  ollama: 'Ollama',
+  mock: 'Demo'
+};
+
+const PROVIDER_ICONS: Record<AIProviderId, React.ReactNode> = {
+  openai: <Brain className="w-4 h-4" />,
+  anthropic: <Cpu className="w-4 h-4" />,
+  gemini: <Zap className="w-4 h-4" />,
+  ollama: <Server className="w-4 h-4" />,
+  mock: <Sparkles className="w-4 h-4" />
+};
+
+const defaultModel = (
+  id: string,
+  name: string,
+  provider: AIProviderId,
+  description: string,
+  cuePer1kTokens: number
+): AIModelInfo => ({
+  id,
+  name,
+  provider,
+  description,
+  available: provider === 'mock',
+  cuePer1kTokens,
+  contextWindow: 0,
+  maxOutputTokens: 1000,
+  capabilities: { chat: true, streaming: true, embeddings: provider !== 'anthropic' },
+  aliases: []
+});
+
+// 백엔드 모델 목록을 받기 전 기본값 (backend ModelRegistry와 동일)
+const DEFAULT_MODELS: AIModelInfo[] = [
+  defaultModel('personalized-agent', 'Personalized Agent', 'openai', '성격 프로필에 맞춰 GPT-4o / Claude 중 선택', 1),
+  defaultModel('gpt-4o', 'GPT-4o', 'openai', '가장 강력한 범용 AI 모델', 3),
+  defaultModel('claude-3.5-sonnet', 'Claude 3.5 Sonnet', 'anthropic', '안전하고 도움이 되는 AI 어시스턴트', 2.5),
+  defaultModel('gemini-pro', 'Gemini 1.5 Pro', 'gemini', '빠르고 효율적인 멀티모달 AI', 1.5),
+  defaultModel('mock-ai', 'Mock AI', 'mock', 'Demo용 결정적 시뮬레이션 AI', 0)
+];
+
+const formatPrice = (price: number) =>
+  price > 0 ? `${price} CUE / 1K 토큰` : 'Free';
+
 export const ModelSelector: React.FC<ModelSelectorProps> = ({
   selectedModel,
   onModelChange,
-  backendConnected
+  backendConnected,
+  models: registryModels,
+  prices = {}
 }) => {
-  const models = [
-    {
-      id: 'gpt-4',
-      name: 'GPT-4',
-      provider: 'OpenAI',
-      icon: <Brain className="w-4 h-4" />,
-      description: '가장 강력한 범용 AI 모델',
-      available: backendConnected,
-      cost: 3
-    },
-    {
-      id: 'claude-3',
-      name: 'Claude 3',
-      provider: 'Anthropic',
-      icon: <Cpu className="w-4 h-4" />,
-      description: '안전하고 도움이 되는 AI 어시스턴트',
-      available: backendConnected,
-      cost: 2
-    },
-    {
-      id: 'gemini-pro',
-      name: 'Gemini Pro',
-      provider: 'Google',
-      icon: <Zap className="w-4 h-4" />,
-      description: '빠르고 효율적인 멀티모달 AI',
-      available: backendConnected,
-      cost: 2
-    },
-    {
-      id: 'mock-ai',
-      name: 'Mock AI',
-      provider: 'Demo',
-      icon: <Brain className="w-4 h-4" />,
-      description: 'Demo용 시뮬레이션 AI',
-      available: true,
-      cost: 0
-    }
-  ];
+  const models = (registryModels && registryModels.length > 0 ? registryModels : DEFAULT_MODELS)
+    .map(model => ({
+      ...model,
+      // 백엔드 연결 전에는 Mock 모델만 사용 가능
+      available: model.provider === 'mock' || (backendConnected && model.available)
+    }));
+
+  const priceOf = (modelId: string) => {
+    if (prices[modelId] !== undefined) return prices[modelId];
+    const model = models.find(m => m.id === modelId);
+    return model ? model.cuePer1kTokens : 0;
+  };
 
-  const currentModel = models.find(m => m.id === selectedModel) || models[0];
+  const currentModel = models.find(m => m.id === selectedModel || (m.aliases || []).indexOf(selectedModel) >= 0) || models[0];
 
   return (
     <div className="relative">
@@ -88,7 +116,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
       
       <div className="relative">
         <select
-          value={selectedModel}
+          value={currentModel.id}
           onChange={(e) => onModelChange(e.target.value)}
           className="
             w-full appearance-none bg-white border border-gray-300 rounded-lg
@@ -103,8 +131,8 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
               value={model.id}
               disabled={!model.available}
             >
-              {model.name} ({model.provider}) 
-              {!model.available && ' - 백엔드 연결 필요'}
+              {model.name} ({PROVIDER_LABELS[model.provider] || model.provider}) · {formatPrice(priceOf(model.id))}
+              {!model.available && (backendConnected ? ' - 제공자 미설정' : ' - 백엔드 연결 필요')}
             </option>
           ))}
         </select>
@@ -116,7 +144,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
       <div className="mt-2 p-3 bg-gray-50 rounded-lg border">
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-2">
-            {currentModel.icon}
+            {PROVIDER_ICONS[currentModel.provider] || <Brain className="w-4 h-4" />}
             <div>
               <p className="text-sm font-medium text-gray-900">
                 {currentModel.name}
@@ -130,7 +158,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
           <div className="text-right">
             <div className="flex items-center space-x-1 text-xs text-gray-500">
               <Zap className="w-3 h-3" />
-              <span>{currentModel.cost > 0 ? `${currentModel.cost} CUE` : 'Free'}</span>
+              <span>{formatPrice(priceOf(currentModel.id))}</span>
             </div>
             <div className={`text-xs font-medium ${
               currentModel.available ? 'text-green-600' : 'text-red-600'
@@ -144,6 +172,7 @@ export const ModelSelector: React.FC<ModelSelectorProps> = ({
       {/* 힌트 */}
       <div className="mt-2 text-xs text-gray-500">
         💡 개인화를 위해 AI Passport 데이터가 자동으로 포함됩니다
+        {priceOf(currentModel.id) > 0 && ' · 사용한 토큰만큼 CUE가 차감됩니다'}
       </div>
     </div>
   );
@@ -27,7 +27,7 @@ import React, { useState } from 'react';
 import { 
   History, TrendingUp, TrendingDown, Filter, 
   Calendar, Download, Search, ArrowUpRight, ArrowDownLeft,
-  Zap, Gift, Users, Settings, Bot
+  Zap, Gift, Users, Settings, Bot, ArrowLeftRight, Lock
 } from 'lucide-react';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
@@ -58,6 +58,7 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
       case 'verification': return <Settings className="w-4 h-4" />;
       case 'bonus': return <Gift className="w-4 h-4" />;
       case 'referral': return <Users className="w-4 h-4" />;
+      case 'transfer': return <ArrowLeftRight className="w-4 h-4" />;
       default: return <History className="w-4 h-4" />;
     }
   };
@@ -69,6 +70,7 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
       case 'verification': return 'text-green-600';
       case 'bonus': return 'text-purple-600';
       case 'referral': return 'text-pink-600';
+      case 'transfer': return 'text-indigo-600';
       default: return 'text-gray-600';
     }
   };
@@ -80,13 +82,29 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
       case 'verification': return '인증';
       case 'bonus': return '보너스';
       case 'referral': return '추천';
+      case 'transfer': return '송금';
       default: return source;
     }
   };
 
+  const getTransferTitle = (transaction: CueTransaction) => {
+    const transfer = transaction.transfer!;
+    switch (transfer.phase) {
+      case 'escrow': return '에스크로 송금 (보관 중)';
+      case 'release': return transfer.direction === 'incoming' ? '에스크로 송금 받음' : '에스크로 지급';
+      case 'refund': return '에스크로 환불';
+      default: return transfer.direction === 'incoming' ? '받은 송금' : '보낸 송금';
+    }
+  };
+
+  const shortenDid = (did: string) =>
+    did.length > 24 ? `${did.slice(0, 14)}…${did.slice(-6)}` : did;
+
   const filteredTransactions = history.transactions.filter((tx) => {
     const matchesSearch = tx.purpose?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         getSourceName(tx.source).toLowerCase().includes(searchTerm.toLowerCase());
+                         getSourceName(tx.source).toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         tx.transfer?.memo?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         tx.transfer?.counterpartyDid.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesType = filterType === 'all' || tx.type === filterType;
     const matchesSource = filterSource === 'all' || tx.source === filterSource;
     
@@ -233,9 +251,25 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
                       <div className="flex items-center space-x-2">
                         {getSourceIcon(transaction.source)}
                         <span className="font-medium text-gray-900">
-                          {transaction.purpose || getSourceName(transaction.source)}
+                          {transaction.transfer
+                            ? getTransferTitle(transaction)
+                            : transaction.purpose || getSourceName(transaction.source)}
                         </span>
+                        {transaction.transfer?.phase === 'escrow' && (
+                          <Lock className="w-3 h-3 text-amber-500" />
+                        )}
                       </div>
+                      {transaction.transfer && (
+                        <div className="text-sm text-gray-600 mt-1">
+                          <span className="font-mono text-xs" title={transaction.transfer.counterpartyDid}>
+                            {transaction.transfer.direction === 'incoming' ? '보낸 사람 ' : '받는 사람 '}
+                            {shortenDid(transaction.transfer.counterpartyDid)}
+                          </span>
+                          {transaction.transfer.memo && (
+                            <span className="ml-2 italic">“{transaction.transfer.memo}”</span>
+                          )}
+                        </div>
+                      )}
                       <div className="text-sm text-gray-500 mt-1">
                         {new Date(transaction.timestamp).toLocaleString('ko-KR')}
                         {transaction.metadata?.model && (
@@ -249,21 +283,29 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
 
                   <div className="text-right">
                     <div className={`text-lg font-bold ${
-                      transaction.type === 'earned' ? 'text-green-600' : 'text-red-600'
-                    }`}>
+                      transaction.status === 'pending' || transaction.status === 'rejected'
+                        ? 'text-gray-400'
+                        : transaction.type === 'earned' ? 'text-green-600' : 'text-red-600'
+                    } ${transaction.status === 'rejected' ? 'line-through' : ''}`}>
                       {transaction.type === 'earned' ? '+' : '-'}{transaction.amount.toLocaleString()} CUE
                     </div>
-                    <StatusBadge 
-                      variant={transaction.type === 'earned' ? 'success' : 'neutral'}
-                      size="sm"
-                    >
-                      {getSourceName(transaction.source)}
-                    </StatusBadge>
+                    {transaction.status === 'pending' ? (
+                      <StatusBadge variant="warning" size="sm">검토 중</StatusBadge>
+                    ) : transaction.status === 'rejected' ? (
+                      <StatusBadge variant="error" size="sm">지급 거절</StatusBadge>
+                    ) : (
+                      <StatusBadge 
+                        variant={transaction.type === 'earned' ? 'success' : 'neutral'}
+                        size="sm"
+                      >
+                        {getSourceName(transaction.source)}
+                      </StatusBadge>
+                    )}
                   </div>
                 </div>
 
                 {/* 추가 메타데이터 */}
-                {transaction.metadata && Object.keys(transaction.metadata).length > 0 && (
+                {!transaction.transfer && transaction.metadata && Object.keys(transaction.metadata).length > 0 && (
                   <div className="mt-3 pt-3 border-t border-gray-100">
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs text-gray-500">
                       {transaction.metadata.tokensUsed && (
@@ -278,6 +320,11 @@ export const CueHistory: React.FC<CueHistoryProps> = ({
                       {transaction.blockNumber && (
                         <div>블록: #{transaction.blockNumber}</div>
                       )}
+                      {transaction.transactionHash && (
+                        <div title={transaction.transactionHash}>
+                          Tx: {transaction.transactionHash.slice(0, 10)}...
+                        </div>
+                      )}
                     </div>
                   </div>
                 )}
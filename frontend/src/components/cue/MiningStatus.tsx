@@ -18,6 +18,8 @@ import { Button } from '../ui/Button';
 import { StatusBadge } from '../ui/StatusBadge';
 import type { CueMiningState } from '../../types/cue.types';
 
+const CHAT_GOAL = 3;
+
 interface MiningStatusProps {
   miningState: CueMiningState;
   onToggleMining?: () => void;
@@ -46,6 +48,17 @@ export const MiningStatus: React.FC<MiningStatusProps> = ({
     return `${minutes}분 후`;
   };
 
+  const formatAmount = (amount?: number) =>
+    amount === undefined ? '-' : amount.toLocaleString(undefined, { maximumFractionDigits: 2 });
+
+  // 오늘의 목표: 로그인 보너스 + AI 대화 + 데이터 기여
+  const activity = miningState.activityToday || {};
+  const chatCount = Math.min(activity.ai_chat || 0, CHAT_GOAL);
+  const dataContributed = (activity.data_contribution || 0) + (activity.data_extraction || 0) > 0;
+  const goalProgress = Math.round(
+    ((miningState.loginBonusClaimedToday ? 1 : 0) + chatCount / CHAT_GOAL + (dataContributed ? 1 : 0)) / 3 * 100
+  );
+
   const getMiningStatusColor = () => {
     if (!miningState.canMine) return 'from-gray-400 to-gray-500';
     if (miningState.isActive) return 'from-green-500 to-emerald-600';
@@ -221,32 +234,47 @@ export const MiningStatus: React.FC<MiningStatusProps> = ({
               <Award className="w-5 h-5 text-green-500" />
               <span className="font-semibold text-green-900">오늘의 마이닝 목표</span>
             </div>
-            <span className="text-sm text-green-700">진행률: 65%</span>
+            <span className="text-sm text-green-700">진행률: {goalProgress}%</span>
           </div>
           
           <div className="space-y-3">
             <div className="flex items-center justify-between">
-              <span className="text-sm text-green-800">AI 대화 3회</span>
-              <div className="flex space-x-1">
-                <div className="w-3 h-3 bg-green-500 rounded-full" />
-                <div className="w-3 h-3 bg-green-500 rounded-full" />
-                <div className="w-3 h-3 bg-gray-300 rounded-full" />
-              </div>
+              <span className="text-sm text-green-800">일일 로그인 보너스</span>
+              <div className={`w-3 h-3 rounded-full ${miningState.loginBonusClaimedToday ? 'bg-green-500' : 'bg-gray-300'}`} />
             </div>
-            
+
             <div className="flex items-center justify-between">
-              <span className="text-sm text-green-800">데이터 볼트 업데이트</span>
-              <div className="w-3 h-3 bg-green-500 rounded-full" />
+              <span className="text-sm text-green-800">AI 대화 {CHAT_GOAL}회</span>
+              <div className="flex space-x-1">
+                {Array.from({ length: CHAT_GOAL }).map((_, i) => (
+                  <div
+                    key={i}
+                    className={`w-3 h-3 rounded-full ${i < chatCount ? 'bg-green-500' : 'bg-gray-300'}`}
+                  />
+                ))}
+              </div>
             </div>
             
             <div className="flex items-center justify-between">
-              <span className="text-sm text-green-800">플랫폼 동기화</span>
-              <div className="w-3 h-3 bg-gray-300 rounded-full" />
+              <span className="text-sm text-green-800">데이터 기여</span>
+              <div className={`w-3 h-3 rounded-full ${dataContributed ? 'bg-green-500' : 'bg-gray-300'}`} />
             </div>
             
             <div className="w-full bg-green-200 rounded-full h-2 mt-3">
-              <div className="bg-green-500 h-2 rounded-full w-2/3 transition-all duration-300" />
+              <div
+                className="bg-green-500 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${goalProgress}%` }}
+              />
             </div>
+
+            {miningState.dailyCap !== undefined && (
+              <div className="flex justify-between text-xs text-green-700">
+                <span>일일 한도</span>
+                <span>
+                  {(miningState.minedToday || 0).toLocaleString()} / {miningState.dailyCap.toLocaleString()} CUE
+                </span>
+              </div>
+            )}
           </div>
         </div>
 
@@ -255,15 +283,15 @@ export const MiningStatus: React.FC<MiningStatusProps> = ({
           <h4 className="font-medium text-gray-900 mb-3">마이닝 성과</h4>
           <div className="grid grid-cols-3 gap-4 text-center">
             <div>
-              <div className="text-lg font-bold text-gray-900">1,250</div>
+              <div className="text-lg font-bold text-gray-900">{formatAmount(miningState.weeklyMined)}</div>
               <div className="text-sm text-gray-600">이번 주 획득</div>
             </div>
             <div>
-              <div className="text-lg font-bold text-gray-900">8,430</div>
+              <div className="text-lg font-bold text-gray-900">{formatAmount(miningState.monthlyMined)}</div>
               <div className="text-sm text-gray-600">이번 달 획득</div>
             </div>
             <div>
-              <div className="text-lg font-bold text-gray-900">45,120</div>
+              <div className="text-lg font-bold text-gray-900">{formatAmount(miningState.totalMined)}</div>
               <div className="text-sm text-gray-600">총 획득량</div>
             </div>
           </div>
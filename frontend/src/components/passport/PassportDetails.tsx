@@ -18,7 +18,7 @@
 
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   User, Brain, Shield, TrendingUp, Edit3, Save, X, 
   Calendar, MapPin, Briefcase, Heart, Settings 
@@ -26,6 +26,10 @@ import {
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { StatusBadge } from '../ui/StatusBadge';
+import { RegisteredDevices } from './RegisteredDevices';
+import { PresentationRequests } from './PresentationRequests';
+import { useWebAuthn } from '../../hooks/useWebAuthn';
+import { usePresentationRequests } from '../../hooks/usePresentationRequests';
 import type { UnifiedAIPassport } from '../../types/passport.types';
 
 interface PassportDetailsProps {
@@ -42,6 +46,31 @@ export const PassportDetails: React.FC<PassportDetailsProps> = ({
   const [isEditing, setIsEditing] = useState(false);
   const [editedProfile, setEditedProfile] = useState(passport.personalityProfile);
   const [isLoading, setIsLoading] = useState(false);
+  const {
+    passkeys,
+    isLoadingPasskeys,
+    passkeyError,
+    loadPasskeys,
+    addPasskey,
+    renamePasskey,
+    revokePasskey
+  } = useWebAuthn(backendConnected);
+  const {
+    requests: presentationRequests,
+    isLoading: isLoadingRequests,
+    error: presentationError,
+    loadRequests,
+    approveRequest,
+    rejectRequest
+  } = usePresentationRequests(backendConnected);
+
+  useEffect(() => {
+    loadPasskeys();
+  }, [loadPasskeys]);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
 
   const handleSave = async () => {
     if (!onUpdate) return;
@@ -328,6 +357,30 @@ export const PassportDetails: React.FC<PassportDetailsProps> = ({
         </div>
       </div>
 
+      {/* 등록된 기기 (패스키) 관리 */}
+      <RegisteredDevices
+        devices={passkeys}
+        isLoading={isLoadingPasskeys}
+        error={passkeyError}
+        onAdd={addPasskey}
+        onRename={renamePasskey}
+        onRevoke={revokePasskey}
+        onRefresh={loadPasskeys}
+        backendConnected={backendConnected}
+      />
+
+      {/* 파트너 앱 정보 제공 요청 (선택적 공개) */}
+      <PresentationRequests
+        passport={passport}
+        requests={presentationRequests}
+        isLoading={isLoadingRequests}
+        error={presentationError}
+        onApprove={approveRequest}
+        onReject={rejectRequest}
+        onRefresh={loadRequests}
+        backendConnected={backendConnected}
+      />
+
       {/* Trust Score 상세 */}
       <div className="bg-white rounded-xl border border-gray-200 p-6">
         <h3 className="text-lg font-semibold text-gray-900 flex items-center mb-6">
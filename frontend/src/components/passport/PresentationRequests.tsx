@@ -0,0 +1,205 @@
+// ============================================================================
+// 📁 src/components/passport/PresentationRequests.tsx
+// 🤝 제시 요청 승인 컴포넌트 (선택적 공개)
+// ============================================================================
+// 파트너 앱이 보낸 제시 요청을 보여주고, 사용자가 공개할 속성을
+// 직접 골라 승인하거나 거절할 수 있게 합니다. 승인하면 선택한
+// 속성만 담긴 SD-JWT 제시가 만들어져 요청한 앱에 전달됩니다.
+// ============================================================================
+
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Share2, Check, X, RefreshCw, AlertCircle, Clock } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { StatusBadge } from '../ui/StatusBadge';
+import type { PresentationRequest, UnifiedAIPassport } from '../../types/passport.types';
+
+interface PresentationRequestsProps {
+  passport: UnifiedAIPassport;
+  requests: PresentationRequest[];
+  isLoading: boolean;
+  error?: string;
+  onApprove: (requestId: string, claims: string[]) => Promise<void>;
+  onReject: (requestId: string) => Promise<void>;
+  onRefresh: () => Promise<void>;
+  backendConnected: boolean;
+}
+
+const CLAIM_LABELS: Record<string, string> = {
+  passportLevel: '패스포트 레벨',
+  trustScore: 'Trust Score',
+  'personalityProfile.type': '성격 유형',
+  'personalityProfile.communicationStyle': '소통 스타일',
+  'personalityProfile.learningPattern': '학습 패턴',
+  'personalityProfile.workingStyle': '작업 스타일',
+  'personalityProfile.responsePreference': '응답 선호도',
+  'personalityProfile.decisionMaking': '의사결정 방식'
+};
+
+const claimPreview = (passport: UnifiedAIPassport, claim: string): string => {
+  if (claim.startsWith('personalityProfile.')) {
+    const field = claim.split('.')[1] as keyof UnifiedAIPassport['personalityProfile'];
+    return passport.personalityProfile?.[field] ?? '-';
+  }
+  if (claim === 'trustScore') return `${passport.trustScore}%`;
+  if (claim === 'passportLevel') return passport.passportLevel;
+  return '-';
+};
+
+export const PresentationRequests: React.FC<PresentationRequestsProps> = ({
+  passport,
+  requests,
+  isLoading,
+  error,
+  onApprove,
+  onReject,
+  onRefresh,
+  backendConnected
+}) => {
+  // 요청별 공개 선택 상태 (기본값: 요청된 속성 전체)
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSelections(prev => {
+      const next: Record<string, string[]> = {};
+      for (const request of requests) {
+        next[request.id] = prev[request.id] ?? request.requestedClaims;
+      }
+      return next;
+    });
+  }, [requests]);
+
+  const toggleClaim = (requestId: string, claim: string) => {
+    setSelections(prev => {
+      const current = prev[requestId] ?? [];
+      return {
+        ...prev,
+        [requestId]: current.includes(claim)
+          ? current.filter(c => c !== claim)
+          : [...current, claim]
+      };
+    });
+  };
+
+  const handleApprove = async (request: PresentationRequest) => {
+    setPendingId(request.id);
+    try {
+      await onApprove(request.id, selections[request.id] ?? []);
+    } catch (error) {
+      console.error('제시 요청 승인 실패:', error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleReject = async (request: PresentationRequest) => {
+    setPendingId(request.id);
+    try {
+      await onReject(request.id);
+    } catch (error) {
+      console.error('제시 요청 거절 실패:', error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Share2 className="w-5 h-5 mr-2" />
+          정보 제공 요청
+        </h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRefresh}
+          disabled={!backendConnected || isLoading}
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {!backendConnected ? (
+        <p className="text-sm text-gray-500">백엔드에 연결되면 파트너 앱의 정보 제공 요청을 확인할 수 있습니다.</p>
+      ) : requests.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500">대기 중인 요청이 없습니다.</p>
+      ) : (
+        <ul className="space-y-4">
+          {requests.map((request) => {
+            const selected = selections[request.id] ?? [];
+
+            return (
+              <li key={request.id} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex flex-col md:flex-row md:items-start md:justify-between">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 break-all">{request.audience}</p>
+                    {request.purpose && (
+                      <p className="text-sm text-gray-600 mt-1">목적: {request.purpose}</p>
+                    )}
+                  </div>
+                  <StatusBadge variant="warning" size="sm">
+                    <Clock className="w-3 h-3 mr-1 inline" />
+                    {new Date(request.expiresAt).toLocaleTimeString('ko-KR')}까지
+                  </StatusBadge>
+                </div>
+
+                <p className="text-xs text-gray-500 mt-3 mb-2">
+                  공개할 항목을 선택하세요. 선택하지 않은 항목은 상대방에게 전달되지 않습니다.
+                </p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {request.requestedClaims.map((claim) => (
+                    <label
+                      key={claim}
+                      className="flex items-center justify-between p-2 bg-white border border-gray-200 rounded-md cursor-pointer"
+                    >
+                      <span className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(claim)}
+                          onChange={() => toggleClaim(request.id, claim)}
+                        />
+                        <span className="text-sm font-medium text-gray-700">{CLAIM_LABELS[claim] ?? claim}</span>
+                      </span>
+                      <span className="text-sm text-gray-500 truncate ml-2">{claimPreview(passport, claim)}</span>
+                    </label>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-end space-x-2 mt-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleReject(request)}
+                    disabled={pendingId === request.id}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    거절
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleApprove(request)}
+                    loading={pendingId === request.id}
+                    disabled={selected.length === 0}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    {selected.length}개 항목 공개
+                  </Button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
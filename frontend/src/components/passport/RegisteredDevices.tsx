@@ -0,0 +1,215 @@
+// ============================================================================
+// 📁 src/components/passport/RegisteredDevices.tsx
+// 📱 등록된 기기(패스키) 관리 컴포넌트
+// ============================================================================
+// 이 컴포넌트는 계정에 등록된 패스키를 기기별로 보여주고,
+// 이름 변경, 폐기, 현재 기기에 새 패스키 추가 기능을 제공합니다.
+// 마지막 남은 패스키는 계정 잠김을 막기 위해 폐기할 수 없습니다.
+// ============================================================================
+
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Smartphone, Plus, Trash2, Edit3, Save, X, Cloud, RefreshCw, AlertCircle
+} from 'lucide-react';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { StatusBadge } from '../ui/StatusBadge';
+import type { PasskeyDevice } from '../../types/auth.types';
+
+interface RegisteredDevicesProps {
+  devices: PasskeyDevice[];
+  isLoading: boolean;
+  error?: string;
+  onAdd: (name?: string) => Promise<void>;
+  onRename: (credentialId: string, name: string) => Promise<void>;
+  onRevoke: (credentialId: string) => Promise<void>;
+  onRefresh: () => Promise<void>;
+  backendConnected: boolean;
+}
+
+const formatDate = (value: string | null) =>
+  value ? new Date(value).toLocaleString('ko-KR') : '사용 기록 없음';
+
+export const RegisteredDevices: React.FC<RegisteredDevicesProps> = ({
+  devices,
+  isLoading,
+  error,
+  onAdd,
+  onRename,
+  onRevoke,
+  onRefresh,
+  backendConnected
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editedName, setEditedName] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [isAdding, setIsAdding] = useState(false);
+
+  const startEditing = (device: PasskeyDevice) => {
+    setEditingId(device.credentialId);
+    setEditedName(device.name);
+  };
+
+  const handleRename = async (credentialId: string) => {
+    setPendingId(credentialId);
+    try {
+      await onRename(credentialId, editedName.trim());
+      setEditingId(null);
+    } catch (error) {
+      console.error('패스키 이름 변경 실패:', error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleRevoke = async (device: PasskeyDevice) => {
+    if (!window.confirm(`'${device.name}' 패스키를 폐기하시겠습니까? 이 기기로는 더 이상 로그인할 수 없습니다.`)) {
+      return;
+    }
+
+    setPendingId(device.credentialId);
+    try {
+      await onRevoke(device.credentialId);
+    } catch (error) {
+      console.error('패스키 폐기 실패:', error);
+    } finally {
+      setPendingId(null);
+    }
+  };
+
+  const handleAdd = async () => {
+    setIsAdding(true);
+    try {
+      await onAdd();
+    } catch (error) {
+      console.error('패스키 추가 실패:', error);
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Smartphone className="w-5 h-5 mr-2" />
+          등록된 기기 (패스키)
+        </h3>
+        <div className="flex items-center space-x-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onRefresh}
+            disabled={!backendConnected || isLoading}
+          >
+            <RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />
+          </Button>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            loading={isAdding}
+            disabled={!backendConnected}
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            이 기기 추가
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 mb-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          <AlertCircle className="w-4 h-4 mr-2 flex-shrink-0" />
+          {error}
+        </div>
+      )}
+
+      {!backendConnected ? (
+        <p className="text-sm text-gray-500">백엔드에 연결되면 등록된 기기를 관리할 수 있습니다.</p>
+      ) : devices.length === 0 && !isLoading ? (
+        <p className="text-sm text-gray-500">등록된 패스키가 없습니다.</p>
+      ) : (
+        <ul className="space-y-3">
+          {devices.map((device) => (
+            <li
+              key={device.credentialId}
+              className="flex flex-col md:flex-row md:items-center md:justify-between p-4 bg-gray-50 rounded-lg"
+            >
+              <div className="flex-1 min-w-0">
+                {editingId === device.credentialId ? (
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      value={editedName}
+                      onChange={(e) => setEditedName(e.target.value)}
+                      maxLength={64}
+                      placeholder="예: 업무용 노트북"
+                    />
+                    <Button
+                      size="sm"
+                      onClick={() => handleRename(device.credentialId)}
+                      loading={pendingId === device.credentialId}
+                      disabled={!editedName.trim()}
+                    >
+                      <Save className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingId(null)}
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900 truncate">{device.name}</span>
+                    {device.isCurrent && (
+                      <StatusBadge variant="info" size="sm">현재 세션</StatusBadge>
+                    )}
+                    {device.backedUp && (
+                      <StatusBadge variant="success" size="sm">
+                        <Cloud className="w-3 h-3 mr-1 inline" />
+                        동기화됨
+                      </StatusBadge>
+                    )}
+                  </div>
+                )}
+                <div className="mt-1 text-xs text-gray-500 space-x-3">
+                  <span>등록: {formatDate(device.createdAt)}</span>
+                  <span>최근 사용: {formatDate(device.lastUsed)}</span>
+                  <span>서명 카운터: {device.counter}</span>
+                  <span>{device.deviceType === 'multiDevice' ? '다중 기기' : '단일 기기'}</span>
+                </div>
+              </div>
+
+              {editingId !== device.credentialId && (
+                <div className="flex items-center space-x-2 mt-3 md:mt-0 md:ml-4">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => startEditing(device)}
+                  >
+                    <Edit3 className="w-4 h-4 mr-1" />
+                    이름 변경
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => handleRevoke(device)}
+                    loading={pendingId === device.credentialId}
+                    disabled={devices.length <= 1}
+                    title={devices.length <= 1 ? '마지막 패스키는 폐기할 수 없습니다' : undefined}
+                  >
+                    <Trash2 className="w-4 h-4 mr-1" />
+                    폐기
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -3,17 +3,32 @@
 // 💬 AI 채팅 기능 관리 훅
 // ============================================================================
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { ChatAPI } from '../services/api/ChatAPI';
-import type { Message, ChatState, ChatResponse } from '../types/chat.types';
+import type { Message, ChatState, ChatResponse, ChatTurnOptions, ConversationUpdate } from '../types/chat.types';
 import type { UnifiedAIPassport } from '../types/passport.types';
 
 interface UseChatReturn extends ChatState {
   sendMessage: (message: string, model?: string) => Promise<void>;
+  cancelStream: () => Promise<void>;
   clearMessages: () => void;
   setSelectedModel: (model: string) => void;
   loadChatHistory: (userDid: string) => Promise<void>;
   addWelcomeMessage: () => void;
+  loadConversations: (options?: { archived?: boolean; query?: string }) => Promise<void>;
+  /** 빈 화면으로 전환 - 첫 메시지를 보내면 백엔드가 대화를 만듦 */
+  newConversation: () => void;
+  openConversation: (conversationId: string) => Promise<void>;
+  updateConversation: (conversationId: string, changes: ConversationUpdate) => Promise<void>;
+  deleteConversation: (conversationId: string) => Promise<void>;
+  /** 현재 대화를 messageId까지 복사해 새 대화로 열기 */
+  forkConversation: (messageId: string, title?: string) => Promise<void>;
+  /** 사용자 메시지를 고쳐 다시 보냄 - 원래 메시지와 형제 가지가 됨 */
+  editMessage: (messageId: string, content: string, model?: string) => Promise<void>;
+  /** AI 응답을 같은(또는 다른) 모델로 다시 생성 - CUE는 처음 한 번만 채굴 */
+  regenerateMessage: (messageId: string, model?: string) => Promise<void>;
+  /** 형제 가지(message.branch.siblingIds) 중 하나로 전환 */
+  switchBranch: (messageId: string) => Promise<void>;
 }
 
 export const useChat = (
@@ -23,11 +38,15 @@ export const useChat = (
   const [state, setState] = useState<ChatState>({
     messages: [],
     isLoading: false,
-    selectedModel: 'gpt-4',
-    availableModels: ['gpt-4', 'claude-3', 'gemini-pro', 'mock-ai']
+    selectedModel: 'personalized-agent',
+    availableModels: [],
+    modelPrices: {},
+    conversationId: null,
+    conversations: []
   });
 
   const api = new ChatAPI();
+  const streamRef = useRef<{ controller: AbortController; streamId?: string } | null>(null);
 
   const sendMessage = useCallback(async (content: string, model?: string) => {
     const selectedModel = model || state.selectedModel;
@@ -37,9 +56,9 @@ export const useChat = (
       id: Date.now().toString(),
       content,
       type: 'user',
-      timestamp: new Date(),
-      cueTokensUsed: backendConnected ? Math.floor(Math.random() * 3) + 1 : undefined
+      timestamp: new Date()
     };
+    const aiMessageId = (Date.now() + 1).toString();
 
     setState(prev => ({
       ...prev,
@@ -51,8 +70,40 @@ export const useChat = (
       let response: ChatResponse;
 
       if (backendConnected) {
-        console.log('🤖 실제 AI 서비스 호출:', { content, selectedModel });
-        response = await api.sendChatMessage(content, selectedModel, passport);
+        console.log('🤖 실제 AI 스트리밍 호출:', { content, selectedModel });
+
+        // 빈 AI 메시지를 먼저 추가하고 토큰이 도착할 때마다 이어 붙임
+        setState(prev => ({
+          ...prev,
+          messages: [...prev.messages, {
+            id: aiMessageId,
+            content: '',
+            type: 'ai',
+            timestamp: new Date(),
+            streaming: true
+          }]
+        }));
+
+        const controller = new AbortController();
+        streamRef.current = { controller };
+
+        response = await api.streamChatMessage(content, selectedModel, {
+          signal: controller.signal,
+          onStart: (start) => {
+            if (streamRef.current?.controller === controller) {
+              streamRef.current.streamId = start.streamId;
+            }
+            setState(prev => ({ ...prev, conversationId: start.conversationId }));
+          },
+          onChunk: (chunk) => {
+            setState(prev => ({
+              ...prev,
+              messages: prev.messages.map(m =>
+                m.id === aiMessageId ? { ...m, content: m.content + chunk.text } : m
+              )
+            }));
+          }
+        }, { conversationId: state.conversationId || undefined });
       } else {
         console.log('🔧 Mock AI 응답 생성:', { content, selectedModel });
         // Mock 지연 시뮬레이션
@@ -67,13 +118,27 @@ export const useChat = (
         );
       }
 
-      // AI 응답 메시지 추가
+      // 정산된 CUE 비용을 사용자 메시지에 표시
+      const cueSpent = response.cueSpent;
+      if (cueSpent) {
+        setState(prev => ({
+          ...prev,
+          messages: prev.messages.map(m =>
+            m.id === userMessage.id ? { ...m, cueTokensUsed: cueSpent } : m
+          )
+        }));
+      }
+
+      // AI 응답 메시지 확정 (스트리밍이면 자리 표시 메시지를 교체)
       const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: aiMessageId,
         content: response.message,
         type: 'ai',
         timestamp: new Date(),
-        cueTokensEarned: Math.floor(Math.random() * 8) + 2,
+        cueTokensEarned: backendConnected ? response.cueEarned : Math.floor(Math.random() * 8) + 2,
+        streamStatus: response.streamStatus,
+        routing: response.routing,
+        context: response.context,
         usedPassportData: passport ? [
           '성격 프로필',
           '학습 패턴',
@@ -88,17 +153,25 @@ export const useChat = (
 
       setState(prev => ({
         ...prev,
-        messages: [...prev.messages, aiMessage],
+        messages: prev.messages.some(m => m.id === aiMessageId)
+          ? prev.messages.map(m => m.id === aiMessageId ? aiMessage : m)
+          : [...prev.messages, aiMessage],
+        conversationId: response.conversationId || prev.conversationId,
         isLoading: false
       }));
 
+      // 새 대화 제목/미리보기 반영
+      if (backendConnected && response.conversationId) {
+        api.listConversations().then(conversations => setState(prev => ({ ...prev, conversations })));
+      }
+
       console.log('✅ AI 응답 완료:', response);
     } catch (error: any) {
       console.error('❌ 채팅 메시지 전송 실패:', error);
       
-      // 에러 메시지 추가
+      // 에러 메시지 추가 (스트리밍 자리 표시 메시지는 제거)
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         content: `죄송합니다. 메시지 전송 중 오류가 발생했습니다: ${error.message}`,
         type: 'ai',
         timestamp: new Date()
@@ -106,11 +179,28 @@ export const useChat = (
 
       setState(prev => ({
         ...prev,
-        messages: [...prev.messages, errorMessage],
+        messages: [...prev.messages.filter(m => m.id !== aiMessageId), errorMessage],
         isLoading: false
       }));
+    } finally {
+      streamRef.current = null;
+    }
+  }, [state.selectedModel, state.conversationId, passport, backendConnected]);
+
+  /**
+   * 진행 중인 AI 응답 중단 - 서버 취소 요청, 실패하면 연결을 끊음
+   * 받은 부분까지는 서버에 저장됨
+   */
+  const cancelStream = useCallback(async () => {
+    const active = streamRef.current;
+    if (!active) return;
+
+    if (active.streamId && await api.cancelStream(active.streamId)) {
+      console.log('🛑 AI 스트림 취소됨:', active.streamId);
+      return;
     }
-  }, [state.selectedModel, passport, backendConnected]);
+    active.controller.abort();
+  }, []);
 
   const loadChatHistory = useCallback(async (userDid: string) => {
     if (!backendConnected) {
@@ -133,6 +223,178 @@ export const useChat = (
     }
   }, [backendConnected]);
 
+  // ============================================================================
+  // 🗂️ 대화 관리
+  // ============================================================================
+
+  const loadConversations = useCallback(async (options?: { archived?: boolean; query?: string }) => {
+    if (!backendConnected) return;
+
+    const conversations = await api.listConversations(options);
+    setState(prev => ({ ...prev, conversations }));
+  }, [backendConnected]);
+
+  const newConversation = useCallback(() => {
+    setState(prev => ({ ...prev, conversationId: null, messages: [] }));
+  }, []);
+
+  const openConversation = useCallback(async (conversationId: string) => {
+    try {
+      const { conversation, messages } = await api.getConversation(conversationId);
+      setState(prev => ({
+        ...prev,
+        conversationId: conversation.id,
+        messages,
+        selectedModel: conversation.model || prev.selectedModel
+      }));
+    } catch (error) {
+      console.error('❌ 대화 열기 실패:', error);
+    }
+  }, []);
+
+  const updateConversation = useCallback(async (conversationId: string, changes: ConversationUpdate) => {
+    try {
+      const updated = await api.updateConversation(conversationId, changes);
+      setState(prev => ({
+        ...prev,
+        // 보관 상태가 바뀌면 현재 목록(보관/일반)에서 빠짐
+        conversations: changes.archived === undefined
+          ? prev.conversations.map(c => c.id === updated.id ? updated : c)
+          : prev.conversations.filter(c => c.id !== updated.id)
+      }));
+    } catch (error) {
+      console.error('❌ 대화 수정 실패:', error);
+    }
+  }, []);
+
+  const deleteConversation = useCallback(async (conversationId: string) => {
+    if (!await api.deleteConversation(conversationId)) {
+      console.error('❌ 대화 삭제 실패:', conversationId);
+      return;
+    }
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.filter(c => c.id !== conversationId),
+      ...(prev.conversationId === conversationId ? { conversationId: null, messages: [] } : {})
+    }));
+  }, []);
+
+  const forkConversation = useCallback(async (messageId: string, title?: string) => {
+    if (!state.conversationId) return;
+
+    try {
+      const { conversation, messages } = await api.forkConversation(state.conversationId, messageId, title);
+      setState(prev => ({
+        ...prev,
+        conversationId: conversation.id,
+        messages,
+        conversations: [conversation, ...prev.conversations]
+      }));
+    } catch (error) {
+      console.error('❌ 대화 분기 실패:', error);
+    }
+  }, [state.conversationId]);
+
+  // ============================================================================
+  // 🌳 편집 / 재생성 / 가지 전환 (백엔드 대화 트리)
+  // ============================================================================
+
+  /**
+   * 분기 지점 앞까지 남기고 새 응답을 스트리밍한 뒤 서버의 활성 경로(가지 정보 포함)로 다시 불러옴
+   */
+  const streamBranch = useCallback(async (kept: Message[], content: string, model: string, turn: ChatTurnOptions) => {
+    const aiMessageId = Date.now().toString();
+    const pending: Message[] = turn.editOf
+      ? [{ id: aiMessageId + '-user', content, type: 'user', timestamp: new Date() }]
+      : [];
+
+    setState(prev => ({
+      ...prev,
+      messages: [...kept, ...pending, { id: aiMessageId, content: '', type: 'ai', timestamp: new Date(), streaming: true }],
+      isLoading: true
+    }));
+
+    const controller = new AbortController();
+    streamRef.current = { controller };
+    let failure: string | null = null;
+
+    try {
+      await api.streamChatMessage(content, model, {
+        signal: controller.signal,
+        onStart: (start) => {
+          if (streamRef.current?.controller === controller) {
+            streamRef.current.streamId = start.streamId;
+          }
+        },
+        onChunk: (chunk) => {
+          setState(prev => ({
+            ...prev,
+            messages: prev.messages.map(m =>
+              m.id === aiMessageId ? { ...m, content: m.content + chunk.text } : m
+            )
+          }));
+        }
+      }, turn);
+    } catch (error: any) {
+      console.error('❌ 편집/재생성 실패:', error);
+      failure = error.message;
+    } finally {
+      streamRef.current = null;
+    }
+
+    // 실패해도 서버에 저장된 상태로 맞춤
+    let messages: Message[] = kept;
+    try {
+      messages = (await api.getConversation(turn.conversationId!)).messages;
+    } catch (error) {
+      console.error('❌ 대화 다시 불러오기 실패:', error);
+    }
+    if (failure) {
+      messages = [...messages, {
+        id: (Date.now() + 2).toString(),
+        content: `죄송합니다. 메시지 전송 중 오류가 발생했습니다: ${failure}`,
+        type: 'ai',
+        timestamp: new Date()
+      }];
+    }
+    setState(prev => ({ ...prev, messages, isLoading: false }));
+  }, []);
+
+  const editMessage = useCallback(async (messageId: string, content: string, model?: string) => {
+    const index = state.messages.findIndex(m => m.id === messageId && m.type === 'user');
+    if (!backendConnected || !state.conversationId || index < 0 || !content.trim()) return;
+
+    await streamBranch(state.messages.slice(0, index), content.trim(), model || state.selectedModel, {
+      conversationId: state.conversationId,
+      editOf: messageId
+    });
+  }, [state.messages, state.conversationId, state.selectedModel, backendConnected, streamBranch]);
+
+  const regenerateMessage = useCallback(async (messageId: string, model?: string) => {
+    const index = state.messages.findIndex(m => m.id === messageId && m.type === 'ai');
+    if (!backendConnected || !state.conversationId || index < 0) return;
+
+    await streamBranch(state.messages.slice(0, index), '', model || state.selectedModel, {
+      conversationId: state.conversationId,
+      regenerate: messageId
+    });
+  }, [state.messages, state.conversationId, state.selectedModel, backendConnected, streamBranch]);
+
+  const switchBranch = useCallback(async (messageId: string) => {
+    if (!state.conversationId) return;
+
+    try {
+      const { conversation, messages } = await api.switchBranch(state.conversationId, messageId);
+      setState(prev => ({
+        ...prev,
+        messages,
+        conversations: prev.conversations.map(c => c.id === conversation.id ? conversation : c)
+      }));
+    } catch (error) {
+      console.error('❌ 가지 전환 실패:', error);
+    }
+  }, [state.conversationId]);
+
   const addWelcomeMessage = useCallback(() => {
     const welcomeMessage: Message = {
       id: 'welcome-' + Date.now(),
@@ -211,6 +473,18 @@ export const useChat = (
           availableModels: models
         }));
       });
+      api.getModelPricing().then(modelPrices => {
+        setState(prev => ({
+          ...prev,
+          modelPrices
+        }));
+      });
+      api.listConversations().then(conversations => {
+        setState(prev => ({
+          ...prev,
+          conversations
+        }));
+      });
     }
   }, [backendConnected]);
 
@@ -224,9 +498,19 @@ export const useChat = (
   return {
     ...state,
     sendMessage,
+    cancelStream,
     clearMessages,
     setSelectedModel,
     loadChatHistory,
-    addWelcomeMessage
+    addWelcomeMessage,
+    loadConversations,
+    newConversation,
+    openConversation,
+    updateConversation,
+    deleteConversation,
+    forkConversation,
+    editMessage,
+    regenerateMessage,
+    switchBranch
   };
 };
\ No newline at end of file
@@ -24,6 +24,7 @@ interface UseCueState {
 interface UseCueReturn extends UseCueState {
   loadBalance: (userDid: string) => Promise<void>;
   loadHistory: (userDid: string) => Promise<void>;
+  loadMiningState: (userDid: string) => Promise<void>;
   mineCue: (data: any) => Promise<CueMiningResult>;
   spendCue: (userDid: string, amount: number, purpose: string) => Promise<void>;
   toggleMining: () => void;
@@ -122,6 +123,24 @@ export const useCue = (
     }
   }, [backendConnected]);
 
+  const loadMiningState = useCallback(async (did: string) => {
+    // Mock 모드에서는 아래 시뮬레이션 상태를 그대로 사용
+    if (!backendConnected) return;
+
+    try {
+      const miningState = await api.getMiningState(did);
+
+      setState(prev => ({
+        ...prev,
+        miningState
+      }));
+
+      console.log('✅ 마이닝 상태 로드 완료:', miningState);
+    } catch (error: any) {
+      console.error('❌ 마이닝 상태 로드 실패:', error);
+    }
+  }, [backendConnected]);
+
   const mineCue = useCallback(async (miningData: any): Promise<CueMiningResult> => {
     setState(prev => ({ ...prev, loading: true, error: null }));
 
@@ -154,6 +173,11 @@ export const useCue = (
         setState(prev => ({ ...prev, loading: false }));
       }
 
+      if (backendConnected && userDid) {
+        // 서버에서 한도/쿨다운이 반영된 상태로 갱신
+        loadMiningState(userDid);
+      }
+
       console.log('✅ CUE 마이닝 완료:', result);
       return result;
     } catch (error: any) {
@@ -168,7 +192,7 @@ export const useCue = (
       console.error('❌ CUE 마이닝 실패:', error);
       throw error;
     }
-  }, [backendConnected, state.balance, userDid]);
+  }, [backendConnected, state.balance, userDid, loadMiningState]);
 
   const spendCue = useCallback(async (did: string, amount: number, purpose: string) => {
     if (!state.balance || state.balance.available < amount) {
@@ -233,8 +257,9 @@ export const useCue = (
     if (userDid) {
       loadBalance(userDid);
       loadHistory(userDid);
+      loadMiningState(userDid);
     }
-  }, [userDid, loadBalance, loadHistory]);
+  }, [userDid, loadBalance, loadHistory, loadMiningState]);
 
   // 주기적 잔액 업데이트 (1분마다)
   useEffect(() => {
@@ -247,9 +272,9 @@ export const useCue = (
     return () => clearInterval(interval);
   }, [userDid, backendConnected, loadBalance]);
 
-  // 마이닝 상태 시뮬레이션
+  // 마이닝 상태 시뮬레이션 (Mock 모드 전용 - 실제 연속 일수는 서버가 관리)
   useEffect(() => {
-    if (state.miningState.isActive) {
+    if (!backendConnected && state.miningState.isActive) {
       const interval = setInterval(() => {
         setState(prev => ({
           ...prev,
@@ -263,12 +288,13 @@ export const useCue = (
 
       return () => clearInterval(interval);
     }
-  }, [state.miningState.isActive]);
+  }, [backendConnected, state.miningState.isActive]);
 
   return {
     ...state,
     loadBalance,
     loadHistory,
+    loadMiningState,
     mineCue,
     spendCue,
     toggleMining,
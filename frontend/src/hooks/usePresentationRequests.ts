@@ -0,0 +1,74 @@
+// ============================================================================
+// 📁 src/hooks/usePresentationRequests.ts
+// 🤝 선택적 공개 제시 요청 관리 훅
+// ============================================================================
+
+import { useState, useCallback, useMemo } from 'react';
+import { PassportAPI } from '../services/api/PassportAPI';
+import type { PresentationRequest } from '../types/passport.types';
+
+interface UsePresentationRequestsReturn {
+  requests: PresentationRequest[];
+  isLoading: boolean;
+  error?: string;
+  loadRequests: () => Promise<void>;
+  approveRequest: (requestId: string, claims: string[]) => Promise<void>;
+  rejectRequest: (requestId: string) => Promise<void>;
+}
+
+export const usePresentationRequests = (backendConnected: boolean = false): UsePresentationRequestsReturn => {
+  const [requests, setRequests] = useState<PresentationRequest[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | undefined>(undefined);
+
+  const api = useMemo(() => new PassportAPI(), []);
+
+  const loadRequests = useCallback(async () => {
+    if (!backendConnected) {
+      setRequests([]);
+      return;
+    }
+
+    setIsLoading(true);
+    setError(undefined);
+    try {
+      setRequests(await api.getPresentationRequests());
+    } catch (error: any) {
+      console.error('❌ 제시 요청 조회 실패:', error);
+      setError(error.message || '제시 요청을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [api, backendConnected]);
+
+  const runRequestAction = useCallback(async (action: () => Promise<unknown>) => {
+    setError(undefined);
+    try {
+      await action();
+      setRequests(await api.getPresentationRequests());
+    } catch (error: any) {
+      console.error('❌ 제시 요청 처리 실패:', error);
+      setError(error.message || '제시 요청 처리에 실패했습니다.');
+      throw error;
+    }
+  }, [api]);
+
+  const approveRequest = useCallback(
+    (requestId: string, claims: string[]) => runRequestAction(() => api.approvePresentationRequest(requestId, claims)),
+    [api, runRequestAction]
+  );
+
+  const rejectRequest = useCallback(
+    (requestId: string) => runRequestAction(() => api.rejectPresentationRequest(requestId)),
+    [api, runRequestAction]
+  );
+
+  return {
+    requests,
+    isLoading,
+    error,
+    loadRequests,
+    approveRequest,
+    rejectRequest
+  };
+};
@@ -3,19 +3,28 @@
 // 🔐 WebAuthn 인증 관리 훅
 // ============================================================================
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo } from 'react';
 import { WebAuthnAPI } from '../services/api/WebAuthnAPI';
 import type { 
   AuthState, 
   RegistrationStep, 
   WebAuthnRegistrationResult, 
-  WebAuthnLoginResult 
+  WebAuthnLoginResult,
+  PasskeyDevice
 } from '../types/auth.types';
 
 interface UseWebAuthnReturn extends AuthState {
   register: (userEmail?: string) => Promise<WebAuthnRegistrationResult>;
   login: () => Promise<WebAuthnLoginResult>;
   clearError: () => void;
+  // 패스키(기기) 관리
+  passkeys: PasskeyDevice[];
+  isLoadingPasskeys: boolean;
+  passkeyError?: string;
+  loadPasskeys: () => Promise<void>;
+  addPasskey: (name?: string) => Promise<void>;
+  renamePasskey: (credentialId: string, name: string) => Promise<void>;
+  revokePasskey: (credentialId: string) => Promise<void>;
 }
 
 export const useWebAuthn = (backendConnected: boolean = false): UseWebAuthnReturn => {
@@ -27,7 +36,11 @@ export const useWebAuthn = (backendConnected: boolean = false): UseWebAuthnRetur
     user: undefined
   });
 
-  const api = new WebAuthnAPI();
+  const [passkeys, setPasskeys] = useState<PasskeyDevice[]>([]);
+  const [isLoadingPasskeys, setIsLoadingPasskeys] = useState(false);
+  const [passkeyError, setPasskeyError] = useState<string | undefined>(undefined);
+
+  const api = useMemo(() => new WebAuthnAPI(), []);
 
   const register = useCallback(async (userEmail?: string): Promise<WebAuthnRegistrationResult> => {
     setState(prev => ({
@@ -82,7 +95,7 @@ export const useWebAuthn = (backendConnected: boolean = false): UseWebAuthnRetur
       console.error('❌ WebAuthn 등록 실패:', error);
       throw error;
     }
-  }, [backendConnected]);
+  }, [api, backendConnected]);
 
   const login = useCallback(async (): Promise<WebAuthnLoginResult> => {
     setState(prev => ({
@@ -123,7 +136,7 @@ export const useWebAuthn = (backendConnected: boolean = false): UseWebAuthnRetur
       console.error('❌ WebAuthn 로그인 실패:', error);
       throw error;
     }
-  }, [backendConnected]);
+  }, [api, backendConnected]);
 
   const clearError = useCallback(() => {
     setState(prev => ({
@@ -132,10 +145,66 @@ export const useWebAuthn = (backendConnected: boolean = false): UseWebAuthnRetur
     }));
   }, []);
 
+  // ============================================================================
+  // 📱 패스키(기기) 관리
+  // ============================================================================
+
+  const loadPasskeys = useCallback(async () => {
+    if (!backendConnected) {
+      setPasskeys([]);
+      return;
+    }
+
+    setIsLoadingPasskeys(true);
+    setPasskeyError(undefined);
+    try {
+      setPasskeys(await api.listPasskeys());
+    } catch (error: any) {
+      console.error('❌ 패스키 목록 조회 실패:', error);
+      setPasskeyError(error.message || '패스키 목록을 불러오지 못했습니다.');
+    } finally {
+      setIsLoadingPasskeys(false);
+    }
+  }, [api, backendConnected]);
+
+  const runPasskeyAction = useCallback(async (action: () => Promise<unknown>) => {
+    setPasskeyError(undefined);
+    try {
+      await action();
+      setPasskeys(await api.listPasskeys());
+    } catch (error: any) {
+      console.error('❌ 패스키 작업 실패:', error);
+      setPasskeyError(error.message || '패스키 작업에 실패했습니다.');
+      throw error;
+    }
+  }, [api]);
+
+  const addPasskey = useCallback(
+    (name?: string) => runPasskeyAction(() => api.addPasskey(name)),
+    [api, runPasskeyAction]
+  );
+
+  const renamePasskey = useCallback(
+    (credentialId: string, name: string) => runPasskeyAction(() => api.renamePasskey(credentialId, name)),
+    [api, runPasskeyAction]
+  );
+
+  const revokePasskey = useCallback(
+    (credentialId: string) => runPasskeyAction(() => api.revokePasskey(credentialId)),
+    [api, runPasskeyAction]
+  );
+
   return {
     ...state,
     register,
     login,
-    clearError
+    clearError,
+    passkeys,
+    isLoadingPasskeys,
+    passkeyError,
+    loadPasskeys,
+    addPasskey,
+    renamePasskey,
+    revokePasskey
   };
 };
\ No newline at end of file
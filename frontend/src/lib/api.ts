@@ -374,7 +374,7 @@ export class Final0626APIClient {
   // CUE 잔액 조회
   async getCUEBalance(userDid: string): Promise<number> {
     try {
-      const response = await this.request<CUEBalance>(`/api/cue/balance/${userDid}`);
+      const response = await this.request<CUEBalance>(`/api/cue/${userDid}/balance`);
       
       if (!response.success) {
         throw new Error(response.error || 'Failed to get CUE balance');
@@ -3,6 +3,8 @@
 // 🔐 암호화 유틸리티 함수들
 // ============================================================================
 
+import type { CueReceiptProof, CueReceiptSigningKey } from '../types/cue.types';
+
 /**
  * 간단한 해시 함수 (실제로는 더 강력한 알고리즘 사용 권장)
  */
@@ -344,4 +346,120 @@ export const maskSensitiveData = (data: string, visibleChars: number = 4): strin
   const middle = '*'.repeat(data.length - visibleChars * 2);
   
   return start + middle + end;
-};
\ No newline at end of file
+};
+// ============================================================================
+// 🧾 CUE 마이닝 영수증 검증 (백엔드 settlement/merkle.ts, CueReceiptService.ts와 같은 규칙)
+// 리프 = sha256(0x00 || JSON 배열), 부모 = sha256(0x01 || min(a,b) || max(a,b))
+// 루트 서명 = ECDSA P-256 / SHA-256, 원문 JSON [rootVersion, date, root, leafCount]
+// ============================================================================
+
+export interface CueReceiptVerification {
+  valid: boolean;
+  /** 리프 원문으로 다시 계산한 해시가 cueHash와 같은지 */
+  leafMatches: boolean;
+  /** 증명 경로를 따라 계산한 루트가 서명된 루트와 같은지 */
+  rootMatches: boolean;
+  /** 고정한 공개키로 서명을 확인했는지 (영수증에 포함된 키는 사용하지 않음) */
+  signatureValid: boolean;
+  /** 루트의 keyId가 고정한 서명 키와 같은지 */
+  keyTrusted: boolean;
+}
+
+const RECEIPT_ROOT_VERSION = 'cue-receipt-root-v1';
+
+const hexToBytes = (hex: string): Uint8Array => {
+  const clean = hex.startsWith('0x') ? hex.slice(2) : hex;
+  const bytes = new Uint8Array(clean.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+  }
+  return bytes;
+};
+
+const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  parts.forEach(part => {
+    result.set(part, offset);
+    offset += part.length;
+  });
+  return result;
+};
+
+const sha256Hex = async (data: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await window.crypto.subtle.digest('SHA-256', data));
+  let hex = '0x';
+  for (let i = 0; i < digest.length; i++) {
+    hex += ('0' + digest[i].toString(16)).slice(-2);
+  }
+  return hex;
+};
+
+/**
+ * 거래 포함 증명 검증 - 서버 대시보드 없이 브라우저에서 확인
+ * trustedKey: 미리 고정했거나 GET /api/cue/receipts/signing-key로 받은 서명 키
+ */
+export const verifyCueReceipt = async (
+  receipt: CueReceiptProof,
+  trustedKey: CueReceiptSigningKey
+): Promise<CueReceiptVerification> => {
+  const result: CueReceiptVerification = {
+    valid: false,
+    leafMatches: false,
+    rootMatches: false,
+    signatureValid: false,
+    keyTrusted: !!trustedKey?.keyId && trustedKey.keyId === receipt.root.keyId
+  };
+
+  if (!result.keyTrusted || !isWebCryptoSupported()) {
+    return result;
+  }
+
+  try {
+    const encoder = new TextEncoder();
+    const { leaf, root } = receipt;
+
+    const preimage = JSON.stringify([
+      receipt.leafVersion,
+      leaf.entryId,
+      leaf.did,
+      leaf.amount.toFixed(2),
+      leaf.type,
+      leaf.source || '',
+      new Date(leaf.createdAt).toISOString()
+    ]);
+    const leafHash = await sha256Hex(concatBytes(new Uint8Array([0]), encoder.encode(preimage)));
+    result.leafMatches = leafHash === receipt.cueHash.toLowerCase();
+
+    let computed = leafHash;
+    for (const sibling of receipt.proof) {
+      const [low, high] = computed < sibling.toLowerCase() ? [computed, sibling] : [sibling, computed];
+      computed = await sha256Hex(concatBytes(new Uint8Array([1]), hexToBytes(low), hexToBytes(high)));
+    }
+    result.rootMatches = computed === root.root.toLowerCase();
+
+    const publicKey = await window.crypto.subtle.importKey(
+      'jwk',
+      { kty: trustedKey.publicKey.kty, crv: trustedKey.publicKey.crv, x: trustedKey.publicKey.x, y: trustedKey.publicKey.y },
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const signature = atob(root.signature);
+    const signatureBytes = new Uint8Array(signature.length);
+    for (let i = 0; i < signature.length; i++) {
+      signatureBytes[i] = signature.charCodeAt(i);
+    }
+    result.signatureValid = await window.crypto.subtle.verify(
+      { name: 'ECDSA', hash: { name: 'SHA-256' } },
+      publicKey,
+      signatureBytes,
+      encoder.encode(JSON.stringify([RECEIPT_ROOT_VERSION, root.date, root.root, root.leafCount]))
+    );
+  } catch (error) {
+    console.error('CUE 영수증 검증 실패:', error);
+  }
+
+  result.valid = result.leafMatches && result.rootMatches && result.signatureValid && result.keyTrusted;
+  return result;
+};
@@ -107,24 +107,14 @@ export const translateWebAuthnError = (error: any): string => {
 /**
  * DID 생성 (WebAuthn 크리덴셜 기반)
  */
-export const generateDIDFromCredential = (credentialId: string): string => {
-  // 간단한 DID 생성 (실제로는 더 복잡한 알고리즘 사용)
-  const timestamp = Date.now().toString(36);
-  const shortId = credentialId.substring(0, 8);
-  return `did:webauthn:${shortId}-${timestamp}`;
-};
-
-/**
- * 지갑 주소 생성 (WebAuthn 크리덴셜 기반)
- */
-export const generateWalletAddress = (credentialId: string): string => {
-  // 간단한 이더리움 스타일 주소 생성 (실제로는 암호화 키 기반)
-  const hash = Array.from(credentialId)
-    .map(char => char.charCodeAt(0).toString(16))
-    .join('')
-    .substring(0, 40);
-  
-  return `0x${hash.padEnd(40, '0')}`;
+export const generateDIDFromCredential = async (credentialId: string): Promise<string> => {
+  // 서버(backend/src/services/did/DIDResolver.ts deriveFinal0626DID)와 동일한 규칙:
+  // did:final0626:<sha256(credentialId) hex 앞 32자>
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(credentialId));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `did:final0626:${hex.substring(0, 32)}`;
 };
 
 /**
@@ -9,6 +9,7 @@ export class BackendAPIClient {
   private baseURL: string;
   private websocket: WebSocket | null = null;
   private listeners: Map<string, (data: any) => void> = new Map();
+  private refreshPromise: Promise<boolean> | null = null;
 
   constructor(baseURL = 'http://localhost:3001') {
     this.baseURL = baseURL;
@@ -39,12 +40,32 @@ export class BackendAPIClient {
     return null;
   }
   
+  /**
+   * 리프레시 토큰 저장 (서버에서 회전될 때마다 교체)
+   */
+  setRefreshToken(token: string): void {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('cue_refresh_token', token);
+    }
+  }
+  
+  /**
+   * 리프레시 토큰 조회
+   */
+  getRefreshToken(): string | null {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('cue_refresh_token');
+    }
+    return null;
+  }
+  
   /**
    * 세션 토큰 삭제
    */
   clearSessionToken(): void {
     if (typeof window !== 'undefined') {
       localStorage.removeItem('cue_session_token');
+      localStorage.removeItem('cue_refresh_token');
       // 호환성을 위해 기존 세션 ID도 삭제
       localStorage.removeItem('cue_session_id');
       console.log('🗑️ 세션 토큰 삭제됨');
@@ -105,10 +126,52 @@ export class BackendAPIClient {
   // 🔧 HTTP 요청 메서드 (인증 헤더 자동 포함)
   // ============================================================================
 
+  /**
+   * 액세스 토큰 갱신 (리프레시 토큰 회전)
+   * 동시에 여러 요청이 401을 받아도 갱신은 한 번만 수행 - 같은 리프레시 토큰을
+   * 두 번 보내면 서버가 재사용으로 판단해 세션을 폐기하기 때문
+   */
+  async refreshAccessToken(): Promise<boolean> {
+    const refreshToken = this.getRefreshToken();
+    if (!refreshToken) return false;
+
+    if (!this.refreshPromise) {
+      this.refreshPromise = (async () => {
+        try {
+          const response = await fetch(`${this.baseURL}/api/auth/token/refresh`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ refreshToken }),
+            mode: 'cors',
+            credentials: 'include'
+          });
+
+          const data = await response.json().catch(() => ({}));
+          if (!response.ok || !data.sessionToken || !data.refreshToken) {
+            console.log('❌ 토큰 갱신 실패:', data.code || response.status);
+            return false;
+          }
+
+          this.setSessionToken(data.sessionToken);
+          this.setRefreshToken(data.refreshToken);
+          console.log('🔄 액세스 토큰 갱신됨');
+          return true;
+        } catch (error: any) {
+          console.error('💥 토큰 갱신 오류:', error.message);
+          return false;
+        } finally {
+          this.refreshPromise = null;
+        }
+      })();
+    }
+
+    return this.refreshPromise;
+  }
+
   /**
    * 공통 요청 메서드
    */
-  private async request(endpoint: string, options: RequestInit = {}): Promise<any> {
+  private async request(endpoint: string, options: RequestInit = {}, retried = false): Promise<any> {
     const url = `${this.baseURL}${endpoint}`;
     
     try {
@@ -126,8 +189,11 @@ export class BackendAPIClient {
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({}));
         
-        // 401 에러 시 세션 토큰 삭제
+        // 401 에러 시 한 번만 토큰 갱신 후 재시도, 실패하면 세션 토큰 삭제
         if (response.status === 401) {
+          if (!retried && await this.refreshAccessToken()) {
+            return this.request(endpoint, options, true);
+          }
           this.clearSessionToken();
         }
         
@@ -143,6 +209,73 @@ export class BackendAPIClient {
     }
   }
 
+  /**
+   * SSE 스트리밍 POST 요청 - 이벤트마다 onEvent 호출, 스트림이 끝나면 resolve
+   * Mock 폴백 없음 (호출 측에서 일반 요청으로 대체)
+   */
+  protected async stream(
+    endpoint: string,
+    data: any,
+    onEvent: (event: string, payload: any) => void,
+    signal?: AbortSignal,
+    retried = false
+  ): Promise<void> {
+    const response = await fetch(`${this.baseURL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+        ...this.getAuthHeaders()
+      },
+      body: JSON.stringify(data),
+      mode: 'cors',
+      credentials: 'include',
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+
+      if (response.status === 401) {
+        if (!retried && await this.refreshAccessToken()) {
+          return this.stream(endpoint, data, onEvent, signal, true);
+        }
+        this.clearSessionToken();
+      }
+
+      const error: any = new Error(errorData.message || errorData.error || `HTTP ${response.status}`);
+      error.status = response.status;
+      error.code = errorData.code;
+      throw error;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      // 이벤트는 빈 줄로 구분 (event: / data: 줄, ':'로 시작하면 heartbeat)
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary >= 0) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let event = 'message';
+        let payload = '';
+        block.split('\n').forEach(line => {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) payload += line.slice(5).trim();
+        });
+        if (payload) onEvent(event, JSON.parse(payload));
+      }
+    }
+  }
+
   /**
    * Mock 응답 생성
    */
@@ -297,6 +430,17 @@ export class BackendAPIClient {
     });
   }
 
+  /**
+   * PATCH 요청
+   */
+  async patch(endpoint: string, data?: any): Promise<any> {
+    console.log(`PATCH ${this.baseURL}${endpoint}`, data);
+    return this.request(endpoint, { 
+      method: 'PATCH',
+      body: data ? JSON.stringify(data) : undefined
+    });
+  }
+
   /**
    * DELETE 요청
    */
@@ -317,15 +461,16 @@ export class BackendAPIClient {
     
     try {
       const sessionToken = this.getSessionToken();
+      const refreshToken = this.getRefreshToken();
       
-      if (!sessionToken) {
+      if (!sessionToken && !refreshToken) {
         console.log('❌ 저장된 세션 토큰 없음');
         return null;
       }
 
       console.log('🔍 저장된 세션 토큰 발견');
 
-      const response = await this.post('/api/auth/session/restore', { sessionToken });
+      const response = await this.post('/api/auth/session/restore', { sessionToken, refreshToken });
 
       if (!response.success) {
         console.log('❌ 세션 복원 실패, 토큰 삭제');
@@ -333,6 +478,12 @@ export class BackendAPIClient {
         return null;
       }
 
+      // 액세스 토큰이 만료되어 서버가 새 토큰을 발급한 경우
+      if (response.sessionToken && response.refreshToken) {
+        this.setSessionToken(response.sessionToken);
+        this.setRefreshToken(response.refreshToken);
+      }
+
       console.log('✅ 세션 복원 성공!', {
         username: response.user?.username,
         cueBalance: response.user?.cueBalance
@@ -355,11 +506,12 @@ export class BackendAPIClient {
     
     try {
       const sessionToken = this.getSessionToken();
+      const refreshToken = this.getRefreshToken();
       
-      if (sessionToken) {
+      if (sessionToken || refreshToken) {
         console.log('🗑️ 서버 세션 무효화');
         
-        await this.post('/api/auth/logout', { sessionToken });
+        await this.post('/api/auth/logout', { sessionToken, refreshToken });
       }
 
       // 로컬 세션 토큰 삭제
@@ -376,6 +528,106 @@ export class BackendAPIClient {
     }
   }
 
+  /**
+   * 활성 세션(로그인된 기기) 목록 조회
+   */
+  async getActiveSessions(): Promise<any[]> {
+    const response = await this.get('/api/auth/sessions');
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '세션 목록을 불러오지 못했습니다.');
+    }
+    return response.sessions;
+  }
+
+  /**
+   * 모든 기기에서 로그아웃 (keepCurrent가 true이면 현재 기기는 유지)
+   */
+  async logoutEverywhere(keepCurrent = false): Promise<{ success: boolean; revokedCount?: number; error?: string }> {
+    console.log('🔧 === 전체 로그아웃 처리 ===');
+    
+    try {
+      const response = await this.post('/api/auth/logout-all', { keepCurrent });
+      if (response.mock || !response.success) {
+        throw new Error(response.error || '전체 로그아웃에 실패했습니다.');
+      }
+
+      if (!keepCurrent) {
+        this.clearSessionToken();
+      }
+
+      return { success: true, revokedCount: response.revokedCount };
+    } catch (error: any) {
+      console.error('💥 전체 로그아웃 오류:', error);
+      return { success: false, error: error.message };
+    }
+  }
+
+  /**
+   * 내 지갑 주소 조회 (서버에서 결정적으로 도출된 EIP-55 주소)
+   */
+  async getWallet(): Promise<{ address: string; did: string; chain: string }> {
+    const response = await this.get('/api/wallet');
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '지갑 정보를 불러오지 못했습니다.');
+    }
+    return response.wallet;
+  }
+
+  /**
+   * 패스포트 소유 증명 (DID ↔ 지갑 주소 EIP-191 서명)
+   */
+  async requestOwnershipProof(nonce?: string): Promise<any> {
+    const response = await this.post('/api/wallet/ownership-proof', nonce ? { nonce } : {});
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '소유 증명 생성에 실패했습니다.');
+    }
+    return response.proof;
+  }
+
+  /**
+   * 소유 증명 검증 (공개 API)
+   */
+  async verifyOwnershipProof(proof: any): Promise<{ valid: boolean; signatureValid: boolean; addressMatches: boolean }> {
+    const response = await this.post('/api/wallet/verify', { proof });
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '소유 증명 검증에 실패했습니다.');
+    }
+    return response;
+  }
+
+  /**
+   * AI Passport 속성 VC 발급 요청 (claims 미지정 시 전체 속성)
+   */
+  async requestCredential(claims?: string[], expiresInDays?: number): Promise<any> {
+    const response = await this.post('/api/vc/credentials', { claims, expiresInDays });
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '자격증명 발급에 실패했습니다.');
+    }
+    return response.credential;
+  }
+
+  /**
+   * 내 VC 목록 조회
+   */
+  async getCredentials(): Promise<any[]> {
+    const response = await this.get('/api/vc/credentials');
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '자격증명 목록을 불러오지 못했습니다.');
+    }
+    return response.credentials;
+  }
+
+  /**
+   * VC 폐기 (상태 목록에 반영되어 제3자 검증 시 무효 처리)
+   */
+  async revokeCredential(credentialId: string, reason?: string): Promise<any> {
+    const response = await this.post(`/api/vc/credentials/${encodeURIComponent(credentialId)}/revoke`, { reason });
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '자격증명 폐기에 실패했습니다.');
+    }
+    return response.credential;
+  }
+
   /**
    * 백엔드 연결 상태 확인
    */
@@ -4,34 +4,126 @@
 // ============================================================================
 
 import { BackendAPIClient } from './BackendAPIClient';
-import type { ChatResponse } from '../../types/chat.types';
+import type {
+  AIModelInfo,
+  ChatResponse,
+  ChatStreamHandlers,
+  ChatTurnOptions,
+  Conversation,
+  ConversationDetail,
+  ConversationUpdate,
+  Message
+} from '../../types/chat.types';
 import type { UnifiedAIPassport } from '../../types/passport.types';
 
 export class ChatAPI extends BackendAPIClient {
   /**
-   * AI 채팅 메시지 전송
+   * AI 채팅 메시지 전송 (turn.editOf / turn.regenerate로 편집·재생성)
    */
   async sendChatMessage(
     message: string,
     model: string,
-    passportData?: UnifiedAIPassport
+    passportData?: UnifiedAIPassport,
+    turn: ChatTurnOptions = {}
   ): Promise<ChatResponse> {
     try {
       const response = await this.post('/api/ai/chat', {
         message,
         model,
+        ...turn,
         passportData,
         userId: passportData?.did || 'anonymous',
         timestamp: new Date().toISOString(),
       });
 
-      return response;
+      // 라우트마다 응답 형태가 달라 ChatResponse로 정규화
+      const aiMessage = response.message;
+      return {
+        message: typeof aiMessage === 'string' ? aiMessage : aiMessage?.content ?? response.response ?? '',
+        model: aiMessage?.model ?? response.model ?? model,
+        tokensUsed: aiMessage?.tokensUsed ?? response.tokensUsed,
+        cueEarned: aiMessage?.cueTokensEarned ?? response.cueReward,
+        cueSpent: aiMessage?.cueSpent ?? response.cueSpent ?? 0,
+        processingTime: aiMessage?.responseTimeMs,
+        conversationId: aiMessage?.conversationId,
+        routing: aiMessage?.routing,
+        context: aiMessage?.context
+      };
     } catch (error) {
       console.error('채팅 메시지 전송 실패:', error);
       throw error;
     }
   }
 
+  /**
+   * AI 채팅 스트리밍 (SSE) - 토큰이 도착할 때마다 onChunk 호출
+   * 취소/연결 끊김이면 받은 부분까지의 응답을 반환
+   * 재생성이면 message는 비워도 됨 (기존 사용자 메시지 사용)
+   */
+  async streamChatMessage(
+    message: string,
+    model: string,
+    handlers: ChatStreamHandlers = {},
+    turn: ChatTurnOptions = {}
+  ): Promise<ChatResponse> {
+    let content = '';
+    let final: any = null;
+    let startedConversationId: string | undefined;
+
+    try {
+      await this.stream('/api/ai/chat/stream', { message, model, ...turn }, (event, payload) => {
+        if (event === 'start') {
+          startedConversationId = payload.conversationId;
+          handlers.onStart?.(payload);
+        }
+        else if (event === 'chunk') {
+          content += payload.text;
+          handlers.onChunk?.(payload);
+        } else if (event === 'done' || event === 'error') {
+          final = payload;
+        }
+      }, handlers.signal);
+    } catch (error: any) {
+      // 사용자가 연결을 끊은 경우 - 서버가 부분 응답을 저장함
+      if (error?.name !== 'AbortError') {
+        console.error('채팅 스트리밍 실패:', error);
+        throw error;
+      }
+    }
+
+    const aiMessage = final?.message;
+    if (final?.status === 'failed' && !aiMessage) {
+      throw new Error(final.error || 'AI 응답 생성 실패');
+    }
+
+    return {
+      message: aiMessage?.content ?? content,
+      model: aiMessage?.model ?? model,
+      tokensUsed: aiMessage?.tokensUsed,
+      cueEarned: aiMessage?.cueTokensEarned,
+      cueSpent: aiMessage?.cueSpent ?? 0,
+      processingTime: aiMessage?.responseTimeMs,
+      messageId: aiMessage?.id,
+      conversationId: aiMessage?.conversationId ?? startedConversationId,
+      streamStatus: final?.status ?? 'cancelled',
+      routing: aiMessage?.routing ?? undefined,
+      context: aiMessage?.context ?? undefined
+    };
+  }
+
+  /**
+   * 진행 중인 스트림 취소 요청
+   */
+  async cancelStream(streamId: string): Promise<boolean> {
+    try {
+      const response = await this.post(`/api/ai/chat/stream/${streamId}/cancel`);
+      return !!response?.success;
+    } catch (error) {
+      console.warn('스트림 취소 요청 실패:', error);
+      return false;
+    }
+  }
+
   /**
    * 채팅 히스토리 조회
    */
@@ -44,19 +136,134 @@ export class ChatAPI extends BackendAPIClient {
     }
   }
 
+  // ============================================================================
+  // 🗂️ 대화 관리 (/api/ai/conversations)
+  // ============================================================================
+
+  /**
+   * 대화 목록 - 고정된 대화 먼저, 최근 메시지 순 (조회 실패 시 빈 배열)
+   */
+  async listConversations(options: { archived?: boolean; query?: string } = {}): Promise<Conversation[]> {
+    const params: string[] = [];
+    if (options.archived) params.push('archived=true');
+    if (options.query) params.push(`q=${encodeURIComponent(options.query)}`);
+
+    try {
+      const response = await this.get(`/api/ai/conversations${params.length ? `?${params.join('&')}` : ''}`);
+      return Array.isArray(response.conversations) ? response.conversations : [];
+    } catch (error) {
+      console.warn('대화 목록 조회 실패:', error);
+      return [];
+    }
+  }
+
+  async createConversation(title?: string, model?: string): Promise<Conversation> {
+    const response = await this.post('/api/ai/conversations', { title, model });
+    return this.requireConversation(response);
+  }
+
+  /**
+   * 대화와 메시지 조회 (오래된 순)
+   */
+  async getConversation(conversationId: string): Promise<ConversationDetail> {
+    const response = await this.get(`/api/ai/conversations/${encodeURIComponent(conversationId)}`);
+    return {
+      conversation: this.requireConversation(response),
+      messages: (response.messages || []).map((row: any) => this.toMessage(row))
+    };
+  }
+
+  async updateConversation(conversationId: string, changes: ConversationUpdate): Promise<Conversation> {
+    const response = await this.patch(`/api/ai/conversations/${encodeURIComponent(conversationId)}`, changes);
+    return this.requireConversation(response);
+  }
+
+  async deleteConversation(conversationId: string): Promise<boolean> {
+    const response = await this.delete(`/api/ai/conversations/${encodeURIComponent(conversationId)}`);
+    return !!response?.success && !response.mock;
+  }
+
+  /**
+   * 메시지 지점까지 복사한 새 대화 생성
+   */
+  async forkConversation(conversationId: string, messageId: string, title?: string): Promise<ConversationDetail> {
+    const response = await this.post(`/api/ai/conversations/${encodeURIComponent(conversationId)}/fork`, { messageId, title });
+    return {
+      conversation: this.requireConversation(response),
+      messages: (response.messages || []).map((row: any) => this.toMessage(row))
+    };
+  }
+
+  /**
+   * 형제 가지 중 messageId 쪽으로 전환 - 그 아래 가장 최근 가지가 표시됨
+   */
+  async switchBranch(conversationId: string, messageId: string): Promise<ConversationDetail> {
+    const response = await this.put(`/api/ai/conversations/${encodeURIComponent(conversationId)}/active`, { messageId });
+    return {
+      conversation: this.requireConversation(response),
+      messages: (response.messages || []).map((row: any) => this.toMessage(row))
+    };
+  }
+
   /**
-   * 사용 가능한 AI 모델 목록 조회
+   * 사용 가능한 AI 모델 목록 조회 (백엔드 모델 레지스트리)
+   * 조회 실패 시 빈 배열 - ModelSelector가 기본 목록 사용
    */
-  async getAvailableModels(): Promise<string[]> {
+  async getAvailableModels(): Promise<AIModelInfo[]> {
     try {
       const response = await this.get('/api/ai/models');
-      return response.models || [];
+      return (response.models || []).filter((m: any) => m && typeof m.id === 'string');
     } catch (error) {
       console.warn('모델 목록 조회 실패, 기본 모델 사용:', error);
-      return ['gpt-4', 'claude-3', 'gemini-pro'];
+      return [];
+    }
+  }
+
+  /**
+   * 모델별 CUE 가격 조회 (1K 토큰당)
+   */
+  async getModelPricing(): Promise<Record<string, number>> {
+    try {
+      const response = await this.get('/api/cue/pricing');
+      const prices: Record<string, number> = {};
+      (response.pricing?.models || []).forEach((m: { model: string; per1kTokens: number }) => {
+        prices[m.model] = m.per1kTokens;
+      });
+      return prices;
+    } catch (error) {
+      console.warn('CUE 가격표 조회 실패, 기본 가격 사용:', error);
+      return {};
     }
   }
 
+  // 백엔드 연결 실패 시 BackendAPIClient가 Mock 응답을 돌려주므로 conversation 필드로 확인
+  private requireConversation(response: any): Conversation {
+    if (!response?.conversation?.id) {
+      throw new Error(response?.error || '대화 요청 실패');
+    }
+    return response.conversation;
+  }
+
+  /**
+   * chat_messages 행 → Message
+   */
+  private toMessage(row: any): Message {
+    return {
+      id: row.id,
+      content: row.content || '',
+      type: row.message_type === 'user' ? 'user' : 'ai',
+      timestamp: new Date(row.created_at || Date.now()),
+      usedPassportData: row.used_passport_data || undefined,
+      cueTokensUsed: row.cue_tokens_used || undefined,
+      cueTokensEarned: row.cue_tokens_earned || undefined,
+      streamStatus: row.metadata?.streamStatus,
+      routing: row.metadata?.routing || undefined,
+      context: row.metadata?.context || undefined,
+      parentId: row.parent_id ?? null,
+      branch: row.branch || undefined
+    };
+  }
+
   /**
    * Mock AI 응답 생성
    */
@@ -4,7 +4,16 @@
 // ============================================================================
 
 import { BackendAPIClient } from './BackendAPIClient';
-import type { CueBalance, CueHistory, CueMiningResult, CueTransaction } from '../../types/cue.types';
+import type {
+  CueBalance,
+  CueHistory,
+  CueMiningResult,
+  CueMiningState,
+  CueReceiptProof,
+  CueReceiptRoot,
+  CueReceiptSigningKey,
+  CueTransaction
+} from '../../types/cue.types';
 
 export class CueAPI extends BackendAPIClient {
   /**
@@ -42,13 +51,99 @@ export class CueAPI extends BackendAPIClient {
    */
   async getCueHistory(userDid: string): Promise<CueHistory> {
     try {
-      return await this.get(`/api/cue/${userDid}/history`);
+      const response = await this.get(`/api/cue/${userDid}/transactions`);
+      const transactions: CueTransaction[] = (response.transactions || []).map(
+        (row: any) => this.toCueTransaction(userDid, row)
+      );
+
+      // 검토 중/거절된 보상은 합계에서 제외
+      const totalEarned = transactions
+        .filter(t => t.type === 'earned' && t.status === 'completed')
+        .reduce((sum, t) => sum + t.amount, 0);
+
+      const totalSpent = transactions
+        .filter(t => t.type === 'spent')
+        .reduce((sum, t) => sum + t.amount, 0);
+
+      return {
+        transactions,
+        totalEarned,
+        totalSpent,
+        averagePerDay: totalEarned / 30, // 30일 기준
+        lastTransaction: transactions[0]?.timestamp,
+      };
     } catch (error) {
       console.error('CUE 내역 조회 실패:', error);
       throw error;
     }
   }
 
+  /**
+   * 마이닝 상태 조회 (일일 한도, 쿨다운, 연속 일수)
+   */
+  async getMiningState(userDid: string): Promise<CueMiningState> {
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      const response = await this.get(
+        `/api/cue/${userDid}/mining-state?timezone=${encodeURIComponent(timezone)}`
+      );
+      const state = response.miningState;
+      const cooldowns: Record<string, Date> = {};
+      Object.keys(state.cooldowns || {}).forEach(source => {
+        cooldowns[source] = new Date(state.cooldowns[source]);
+      });
+
+      return {
+        ...state,
+        cooldownUntil: state.cooldownUntil ? new Date(state.cooldownUntil) : undefined,
+        nextLoginBonusAt: state.nextLoginBonusAt ? new Date(state.nextLoginBonusAt) : undefined,
+        cooldowns,
+      };
+    } catch (error) {
+      console.error('마이닝 상태 조회 실패:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 마이닝 거래 포함 증명 조회 (검증은 lib/crypto-utils의 verifyCueReceipt)
+   */
+  async getTransactionProof(transactionId: string): Promise<CueReceiptProof> {
+    try {
+      const response = await this.get(`/api/cue/transactions/${encodeURIComponent(transactionId)}/proof`);
+      return response.receipt;
+    } catch (error) {
+      console.error('CUE 영수증 증명 조회 실패:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 일별 영수증 루트 조회 (YYYY-MM-DD, UTC)
+   */
+  async getReceiptRoot(date: string): Promise<CueReceiptRoot> {
+    try {
+      const response = await this.get(`/api/cue/roots/${date}`);
+      return response.root;
+    } catch (error) {
+      console.error('CUE 영수증 루트 조회 실패:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * 영수증 루트 서명 공개키 조회 (verifyCueReceipt에 고정 키로 전달)
+   */
+  async getReceiptSigningKey(): Promise<CueReceiptSigningKey> {
+    try {
+      const response = await this.get('/api/cue/receipts/signing-key');
+      return response.signingKey;
+    } catch (error) {
+      console.error('CUE 영수증 서명 키 조회 실패:', error);
+      throw error;
+    }
+  }
+
   /**
    * CUE 소비 (기능 사용)
    */
@@ -70,6 +165,44 @@ export class CueAPI extends BackendAPIClient {
     }
   }
 
+  /**
+   * 원장 거래 행(부호 있는 amount) → CueTransaction
+   */
+  private toCueTransaction(userDid: string, row: any): CueTransaction {
+    const amount = Number(row.amount) || 0;
+    const metadata = row.metadata || {};
+    const isTransfer = row.transaction_type === 'transfer';
+
+    let source: CueTransaction['source'] = 'mining';
+    if (isTransfer) source = 'transfer';
+    else if (row.source === 'ai_chat' || row.source === 'chat') source = 'chat';
+    else if (row.source === 'verification') source = 'verification';
+    else if (row.source === 'referral') source = 'referral';
+    else if (/bonus|registration|daily_login/.test(row.source || '')) source = 'bonus';
+
+    return {
+      id: row.id,
+      userDid,
+      amount: Math.abs(amount),
+      type: amount >= 0 ? 'earned' : 'spent',
+      source,
+      purpose: row.description || undefined,
+      metadata,
+      timestamp: new Date(row.created_at),
+      status: row.status === 'pending' || row.status === 'rejected' ? row.status : 'completed',
+      blockNumber: row.block_number ?? undefined,
+      transactionHash: row.tx_hash ?? undefined,
+      cueHash: row.cue_hash ?? undefined,
+      transfer: isTransfer ? {
+        transferId: metadata.transferId,
+        direction: amount >= 0 ? 'incoming' : 'outgoing',
+        counterpartyDid: metadata.fromDid === userDid ? metadata.toDid : metadata.fromDid,
+        memo: metadata.memo || undefined,
+        phase: metadata.phase || 'direct',
+      } : undefined,
+    };
+  }
+
   /**
    * Mock CUE 마이닝 결과 생성
    */
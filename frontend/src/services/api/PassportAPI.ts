@@ -4,7 +4,7 @@
 // ============================================================================
 
 import { BackendAPIClient } from './BackendAPIClient';
-import type { UnifiedAIPassport } from '../../types/passport.types';
+import type { UnifiedAIPassport, PresentationRequest } from '../../types/passport.types';
 
 export class PassportAPI extends BackendAPIClient {
   /**
@@ -43,6 +43,39 @@ export class PassportAPI extends BackendAPIClient {
     }
   }
 
+  /**
+   * 나에게 온 대기 중인 제시 요청 조회
+   */
+  async getPresentationRequests(): Promise<PresentationRequest[]> {
+    const response = await this.get('/api/vc/presentation-requests');
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '제시 요청을 불러오지 못했습니다.');
+    }
+    return response.requests;
+  }
+
+  /**
+   * 제시 요청 승인 - 선택한 속성만 공개하는 SD-JWT 제시가 생성됨
+   */
+  async approvePresentationRequest(requestId: string, claims: string[]): Promise<PresentationRequest> {
+    const response = await this.post(`/api/vc/presentation-requests/${requestId}/approve`, { claims });
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '제시 요청 승인에 실패했습니다.');
+    }
+    return response.request;
+  }
+
+  /**
+   * 제시 요청 거절
+   */
+  async rejectPresentationRequest(requestId: string): Promise<PresentationRequest> {
+    const response = await this.post(`/api/vc/presentation-requests/${requestId}/reject`);
+    if (response.mock || !response.success) {
+      throw new Error(response.error || '제시 요청 거절에 실패했습니다.');
+    }
+    return response.request;
+  }
+
   /**
    * Mock 패스포트 데이터 생성
    */
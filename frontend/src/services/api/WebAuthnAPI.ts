@@ -4,7 +4,7 @@
 // ============================================================================
 
 import { BackendAPIClient } from './BackendAPIClient';
-import type { WebAuthnRegistrationResult, WebAuthnLoginResult } from '../../types/auth.types';
+import type { WebAuthnRegistrationResult, WebAuthnLoginResult, PasskeyDevice } from '../../types/auth.types';
 
 // WebAuthn 라이브러리 동적 로드
 let startRegistration: any = null;
@@ -108,6 +108,11 @@ export class WebAuthnAPI extends BackendAPIClient {
         console.log('💾 영구 세션 토큰 저장 완료');
       }
 
+      // 액세스 토큰 만료 시 갱신에 사용할 리프레시 토큰 저장
+      if (completeResponse.refreshToken) {
+        this.setRefreshToken(completeResponse.refreshToken);
+      }
+
       // 🔧 호환성: 기존 세션 ID도 저장 (레거시 지원)
       if (completeResponse.sessionId) {
         if (typeof window !== 'undefined') {
@@ -228,6 +233,11 @@ export class WebAuthnAPI extends BackendAPIClient {
         console.log('💾 로그인 세션 토큰 저장 완료');
       }
 
+      // 액세스 토큰 만료 시 갱신에 사용할 리프레시 토큰 저장
+      if (completeResponse.refreshToken) {
+        this.setRefreshToken(completeResponse.refreshToken);
+      }
+
       // 🔧 호환성: 기존 토큰 필드도 처리
       if (completeResponse.token) {
         this.setSessionToken(completeResponse.token);
@@ -259,6 +269,92 @@ export class WebAuthnAPI extends BackendAPIClient {
     }
   }
 
+  // ============================================================================
+  // 📱 패스키(기기) 관리 - 로그인 세션 필요
+  // ============================================================================
+
+  /**
+   * 내 계정에 등록된 패스키 목록
+   */
+  async listPasskeys(): Promise<PasskeyDevice[]> {
+    const response = await this.get('/api/auth/webauthn/credentials');
+    return Array.isArray(response.credentials) ? response.credentials : [];
+  }
+
+  /**
+   * 패스키 이름 변경
+   */
+  async renamePasskey(credentialId: string, name: string): Promise<PasskeyDevice> {
+    const response = await this.put(
+      `/api/auth/webauthn/credentials/${encodeURIComponent(credentialId)}`,
+      { name }
+    );
+
+    if (response.mock || !response.success) {
+      throw new Error(response.message || '패스키 이름 변경에 실패했습니다.');
+    }
+
+    return response.credential;
+  }
+
+  /**
+   * 패스키 폐기 (마지막 패스키는 서버에서 거부)
+   */
+  async revokePasskey(credentialId: string): Promise<void> {
+    const response = await this.delete(
+      `/api/auth/webauthn/credentials/${encodeURIComponent(credentialId)}`
+    );
+
+    if (response.mock || !response.success) {
+      throw new Error(response.message || '패스키 폐기에 실패했습니다.');
+    }
+  }
+
+  /**
+   * 현재 기기에 새 패스키 추가 (이미 로그인된 세션에서)
+   */
+  async addPasskey(name?: string): Promise<PasskeyDevice> {
+    const startResponse = await this.post('/api/auth/webauthn/credentials/register/start', {
+      name,
+      deviceInfo: {
+        platform: navigator.platform,
+        userAgent: navigator.userAgent,
+        timestamp: Date.now()
+      }
+    });
+
+    if (startResponse.mock || !startResponse.success || !startResponse.options) {
+      throw new Error(startResponse.message || '패스키 추가를 시작할 수 없습니다.');
+    }
+
+    const loaded = await loadWebAuthn();
+    if (!loaded) {
+      throw new Error('이 브라우저에서는 패스키를 추가할 수 없습니다.');
+    }
+
+    try {
+      const credential = await startRegistration(startResponse.options);
+
+      const completeResponse = await this.post('/api/auth/webauthn/credentials/register/complete', {
+        credential,
+        sessionId: startResponse.sessionId
+      });
+
+      if (completeResponse.mock || !completeResponse.success) {
+        throw new Error(completeResponse.message || '패스키 추가에 실패했습니다.');
+      }
+
+      return completeResponse.credential;
+    } catch (error: any) {
+      if (error.name === 'InvalidStateError') {
+        throw new Error('이 기기에는 이미 패스키가 등록되어 있습니다.');
+      } else if (error.name === 'NotAllowedError') {
+        throw new Error('사용자가 생체인증을 취소했습니다.');
+      }
+      throw error;
+    }
+  }
+
   // ============================================================================
   // 🎭 Mock WebAuthn (백엔드 연결 실패시 폴백)
   // ============================================================================
@@ -269,14 +269,16 @@ export const usePassportStore = create<PassportState>((set, get) => ({
 
 import { create } from 'zustand';
 import { ChatAPI } from '../services/api/ChatAPI';
-import type { ChatMessage, ChatSession, ModelType } from '../types/chat.types';
+import type { Conversation, ConversationUpdate, Message as ChatMessage } from '../types/chat.types';
+
+const chatAPI = new ChatAPI();
 
 interface ChatState {
-  // 상태
+  // 상태 - 세션 = 백엔드 대화 (/api/ai/conversations)
   messages: ChatMessage[];
-  sessions: ChatSession[];
-  currentSession: ChatSession | null;
-  selectedModel: ModelType;
+  sessions: Conversation[];
+  currentSession: Conversation | null;
+  selectedModel: string;
   isTyping: boolean;
   error: string | null;
   
@@ -285,7 +287,10 @@ interface ChatState {
   createSession: (name?: string) => Promise<void>;
   switchSession: (sessionId: string) => Promise<void>;
   loadSessions: () => Promise<void>;
-  setSelectedModel: (model: ModelType) => void;
+  updateSession: (sessionId: string, changes: ConversationUpdate) => Promise<void>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  forkSession: (messageId: string, title?: string) => Promise<void>;
+  setSelectedModel: (model: string) => void;
   clearMessages: () => void;
   clearError: () => void;
 }
@@ -295,7 +300,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
   messages: [],
   sessions: [],
   currentSession: null,
-  selectedModel: 'gpt-4',
+  selectedModel: 'personalized-agent',
   isTyping: false,
   error: null,
 
@@ -308,8 +313,7 @@ export const useChatStore = create<ChatState>((set, get) => ({
       id: Date.now().toString(),
       content,
       type: 'user',
-      timestamp: new Date(),
-      sessionId: currentSession?.id
+      timestamp: new Date()
     };
 
     set(state => ({ 
@@ -319,39 +323,28 @@ export const useChatStore = create<ChatState>((set, get) => ({
     }));
 
     try {
-      const result = await ChatAPI.sendMessage({
-        message: content,
-        model: selectedModel,
-        sessionId: currentSession?.id,
-        passportData
-      });
-
-      if (result.success) {
-        const aiMessage: ChatMessage = {
-          id: result.messageId || (Date.now() + 1).toString(),
-          content: result.response,
-          type: 'ai',
-          timestamp: new Date(),
-          sessionId: result.sessionId,
-          usedPassportData: result.usedPassportData,
-          cueTokensEarned: result.cueTokensEarned,
-          model: result.model
-        };
+      const result = await chatAPI.sendChatMessage(content, selectedModel, passportData, { conversationId: currentSession?.id });
+
+      const aiMessage: ChatMessage = {
+        id: result.messageId || (Date.now() + 1).toString(),
+        content: result.message,
+        type: 'ai',
+        timestamp: new Date(),
+        cueTokensEarned: result.cueEarned,
+        routing: result.routing
+      };
+
+      set(state => ({ 
+        messages: [...state.messages, aiMessage],
+        isTyping: false 
+      }));
 
-        set(state => ({ 
-          messages: [...state.messages, aiMessage],
-          isTyping: false 
+      // 첫 메시지로 대화가 생성된 경우 세션 목록 새로고침 후 선택
+      if (result.conversationId && !currentSession) {
+        await get().loadSessions();
+        set(state => ({
+          currentSession: state.sessions.find(s => s.id === result.conversationId) || null
         }));
-
-        // 새 세션이 생성된 경우 세션 목록 새로고침
-        if (result.sessionId && !currentSession) {
-          await get().loadSessions();
-        }
-      } else {
-        set({ 
-          error: result.error || 'AI 응답 실패',
-          isTyping: false 
-        });
       }
     } catch (error: any) {
       set({ 
@@ -366,21 +359,14 @@ export const useChatStore = create<ChatState>((set, get) => ({
     const { selectedModel } = get();
     
     try {
-      const result = await ChatAPI.createSession({
-        name: name || `Chat ${new Date().toLocaleDateString()}`,
-        model: selectedModel
-      });
-
-      if (result.success && result.session) {
-        set(state => ({
-          sessions: [result.session!, ...state.sessions],
-          currentSession: result.session!,
-          messages: [],
-          error: null
-        }));
-      } else {
-        set({ error: result.error || '세션 생성 실패' });
-      }
+      // 이름이 없으면 첫 메시지에서 자동 제목
+      const session = await chatAPI.createConversation(name, selectedModel);
+      set(state => ({
+        sessions: [session, ...state.sessions],
+        currentSession: session,
+        messages: [],
+        error: null
+      }));
     } catch (error: any) {
       set({ error: error.message });
     }
@@ -396,13 +382,12 @@ export const useChatStore = create<ChatState>((set, get) => ({
     set({ currentSession: session });
 
     try {
-      const result = await ChatAPI.getChatHistory(sessionId);
-      if (result.success) {
-        set({ 
-          messages: result.messages || [],
-          error: null 
-        });
-      }
+      const { conversation, messages } = await chatAPI.getConversation(sessionId);
+      set({ 
+        currentSession: conversation,
+        messages,
+        error: null 
+      });
     } catch (error: any) {
       set({ error: error.message });
     }
@@ -411,20 +396,65 @@ export const useChatStore = create<ChatState>((set, get) => ({
   // 세션 목록 로드
   loadSessions: async () => {
     try {
-      const result = await ChatAPI.getSessions();
-      if (result.success) {
-        set({ 
-          sessions: result.sessions || [],
-          error: null 
-        });
-      }
+      const sessions = await chatAPI.listConversations();
+      set({ 
+        sessions,
+        error: null 
+      });
+    } catch (error: any) {
+      set({ error: error.message });
+    }
+  },
+
+  // 세션 이름 변경 / 고정 / 보관
+  updateSession: async (sessionId: string, changes: ConversationUpdate) => {
+    try {
+      const updated = await chatAPI.updateConversation(sessionId, changes);
+      set(state => ({
+        sessions: state.sessions.map(s => s.id === updated.id ? updated : s),
+        currentSession: state.currentSession?.id === updated.id ? updated : state.currentSession,
+        error: null
+      }));
+    } catch (error: any) {
+      set({ error: error.message });
+    }
+  },
+
+  // 세션 삭제 (메시지 포함)
+  deleteSession: async (sessionId: string) => {
+    const deleted = await chatAPI.deleteConversation(sessionId);
+    if (!deleted) {
+      set({ error: '세션 삭제 실패' });
+      return;
+    }
+
+    set(state => ({
+      sessions: state.sessions.filter(s => s.id !== sessionId),
+      ...(state.currentSession?.id === sessionId ? { currentSession: null, messages: [] } : {}),
+      error: null
+    }));
+  },
+
+  // 현재 세션을 메시지 지점에서 분기
+  forkSession: async (messageId: string, title?: string) => {
+    const { currentSession } = get();
+    if (!currentSession) return;
+
+    try {
+      const { conversation, messages } = await chatAPI.forkConversation(currentSession.id, messageId, title);
+      set(state => ({
+        sessions: [conversation, ...state.sessions],
+        currentSession: conversation,
+        messages,
+        error: null
+      }));
     } catch (error: any) {
       set({ error: error.message });
     }
   },
 
   // 모델 선택
-  setSelectedModel: (model: ModelType) => set({ selectedModel: model }),
+  setSelectedModel: (model: string) => set({ selectedModel: model }),
 
   // 메시지 클리어
   clearMessages: () => set({ messages: [] }),
@@ -15,6 +15,20 @@ export interface WebAuthnCredential {
   createdAt: Date;
 }
 
+// 사용자 계정에 등록된 패스키 (기기별)
+export interface PasskeyDevice {
+  credentialId: string;
+  name: string;
+  platform: string | null;
+  deviceType: 'singleDevice' | 'multiDevice';
+  backedUp: boolean;
+  transports: string[];
+  counter: number;
+  createdAt: string;
+  lastUsed: string | null;
+  isCurrent: boolean;
+}
+
 export interface AuthUser {
   did: string;
   walletAddress: string;
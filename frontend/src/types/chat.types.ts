@@ -11,6 +11,18 @@ export interface Message {
   usedPassportData?: string[];
   cueTokensUsed?: number;
   cueTokensEarned?: number;
+  /** 스트리밍 중인 AI 응답 (토큰이 도착할 때마다 content가 늘어남) */
+  streaming?: boolean;
+  /** 스트림 종료 상태 - 취소/실패 시 부분 응답 */
+  streamStatus?: ChatStreamStatus;
+  /** 실제로 응답한 제공자와 폴백 이유 */
+  routing?: ResponseRouting;
+  /** 대화 트리의 부모 메시지 (루트면 null) */
+  parentId?: string | null;
+  /** 같은 부모 아래 형제 가지 (편집/재생성으로 생긴 다른 버전) */
+  branch?: MessageBranch;
+  /** 응답 프롬프트에 들어간 이전 대화/CUE/볼트 스니펫 */
+  context?: ContextReport;
   verification?: {
     biometric: boolean;
     did: boolean;
@@ -18,22 +30,139 @@ export interface Message {
   };
 }
 
+export interface MessageBranch {
+  /** 형제 중 이 메시지의 순서 (0부터, 오래된 순) */
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+export type ChatStreamStatus = 'completed' | 'cancelled' | 'failed';
+
+/** 백엔드 컨텍스트 조립 결과 (모델별 토큰 예산 안에 무엇이 들어갔는지) */
+export interface ContextReport {
+  model: string;
+  provider: AIProviderId;
+  tokenizer: string;
+  contextWindow: number;
+  reservedOutputTokens: number;
+  /** 입력 토큰 예산 */
+  budget: number;
+  inputTokens: number;
+  sections: {
+    profile: number;
+    cues: number;
+    vault: number;
+    summary: number;
+    history: number;
+    message: number;
+  };
+  history: {
+    total: number;
+    included: number;
+    /** 원문 대신 요약으로 들어간 오래된 메시지 수 */
+    summarized: number;
+    includedIds: string[];
+  };
+  cues: ContextCueReport;
+  vault: ContextCueReport;
+  messageTruncated: boolean;
+}
+
+export interface ContextCueReport {
+  available: number;
+  includedIds: string[];
+  /** 포함된 CUE별 검색 근거 (키워드/의미 유사도/최신/중요도) - 이전 응답에는 없음 */
+  reasons?: Record<string, string[]>;
+}
+
+/** 백엔드 폴백 체인 결과 (어느 모델이 왜 응답했는지) */
+export interface ResponseRouting {
+  requestedModel: string;
+  /** 시뮬레이션 응답이면 null */
+  answeredBy: string | null;
+  provider: AIProviderId | 'simulated';
+  fallback: boolean;
+  reason: 'primary' | 'error' | 'circuit_open' | 'not_configured';
+  attempts: Array<{
+    model: string;
+    provider: AIProviderId;
+    outcome: 'ok' | 'error' | 'circuit_open' | 'not_configured';
+    latencyMs?: number;
+    error?: string;
+  }>;
+}
+
 export type ResponseType = 'greeting' | 'question' | 'technical' | 'help' | 'general';
 
 export interface ChatState {
   messages: Message[];
   isLoading: boolean;
   selectedModel: string;
-  availableModels: string[];
+  availableModels: AIModelInfo[];
+  /** 모델별 1K 토큰당 CUE */
+  modelPrices: Record<string, number>;
+  /** 현재 대화 (첫 메시지를 보내면 백엔드가 생성) */
+  conversationId: string | null;
+  conversations: Conversation[];
+}
+
+/** /api/ai/conversations 항목 */
+export interface Conversation {
+  id: string;
+  title: string;
+  /** 'auto': 첫 메시지에서 자동 생성, 'user': 사용자가 변경 */
+  titleSource: 'auto' | 'user';
+  pinned: boolean;
+  archived: boolean;
+  model: string | null;
+  messageCount: number;
+  lastMessage: {
+    preview: string;
+    role: 'user' | 'ai';
+    at: string;
+  } | null;
+  forkedFrom: {
+    conversationId: string;
+    messageId: string;
+  } | null;
+  /** 현재 보고 있는 가지의 마지막 메시지 */
+  activeMessageId: string | null;
+  createdAt: string;
+  updatedAt: string;
 }
 
-export interface AIModelConfig {
+export interface ConversationDetail {
+  conversation: Conversation;
+  messages: Message[];
+}
+
+export interface ConversationUpdate {
+  /** null이면 자동 제목으로 되돌림 */
+  title?: string | null;
+  pinned?: boolean;
+  archived?: boolean;
+}
+
+export type AIProviderId = 'openai' | 'anthropic' | 'gemini' | 'ollama' | 'mock';
+
+/** /api/ai/models 항목 (백엔드 모델 레지스트리) */
+export interface AIModelInfo {
+  id: string;
   name: string;
-  displayName: string;
-  provider: 'openai' | 'anthropic' | 'google' | 'mock';
-  maxTokens: number;
-  temperature: number;
+  provider: AIProviderId;
+  description: string;
   available: boolean;
+  /** 1K 토큰당 CUE */
+  cuePer1kTokens: number;
+  contextWindow: number;
+  maxOutputTokens: number;
+  capabilities: {
+    chat: boolean;
+    streaming: boolean;
+    embeddings: boolean;
+  };
+  aliases: string[];
 }
 
 export interface ChatResponse {
@@ -41,5 +170,48 @@ export interface ChatResponse {
   model: string;
   tokensUsed?: number;
   cueEarned?: number;
+  /** 실제 토큰 사용량으로 정산된 CUE 비용 */
+  cueSpent?: number;
   processingTime?: number;
-}
\ No newline at end of file
+  /** 백엔드가 메시지를 저장한 대화 */
+  conversationId?: string;
+  /** 스트리밍 응답일 때만 */
+  messageId?: string;
+  streamStatus?: ChatStreamStatus;
+  routing?: ResponseRouting;
+  context?: ContextReport;
+}
+
+/** 채팅 요청 대상 - editOf: 편집할 사용자 메시지, regenerate: 다시 생성할 AI 메시지 */
+export interface ChatTurnOptions {
+  conversationId?: string;
+  editOf?: string;
+  regenerate?: string;
+}
+
+/** /api/ai/chat/stream start 이벤트 */
+export interface ChatStreamStart {
+  streamId: string;
+  messageId: string;
+  conversationId: string;
+  /** 이번 응답의 사용자 메시지 (재생성이면 기존 메시지) */
+  userMessageId: string;
+  model: string;
+}
+
+/** /api/ai/chat/stream chunk 이벤트 */
+export interface ChatStreamChunk {
+  streamId: string;
+  messageId: string;
+  index: number;
+  text: string;
+  /** 지금까지의 응답 토큰 추정치 */
+  outputTokens: number;
+}
+
+export interface ChatStreamHandlers {
+  onStart?: (start: ChatStreamStart) => void;
+  onChunk?: (chunk: ChatStreamChunk) => void;
+  /** abort 시 연결을 끊어 서버 스트림도 취소됨 */
+  signal?: AbortSignal;
+}
@@ -8,12 +8,27 @@ export interface CueTransaction {
   userDid: string;
   amount: number;
   type: 'earned' | 'spent';
-  source: 'chat' | 'mining' | 'verification' | 'bonus' | 'referral';
+  source: 'chat' | 'mining' | 'verification' | 'bonus' | 'referral' | 'transfer';
   purpose?: string;
   metadata?: any;
   timestamp: Date;
   blockNumber?: number;
   transactionHash?: string;
+  /** 마이닝 영수증 리프 해시 (일별 Merkle 트리에 포함) */
+  cueHash?: string;
+  transfer?: CueTransferInfo;
+  /** pending: 어뷰징 검토 중 (미지급) | rejected: 검토 후 지급 거절 */
+  status?: 'completed' | 'pending' | 'rejected';
+}
+
+/** DID 간 송금 거래 정보 (source가 'transfer'일 때) */
+export interface CueTransferInfo {
+  transferId: string;
+  direction: 'incoming' | 'outgoing';
+  counterpartyDid: string;
+  memo?: string;
+  /** direct: 즉시 송금 | escrow: 에스크로 보관 | release: 에스크로 지급 | refund: 에스크로 환불 */
+  phase: 'direct' | 'escrow' | 'release' | 'refund';
 }
 
 export interface CueMiningResult {
@@ -50,4 +65,55 @@ export interface CueMiningState {
   cooldownUntil?: Date;
   multiplier: number;
   streakDays: number;
-}
\ No newline at end of file
+  // 아래는 GET /api/cue/:did/mining-state 응답에서 채워짐
+  timezone?: string;
+  dailyCap?: number;
+  minedToday?: number;
+  remainingToday?: number;
+  /** 쿨다운 중인 소스별 재개 시각 */
+  cooldowns?: Record<string, Date>;
+  /** 오늘 소스별 마이닝 횟수 (ai_chat, daily_login 등) */
+  activityToday?: Record<string, number>;
+  loginBonusClaimedToday?: boolean;
+  nextLoginBonusAt?: Date;
+  weeklyMined?: number;
+  monthlyMined?: number;
+  totalMined?: number;
+}
+/** 서버가 서명한 일별 마이닝 영수증 루트 (GET /api/cue/roots/:date) */
+export interface CueReceiptRoot {
+  date: string;
+  root: string;
+  leafCount: number;
+  algorithm: string;
+  /** base64 ECDSA P-256 (r||s) 서명 */
+  signature: string;
+  keyId: string;
+  publicKey: JsonWebKey;
+  sealedAt: string;
+}
+
+/** 영수증 루트 서명 공개키 (GET /api/cue/receipts/signing-key) - 검증 시 고정해서 사용 */
+export interface CueReceiptSigningKey {
+  keyId: string;
+  algorithm: string;
+  publicKey: JsonWebKey;
+}
+
+/** 마이닝 거래 포함 증명 (GET /api/cue/transactions/:id/proof) */
+export interface CueReceiptProof {
+  transactionId: string;
+  leafVersion: string;
+  leaf: {
+    entryId: string;
+    did: string;
+    amount: number;
+    type: string;
+    source: string | null;
+    createdAt: string;
+  };
+  cueHash: string;
+  leafIndex: number;
+  proof: string[];
+  root: CueReceiptRoot;
+}
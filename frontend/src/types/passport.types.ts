@@ -87,4 +87,18 @@ export interface UnifiedAIPassport {
   contextHistory: ContextEntry[];
   cueHistory: CueEntry[];
   personalizedAgents: PersonalizedAgent[];
-}
\ No newline at end of file
+}
+// 선택적 공개 제시 요청 (파트너 앱 → 사용자 승인)
+export interface PresentationRequest {
+  id: string;
+  subjectDid: string;
+  audience: string;
+  nonce: string;
+  purpose: string | null;
+  requestedClaims: string[];
+  disclosedClaims: string[] | null;
+  status: 'pending' | 'approved' | 'rejected' | 'expired';
+  createdAt: string;
+  expiresAt: string;
+  respondedAt: string | null;
+}